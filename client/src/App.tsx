@@ -11,6 +11,7 @@ import Tips from "@/pages/Tips";
 import Settings from "@/pages/Settings";
 import AddFoodItemPage from "@/pages/AddFoodItemPage";
 import MealPlanning from "@/pages/MealPlanning";
+import ShoppingList from "@/pages/ShoppingList";
 import CommunityChat from "@/pages/CommunityChat";
 import AuthPage from "@/pages/auth-page";
 import LandingPage from "@/pages/LandingPage";
@@ -44,6 +45,7 @@ function Router() {
         {() => <Redirect to="/dashboard" />}
       </Route>
       <ProtectedRoute path="/meal-planning" component={MealPlanning} />
+      <ProtectedRoute path="/shopping-list" component={ShoppingList} />
       <ProtectedRoute path="/tips" component={Tips} />
       <ProtectedRoute path="/community" component={CommunityChat} />
       <ProtectedRoute path="/settings" component={Settings} />
@@ -1,12 +1,25 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertFoodItemSchema, FOOD_CATEGORIES, STORAGE_LOCATIONS, QUANTITY_UNITS } from "@shared/schema";
+import { CURRENCIES, insertFoodItemSchema, QUANTITY_UNITS } from "@shared/schema";
+import { isWeightUnit } from "@shared/units";
+import { detectAllergens } from "@shared/dietary";
 import { z } from "zod";
-import { format, addDays } from "date-fns";
+import { format } from "date-fns";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useShelfLifeSuggestion } from "@/hooks/use-shelf-life-suggestion";
+import { useDuplicateCheck } from "@/hooks/use-duplicate-check";
+import { useCategories, useStorageLocations } from "@/hooks/use-categories";
+import { createDefaultExpirationDate } from "@/lib/utils/dateUtils";
+import { ScanBarcode } from "lucide-react";
+import BarcodeScanner, { BarcodeScanResult } from "@/components/BarcodeScanner";
+import ShelfLifeHint from "@/components/ShelfLifeHint";
+import DuplicateItemHint from "@/components/DuplicateItemHint";
+import TagInput from "@/components/TagInput";
+import PhotoInput from "@/components/PhotoInput";
+import AllergenInput from "@/components/AllergenInput";
 
 import {
   Dialog,
@@ -38,6 +51,7 @@ import {
 const formSchema = insertFoodItemSchema.extend({
   purchaseDate: z.string(),
   expirationDate: z.string(),
+  tags: z.array(z.string()).optional(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -48,13 +62,16 @@ type AddItemDialogProps = {
 };
 
 export default function AddItemDialog({ open, onOpenChange }: AddItemDialogProps) {
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [scannerOpen, setScannerOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Default dates
   const today = new Date();
-  const defaultExpiryDate = addDays(today, 7);
+  const defaultExpiryDate = createDefaultExpirationDate(today);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -67,24 +84,71 @@ export default function AddItemDialog({ open, onOpenChange }: AddItemDialogProps
       expirationDate: format(defaultExpiryDate, 'yyyy-MM-dd'),
       storageLocation: "refrigerator",
       notes: "",
+      price: null,
+      currency: "USD",
+      store: null,
+      tags: [],
+      photos: [],
+      allergens: [],
     },
   });
 
+  // Follow the shelf-life suggestion until the user picks an expiration date themselves
+  const expirationTouched = useRef(false);
+  const { suggestion } = useShelfLifeSuggestion({
+    name: form.watch("name"),
+    category: form.watch("category"),
+    storageLocation: form.watch("storageLocation"),
+    purchaseDate: form.watch("purchaseDate"),
+  });
+
+  useEffect(() => {
+    if (suggestion && !expirationTouched.current) {
+      form.setValue("expirationDate", suggestion.expirationDate);
+    }
+  }, [suggestion, form]);
+
+  // Once the user has seen that the item looks like one they have, saving keeps it separate
+  const [duplicateWarned, setDuplicateWarned] = useState(false);
+  const { duplicates } = useDuplicateCheck({
+    name: form.watch("name"),
+    category: form.watch("category"),
+    storageLocation: form.watch("storageLocation"),
+  }, open);
+
+  const resetForm = () => {
+    form.reset();
+    expirationTouched.current = false;
+    setDuplicateWarned(false);
+  };
+
   const addItemMutation = useMutation({
     mutationFn: async (values: FormValues) => {
-      return await apiRequest('POST', '/api/food-items', values);
+      return await apiRequest('POST', '/api/food-items', {
+        ...values,
+        allowDuplicate: duplicateWarned || duplicates.length > 0,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
       toast({
         title: "Item added",
         description: "The item has been successfully added to your inventory.",
       });
       onOpenChange(false);
-      form.reset();
+      resetForm();
     },
     onError: (error) => {
+      if (error.message.startsWith("409:")) {
+        setDuplicateWarned(true);
+        toast({
+          title: "Already in your inventory",
+          description: "Add this purchase to the existing item, or save again to keep it separate.",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: `Failed to add item: ${error}`,
@@ -101,48 +165,322 @@ export default function AddItemDialog({ open, onOpenChange }: AddItemDialogProps
     addItemMutation.mutate(values);
   };
 
+  // Pre-fill the form from the product catalog
+  const handleScan = ({ barcode, product }: BarcodeScanResult) => {
+    form.setValue("barcode", barcode);
+
+    if (!product) {
+      toast({
+        title: "Product not found",
+        description: "Fill in the details once and we'll remember them for the next scan.",
+      });
+      return;
+    }
+
+    form.setValue("name", product.name);
+    form.setValue("category", product.category);
+    form.setValue("unit", product.unit);
+    form.setValue("storageLocation", product.storageLocation);
+    if (product.suggestedExpirationDate) {
+      form.setValue("expirationDate", product.suggestedExpirationDate);
+      expirationTouched.current = true;
+    }
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg">
-        <DialogHeader>
-          <DialogTitle>Add New Item</DialogTitle>
-        </DialogHeader>
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Item Name</FormLabel>
-                  <FormControl>
-                    <Input {...field} placeholder="e.g. Apples" />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add New Item</DialogTitle>
+          </DialogHeader>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setScannerOpen(true)}
+            className="w-full"
+          >
+            <ScanBarcode className="h-4 w-4 mr-2" />
+            Scan Barcode
+          </Button>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Item Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Apples" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {categories.map((category) => (
+                            <SelectItem key={category.key} value={category.key}>
+                              {category.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-2">
+                  <FormLabel>Quantity</FormLabel>
+                  <div className="flex">
+                    <FormField
+                      control={form.control}
+                      name="quantity"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              step="any"
+                              {...field}
+                              onChange={e => field.onChange(parseFloat(e.target.value))}
+                              className="rounded-r-none"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="unit"
+                      render={({ field }) => (
+                        <FormItem className="w-24">
+                          <Select
+                            onValueChange={field.onChange}
+                            value={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger className="rounded-l-none border-l-0">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {QUANTITY_UNITS.map((unit) => (
+                                <SelectItem key={unit} value={unit}>
+                                  {unit}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {!isWeightUnit(form.watch("unit") || "items") && (
+                <FormField
+                  control={form.control}
+                  name="unitWeight"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Weight per {form.watch("unit") === "package" ? "Package" : "Item"} in g (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          placeholder="e.g. 180"
+                          value={field.value ?? ""}
+                          onChange={e => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
 
-            <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price Paid (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          placeholder="e.g. 3.49"
+                          value={field.value ?? ""}
+                          onChange={e => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CURRENCIES.map((currency) => (
+                            <SelectItem key={currency} value={currency}>
+                              {currency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="store"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Store (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g. Corner Market"
+                          value={field.value ?? ""}
+                          onChange={e => field.onChange(e.target.value || null)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="purchaseDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Purchase Date</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          {...field}
+                          value={field.value ? field.value : ''}
+                          onChange={(e) => {
+                            // Explicitly set the exact date string without any conversion
+                            field.onChange(e.target.value);
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="expirationDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expiration Date</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          {...field}
+                          value={field.value ? field.value : ''}
+                          onChange={(e) => {
+                            // Explicitly set the exact date string without any conversion
+                            expirationTouched.current = true;
+                            field.onChange(e.target.value);
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <ShelfLifeHint
+                suggestion={suggestion}
+                onApply={form.watch("expirationDate") !== suggestion?.expirationDate
+                  ? (expirationDate) => {
+                      form.setValue("expirationDate", expirationDate);
+                      expirationTouched.current = false;
+                    }
+                  : undefined}
+              />
+
+              <DuplicateItemHint
+                duplicates={duplicates}
+                purchase={{
+                  quantity: form.watch("quantity") ?? 0,
+                  unit: form.watch("unit") || "items",
+                  unitWeight: form.watch("unitWeight"),
+                  purchaseDate: form.watch("purchaseDate"),
+                  expirationDate: form.watch("expirationDate"),
+                  storageLocation: form.watch("storageLocation"),
+                }}
+                onAdded={() => {
+                  onOpenChange(false);
+                  resetForm();
+                }}
+              />
+
               <FormField
                 control={form.control}
-                name="category"
+                name="storageLocation"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Category</FormLabel>
+                    <FormLabel>Storage Location</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select category" />
+                          <SelectValue placeholder="Select location" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {FOOD_CATEGORIES.map((category) => (
-                          <SelectItem key={category} value={category}>
-                            {category.charAt(0).toUpperCase() + category.slice(1)}
+                        {locations.map((location) => (
+                          <SelectItem key={location.key} value={location.key}>
+                            {location.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -152,73 +490,31 @@ export default function AddItemDialog({ open, onOpenChange }: AddItemDialogProps
                 )}
               />
 
-              <div className="space-y-2">
-                <FormLabel>Quantity</FormLabel>
-                <div className="flex">
-                  <FormField
-                    control={form.control}
-                    name="quantity"
-                    render={({ field }) => (
-                      <FormItem className="flex-1">
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min={1}
-                            {...field}
-                            onChange={e => field.onChange(parseInt(e.target.value) || 1)}
-                            className="rounded-r-none"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="unit"
-                    render={({ field }) => (
-                      <FormItem className="w-24">
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
-                          <FormControl>
-                            <SelectTrigger className="rounded-l-none border-l-0">
-                              <SelectValue />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {QUANTITY_UNITS.map((unit) => (
-                              <SelectItem key={unit} value={unit}>
-                                {unit}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-              </div>
-            </div>
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags (Optional)</FormLabel>
+                    <FormControl>
+                      <TagInput value={field.value ?? []} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-            <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="purchaseDate"
+                name="allergens"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Purchase Date</FormLabel>
+                    <FormLabel>Allergens (Optional)</FormLabel>
                     <FormControl>
-                      <Input
-                        type="date"
-                        {...field}
-                        value={field.value ? field.value : ''}
-                        onChange={(e) => {
-                          // Explicitly set the exact date string without any conversion
-                          field.onChange(e.target.value);
-                        }}
+                      <AllergenInput
+                        value={field.value ?? []}
+                        onChange={field.onChange}
+                        suggested={detectAllergens([form.watch("name")])}
                       />
                     </FormControl>
                     <FormMessage />
@@ -228,91 +524,62 @@ export default function AddItemDialog({ open, onOpenChange }: AddItemDialogProps
 
               <FormField
                 control={form.control}
-                name="expirationDate"
+                name="photos"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Expiration Date</FormLabel>
+                    <FormLabel>Photos (Optional)</FormLabel>
                     <FormControl>
-                      <Input
-                        type="date"
-                        {...field}
-                        value={field.value ? field.value : ''}
-                        onChange={(e) => {
-                          // Explicitly set the exact date string without any conversion
-                          field.onChange(e.target.value);
-                        }}
-                      />
+                      <PhotoInput value={field.value ?? []} onChange={field.onChange} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-            </div>
-
-            <FormField
-              control={form.control}
-              name="storageLocation"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Storage Location</FormLabel>
-                  <Select
-                    onValueChange={field.onChange}
-                    defaultValue={field.value}
-                  >
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select location" />
-                      </SelectTrigger>
+                      <Textarea
+                        placeholder="Any additional information about this item"
+                        {...field}
+                      />
                     </FormControl>
-                    <SelectContent>
-                      {STORAGE_LOCATIONS.map((location) => (
-                        <SelectItem key={location} value={location}>
-                          {location.charAt(0).toUpperCase() + location.slice(1)}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="notes"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Notes (Optional)</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="Any additional information about this item"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <DialogFooter>
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => onOpenChange(false)}
-              >
-                Cancel
-              </Button>
-              <Button 
-                type="submit" 
-                disabled={isSubmitting}
-                className="bg-primary hover:bg-primary-dark text-white"
-              >
-                {isSubmitting ? 'Saving...' : 'Save Item'}
-              </Button>
-            </DialogFooter>
-          </form>
-        </Form>
-      </DialogContent>
-    </Dialog>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
+                >
+                  Cancel
+                </Button>
+                <Button 
+                  type="submit" 
+                  disabled={isSubmitting}
+                  className="bg-primary hover:bg-primary-dark text-white"
+                >
+                  {isSubmitting ? 'Saving...' : 'Save Item'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <BarcodeScanner
+        open={scannerOpen}
+        onOpenChange={setScannerOpen}
+        onScan={handleScan}
+        purchaseDate={form.watch("purchaseDate")}
+      />
+    </>
   );
 }
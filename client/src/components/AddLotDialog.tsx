@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, addDays, differenceInDays } from "date-fns";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FoodItemWithStatus } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useStorageLocations } from "@/hooks/use-categories";
+import { PackagePlus } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const formSchema = z.object({
+  quantity: z.coerce.number().positive("Quantity must be greater than 0"),
+  purchaseDate: z.string(),
+  expirationDate: z.string(),
+  storageLocation: z.string().min(1, "Storage location is required"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+type AddLotDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: FoodItemWithStatus;
+};
+
+export default function AddLotDialog({ open, onOpenChange, item }: AddLotDialogProps) {
+  const { locations } = useStorageLocations();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // A new purchase keeps as long as the last one did
+  const today = new Date();
+  const shelfLifeDays = Math.max(differenceInDays(new Date(item.expirationDate), new Date(item.purchaseDate)), 1);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      quantity: 1,
+      purchaseDate: format(today, 'yyyy-MM-dd'),
+      expirationDate: format(addDays(today, shelfLifeDays), 'yyyy-MM-dd'),
+      storageLocation: item.storageLocation,
+    },
+  });
+
+  const addLotMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      await apiRequest('POST', `/api/food-items/${item.id}/lots`, values);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      toast({
+        title: "Purchase added",
+        description: `The new purchase was added to ${item.name}.`,
+      });
+      form.reset();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to add purchase: ${error}`,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      setIsSubmitting(false);
+    },
+  });
+
+  const onSubmit = (values: FormValues) => {
+    setIsSubmitting(true);
+    addLotMutation.mutate(values);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <PackagePlus className="w-5 h-5 mr-2 text-primary" />
+            Add Purchase of {item.name}
+          </DialogTitle>
+          <DialogDescription>
+            Each purchase is tracked as its own lot. The oldest lot is used up first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity ({item.unit})</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="storageLocation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Storage Location</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {locations.map((location) => (
+                          <SelectItem key={location.key} value={location.key}>
+                            {location.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="purchaseDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Purchase Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="expirationDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expiration Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="bg-primary hover:bg-primary-dark text-white"
+              >
+                {isSubmitting ? 'Adding...' : 'Add Purchase'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
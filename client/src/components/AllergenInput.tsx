@@ -0,0 +1,60 @@
+import { ALLERGENS, type Allergen } from "@shared/schema";
+import { ALLERGEN_LABELS } from "@shared/dietary";
+import { cn } from "@/lib/utils";
+
+type AllergenInputProps = {
+  value: Allergen[];
+  onChange: (allergens: Allergen[]) => void;
+  // Allergens the name or ingredients give away, highlighted until they're picked
+  suggested?: Allergen[];
+};
+
+/**
+ * Toggleable chips for the allergens an item or recipe contains
+ */
+export default function AllergenInput({ value, onChange, suggested = [] }: AllergenInputProps) {
+  const toggle = (allergen: Allergen) => {
+    onChange(value.includes(allergen)
+      ? value.filter(existing => existing !== allergen)
+      : [...value, allergen]);
+  };
+
+  const missing = suggested.filter(allergen => !value.includes(allergen));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {ALLERGENS.map(allergen => (
+          <button
+            key={allergen}
+            type="button"
+            onClick={() => toggle(allergen)}
+            aria-pressed={value.includes(allergen)}
+            className={cn(
+              "rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+              value.includes(allergen)
+                ? "border-red-600 bg-red-600 text-white"
+                : missing.includes(allergen)
+                  ? "border-dashed border-red-400 text-red-700"
+                  : "border-border text-gray-600 hover:bg-gray-100"
+            )}
+          >
+            {ALLERGEN_LABELS[allergen]}
+          </button>
+        ))}
+      </div>
+      {missing.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Probably contains {missing.map(allergen => ALLERGEN_LABELS[allergen].toLowerCase()).join(", ")}.{" "}
+          <button
+            type="button"
+            className="text-primary underline"
+            onClick={() => onChange([...value, ...missing])}
+          >
+            Add {missing.length === 1 ? "it" : "them"}
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
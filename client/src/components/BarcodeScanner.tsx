@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import { BrowserMultiFormatReader, BarcodeFormat, DecodeHintType } from "@zxing/library";
+import { ProductLookupResult } from "@shared/schema";
+import { ScanLine } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+// Grocery products carry EAN or UPC codes
+const PRODUCT_BARCODE_FORMATS = [
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.UPC_E,
+];
+
+export type BarcodeScanResult = {
+  barcode: string;
+  product?: ProductLookupResult;
+};
+
+type BarcodeScannerProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (result: BarcodeScanResult) => void;
+  purchaseDate?: string;
+};
+
+export default function BarcodeScanner({ open, onOpenChange, onScan, purchaseDate }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  const lookupBarcode = async (barcode: string) => {
+    setIsLookingUp(true);
+    try {
+      const params = purchaseDate ? `?purchaseDate=${encodeURIComponent(purchaseDate)}` : "";
+      const response = await fetch(`/api/product-catalog/${encodeURIComponent(barcode)}${params}`, {
+        credentials: "include",
+      });
+      const product: ProductLookupResult | undefined = response.ok ? await response.json() : undefined;
+      onScan({ barcode: product?.barcode ?? barcode, product });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error looking up barcode:", error);
+      onScan({ barcode });
+      onOpenChange(false);
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    setCameraError(null);
+    setManualCode("");
+
+    const hints = new Map<DecodeHintType, unknown>();
+    hints.set(DecodeHintType.POSSIBLE_FORMATS, PRODUCT_BARCODE_FORMATS);
+    const reader = new BrowserMultiFormatReader(hints, 300);
+    let detected = false;
+
+    // The video element mounts with the dialog content, so wait a tick before attaching
+    const timer = setTimeout(() => {
+      if (!videoRef.current) return;
+
+      reader
+        .decodeFromVideoDevice(null, videoRef.current, (result) => {
+          if (result && !detected) {
+            detected = true;
+            reader.reset();
+            lookupBarcode(result.getText());
+          }
+        })
+        .catch((error) => {
+          console.error("Error starting barcode scanner:", error);
+          setCameraError("Camera is not available. Enter the code printed under the barcode instead.");
+        });
+    }, 0);
+
+    return () => {
+      clearTimeout(timer);
+      reader.reset();
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scan Barcode</DialogTitle>
+          <DialogDescription>
+            Point your camera at the product's barcode.
+          </DialogDescription>
+        </DialogHeader>
+
+        {cameraError ? (
+          <p className="text-sm text-red-500">{cameraError}</p>
+        ) : (
+          <div className="relative rounded-md overflow-hidden bg-black aspect-video">
+            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+            <ScanLine className="absolute inset-0 m-auto h-16 w-16 text-white/70 pointer-events-none" />
+          </div>
+        )}
+
+        <form
+          className="flex space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            // The dialog is usually opened from inside another form
+            e.stopPropagation();
+            if (manualCode.trim()) {
+              lookupBarcode(manualCode.trim());
+            }
+          }}
+        >
+          <Input
+            inputMode="numeric"
+            placeholder="Or type the barcode number"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={isLookingUp}>
+            {isLookingUp ? "Looking up..." : "Look up"}
+          </Button>
+        </form>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CUSTOM_ICONS, CategoryOption, FOOD_CATEGORIES, HouseholdWithRole, STORAGE_LOCATIONS } from "@shared/schema";
+import { formatBuiltInName } from "@shared/categories";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories, useStorageLocations } from "@/hooks/use-categories";
+import { CATEGORY_ICONS, getCategoryIcon } from "@/lib/category-icons";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type OptionKind = "category" | "location";
+
+type OptionForm = {
+  name: string;
+  icon: string;
+  color: string;
+  base: string;
+};
+
+const KINDS: Record<OptionKind, {
+  title: string;
+  endpoint: string;
+  baseField: "baseCategory" | "baseLocation";
+  bases: readonly string[];
+  baseLabel: string;
+  emptyForm: OptionForm;
+}> = {
+  category: {
+    title: "Categories",
+    endpoint: "/api/categories",
+    baseField: "baseCategory",
+    bases: FOOD_CATEGORIES,
+    baseLabel: "Keeps like",
+    emptyForm: { name: "", icon: "package", color: "#94a3b8", base: "other" },
+  },
+  location: {
+    title: "Storage Locations",
+    endpoint: "/api/storage-locations",
+    baseField: "baseLocation",
+    bases: STORAGE_LOCATIONS,
+    baseLabel: "Works like",
+    emptyForm: { name: "", icon: "box", color: "#94a3b8", base: "pantry" },
+  },
+};
+
+export default function CategoryManager() {
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
+
+  const { data: households } = useQuery<HouseholdWithRole[]>({
+    queryKey: ['/api/households'],
+  });
+
+  const role = households?.find(household => household.isActive)?.role;
+  const canEdit = role === "owner" || role === "member";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categories & Storage Locations</CardTitle>
+        <CardDescription>
+          Add your own categories and places to keep food. Each one keeps food as long as the built-in one it's based on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <OptionSection kind="category" options={categories} canEdit={canEdit} />
+        <OptionSection kind="location" options={locations} canEdit={canEdit} />
+      </CardContent>
+    </Card>
+  );
+}
+
+type OptionSectionProps = {
+  kind: OptionKind;
+  options: CategoryOption[];
+  canEdit: boolean;
+};
+
+function OptionSection({ kind, options, canEdit }: OptionSectionProps) {
+  const config = KINDS[kind];
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [form, setForm] = useState<OptionForm>(config.emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const customOptions = options.filter(option => option.custom);
+
+  const resetForm = () => {
+    setForm(config.emptyForm);
+    setEditingId(null);
+  };
+
+  // Items, charts and filters all show these names, and deleting one moves items to its base
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [config.endpoint] });
+    queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name.trim(),
+        icon: form.icon,
+        color: form.color,
+        [config.baseField]: form.base,
+      };
+      if (editingId !== null) {
+        await apiRequest('PATCH', `${config.endpoint}/${editingId}`, body);
+      } else {
+        await apiRequest('POST', config.endpoint, body);
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      resetForm();
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (option: CategoryOption) => {
+      await apiRequest('DELETE', `${config.endpoint}/${option.id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      resetForm();
+    },
+    onError: showError,
+  });
+
+  const handleEdit = (option: CategoryOption) => {
+    setEditingId(option.id);
+    setForm({ name: option.name, icon: option.icon, color: option.color, base: option.base });
+  };
+
+  const handleDelete = (option: CategoryOption) => {
+    const prompt = `Delete ${option.name}? Items using it will move to ${formatBuiltInName(option.base)}.`;
+    if (window.confirm(prompt)) {
+      deleteMutation.mutate(option);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium">{config.title}</h3>
+
+      {customOptions.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Only the built-in {config.title.toLowerCase()} are in use.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {customOptions.map(option => {
+            const Icon = getCategoryIcon(option.icon);
+            return (
+              <li key={option.key} className="py-2 flex items-center justify-between">
+                <div className="flex items-center">
+                  <Icon className="h-4 w-4 mr-2" style={{ color: option.color }} />
+                  <span className="font-medium">{option.name}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    {config.baseLabel.toLowerCase()} {formatBuiltInName(option.base)}
+                  </span>
+                </div>
+                {canEdit && (
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-gray-400"
+                      title="Edit"
+                      onClick={() => handleEdit(option)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-gray-400 hover:text-red-500"
+                      title="Delete"
+                      onClick={() => handleDelete(option)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form
+          className="flex flex-col sm:flex-row gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (form.name.trim()) {
+              saveMutation.mutate();
+            }
+          }}
+        >
+          <Input
+            placeholder={kind === "category" ? "e.g. Snacks" : "e.g. Garage Fridge"}
+            value={form.name}
+            maxLength={40}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <Select value={form.icon} onValueChange={(icon) => setForm({ ...form, icon })}>
+            <SelectTrigger className="sm:w-20" aria-label="Icon">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CUSTOM_ICONS.map(icon => {
+                const Icon = CATEGORY_ICONS[icon];
+                return (
+                  <SelectItem key={icon} value={icon}>
+                    <Icon className="h-4 w-4" />
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+          <Input
+            type="color"
+            aria-label="Color"
+            className="sm:w-14 p-1"
+            value={form.color}
+            onChange={(e) => setForm({ ...form, color: e.target.value })}
+          />
+          <Select value={form.base} onValueChange={(base) => setForm({ ...form, base })}>
+            <SelectTrigger className="sm:w-36" aria-label={config.baseLabel}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {config.bases.map(base => (
+                <SelectItem key={base} value={base}>
+                  {config.baseLabel} {formatBuiltInName(base)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {editingId !== null ? "Save" : <><Plus className="h-4 w-4 mr-1" /> Add</>}
+          </Button>
+          {editingId !== null && (
+            <Button type="button" variant="ghost" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQueryClient, useMutation } from "@tanstack/react-query";
 import { FoodItemWithStatus, QUANTITY_UNITS } from "@shared/schema";
+import { convertQuantity, roundQuantity } from "@shared/units";
+import { estimateValue, formatPrice } from "@shared/prices";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -32,9 +34,8 @@ import { Utensils } from "lucide-react";
 
 const formSchema = z.object({
   quantity: z.coerce.number()
-    .min(0.01, "Quantity must be greater than 0")
-    .transform(val => Math.round(val)), // Round to integer
-  unit: z.string().min(1, "Please select a unit"),
+    .min(0.01, "Quantity must be greater than 0"),
+  unit: z.enum(QUANTITY_UNITS),
   notes: z.string().optional(),
 });
 
@@ -60,33 +61,24 @@ export default function ConsumeItemDialog({ open, onOpenChange, item }: ConsumeI
     },
   });
 
+  // How much of the item's own unit the entered amount corresponds to
+  const toItemUnit = (quantity: number, unit: FormValues["unit"]) =>
+    convertQuantity(quantity, unit, item.unit, item.unitWeight);
+
   const consumeMutation = useMutation({
     mutationFn: async (values: FormValues) => {
-      // If consuming full quantity, mark as completely consumed
       // Create a consumption entry that matches the expected schema
       const consumeData = {
         foodItemId: item.id,
-        quantity: parseInt(values.quantity.toString()),  // Ensure it's an integer
+        quantity: roundQuantity(values.quantity),
         unit: values.unit,
         consumptionDate: new Date().toISOString().split('T')[0],
         notes: values.notes || null,
-        estimatedValue: null,
         userId: 0, // This is a placeholder; the server will override with the authenticated user's ID
       };
       
+      // The server values the entry from the item's price and takes the amount out of its oldest lots
       await apiRequest('POST', '/api/consumption-entries', consumeData);
-      
-      // Update item quantity if partially consumed
-      if (values.quantity < item.quantity) {
-        await apiRequest('PATCH', `/api/food-items/${item.id}`, {
-          quantity: item.quantity - values.quantity,
-        });
-      } else {
-        // If fully consumed, update the quantity to 0
-        await apiRequest('PATCH', `/api/food-items/${item.id}`, {
-          quantity: 0,
-        });
-      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
@@ -115,11 +107,20 @@ export default function ConsumeItemDialog({ open, onOpenChange, item }: ConsumeI
   });
 
   const onSubmit = (values: FormValues) => {
+    if (toItemUnit(values.quantity, values.unit) === null) {
+      form.setError("unit", {
+        message: `Can't convert ${values.unit} to ${item.unit}. Set a weight per item or package on this item first.`,
+      });
+      return;
+    }
+
     setIsSubmitting(true);
     consumeMutation.mutate(values);
   };
 
-  const isFullQuantity = form.watch("quantity") >= item.quantity;
+  const consumedInItemUnit = toItemUnit(form.watch("quantity") || 0, form.watch("unit"));
+  const isFullQuantity = consumedInItemUnit !== null && consumedInItemUnit >= item.quantity;
+  const consumedValue = estimateValue(item, form.watch("quantity") || 0, form.watch("unit"));
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -160,6 +161,11 @@ export default function ConsumeItemDialog({ open, onOpenChange, item }: ConsumeI
                         This will mark the item as fully consumed
                       </FormDescription>
                     )}
+                    {consumedValue !== null && (
+                      <FormDescription>
+                        Worth about {formatPrice(consumedValue, item.currency)}
+                      </FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
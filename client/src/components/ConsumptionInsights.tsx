@@ -15,11 +15,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { ArrowDownIcon, ArrowUpIcon } from "lucide-react";
+import { formatPrice } from "@shared/prices";
 
 interface ConsumptionInsightsData {
   labels: string[];
   countData: number[];
   valueData: number[];
+  currency: string; // the currency valueData is in
   trend: number;
 }
 
@@ -74,8 +76,15 @@ export default function ConsumptionInsights() {
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="month" />
                   <YAxis yAxisId="left" />
-                  <YAxis yAxisId="right" orientation="right" />
-                  <Tooltip />
+                  <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    tickFormatter={(value: number) => formatPrice(value, data!.currency)}
+                  />
+                  <Tooltip
+                    formatter={(value: number, name: string) =>
+                      name === "Estimated Value" ? formatPrice(value, data!.currency) : value}
+                  />
                   <Legend />
                   <Line
                     yAxisId="left"
@@ -1,12 +1,16 @@
 import { useQuery } from "@tanstack/react-query";
-import { Archive, AlertTriangle } from "lucide-react";
+import { Archive, AlertTriangle, Wallet } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@shared/prices";
 import logoImage from "@/assets/logo.png";
 
 type DashboardStats = {
   totalItems: number;
   expiringCount: number;
   wasteSavedKg: number;
+  consumedValue: number; // value of food used in the last 3 months, in the main currency
+  wastedValue: number;
+  currency: string;
 };
 
 export default function DashboardStats() {
@@ -15,7 +19,7 @@ export default function DashboardStats() {
   });
 
   return (
-    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 mb-8">
+    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4 mb-8">
       <StatCard
         isLoading={isLoading}
         icon={<Archive className="text-primary-dark icon-animated" />}
@@ -42,6 +46,17 @@ export default function DashboardStats() {
         value={data?.wasteSavedKg || 0}
         delay={300}
       />
+
+      <StatCard
+        isLoading={isLoading}
+        icon={<Wallet className="text-amber-600 icon-animated" />}
+        iconBgColor="bg-amber-100"
+        label="Food Used / Wasted (3 mo)"
+        value={data
+          ? `${formatPrice(data.consumedValue, data.currency)} / ${formatPrice(data.wastedValue, data.currency)}`
+          : 0}
+        delay={450}
+      />
     </div>
   );
 }
@@ -51,7 +66,7 @@ type StatCardProps = {
   icon: React.ReactNode;
   iconBgColor: string;
   label: string;
-  value: number;
+  value: number | string;
   delay?: number;
 };
 
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { DIETS, type Allergen, type DietaryProfile, type Diet, type DietaryRestrictions } from "@shared/schema";
+import { ALLERGEN_LABELS, DIET_LABELS } from "@shared/dietary";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import AllergenInput from "./AllergenInput";
+import { Save, X } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type ProfileForm = Pick<DietaryProfile, "allergens" | "diets" | "dislikedIngredients">;
+
+/**
+ * The signed-in user's allergies, diets and dislikes, plus what the rest of the household avoids
+ */
+export default function DietaryProfileCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState<ProfileForm>({ allergens: [], diets: [], dislikedIngredients: [] });
+  const [disliked, setDisliked] = useState("");
+
+  const { data: profile } = useQuery<ProfileForm & { userId: number }>({
+    queryKey: ['/api/dietary-profile'],
+  });
+  const { data: restrictions } = useQuery<DietaryRestrictions>({
+    queryKey: ['/api/dietary-restrictions'],
+  });
+
+  useEffect(() => {
+    if (profile) {
+      setForm({
+        allergens: profile.allergens,
+        diets: profile.diets,
+        dislikedIngredients: profile.dislikedIngredients,
+      });
+    }
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('PUT', '/api/dietary-profile', form);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/dietary-profile'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dietary-restrictions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recipe-suggestions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recipes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shared-recipes'] });
+      toast({
+        title: "Dietary profile saved",
+        description: "Recipe suggestions will follow your new profile.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleDiet = (diet: Diet, checked: boolean) => {
+    setForm({
+      ...form,
+      diets: checked ? [...form.diets, diet] : form.diets.filter(existing => existing !== diet),
+    });
+  };
+
+  const addDisliked = () => {
+    const ingredient = disliked.trim();
+    if (ingredient && !form.dislikedIngredients.some(existing => existing.toLowerCase() === ingredient.toLowerCase())) {
+      setForm({ ...form, dislikedIngredients: [...form.dislikedIngredients, ingredient] });
+    }
+    setDisliked("");
+  };
+
+  const others = restrictions?.members.filter(member => member.userId !== profile?.userId) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dietary Profile</CardTitle>
+        <CardDescription>
+          Recipe suggestions for your household avoid everything its members are allergic to, follow their diets and leave out what they dislike.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Allergies</Label>
+          <AllergenInput
+            value={form.allergens}
+            onChange={(allergens: Allergen[]) => setForm({ ...form, allergens })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Diets</Label>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {DIETS.map(diet => (
+              <label key={diet} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={form.diets.includes(diet)}
+                  onCheckedChange={(checked) => toggleDiet(diet, checked === true)}
+                />
+                <span>{DIET_LABELS[diet]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="disliked-ingredient">Disliked ingredients</Label>
+          {form.dislikedIngredients.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {form.dislikedIngredients.map(ingredient => (
+                <Badge key={ingredient} variant="secondary" className="font-normal">
+                  {ingredient}
+                  <button
+                    type="button"
+                    className="ml-1 text-gray-500 hover:text-gray-900"
+                    onClick={() => setForm({
+                      ...form,
+                      dislikedIngredients: form.dislikedIngredients.filter(existing => existing !== ingredient),
+                    })}
+                    aria-label={`Remove ${ingredient}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Input
+            id="disliked-ingredient"
+            placeholder="e.g. mushrooms, then press Enter"
+            value={disliked}
+            maxLength={50}
+            onChange={(e) => setDisliked(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === ",") {
+                e.preventDefault();
+                addDisliked();
+              }
+            }}
+            onBlur={addDisliked}
+          />
+        </div>
+
+        {others.length > 0 && (
+          <div className="space-y-1">
+            <Label>Others in your household</Label>
+            <ul className="text-sm text-gray-600 space-y-1">
+              {others.map(member => (
+                <li key={member.userId}>
+                  <span className="font-medium">{member.username}:</span>{" "}
+                  {[
+                    ...member.allergens.map(allergen => `${ALLERGEN_LABELS[allergen].toLowerCase()} allergy`),
+                    ...member.diets.map(diet => DIET_LABELS[diet].toLowerCase()),
+                    ...member.dislikedIngredients.map(ingredient => `no ${ingredient}`),
+                  ].join(", ") || "no restrictions"}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          <Save className="mr-2 h-4 w-4" />
+          {saveMutation.isPending ? "Saving..." : "Save Profile"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
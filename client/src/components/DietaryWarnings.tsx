@@ -0,0 +1,37 @@
+import type { DietaryConflict } from "@shared/schema";
+import { describeDietaryConflict } from "@shared/dietary";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type DietaryWarningsProps = {
+  conflicts: DietaryConflict[] | undefined;
+  className?: string;
+};
+
+/**
+ * Why a recipe doesn't suit the household; allergens are shown first and in red
+ */
+export default function DietaryWarnings({ conflicts, className }: DietaryWarningsProps) {
+  if (!conflicts || conflicts.length === 0) {
+    return null;
+  }
+
+  const sorted = [...conflicts].sort((a, b) => Number(b.type === "allergen") - Number(a.type === "allergen"));
+
+  return (
+    <ul className={cn("space-y-1 text-xs", className)}>
+      {sorted.map(conflict => (
+        <li
+          key={`${conflict.type}-${conflict.label}`}
+          className={cn(
+            "flex items-start",
+            conflict.type === "allergen" ? "text-red-600 font-medium" : "text-amber-600"
+          )}
+        >
+          <AlertTriangle className="h-3.5 w-3.5 mr-1 mt-px shrink-0" />
+          {describeDietaryConflict(conflict)}
+        </li>
+      ))}
+    </ul>
+  );
+}
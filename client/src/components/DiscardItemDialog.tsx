@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { FoodItemWithStatus, QUANTITY_UNITS, WASTE_REASONS } from "@shared/schema";
+import { convertQuantity, estimateWeightKg, roundQuantity } from "@shared/units";
+import { estimateValue, formatPrice } from "@shared/prices";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PackageX } from "lucide-react";
+
+// Radix selects can't use an empty string as an item value
+const OTHER_REASON = "__other__";
+
+const formSchema = z.object({
+  quantity: z.coerce.number()
+    .min(0.01, "Quantity must be greater than 0"),
+  unit: z.enum(QUANTITY_UNITS),
+  reason: z.string(),
+  otherReason: z.string().max(200).optional(),
+  wasteWeight: z.coerce.number().nonnegative("Weight can't be negative").nullable(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+type DiscardItemDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: FoodItemWithStatus;
+};
+
+export default function DiscardItemDialog({ open, onOpenChange, item }: DiscardItemDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      quantity: item.quantity,
+      unit: item.unit,
+      reason: item.status === "expired" ? "expired" : "spoiled",
+      otherReason: "",
+      wasteWeight: null,
+    },
+  });
+
+  // How much of the item's own unit the entered amount corresponds to
+  const toItemUnit = (quantity: number, unit: FormValues["unit"]) =>
+    convertQuantity(quantity, unit, item.unit, item.unitWeight);
+
+  const discardMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const reason = values.reason === OTHER_REASON ? values.otherReason?.trim() : values.reason;
+      const wasteData = {
+        foodItemId: item.id,
+        quantity: roundQuantity(values.quantity),
+        unit: values.unit,
+        wasteDate: new Date().toISOString().split('T')[0],
+        reason: reason || null,
+        wasteWeight: values.wasteWeight,
+      };
+
+      // The server estimates a missing weight, values the entry and takes the amount out of the oldest lots
+      await apiRequest('POST', '/api/waste-entries', wasteData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/waste-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/waste-insights'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/food-items/${item.id}/events`] });
+
+      toast({
+        title: "Item discarded",
+        description: "The waste has been logged.",
+      });
+
+      form.reset();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to discard item: ${error}`,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      setIsSubmitting(false);
+    },
+  });
+
+  const onSubmit = (values: FormValues) => {
+    if (toItemUnit(values.quantity, values.unit) === null) {
+      form.setError("unit", {
+        message: `Can't convert ${values.unit} to ${item.unit}. Set a weight per item or package on this item first.`,
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    discardMutation.mutate(values);
+  };
+
+  const discardedInItemUnit = toItemUnit(form.watch("quantity") || 0, form.watch("unit"));
+  const isFullQuantity = discardedInItemUnit !== null && discardedInItemUnit >= item.quantity;
+  const discardedValue = estimateValue(item, form.watch("quantity") || 0, form.watch("unit"));
+  const estimatedWeight = estimateWeightKg(form.watch("quantity") || 0, form.watch("unit"), item.unitWeight);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <PackageX className="w-5 h-5 mr-2 text-primary" />
+            Discard {item.name}
+          </DialogTitle>
+          <DialogDescription>
+            Log what was thrown away and why, so your waste insights show where food is lost.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="Enter quantity"
+                        {...field}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          field.onChange(value);
+                        }}
+                      />
+                    </FormControl>
+                    {isFullQuantity && (
+                      <FormDescription className="text-amber-600">
+                        This will discard the whole item
+                      </FormDescription>
+                    )}
+                    {discardedValue !== null && (
+                      <FormDescription>
+                        Worth about {formatPrice(discardedValue, item.currency)}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a unit" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {QUANTITY_UNITS.map((unit) => (
+                          <SelectItem key={unit} value={unit}>
+                            {unit}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Why was it thrown away?" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {WASTE_REASONS.map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {reason.charAt(0).toUpperCase() + reason.slice(1)}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={OTHER_REASON}>Other...</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("reason") === OTHER_REASON && (
+              <FormField
+                control={form.control}
+                name="otherReason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Describe the reason" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="wasteWeight"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Weight in kg (optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder={`About ${roundQuantity(estimatedWeight)} kg`}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Leave empty to use the estimate from the quantity
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="bg-primary hover:bg-primary-dark text-white"
+              >
+                {isSubmitting ? "Saving..." : "Discard"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,101 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FoodItemWithStatus } from "@shared/schema";
+import { convertQuantity, formatQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useStorageLocations, findOption } from "@/hooks/use-categories";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// The purchase being entered, in the form's own unit
+type NewPurchase = {
+  quantity: number;
+  unit: string;
+  unitWeight?: number | null;
+  purchaseDate: string;
+  expirationDate: string;
+  storageLocation: string;
+};
+
+type DuplicateItemHintProps = {
+  duplicates: FoodItemWithStatus[];
+  purchase: NewPurchase;
+  // Called once the purchase has been added to an existing item instead
+  onAdded: (item: FoodItemWithStatus) => void;
+};
+
+/**
+ * Warns that the item being added looks like one the household already has,
+ * and offers to add the purchase to that item as a new lot instead
+ */
+export default function DuplicateItemHint({ duplicates, purchase, onAdded }: DuplicateItemHintProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { locations } = useStorageLocations();
+
+  const addLotMutation = useMutation({
+    mutationFn: async ({ item, quantity }: { item: FoodItemWithStatus; quantity: number }) => {
+      await apiRequest('POST', `/api/food-items/${item.id}/lots`, {
+        quantity,
+        purchaseDate: purchase.purchaseDate,
+        expirationDate: purchase.expirationDate,
+        storageLocation: purchase.storageLocation,
+      });
+      return item;
+    },
+    onSuccess: (item) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      toast({
+        title: "Purchase added",
+        description: `The new purchase was added to ${item.name}.`,
+      });
+      onAdded(item);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to add purchase: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (duplicates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 space-y-2">
+      <p className="flex items-center font-medium">
+        <Copy className="h-4 w-4 mr-2 flex-shrink-0" />
+        Looks like you already have this
+      </p>
+      <ul className="space-y-1">
+        {duplicates.map(item => {
+          const quantity = convertQuantity(purchase.quantity, purchase.unit, item.unit, purchase.unitWeight ?? item.unitWeight);
+          return (
+            <li key={item.id} className="flex items-center justify-between gap-2">
+              <span>
+                <span className="font-medium">{item.name}</span>
+                {" "}· {formatQuantity(item.quantity, item.unit)} in {findOption(locations, item.storageLocation).name}
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-xs bg-white"
+                disabled={quantity === null || quantity <= 0 || addLotMutation.isPending}
+                title={quantity === null ? `${item.name} is counted in ${item.unit}` : undefined}
+                onClick={() => quantity !== null && addLotMutation.mutate({ item, quantity })}
+              >
+                Add as new lot
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="text-amber-700">Saving the form keeps it as a separate item.</p>
+    </div>
+  );
+}
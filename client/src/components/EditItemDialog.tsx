@@ -1,12 +1,21 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { FoodItemWithStatus, FOOD_CATEGORIES, STORAGE_LOCATIONS, QUANTITY_UNITS } from "@shared/schema";
+import { ALLERGENS, CURRENCIES, FoodItemWithStatus, ItemNutrition, QUANTITY_UNITS, nutritionValuesSchema } from "@shared/schema";
+import { isWeightUnit } from "@shared/units";
+import { detectAllergens } from "@shared/dietary";
 import { z } from "zod";
 import { format } from "date-fns";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useShelfLifeSuggestion } from "@/hooks/use-shelf-life-suggestion";
+import { useCategories, useStorageLocations } from "@/hooks/use-categories";
+import ShelfLifeHint from "@/components/ShelfLifeHint";
+import TagInput from "@/components/TagInput";
+import PhotoInput from "@/components/PhotoInput";
+import NutritionInput from "@/components/NutritionInput";
+import AllergenInput from "@/components/AllergenInput";
 
 import {
   Dialog,
@@ -37,13 +46,21 @@ import {
 // Form schema for edit
 const editFormSchema = z.object({
   name: z.string().min(1, "Name is required"),
-  category: z.enum(FOOD_CATEGORIES),
-  quantity: z.number().min(1, "Quantity must be at least 1"),
+  category: z.string().min(1, "Category is required"),
+  quantity: z.number().positive("Quantity must be greater than 0"),
   unit: z.enum(QUANTITY_UNITS),
+  unitWeight: z.number().positive("Weight must be greater than 0").nullable().optional(),
   purchaseDate: z.string(),
   expirationDate: z.string(),
-  storageLocation: z.enum(STORAGE_LOCATIONS),
+  storageLocation: z.string().min(1, "Storage location is required"),
   notes: z.string().optional(),
+  price: z.number().nonnegative("Price can't be negative").nullable().optional(),
+  currency: z.enum(CURRENCIES),
+  store: z.string().max(100).nullable().optional(),
+  tags: z.array(z.string()),
+  photos: z.array(z.string()),
+  nutrition: nutritionValuesSchema.nullable(),
+  allergens: z.array(z.enum(ALLERGENS)),
 });
 
 type EditFormValues = z.infer<typeof editFormSchema>;
@@ -55,6 +72,8 @@ type EditItemDialogProps = {
 };
 
 export default function EditItemDialog({ open, onOpenChange, item }: EditItemDialogProps) {
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -66,13 +85,33 @@ export default function EditItemDialog({ open, onOpenChange, item }: EditItemDia
       category: item.category,
       quantity: item.quantity,
       unit: item.unit,
+      unitWeight: item.unitWeight,
       purchaseDate: format(new Date(item.purchaseDate), 'yyyy-MM-dd'),
       expirationDate: format(new Date(item.expirationDate), 'yyyy-MM-dd'),
       storageLocation: item.storageLocation,
       notes: item.notes || "",
+      price: item.price,
+      currency: item.currency,
+      store: item.store,
+      tags: item.tags ?? [],
+      photos: item.photos,
+      nutrition: item.nutrition,
+      allergens: item.allergens,
     },
   });
 
+  const { data: nutrition } = useQuery<ItemNutrition | null>({
+    queryKey: [`/api/food-items/${item.id}/nutrition`],
+    enabled: open,
+  });
+
+  const { suggestion } = useShelfLifeSuggestion({
+    name: form.watch("name"),
+    category: form.watch("category"),
+    storageLocation: form.watch("storageLocation"),
+    purchaseDate: form.watch("purchaseDate"),
+  });
+
   const updateItemMutation = useMutation({
     mutationFn: async (values: EditFormValues) => {
       return await apiRequest('PATCH', `/api/food-items/${item.id}`, values);
@@ -80,6 +119,9 @@ export default function EditItemDialog({ open, onOpenChange, item }: EditItemDia
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/food-items/${item.id}/nutrition`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/meal-plans/nutrition'] });
       toast({
         title: "Item updated",
         description: "The item has been successfully updated.",
@@ -142,9 +184,9 @@ export default function EditItemDialog({ open, onOpenChange, item }: EditItemDia
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {FOOD_CATEGORIES.map((category) => (
-                          <SelectItem key={category} value={category}>
-                            {category.charAt(0).toUpperCase() + category.slice(1)}
+                        {categories.map((category) => (
+                          <SelectItem key={category.key} value={category.key}>
+                            {category.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -165,9 +207,10 @@ export default function EditItemDialog({ open, onOpenChange, item }: EditItemDia
                         <FormControl>
                           <Input
                             type="number"
-                            min={1}
+                            min={0}
+                            step="any"
                             {...field}
-                            onChange={e => field.onChange(parseInt(e.target.value) || 1)}
+                            onChange={e => field.onChange(parseFloat(e.target.value) || 0)}
                             className="rounded-r-none"
                           />
                         </FormControl>
@@ -205,6 +248,95 @@ export default function EditItemDialog({ open, onOpenChange, item }: EditItemDia
               </div>
             </div>
 
+            {!isWeightUnit(form.watch("unit")) && (
+              <FormField
+                control={form.control}
+                name="unitWeight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight per {form.watch("unit") === "package" ? "Package" : "Item"} in g (Optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder="e.g. 180"
+                        value={field.value ?? ""}
+                        onChange={e => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price Paid (Optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="e.g. 3.49"
+                        value={field.value ?? ""}
+                        onChange={e => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="store"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Store (Optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. Corner Market"
+                        value={field.value ?? ""}
+                        onChange={e => field.onChange(e.target.value || null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -251,6 +383,13 @@ export default function EditItemDialog({ open, onOpenChange, item }: EditItemDia
               />
             </div>
 
+            <ShelfLifeHint
+              suggestion={suggestion}
+              onApply={form.watch("expirationDate") !== suggestion?.expirationDate
+                ? (expirationDate) => form.setValue("expirationDate", expirationDate)
+                : undefined}
+            />
+
             <FormField
               control={form.control}
               name="storageLocation"
@@ -267,9 +406,9 @@ export default function EditItemDialog({ open, onOpenChange, item }: EditItemDia
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {STORAGE_LOCATIONS.map((location) => (
-                        <SelectItem key={location} value={location}>
-                          {location.charAt(0).toUpperCase() + location.slice(1)}
+                      {locations.map((location) => (
+                        <SelectItem key={location.key} value={location.key}>
+                          {location.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -279,6 +418,66 @@ export default function EditItemDialog({ open, onOpenChange, item }: EditItemDia
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags (Optional)</FormLabel>
+                  <FormControl>
+                    <TagInput value={field.value ?? []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="allergens"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allergens</FormLabel>
+                  <FormControl>
+                    <AllergenInput
+                      value={field.value}
+                      onChange={field.onChange}
+                      suggested={detectAllergens([form.watch("name")])}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="photos"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Photos (Optional)</FormLabel>
+                  <FormControl>
+                    <PhotoInput value={field.value ?? []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="nutrition"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nutrition per 100 g (Optional)</FormLabel>
+                  <FormControl>
+                    <NutritionInput value={field.value} onChange={field.onChange} current={nutrition} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="notes"
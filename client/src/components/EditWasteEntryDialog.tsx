@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { QUANTITY_UNITS, WasteEntryWithItem } from "@shared/schema";
+import { roundQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type EditWasteEntryDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: WasteEntryWithItem;
+};
+
+export default function EditWasteEntryDialog({ open, onOpenChange, entry }: EditWasteEntryDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [quantity, setQuantity] = useState(String(entry.quantity));
+  const [unit, setUnit] = useState(entry.unit);
+  const [reason, setReason] = useState(entry.reason ?? "");
+  const [wasteWeight, setWasteWeight] = useState(entry.wasteWeight !== null ? String(entry.wasteWeight) : "");
+  const [wasteDate, setWasteDate] = useState(entry.wasteDate);
+
+  useEffect(() => {
+    if (open) {
+      setQuantity(String(entry.quantity));
+      setUnit(entry.unit);
+      setReason(entry.reason ?? "");
+      setWasteWeight(entry.wasteWeight !== null ? String(entry.wasteWeight) : "");
+      setWasteDate(entry.wasteDate);
+    }
+  }, [open, entry]);
+
+  const amountChanged = Number(quantity) !== entry.quantity || unit !== entry.unit;
+  const weightChanged = wasteWeight !== (entry.wasteWeight !== null ? String(entry.wasteWeight) : "");
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PATCH', `/api/waste-entries/${entry.id}`, {
+        quantity: roundQuantity(Number(quantity)),
+        unit,
+        reason: reason.trim() || null,
+        wasteDate,
+        // Let the server re-estimate the weight for a new amount unless one was entered
+        ...(weightChanged || !amountChanged
+          ? { wasteWeight: wasteWeight === "" ? null : Number(wasteWeight) }
+          : {}),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/waste-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/waste-insights'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      toast({
+        title: "Waste entry updated",
+        description: `Your entry for ${entry.itemName} has been updated.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update waste entry: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid = Number(quantity) > 0 && !!wasteDate && (wasteWeight === "" || Number(wasteWeight) >= 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Pencil className="w-5 h-5 mr-2 text-primary" />
+            Edit Waste of {entry.itemName}
+          </DialogTitle>
+          <DialogDescription>
+            Correct what you logged. This only changes your waste log, not the item's stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="waste-quantity">Quantity</Label>
+              <Input
+                id="waste-quantity"
+                type="number"
+                step="0.01"
+                min="0"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={unit} onValueChange={(value) => setUnit(value as typeof unit)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUANTITY_UNITS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="waste-reason">Reason</Label>
+            <Input
+              id="waste-reason"
+              value={reason}
+              maxLength={200}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="waste-weight">Weight in kg</Label>
+              <Input
+                id="waste-weight"
+                type="number"
+                step="0.01"
+                min="0"
+                value={wasteWeight}
+                placeholder={amountChanged ? "Estimated" : undefined}
+                onChange={(e) => setWasteWeight(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="waste-date">Thrown Away On</Label>
+              <Input
+                id="waste-date"
+                type="date"
+                value={wasteDate}
+                max={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setWasteDate(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!isValid || updateMutation.isPending}
+            onClick={() => updateMutation.mutate()}
+            className="bg-primary hover:bg-primary-dark text-white"
+          >
+            {updateMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,18 +1,44 @@
-import { useQuery } from "@tanstack/react-query";
-import { format, formatDistanceToNow } from "date-fns";
-import { FoodItemWithStatus } from "@shared/schema";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { FoodItemWithStatus, ParLevelWithStock, RecallAlert } from "@shared/schema";
+import { formatQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
 import FoodCategoryIcon from "./FoodCategoryIcon";
 import { useToast } from "@/hooks/use-toast";
+import { useParLevels } from "@/hooks/use-par-levels";
+import { ShieldAlert, ShoppingBasket } from "lucide-react";
 
 export default function ExpirationAlerts() {
   const { data: foodItems, isLoading } = useQuery<FoodItemWithStatus[]>({
     queryKey: ['/api/food-items'],
   });
   
+  const { data: recallAlerts = [] } = useQuery<RecallAlert[]>({
+    queryKey: ['/api/recall-alerts'],
+  });
+  
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { lowStock } = useParLevels();
+  
+  const dismissRecallMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest('POST', `/api/recall-alerts/${id}/dismiss`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recall-alerts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to dismiss recall alert: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
 
   // Filter items expiring soon (within 3 days) or already expired
   const expiringItems = foodItems?.filter(
@@ -29,6 +55,44 @@ export default function ExpirationAlerts() {
   return (
     <div className="bg-white shadow rounded-lg mb-8">
       <div className="px-4 py-5 sm:p-6">
+        {recallAlerts.length > 0 && (
+          <div className="mb-8 rounded-lg border border-red-200 bg-red-50 p-4">
+            <h3 className="text-lg leading-6 font-medium text-red-700 mb-4 flex items-center">
+              <ShieldAlert className="h-5 w-5 mr-2" />
+              Product Recalls
+            </h3>
+            <ul role="list" className="-my-3 divide-y divide-red-200">
+              {recallAlerts.map((alert) => (
+                <li key={alert.id} className="py-3">
+                  <div className="flex items-start space-x-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {alert.foodItem.name}
+                        <span className="font-normal text-gray-500">
+                          {" "}• {formatQuantity(alert.foodItem.quantity, alert.foodItem.unit)}, bought {format(parseISO(alert.foodItem.purchaseDate), 'MMM d')}
+                        </span>
+                      </p>
+                      <p className="text-sm text-red-700">
+                        {alert.matchType === 'barcode' || alert.matchType === 'lot' ? 'Recalled' : 'May be recalled'}: {alert.recall.productName}
+                        {alert.recall.brand && ` (${alert.recall.brand})`}
+                        {alert.recall.lotCode && ` • Lot ${alert.recall.lotCode}`}
+                      </p>
+                      <p className="text-sm text-gray-600">{alert.recall.description}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={dismissRecallMutation.isPending}
+                      onClick={() => dismissRecallMutation.mutate(alert.id)}
+                    >
+                      Dismiss
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Expiring Soon</h3>
         <div className="flow-root">
           {isLoading ? (
@@ -77,6 +141,45 @@ export default function ExpirationAlerts() {
             <p className="text-center py-6 text-gray-500">No items expiring soon!</p>
           )}
         </div>
+        {lowStock.length > 0 && (
+          <div className="mt-8">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Running Low</h3>
+            <ul role="list" className="-my-3 divide-y divide-gray-200">
+              {lowStock.slice(0, 3).map((parLevel) => (
+                <li key={parLevel.id} className="py-3">
+                  <div className="flex items-center space-x-4">
+                    <div className="flex-shrink-0 h-12 w-12 rounded-lg bg-blue-100 flex items-center justify-center text-blue-600">
+                      <ShoppingBasket className="h-5 w-5" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {parLevel.name}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">
+                        <StockText parLevel={parLevel} />
+                      </p>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {lowStock.length > 3 && (
+              <p className="mt-3 text-sm text-gray-500">
+                and {lowStock.length - 3} more staple{lowStock.length - 3 !== 1 ? 's' : ''} to restock
+              </p>
+            )}
+            <div className="mt-4">
+              <Link href="/shopping-list">
+                <Button
+                  variant="outline"
+                  className="w-full flex justify-center items-center"
+                >
+                  Go to shopping list
+                </Button>
+              </Link>
+            </div>
+          </div>
+        )}
         <div className="mt-6">
           <Link href="/inventory">
             <Button
@@ -113,6 +216,22 @@ function ExpirationText({ item }: { item: FoodItemWithStatus }) {
   return <span className={className}>{text}</span>;
 }
 
+function StockText({ parLevel }: { parLevel: ParLevelWithStock }) {
+  if (parLevel.onHand <= 0) {
+    return (
+      <span>
+        <span className="text-red-500 font-medium">Out of stock</span> • Keep {formatQuantity(parLevel.minQuantity, parLevel.unit)}
+      </span>
+    );
+  }
+
+  return (
+    <span>
+      <span className="text-blue-600 font-medium">{formatQuantity(parLevel.onHand, parLevel.unit)} left</span> • Keep {formatQuantity(parLevel.minQuantity, parLevel.unit)}
+    </span>
+  );
+}
+
 function getColorByStatus(status: 'expired' | 'expiring-soon' | 'fresh'): string {
   switch (status) {
     case 'expired':
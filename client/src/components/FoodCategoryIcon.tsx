@@ -1,12 +1,5 @@
-import {
-  Apple, 
-  EggFried, 
-  Beef, 
-  Cookie, 
-  ShoppingBag, 
-  Snowflake, 
-  Package
-} from "lucide-react";
+import { useCategories, findOption } from "@/hooks/use-categories";
+import { getCategoryIcon } from "@/lib/category-icons";
 
 type FoodCategoryIconProps = {
   category: string;
@@ -19,21 +12,9 @@ export default function FoodCategoryIcon({
   className = "h-5 w-5", 
   size = 20 
 }: FoodCategoryIconProps) {
-  switch (category) {
-    case "produce":
-      return <Apple className={className} size={size} />;
-    case "dairy":
-      return <EggFried className={className} size={size} />;
-    case "meat":
-      return <Beef className={className} size={size} />;
-    case "bakery":
-      return <Cookie className={className} size={size} />;
-    case "pantry":
-      return <ShoppingBag className={className} size={size} />;
-    case "frozen":
-      return <Snowflake className={className} size={size} />;
-    case "other":
-    default:
-      return <Package className={className} size={size} />;
-  }
+  const { categories } = useCategories();
+  const option = findOption(categories, category);
+  const Icon = getCategoryIcon(option.icon);
+
+  return <Icon className={className} size={size} style={{ color: option.color }} />;
 }
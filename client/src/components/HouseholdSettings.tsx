@@ -0,0 +1,376 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { HOUSEHOLD_ROLES, HouseholdInvite, HouseholdMemberWithUser, HouseholdRole, HouseholdWithRole } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Home, Mail, Plus, UserMinus, Check } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type PendingInvite = Omit<HouseholdInvite, "code">;
+
+export default function HouseholdSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [newHouseholdName, setNewHouseholdName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>("member");
+  const [inviteCode, setInviteCode] = useState("");
+
+  const { data: households, isLoading } = useQuery<HouseholdWithRole[]>({
+    queryKey: ['/api/households'],
+  });
+
+  const activeHousehold = households?.find(household => household.isActive);
+  const isOwner = activeHousehold?.role === "owner";
+
+  const { data: members } = useQuery<HouseholdMemberWithUser[]>({
+    queryKey: [`/api/households/${activeHousehold?.id}/members`],
+    enabled: !!activeHousehold,
+  });
+
+  const { data: invites } = useQuery<PendingInvite[]>({
+    queryKey: [`/api/households/${activeHousehold?.id}/invites`],
+    enabled: !!activeHousehold && isOwner,
+  });
+
+  // Everything the app shows depends on the active household
+  const refreshAll = () => {
+    queryClient.invalidateQueries();
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const switchMutation = useMutation({
+    mutationFn: async (householdId: number) => {
+      await apiRequest('POST', `/api/households/${householdId}/activate`);
+    },
+    onSuccess: () => {
+      refreshAll();
+      toast({
+        title: "Household switched",
+        description: "You are now viewing this household's inventory.",
+      });
+    },
+    onError: showError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest('POST', '/api/households', { name });
+    },
+    onSuccess: () => {
+      setNewHouseholdName("");
+      refreshAll();
+      toast({
+        title: "Household created",
+        description: "Invite people to start sharing your inventory.",
+      });
+    },
+    onError: showError,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/households/${activeHousehold!.id}/invites`, {
+        email: inviteEmail,
+        role: inviteRole,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/households/${activeHousehold?.id}/invites`] });
+      toast({
+        title: "Invitation sent",
+        description: `An invitation code was emailed to ${inviteEmail}.`,
+      });
+      setInviteEmail("");
+    },
+    onError: showError,
+  });
+
+  const cancelInviteMutation = useMutation({
+    mutationFn: async (inviteId: number) => {
+      await apiRequest('DELETE', `/api/households/${activeHousehold!.id}/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/households/${activeHousehold?.id}/invites`] });
+    },
+    onError: showError,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (code: string) => {
+      await apiRequest('POST', '/api/household-invites/accept', { code });
+    },
+    onSuccess: () => {
+      setInviteCode("");
+      refreshAll();
+      toast({
+        title: "Joined household",
+        description: "You now share this household's inventory.",
+      });
+    },
+    onError: showError,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: number; role: HouseholdRole }) => {
+      await apiRequest('PATCH', `/api/households/${activeHousehold!.id}/members/${memberId}`, { role });
+    },
+    onSuccess: () => {
+      refreshAll();
+    },
+    onError: showError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (memberId: number) => {
+      await apiRequest('DELETE', `/api/households/${activeHousehold!.id}/members/${memberId}`);
+    },
+    onSuccess: () => {
+      refreshAll();
+    },
+    onError: showError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-48">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Households</CardTitle>
+          <CardDescription>
+            Everyone in a household shares one inventory, meal plan and waste log.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ul className="divide-y divide-gray-200">
+            {households?.map((household) => (
+              <li key={household.id} className="py-3 flex items-center justify-between">
+                <div className="flex items-center">
+                  <Home className="h-4 w-4 mr-2 text-gray-500" />
+                  <span className="font-medium">{household.name}</span>
+                  <Badge variant="outline" className="ml-2 capitalize">{household.role}</Badge>
+                </div>
+                {household.isActive ? (
+                  <span className="flex items-center text-sm text-primary">
+                    <Check className="h-4 w-4 mr-1" /> Active
+                  </span>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => switchMutation.mutate(household.id)}
+                    disabled={switchMutation.isPending}
+                  >
+                    Switch
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form
+            className="flex space-x-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newHouseholdName.trim()) {
+                createMutation.mutate(newHouseholdName.trim());
+              }
+            }}
+          >
+            <Input
+              placeholder="New household name"
+              value={newHouseholdName}
+              onChange={(e) => setNewHouseholdName(e.target.value)}
+            />
+            <Button type="submit" disabled={createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" /> Create
+            </Button>
+          </form>
+
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (inviteCode.trim()) {
+                acceptMutation.mutate(inviteCode.trim());
+              }
+            }}
+          >
+            <Label htmlFor="invite-code">Have an invitation code?</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="invite-code"
+                placeholder="6-digit code"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+              />
+              <Button type="submit" variant="outline" disabled={acceptMutation.isPending}>
+                Join
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {activeHousehold && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Members of {activeHousehold.name}</CardTitle>
+            <CardDescription>
+              Owners manage members, members can change the inventory and viewers can only look.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ul className="divide-y divide-gray-200">
+              {members?.map((member) => {
+                const isSelf = member.userId === user?.id;
+                return (
+                  <li key={member.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">
+                        {member.user.name || member.user.username}
+                        {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-sm text-gray-500">{member.user.email}</p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {isOwner ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => updateRoleMutation.mutate({ memberId: member.id, role: role as HouseholdRole })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {HOUSEHOLD_ROLES.map((role) => (
+                              <SelectItem key={role} value={role} className="capitalize">
+                                {role}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline" className="capitalize">{member.role}</Badge>
+                      )}
+                      {(isOwner || isSelf) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={isSelf ? "Leave household" : "Remove member"}
+                          onClick={() => {
+                            const prompt = isSelf
+                              ? "Are you sure you want to leave this household?"
+                              : `Remove ${member.user.name || member.user.username} from this household?`;
+                            if (window.confirm(prompt)) {
+                              removeMemberMutation.mutate(member.id);
+                            }
+                          }}
+                          className="h-8 w-8 text-gray-400 hover:text-red-500"
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {isOwner && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium">Invite someone</h3>
+                <form
+                  className="flex flex-col sm:flex-row gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (inviteEmail.trim()) {
+                      inviteMutation.mutate();
+                    }
+                  }}
+                >
+                  <Input
+                    type="email"
+                    placeholder="partner@example.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                  />
+                  <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as HouseholdRole)}>
+                    <SelectTrigger className="sm:w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOUSEHOLD_ROLES.map((role) => (
+                        <SelectItem key={role} value={role} className="capitalize">
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="submit" disabled={inviteMutation.isPending}>
+                    <Mail className="h-4 w-4 mr-1" />
+                    {inviteMutation.isPending ? "Sending..." : "Send Invite"}
+                  </Button>
+                </form>
+
+                {invites && invites.length > 0 && (
+                  <ul className="text-sm divide-y divide-gray-100">
+                    {invites.map((invite) => (
+                      <li key={invite.id} className="py-2 flex items-center justify-between">
+                        <span>
+                          {invite.email} <span className="text-gray-500 capitalize">({invite.role}, pending)</span>
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelInviteMutation.mutate(invite.id)}
+                        >
+                          Cancel
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  INVENTORY_TRANSFER_FIELDS,
+  InventoryImportMapping,
+  InventoryImportResult,
+} from "@shared/schema";
+import { importInventoryFile } from "@/lib/inventory-import-service";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, CheckCircle2, FileUp } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type TransferField = typeof INVENTORY_TRANSFER_FIELDS[number];
+
+// Radix selects can't use an empty string as an item value
+const UNMAPPED = "__unmapped__";
+
+const FIELD_LABELS: Record<TransferField, string> = {
+  name: "Name",
+  category: "Category",
+  quantity: "Quantity",
+  unit: "Unit",
+  unitWeight: "Unit Weight (g)",
+  purchaseDate: "Purchase Date",
+  expirationDate: "Expiration Date",
+  storageLocation: "Storage Location",
+  notes: "Notes",
+  barcode: "Barcode",
+  price: "Price",
+  currency: "Currency",
+  store: "Store",
+};
+
+type ImportInventoryDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export default function ImportInventoryDialog({ open, onOpenChange }: ImportInventoryDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<InventoryImportMapping | undefined>(undefined);
+  const [preview, setPreview] = useState<InventoryImportResult | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setMapping(undefined);
+      setPreview(null);
+      setFileError(null);
+    }
+  }, [open]);
+
+  // Validate the file whenever it or the mapping changes
+  const dryRunMutation = useMutation({
+    mutationFn: async ({ file, mapping }: { file: File; mapping?: InventoryImportMapping }) => {
+      return await importInventoryFile(file, mapping, true);
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setMapping(result.mapping);
+      setFileError(null);
+    },
+    onError: (error: Error) => {
+      setPreview(null);
+      setFileError(error.message);
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      return await importInventoryFile(file!, mapping, false);
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      toast({
+        title: "Import complete",
+        description: result.errorCount > 0
+          ? `Imported ${result.importedCount} items. ${result.errorCount} rows with errors were skipped.`
+          : `Imported ${result.importedCount} items.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to import items: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setMapping(undefined);
+    setPreview(null);
+    if (selected) {
+      dryRunMutation.mutate({ file: selected });
+    }
+  };
+
+  const handleMappingChange = (field: TransferField, column: string) => {
+    const updated = { ...mapping };
+    if (column === UNMAPPED) {
+      delete updated[field];
+    } else {
+      updated[field] = column;
+    }
+    setMapping(updated);
+    if (file) {
+      dryRunMutation.mutate({ file, mapping: updated });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileUp className="w-5 h-5 mr-2 text-primary" />
+            Import Inventory
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file, match its columns to item fields and check the rows before importing.
+            Missing expiration dates are predicted from the shelf-life guide.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            />
+            {fileError && <p className="text-sm text-red-500">{fileError}</p>}
+          </div>
+
+          {preview && (
+            <>
+              <div className="space-y-2">
+                <Label>Columns</Label>
+                <div className="grid grid-cols-2 gap-3">
+                  {INVENTORY_TRANSFER_FIELDS.map(field => (
+                    <div key={field} className="flex items-center justify-between space-x-2">
+                      <span className="text-sm text-gray-600 w-32 shrink-0">{FIELD_LABELS[field]}</span>
+                      <Select
+                        value={mapping?.[field] ?? UNMAPPED}
+                        onValueChange={(column) => handleMappingChange(field, column)}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                          {preview.columns.map(column => (
+                            <SelectItem key={column} value={column}>{column}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Rows</Label>
+                  <span className="text-sm text-gray-500">
+                    {dryRunMutation.isPending
+                      ? "Checking..."
+                      : `${preview.validCount} ready to import, ${preview.errorCount} with errors`}
+                  </span>
+                </div>
+                <div className="max-h-72 overflow-y-auto border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">Row</TableHead>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map(row => (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell>
+                            {row.item.name ?? <span className="text-gray-400">No name</span>}
+                            {row.item.quantity !== undefined && (
+                              <span className="text-gray-500"> · {row.item.quantity} {row.item.unit}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{row.item.expirationDate ?? "—"}</TableCell>
+                          <TableCell>
+                            {row.errors.length === 0 ? (
+                              <span className="flex items-start text-green-600" title={row.warnings.join("\n")}>
+                                <CheckCircle2 className="h-4 w-4 mr-1 shrink-0" />
+                                {row.warnings.length > 0 ? row.warnings[0] : "OK"}
+                              </span>
+                            ) : (
+                              <ul className="text-red-600 space-y-0.5">
+                                {row.errors.map(error => (
+                                  <li key={error.field} className="flex items-start">
+                                    <AlertCircle className="h-4 w-4 mr-1 shrink-0" />
+                                    {FIELD_LABELS[error.field as TransferField] ?? error.field}: {error.message}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!preview || preview.validCount === 0 || dryRunMutation.isPending || importMutation.isPending}
+            onClick={() => importMutation.mutate()}
+            className="bg-primary hover:bg-primary-dark text-white"
+          >
+            {importMutation.isPending ? 'Importing...' : `Import ${preview?.validCount ?? 0} Items`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
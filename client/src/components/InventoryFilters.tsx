@@ -1,39 +1,78 @@
-import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search } from "lucide-react";
-import { FOOD_CATEGORIES } from "@shared/schema";
+import { Toggle } from "@/components/ui/toggle";
+import { Search, Soup } from "lucide-react";
+import { FOOD_ITEM_SORT_KEYS, FOOD_ITEM_STATUSES } from "@shared/food-item-query";
+import { useCategories, useStorageLocations } from "@/hooks/use-categories";
+import { useQuery } from "@tanstack/react-query";
+import { TagWithCount } from "@shared/schema";
 
-type InventoryFiltersProps = {
-  onSearchChange: (search: string) => void;
-  onCategoryChange: (category: string) => void;
-  onSortChange: (sort: string) => void;
+// Select value meaning "don't filter on this"
+const ALL = "all";
+
+export type InventoryFilterValues = {
+  search: string;
+  category: string; // built-in or custom category key, or "" for all
+  storageLocation: string;
+  status: typeof FOOD_ITEM_STATUSES[number] | "";
+  tag: string; // tag name, or "" for any
+  leftovers: boolean; // only show leftovers of cooked meals
+  sort: typeof FOOD_ITEM_SORT_KEYS[number];
+  direction: "asc" | "desc";
 };
 
-export default function InventoryFilters({
-  onSearchChange,
-  onCategoryChange,
-  onSortChange,
-}: InventoryFiltersProps) {
-  const [search, setSearch] = useState("");
+export const DEFAULT_INVENTORY_FILTERS: InventoryFilterValues = {
+  search: "",
+  category: "",
+  storageLocation: "",
+  status: "",
+  tag: "",
+  leftovers: false,
+  sort: "expiration",
+  direction: "asc",
+};
 
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setSearch(value);
-    onSearchChange(value);
-  };
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: "expiration:asc", label: "Expiring Soon" },
+  { value: "expiration:desc", label: "Expiring Last" },
+  { value: "created:desc", label: "Recently Added" },
+  { value: "name:asc", label: "Name (A-Z)" },
+  { value: "name:desc", label: "Name (Z-A)" },
+  { value: "quantity:desc", label: "Largest Quantity" },
+];
+
+const STATUS_LABELS: Record<typeof FOOD_ITEM_STATUSES[number], string> = {
+  "expired": "Expired",
+  "expiring-soon": "Expiring Soon",
+  "fresh": "Fresh",
+};
+
+type InventoryFiltersProps = {
+  filters: InventoryFilterValues;
+  onChange: (filters: InventoryFilterValues) => void;
+};
 
-  const handleCategoryChange = (value: string) => {
-    onCategoryChange(value);
+export default function InventoryFilters({ filters, onChange }: InventoryFiltersProps) {
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
+  const { data: allTags = [] } = useQuery<TagWithCount[]>({
+    queryKey: ['/api/tags'],
+  });
+  // Tags no item in stock carries any more would only filter down to nothing
+  const tags = allTags.filter(tag => tag.itemCount > 0 || tag.name === filters.tag);
+
+  const update = (changes: Partial<InventoryFilterValues>) => {
+    onChange({ ...filters, ...changes });
   };
 
   const handleSortChange = (value: string) => {
-    onSortChange(value);
+    const [sort, direction] = value.split(":") as [InventoryFilterValues["sort"], InventoryFilterValues["direction"]];
+    update({ sort, direction });
   };
 
   return (
     <div className="bg-white p-4 rounded-lg shadow mb-6">
-      <div className="flex flex-col sm:flex-row sm:items-center space-y-3 sm:space-y-0 sm:space-x-4">
+      <div className="flex flex-col lg:flex-row lg:items-center space-y-3 lg:space-y-0 lg:space-x-4">
         <div className="flex-1">
           <div className="relative rounded-md">
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -42,35 +81,104 @@ export default function InventoryFilters({
             <Input
               type="text"
               placeholder="Search inventory..."
-              value={search}
-              onChange={handleSearchChange}
+              value={filters.search}
+              onChange={(e) => update({ search: e.target.value })}
               className="pl-10"
             />
           </div>
         </div>
-        <div className="flex sm:flex-none space-x-3">
-          <Select onValueChange={handleCategoryChange} defaultValue="">
-            <SelectTrigger className="w-[180px] text-gray-500">
+        <div className={`grid grid-cols-2 ${tags.length > 0 ? "sm:grid-cols-6" : "sm:grid-cols-5"} gap-3 lg:flex-none`}>
+          <Select
+            value={filters.category || ALL}
+            onValueChange={(value) => update({ category: value === ALL ? "" : value })}
+          >
+            <SelectTrigger className="lg:w-[150px] text-gray-500">
               <SelectValue placeholder="All Categories" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="">All Categories</SelectItem>
-              {FOOD_CATEGORIES.map((category) => (
-                <SelectItem key={category} value={category}>
-                  {category.charAt(0).toUpperCase() + category.slice(1)}
+              <SelectItem value={ALL}>All Categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.key} value={category.key}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.storageLocation || ALL}
+            onValueChange={(value) => update({ storageLocation: value === ALL ? "" : value })}
+          >
+            <SelectTrigger className="lg:w-[150px] text-gray-500">
+              <SelectValue placeholder="All Locations" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Locations</SelectItem>
+              {locations.map((location) => (
+                <SelectItem key={location.key} value={location.key}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.status || ALL}
+            onValueChange={(value) => update({ status: value === ALL ? "" : value as InventoryFilterValues["status"] })}
+          >
+            <SelectTrigger className="lg:w-[150px] text-gray-500">
+              <SelectValue placeholder="Any Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any Status</SelectItem>
+              {FOOD_ITEM_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
 
-          <Select onValueChange={handleSortChange} defaultValue="expiring">
-            <SelectTrigger className="w-[180px] text-gray-500">
+          {tags.length > 0 && (
+            <Select
+              value={filters.tag || ALL}
+              onValueChange={(value) => update({ tag: value === ALL ? "" : value })}
+            >
+              <SelectTrigger className="lg:w-[150px] text-gray-500">
+                <SelectValue placeholder="Any Tag" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any Tag</SelectItem>
+                {tags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.name}>
+                    {tag.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Toggle
+            variant="outline"
+            pressed={filters.leftovers}
+            onPressedChange={(pressed) => update({ leftovers: pressed })}
+            className="text-gray-500 data-[state=on]:text-primary"
+            aria-label="Only leftovers"
+          >
+            <Soup className="h-4 w-4 mr-1" />
+            Leftovers
+          </Toggle>
+
+          <Select value={`${filters.sort}:${filters.direction}`} onValueChange={handleSortChange}>
+            <SelectTrigger className="lg:w-[160px] text-gray-500">
               <SelectValue placeholder="Expiring Soon" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="expiring">Expiring Soon</SelectItem>
-              <SelectItem value="recent">Recently Added</SelectItem>
-              <SelectItem value="name">Name (A-Z)</SelectItem>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -1,28 +1,86 @@
-import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect, useRef } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { FoodItemWithStatus } from "@shared/schema";
+import { FoodItemPage } from "@shared/food-item-query";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import ItemCard from "./ItemCard";
 import AddItemDialog from "./AddItemDialog";
+import QuickAddDialog from "./QuickAddDialog";
 import EditItemDialog from "./EditItemDialog";
+import InventoryFilters, { DEFAULT_INVENTORY_FILTERS, InventoryFilterValues } from "./InventoryFilters";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus } from "lucide-react";
+import { Plus, Wand2 } from "lucide-react";
 import { Link } from "wouter";
 
 type InventoryGridProps = {};
 
+// Items fetched per page as the grid scrolls
+const PAGE_SIZE = 24;
+
 export default function InventoryGrid({}: InventoryGridProps) {
-  const { data: foodItems, isLoading } = useQuery<FoodItemWithStatus[]>({
-    queryKey: ['/api/food-items'],
+  const [filters, setFilters] = useState<InventoryFilterValues>(DEFAULT_INVENTORY_FILTERS);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(filters.search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [filters.search]);
+
+  const params: Record<string, string> = {
+    sort: filters.sort,
+    direction: filters.direction,
+    limit: String(PAGE_SIZE),
+  };
+  if (debouncedSearch) params.search = debouncedSearch;
+  if (filters.category) params.category = filters.category;
+  if (filters.storageLocation) params.storageLocation = filters.storageLocation;
+  if (filters.status) params.status = filters.status;
+  if (filters.tag) params.tags = filters.tag;
+  if (filters.leftovers) params.leftovers = "true";
+
+  // Keyed under '/api/food-items' so invalidating the inventory refreshes every loaded page
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/food-items', params],
+    queryFn: async ({ pageParam }) => {
+      const query = new URLSearchParams(params);
+      if (pageParam) query.set('cursor', pageParam);
+      const res = await apiRequest('GET', `/api/food-items?${query}`);
+      return await res.json() as FoodItemPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
-  
-  const [search, setSearch] = useState("");
-  const [category, setCategory] = useState("");
-  const [sortBy, setSortBy] = useState("expiring");
-  const [filteredItems, setFilteredItems] = useState<FoodItemWithStatus[]>([]);
+
+  const items = data?.pages.flatMap(page => page.items) ?? [];
+  const hasFilters = !!(debouncedSearch || filters.category || filters.storageLocation || filters.status || filters.tag || filters.leftovers);
+
+  // Load the next page when the end of the grid scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isQuickAddDialogOpen, setIsQuickAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<FoodItemWithStatus | null>(null);
   
@@ -33,12 +91,18 @@ export default function InventoryGrid({}: InventoryGridProps) {
     mutationFn: async (id: number) => {
       await apiRequest('DELETE', `/api/food-items/${id}`);
     },
-    onSuccess: () => {
+    onSuccess: (_data, id) => {
       queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items/trash'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
       toast({
-        title: "Item deleted",
-        description: "The item has been successfully deleted from your inventory.",
+        title: "Item moved to trash",
+        description: "You can restore it from the trash until it's purged.",
+        action: (
+          <ToastAction altText="Undo" onClick={() => restoreItemMutation.mutate(id)}>
+            Undo
+          </ToastAction>
+        ),
       });
     },
     onError: (error) => {
@@ -50,43 +114,27 @@ export default function InventoryGrid({}: InventoryGridProps) {
     },
   });
 
-  useEffect(() => {
-    if (!foodItems) return;
-
-    // Filter out items with quantity 0 (fully consumed)
-    let result = foodItems.filter(item => item.quantity > 0);
-
-    // Apply search filter
-    if (search) {
-      const searchLower = search.toLowerCase();
-      result = result.filter(item => 
-        item.name.toLowerCase().includes(searchLower) || 
-        item.notes?.toLowerCase().includes(searchLower)
-      );
-    }
-
-    // Apply category filter
-    if (category) {
-      result = result.filter(item => item.category === category);
-    }
-
-    // Apply sorting
-    switch (sortBy) {
-      case "expiring":
-        result.sort((a, b) => a.daysUntilExpiration - b.daysUntilExpiration);
-        break;
-      case "recent":
-        result.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        break;
-      case "name":
-        result.sort((a, b) => a.name.localeCompare(b.name));
-        break;
-      default:
-        break;
-    }
-
-    setFilteredItems(result);
-  }, [foodItems, search, category, sortBy]);
+  const restoreItemMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('POST', `/api/food-items/${id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      toast({
+        title: "Item restored",
+        description: "The item is back in your inventory.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to restore item: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleEdit = (item: FoodItemWithStatus) => {
     setSelectedItem(item);
@@ -94,9 +142,8 @@ export default function InventoryGrid({}: InventoryGridProps) {
   };
 
   const handleDelete = (id: number) => {
-    if (window.confirm("Are you sure you want to delete this item?")) {
-      deleteItemMutation.mutate(id);
-    }
+    // No confirmation needed: the toast offers an undo and the item stays in the trash
+    deleteItemMutation.mutate(id);
   };
 
   return (
@@ -109,60 +156,17 @@ export default function InventoryGrid({}: InventoryGridProps) {
           >
             <Plus className="mr-2 h-5 w-5" /> Add Item
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsQuickAddDialogOpen(true)}
+            className="inline-flex items-center"
+          >
+            <Wand2 className="mr-2 h-5 w-5" /> Quick Add
+          </Button>
         </div>
       </div>
 
-      {/* Filters Component */}
-      <div className="bg-white p-4 rounded-lg shadow mb-6">
-        <div className="flex flex-col sm:flex-row sm:items-center space-y-3 sm:space-y-0 sm:space-x-4">
-          <div className="flex-1">
-            <label htmlFor="search" className="sr-only">Search</label>
-            <div className="relative rounded-md shadow-sm">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <svg className="h-4 w-4 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <input
-                type="text"
-                name="search"
-                id="search"
-                className="focus:ring-primary focus:border-primary block w-full pl-10 sm:text-sm border-gray-300 rounded-md py-2 px-3 border"
-                placeholder="Search inventory..."
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-              />
-            </div>
-          </div>
-          <div className="flex sm:flex-none">
-            <select
-              id="category-filter"
-              className="focus:ring-primary focus:border-primary h-full py-2 pl-3 pr-7 border-gray-300 bg-white text-gray-500 sm:text-sm rounded-md border"
-              value={category}
-              onChange={(e) => setCategory(e.target.value)}
-            >
-              <option value="">All Categories</option>
-              <option value="produce">Produce</option>
-              <option value="dairy">Dairy</option>
-              <option value="meat">Meat</option>
-              <option value="bakery">Bakery</option>
-              <option value="pantry">Pantry</option>
-              <option value="frozen">Frozen</option>
-              <option value="other">Other</option>
-            </select>
-            <select
-              id="sort-filter"
-              className="ml-3 focus:ring-primary focus:border-primary h-full py-2 pl-3 pr-7 border-gray-300 bg-white text-gray-500 sm:text-sm rounded-md border"
-              value={sortBy}
-              onChange={(e) => setSortBy(e.target.value)}
-            >
-              <option value="expiring">Expiring Soon</option>
-              <option value="recent">Recently Added</option>
-              <option value="name">Name (A-Z)</option>
-            </select>
-          </div>
-        </div>
-      </div>
+      <InventoryFilters filters={filters} onChange={setFilters} />
 
       {/* Inventory Grid */}
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
@@ -185,8 +189,8 @@ export default function InventoryGrid({}: InventoryGridProps) {
               </div>
             </div>
           ))
-        ) : filteredItems.length > 0 ? (
-          filteredItems.map((item) => (
+        ) : items.length > 0 ? (
+          items.map((item) => (
             <ItemCard
               key={item.id}
               item={item}
@@ -197,7 +201,7 @@ export default function InventoryGrid({}: InventoryGridProps) {
         ) : (
           <div className="col-span-full text-center py-12">
             <p className="text-gray-500 text-lg">No items found.</p>
-            {category || search ? (
+            {hasFilters ? (
               <p className="text-gray-400 mt-2">Try adjusting your filters or search terms.</p>
             ) : (
               <Button 
@@ -211,11 +215,20 @@ export default function InventoryGrid({}: InventoryGridProps) {
         )}
       </div>
 
+      <div ref={loadMoreRef} className="py-6 text-center text-sm text-gray-500">
+        {isFetchingNextPage && "Loading more items..."}
+      </div>
+
       <AddItemDialog 
         open={isAddDialogOpen} 
         onOpenChange={setIsAddDialogOpen} 
       />
 
+      <QuickAddDialog
+        open={isQuickAddDialogOpen}
+        onOpenChange={setIsQuickAddDialogOpen}
+      />
+
       {selectedItem && (
         <EditItemDialog
           open={isEditDialogOpen}
@@ -1,10 +1,22 @@
 import { FoodItemWithStatus } from "@shared/schema";
+import { formatQuantity } from "@shared/units";
 import FoodCategoryIcon from "./FoodCategoryIcon";
 import StatusBadge from "./StatusBadge";
-import { Pencil, Trash2, Utensils } from "lucide-react";
+import { ArrowRightLeft, Combine, HandHeart, PackageOpen, PackagePlus, PackageX, Pencil, Soup, Trash2, Utensils } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { useState } from "react";
 import ConsumeItemDialog from "./ConsumeItemDialog";
+import DiscardItemDialog from "./DiscardItemDialog";
+import AddLotDialog from "./AddLotDialog";
+import OpenItemDialog from "./OpenItemDialog";
+import MoveItemDialog from "./MoveItemDialog";
+import ShareItemDialog from "./ShareItemDialog";
+import MergeItemsDialog from "./MergeItemsDialog";
+import ItemDetailsDialog from "./ItemDetailsDialog";
+import { format } from "date-fns";
+import { useCategories, useStorageLocations, findOption } from "@/hooks/use-categories";
+import { useParLevels } from "@/hooks/use-par-levels";
 
 type ItemCardProps = {
   item: FoodItemWithStatus;
@@ -15,6 +27,17 @@ type ItemCardProps = {
 export default function ItemCard({ item, onEdit, onDelete }: ItemCardProps) {
   const { name, category, quantity, unit, status, daysUntilExpiration } = item;
   const [isConsumeDialogOpen, setIsConsumeDialogOpen] = useState(false);
+  const [isDiscardDialogOpen, setIsDiscardDialogOpen] = useState(false);
+  const [isAddLotDialogOpen, setIsAddLotDialogOpen] = useState(false);
+  const [isOpenDialogOpen, setIsOpenDialogOpen] = useState(false);
+  const [isMoveDialogOpen, setIsMoveDialogOpen] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
+  const lots = item.lots?.filter(lot => lot.quantity > 0) ?? [];
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
+  const { isLowStock } = useParLevels();
   
   // Calculate progress bar percentage based on days until expiration
   let progressPercentage = 100;
@@ -31,9 +54,20 @@ export default function ItemCard({ item, onEdit, onDelete }: ItemCardProps) {
   return (
     <div className="bg-white overflow-hidden shadow rounded-lg">
       <div className="px-4 pt-4 flex justify-between items-start">
-        <div className={`rounded-full bg-${statusColor}-100 p-2`}>
-          <FoodCategoryIcon category={category} />
-        </div>
+        {item.photos.length > 0 ? (
+          <button
+            type="button"
+            onClick={() => setIsDetailsDialogOpen(true)}
+            className={`h-12 w-12 rounded-lg overflow-hidden ring-2 ring-${statusColor}-100`}
+            title="Show photos"
+          >
+            <img src={item.photos[0]} alt={name} className="h-full w-full object-cover" />
+          </button>
+        ) : (
+          <div className={`rounded-full bg-${statusColor}-100 p-2`}>
+            <FoodCategoryIcon category={category} />
+          </div>
+        )}
         <div className="flex space-x-2">
           <Button 
             variant="ghost" 
@@ -45,6 +79,68 @@ export default function ItemCard({ item, onEdit, onDelete }: ItemCardProps) {
             <Utensils className="h-4 w-4" />
             <span className="sr-only">Consume</span>
           </Button>
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={() => setIsDiscardDialogOpen(true)}
+            className="h-8 w-8 text-gray-400 hover:text-orange-500"
+            title="Discard as waste"
+          >
+            <PackageX className="h-4 w-4" />
+            <span className="sr-only">Discard</span>
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={() => setIsAddLotDialogOpen(true)}
+            className="h-8 w-8 text-gray-400 hover:text-blue-500"
+            title="Add another purchase"
+          >
+            <PackagePlus className="h-4 w-4" />
+            <span className="sr-only">Add purchase</span>
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={() => setIsOpenDialogOpen(true)}
+            className={`h-8 w-8 hover:text-amber-500 ${item.openedDate ? 'text-amber-500' : 'text-gray-400'}`}
+            title={item.openedDate ? "Opened" : "Mark as opened"}
+          >
+            <PackageOpen className="h-4 w-4" />
+            <span className="sr-only">Mark as opened</span>
+          </Button>
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={() => setIsMoveDialogOpen(true)}
+            className="h-8 w-8 text-gray-400 hover:text-sky-500"
+            title="Move to another location"
+          >
+            <ArrowRightLeft className="h-4 w-4" />
+            <span className="sr-only">Move</span>
+          </Button>
+          {status !== 'expired' && (
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              onClick={() => setIsShareDialogOpen(true)}
+              className="h-8 w-8 text-gray-400 hover:text-pink-500"
+              title="Share with the community"
+            >
+              <HandHeart className="h-4 w-4" />
+              <span className="sr-only">Share</span>
+            </Button>
+          )}
+          <Button 
+            variant="ghost" 
+            size="icon" 
+            onClick={() => setIsMergeDialogOpen(true)}
+            className="h-8 w-8 text-gray-400 hover:text-violet-500"
+            title="Merge duplicates into this item"
+          >
+            <Combine className="h-4 w-4" />
+            <span className="sr-only">Merge</span>
+          </Button>
           <Button 
             variant="ghost" 
             size="icon" 
@@ -66,13 +162,55 @@ export default function ItemCard({ item, onEdit, onDelete }: ItemCardProps) {
         </div>
       </div>
       <div className="px-4 py-3">
-        <p className="text-lg font-semibold text-gray-900 truncate">{name}</p>
+        <button
+          type="button"
+          onClick={() => setIsDetailsDialogOpen(true)}
+          className="block max-w-full text-left text-lg font-semibold text-gray-900 truncate hover:underline"
+          title="Show details and history"
+        >
+          {name}
+        </button>
         <p className="mt-1 text-sm text-gray-500">
-          {quantity} {unit} • {capitalizeFirstLetter(category)}
+          {formatQuantity(quantity, unit)} • {findOption(categories, category).name} • {findOption(locations, item.storageLocation).name}
         </p>
         <div className="mt-2 flex items-center">
           <StatusBadge status={status} daysUntilExpiration={daysUntilExpiration} />
+          {isLowStock(name) && (
+            <span className="ml-2">
+              <StatusBadge status="low-stock" />
+            </span>
+          )}
+          {item.leftovers && (
+            <Badge variant="outline" className="ml-2 font-normal text-orange-700 border-orange-200 bg-orange-50">
+              <Soup className="h-3 w-3 mr-1" />
+              Leftovers
+            </Badge>
+          )}
+          {item.openedDate && (
+            <span className="ml-2 text-xs text-gray-500">
+              Opened {format(new Date(item.openedDate), 'MMM d')}
+            </span>
+          )}
         </div>
+        {item.tags && item.tags.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {item.tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="font-normal">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {lots.length > 1 && (
+          <ul className="mt-2 space-y-0.5 text-xs text-gray-500">
+            {lots.map(lot => (
+              <li key={lot.id} className="flex justify-between">
+                <span>{formatQuantity(lot.quantity, unit)} from {format(new Date(lot.purchaseDate), 'MMM d')}</span>
+                <span>exp. {format(new Date(lot.expirationDate), 'MMM d')}</span>
+              </li>
+            ))}
+          </ul>
+        )}
         <div className="mt-3 w-full bg-gray-200 rounded-full h-1.5">
           <div 
             className={`bg-${statusColor}-500 h-1.5 rounded-full`} 
@@ -86,6 +224,48 @@ export default function ItemCard({ item, onEdit, onDelete }: ItemCardProps) {
         onOpenChange={setIsConsumeDialogOpen}
         item={item}
       />
+      
+      <DiscardItemDialog
+        open={isDiscardDialogOpen}
+        onOpenChange={setIsDiscardDialogOpen}
+        item={item}
+      />
+      
+      <AddLotDialog
+        open={isAddLotDialogOpen}
+        onOpenChange={setIsAddLotDialogOpen}
+        item={item}
+      />
+      
+      <OpenItemDialog
+        open={isOpenDialogOpen}
+        onOpenChange={setIsOpenDialogOpen}
+        item={item}
+      />
+      
+      <MoveItemDialog
+        open={isMoveDialogOpen}
+        onOpenChange={setIsMoveDialogOpen}
+        item={item}
+      />
+      
+      <ShareItemDialog
+        open={isShareDialogOpen}
+        onOpenChange={setIsShareDialogOpen}
+        item={item}
+      />
+      
+      <MergeItemsDialog
+        open={isMergeDialogOpen}
+        onOpenChange={setIsMergeDialogOpen}
+        item={item}
+      />
+      
+      <ItemDetailsDialog
+        open={isDetailsDialogOpen}
+        onOpenChange={setIsDetailsDialogOpen}
+        item={item}
+      />
     </div>
   );
 }
@@ -102,7 +282,3 @@ function getStatusColor(status: 'expired' | 'expiring-soon' | 'fresh'): string {
       return 'gray';
   }
 }
-
-function capitalizeFirstLetter(str: string): string {
-  return str.charAt(0).toUpperCase() + str.slice(1);
-}
@@ -0,0 +1,131 @@
+import { format, parseISO } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { FoodItemWithStatus, ItemNutrition, NUTRIENTS } from "@shared/schema";
+import { formatQuantity } from "@shared/units";
+import { formatPrice } from "@shared/prices";
+import { NUTRIENT_LABELS, formatNutrient } from "@shared/nutrition";
+import { ALLERGEN_LABELS } from "@shared/dietary";
+import FoodCategoryIcon from "./FoodCategoryIcon";
+import StatusBadge from "./StatusBadge";
+import ItemTimeline from "./ItemTimeline";
+import { History } from "lucide-react";
+import { useCategories, useStorageLocations, findOption } from "@/hooks/use-categories";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+
+type ItemDetailsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: FoodItemWithStatus;
+};
+
+export default function ItemDetailsDialog({ open, onOpenChange, item }: ItemDetailsDialogProps) {
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
+  const { data: nutrition } = useQuery<ItemNutrition | null>({
+    queryKey: [`/api/food-items/${item.id}/nutrition`],
+    enabled: open,
+  });
+  const details: [string, string][] = [
+    ["Quantity", formatQuantity(item.quantity, item.unit)],
+    ["Location", findOption(locations, item.storageLocation).name],
+    ["Purchased", format(parseISO(item.purchaseDate), 'MMM d, yyyy')],
+    ["Expires", format(parseISO(item.effectiveExpirationDate), 'MMM d, yyyy')],
+  ];
+  if (item.openedDate) {
+    details.push(["Opened", format(parseISO(item.openedDate), 'MMM d, yyyy')]);
+  }
+  if (item.barcode) {
+    details.push(["Barcode", item.barcode]);
+  }
+  if (item.price !== null) {
+    details.push(["Price paid", formatPrice(item.price, item.currency)]);
+  }
+  if (item.unitPrice !== null) {
+    details.push(["Value left", formatPrice(item.unitPrice * item.quantity, item.currency)]);
+  }
+  if (item.store) {
+    details.push(["Store", item.store]);
+  }
+  if (item.allergens.length > 0) {
+    details.push(["Allergens", item.allergens.map(allergen => ALLERGEN_LABELS[allergen]).join(", ")]);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <span className="mr-2">
+              <FoodCategoryIcon category={item.category} />
+            </span>
+            {item.name}
+          </DialogTitle>
+          <DialogDescription asChild>
+            <div className="flex items-center space-x-2">
+              <StatusBadge status={item.status} daysUntilExpiration={item.daysUntilExpiration} />
+              <span>{findOption(categories, item.category).name}</span>
+            </div>
+          </DialogDescription>
+        </DialogHeader>
+
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+          {details.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-900">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {item.notes && <p className="text-sm text-gray-600 whitespace-pre-line">{item.notes}</p>}
+        {item.photos.length > 0 && (
+          <div className="grid grid-cols-3 gap-2">
+            {item.photos.map((photo, index) => (
+              <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={photo}
+                  alt={`${item.name} photo ${index + 1}`}
+                  className="w-full h-24 object-cover rounded-md border border-border"
+                />
+              </a>
+            ))}
+          </div>
+        )}
+
+        {nutrition && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-900">Nutrition per 100 g</h3>
+            <dl className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm">
+              {NUTRIENTS.map((nutrient) => (
+                <div key={nutrient}>
+                  <dt className="text-gray-500">{NUTRIENT_LABELS[nutrient].label}</dt>
+                  <dd className="text-gray-900">{formatNutrient(nutrient, nutrition.per100g[nutrient])}</dd>
+                </div>
+              ))}
+            </dl>
+            <p className="text-xs text-gray-500">
+              {nutrition.source === "item" ? "Entered for this item" : `Typical values for ${nutrition.matchedName}`}
+            </p>
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h3 className="flex items-center text-sm font-semibold text-gray-900">
+            <History className="h-4 w-4 mr-2" />
+            History
+          </h3>
+          {open && <ItemTimeline foodItemId={item.id} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
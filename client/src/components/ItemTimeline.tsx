@@ -0,0 +1,135 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { FoodItemEventWithUser, FOOD_ITEM_EVENT_TYPES } from "@shared/schema";
+import { formatQuantity } from "@shared/units";
+import {
+  ArrowRightLeft,
+  Combine,
+  HandHeart,
+  PackageOpen,
+  PackagePlus,
+  Pencil,
+  Plus,
+  RotateCcw,
+  Trash2,
+  Utensils,
+  XCircle,
+  type LucideIcon,
+} from "lucide-react";
+
+type FoodItemEventType = typeof FOOD_ITEM_EVENT_TYPES[number];
+
+const EVENT_STYLES: Record<FoodItemEventType, { icon: LucideIcon; label: string; color: string }> = {
+  created: { icon: Plus, label: "Added", color: "text-green-600 bg-green-100" },
+  edited: { icon: Pencil, label: "Edited", color: "text-gray-600 bg-gray-100" },
+  restocked: { icon: PackagePlus, label: "Restocked", color: "text-blue-600 bg-blue-100" },
+  opened: { icon: PackageOpen, label: "Opened", color: "text-amber-600 bg-amber-100" },
+  moved: { icon: ArrowRightLeft, label: "Moved", color: "text-sky-600 bg-sky-100" },
+  consumed: { icon: Utensils, label: "Consumed", color: "text-green-600 bg-green-100" },
+  wasted: { icon: XCircle, label: "Wasted", color: "text-red-600 bg-red-100" },
+  deleted: { icon: Trash2, label: "Moved to trash", color: "text-red-600 bg-red-100" },
+  restored: { icon: RotateCcw, label: "Restored", color: "text-green-600 bg-green-100" },
+  shared: { icon: HandHeart, label: "Shared", color: "text-pink-600 bg-pink-100" },
+  merged: { icon: Combine, label: "Merged", color: "text-violet-600 bg-violet-100" },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "name",
+  category: "category",
+  quantity: "quantity",
+  unit: "unit",
+  unitWeight: "unit weight",
+  purchaseDate: "purchase date",
+  expirationDate: "expiration date",
+  storageLocation: "location",
+  notes: "notes",
+  barcode: "barcode",
+  openedDate: "opened date",
+  openedExpirationDate: "opened expiration",
+  price: "price",
+  currency: "currency",
+  store: "store",
+};
+
+type ItemTimelineProps = {
+  foodItemId: number;
+};
+
+export default function ItemTimeline({ foodItemId }: ItemTimelineProps) {
+  const { data: events = [], isLoading } = useQuery<FoodItemEventWithUser[]>({
+    queryKey: [`/api/food-items/${foodItemId}/events`],
+    // Any change to the item adds to its history, so refetch whenever the timeline is shown
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No history recorded for this item yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+      {events.map(event => {
+        const style = EVENT_STYLES[event.eventType];
+        const Icon = style.icon;
+        return (
+          <li key={event.id} className="ml-6">
+            <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ${style.color}`}>
+              <Icon className="h-3 w-3" />
+            </span>
+            <p className="text-sm font-medium text-gray-900">
+              {style.label}
+              {describeEvent(event)}
+            </p>
+            {event.details.changes && Object.keys(event.details.changes).length > 0 && (
+              <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                {Object.entries(event.details.changes).map(([field, change]) => (
+                  <li key={field}>
+                    {FIELD_LABELS[field] ?? field}: {formatValue(change.before)} → {formatValue(change.after)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="mt-1 text-xs text-gray-500" title={format(new Date(event.createdAt), 'PPpp')}>
+              {event.user ? (event.user.name || event.user.username) : "Someone"} · {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function describeEvent(event: FoodItemEventWithUser): string {
+  const { quantity, unit, fromLocation, toLocation, reason, source, mergedFrom } = event.details;
+  const amount = quantity !== undefined && unit ? ` ${formatQuantity(quantity, unit)}` : "";
+
+  switch (event.eventType) {
+    case "created":
+      return `${amount}${source === "import" ? " from an import" : source === "barcode" ? " from a barcode scan" : source === "quick-add" ? " with quick add" : source === "leftovers" ? " as leftovers" : ""}`;
+    case "consumed":
+    case "restocked":
+    case "shared":
+      return amount;
+    case "wasted":
+      return `${amount}${reason ? ` (${reason})` : ""}`;
+    case "moved":
+      return fromLocation && toLocation ? ` from the ${fromLocation} to the ${toLocation}` : "";
+    case "deleted":
+      return amount ? ` with${amount} left` : "";
+    case "merged":
+      return `${mergedFrom ? ` in ${mergedFrom}` : ""}${amount ? ` (${amount.trim()})` : ""}`;
+    default:
+      return "";
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "none";
+  }
+  return String(value);
+}
@@ -0,0 +1,278 @@
+import { useEffect, useRef } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
+import { QUANTITY_UNITS, ShelfLifeSuggestion } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useStorageLocations } from "@/hooks/use-categories";
+import ShelfLifeHint from "@/components/ShelfLifeHint";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Soup } from "lucide-react";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  quantity: z.coerce.number()
+    .min(0.01, "Quantity must be greater than 0"),
+  unit: z.enum(QUANTITY_UNITS),
+  storageLocation: z.string().min(1, "Storage location is required"),
+  cookedDate: z.string().min(1, "Cooked date is required"),
+  expirationDate: z.string().min(1, "Expiration date is required"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+type LogLeftoversDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mealPlan: {
+    id: number;
+    name: string;
+  };
+  cookedDate: string; // yyyy-MM-dd, the day the meal was planned for
+};
+
+export default function LogLeftoversDialog({ open, onOpenChange, mealPlan, cookedDate }: LogLeftoversDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { locations } = useStorageLocations();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: `${mealPlan.name} leftovers`,
+      quantity: 1,
+      unit: "items",
+      storageLocation: "refrigerator",
+      cookedDate,
+      expirationDate: "",
+    },
+  });
+
+  // Follow the suggestion until the user picks an expiration date themselves
+  const expirationTouched = useRef(false);
+  const params = new URLSearchParams({
+    storageLocation: form.watch("storageLocation"),
+    cookedDate: form.watch("cookedDate"),
+  });
+  const { data: suggestion } = useQuery<ShelfLifeSuggestion>({
+    queryKey: [`/api/meal-plans/${mealPlan.id}/leftovers/suggestion?${params.toString()}`],
+    enabled: open && !!form.watch("storageLocation") && !!form.watch("cookedDate"),
+  });
+
+  useEffect(() => {
+    if (suggestion && !expirationTouched.current) {
+      form.setValue("expirationDate", suggestion.expirationDate);
+    }
+  }, [suggestion, form]);
+
+  const logLeftoversMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      return await apiRequest('POST', `/api/meal-plans/${mealPlan.id}/leftovers`, values);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+
+      toast({
+        title: "Leftovers logged",
+        description: "The leftovers have been added to your inventory.",
+      });
+
+      form.reset();
+      expirationTouched.current = false;
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to log leftovers: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Soup className="w-5 h-5 mr-2 text-primary" />
+            Log Leftovers
+          </DialogTitle>
+          <DialogDescription>
+            Add what's left of {mealPlan.name} to your inventory, linked to this meal and its ingredients.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => logLeftoversMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a unit" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {QUANTITY_UNITS.map((unit) => (
+                          <SelectItem key={unit} value={unit}>
+                            {unit}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="storageLocation"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Storage Location</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select location" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {locations.map((location) => (
+                        <SelectItem key={location.key} value={location.key}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="cookedDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cooked On</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="expirationDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expiration Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        {...field}
+                        onChange={(e) => {
+                          expirationTouched.current = true;
+                          field.onChange(e.target.value);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <ShelfLifeHint
+              suggestion={suggestion}
+              onApply={form.watch("expirationDate") !== suggestion?.expirationDate
+                ? (expirationDate) => {
+                    form.setValue("expirationDate", expirationDate);
+                    expirationTouched.current = false;
+                  }
+                : undefined}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={logLeftoversMutation.isPending}
+                className="bg-primary hover:bg-primary-dark text-white"
+              >
+                {logLeftoversMutation.isPending ? "Saving..." : "Log Leftovers"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { endOfWeek, format, startOfWeek } from "date-fns";
+import { NUTRIENTS, NutritionSummary, NutritionValues } from "@shared/schema";
+import { NUTRIENT_LABELS, formatNutrient } from "@shared/nutrition";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Apple } from "lucide-react";
+
+type MealPlanNutritionCardProps = {
+  date: Date;
+};
+
+/**
+ * Estimated nutrition of the meals planned on a day and over its week
+ */
+export default function MealPlanNutritionCard({ date }: MealPlanNutritionCardProps) {
+  const startDate = format(startOfWeek(date), 'yyyy-MM-dd');
+  const endDate = format(endOfWeek(date), 'yyyy-MM-dd');
+  const selectedDate = format(date, 'yyyy-MM-dd');
+
+  // Keyed by the week so meal plan and item changes can invalidate every week at once
+  const { data: summary, isLoading } = useQuery<NutritionSummary>({
+    queryKey: ['/api/meal-plans/nutrition', startDate, endDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate, endDate });
+      const response = await apiRequest('GET', `/api/meal-plans/nutrition?${params.toString()}`);
+      return await response.json();
+    },
+  });
+
+  const day = summary?.days.find(candidate => candidate.date === selectedDate);
+  const unknown = Array.from(new Set(
+    summary?.meals.filter(meal => meal.date === selectedDate).flatMap(meal => meal.unknown) ?? []
+  ));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Apple className="mr-2 h-5 w-5 text-primary" />
+          Nutrition
+        </CardTitle>
+        <CardDescription>
+          Estimated with one typical serving of each ingredient
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Adding up your meals...</p>
+        ) : !summary || summary.meals.length === 0 ? (
+          <p className="text-sm text-gray-500">No meals planned this week</p>
+        ) : (
+          <div className="space-y-4">
+            <NutritionTable
+              columns={[
+                [format(date, 'EEE, MMM d'), day?.totals ?? null],
+                ["Week total", summary.totals],
+                ["Daily average", summary.dailyAverage],
+              ]}
+            />
+            <p className="text-xs text-gray-500">
+              The week's average covers the {summary.days.length} day{summary.days.length === 1 ? '' : 's'} with meals planned.
+            </p>
+            {unknown.length > 0 && (
+              <p className="text-xs text-amber-600">
+                No nutrition data for {unknown.join(', ')}; add it from the item's edit dialog.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function NutritionTable({ columns }: { columns: [string, NutritionValues | null][] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="text-left font-medium py-1"></th>
+          {columns.map(([label]) => (
+            <th key={label} className="text-right font-medium py-1">{label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {NUTRIENTS.map((nutrient) => (
+          <tr key={nutrient} className="border-t">
+            <td className="py-1 text-gray-600">{NUTRIENT_LABELS[nutrient].label}</td>
+            {columns.map(([label, values]) => (
+              <td key={label} className="py-1 text-right">
+                {values ? formatNutrient(nutrient, values[nutrient]) : '—'}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FoodItemWithStatus } from "@shared/schema";
+import { convertQuantity, formatQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDuplicateCheck } from "@/hooks/use-duplicate-check";
+import { useStorageLocations, findOption } from "@/hooks/use-categories";
+import { Combine } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+
+type MergeItemsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: FoodItemWithStatus;
+};
+
+export default function MergeItemsDialog({ open, onOpenChange, item }: MergeItemsDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { locations } = useStorageLocations();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds([]);
+      setShowAll(false);
+    }
+  }, [open]);
+
+  const { duplicates, isLoading } = useDuplicateCheck({
+    name: item.name,
+    category: item.category,
+    storageLocation: item.storageLocation,
+    excludeId: item.id,
+  }, open);
+
+  // Items the duplicate check didn't catch, e.g. the same food kept somewhere else
+  const { data: allItems = [] } = useQuery<FoodItemWithStatus[]>({
+    queryKey: ['/api/food-items'],
+    enabled: open && showAll,
+  });
+
+  const candidates = showAll
+    ? allItems.filter(other => other.id !== item.id && other.quantity > 0)
+    : duplicates;
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, id] : ids.filter(selected => selected !== id));
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/food-items/${item.id}/merge`, { itemIds: selectedIds });
+      return await res.json();
+    },
+    onSuccess: (data: FoodItemWithStatus) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/meal-plans'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/food-items/${item.id}/events`] });
+      toast({
+        title: "Items merged",
+        description: `${item.name} now has ${formatQuantity(data.quantity, data.unit)}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to merge items: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Combine className="w-5 h-5 mr-2 text-primary" />
+            Merge into {item.name}
+          </DialogTitle>
+          <DialogDescription>
+            The selected items' quantities are added to {item.name} as separate purchases, and their
+            photos and consumption, waste and meal plan history move over. The emptied items then go to the trash.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="merge-show-all">Show all items</Label>
+            <Switch id="merge-show-all" checked={showAll} onCheckedChange={setShowAll} />
+          </div>
+
+          {!showAll && isLoading ? (
+            <p className="text-sm text-gray-500">Looking for duplicates...</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No other {findOption(locations, item.storageLocation).name.toLowerCase()} items look like {item.name}.
+            </p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto space-y-2">
+              {candidates.map(other => {
+                const convertible = convertQuantity(1, other.unit, item.unit, other.unitWeight ?? item.unitWeight) !== null;
+                return (
+                  <li key={other.id} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`merge-${other.id}`}
+                      checked={selectedIds.includes(other.id)}
+                      disabled={!convertible}
+                      onCheckedChange={(checked) => toggle(other.id, checked === true)}
+                    />
+                    <Label htmlFor={`merge-${other.id}`} className="font-normal leading-tight">
+                      <span className="font-medium">{other.name}</span>
+                      <span className="block text-xs text-gray-500">
+                        {formatQuantity(other.quantity, other.unit)} in {findOption(locations, other.storageLocation).name}
+                        {!convertible && ` · can't be converted to ${item.unit}`}
+                      </span>
+                    </Label>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={mergeMutation.isPending || selectedIds.length === 0}
+            onClick={() => mergeMutation.mutate()}
+            className="bg-primary hover:bg-primary-dark text-white"
+          >
+            {mergeMutation.isPending ? 'Merging...' : `Merge ${selectedIds.length || ''} ${selectedIds.length === 1 ? 'item' : 'items'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -95,6 +95,7 @@ export default function MobileTopBar() {
     { href: "/", label: "Dashboard", icon: <ChevronRight className="h-4 w-4" /> },
     { href: "/inventory", label: "Inventory", icon: <ChevronRight className="h-4 w-4" /> },
     { href: "/meal-planning", label: "Meal Planning", icon: <ChevronRight className="h-4 w-4" /> },
+    { href: "/shopping-list", label: "Shopping List", icon: <ChevronRight className="h-4 w-4" /> },
     { href: "/tips", label: "Tips", icon: <ChevronRight className="h-4 w-4" /> },
     { href: "/community", label: "Community", icon: <ChevronRight className="h-4 w-4" /> },
     { href: "/settings", label: "Settings", icon: <ChevronRight className="h-4 w-4" /> },
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FoodItemWithStatus, StorageMove } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useStorageLocations, findOption } from "@/hooks/use-categories";
+import { ArrowRight, ArrowRightLeft } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+type MoveItemDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: FoodItemWithStatus;
+};
+
+export default function MoveItemDialog({ open, onOpenChange, item }: MoveItemDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { locations } = useStorageLocations();
+  const otherLocations = locations.filter(location => location.key !== item.storageLocation);
+  const locationName = (key: string) => findOption(locations, key).name;
+  const isFrozen = findOption(locations, item.storageLocation).base === "freezer";
+  const [toLocation, setToLocation] = useState<string>(isFrozen ? "refrigerator" : "freezer");
+  const [movedDate, setMovedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  useEffect(() => {
+    if (open) {
+      setToLocation(isFrozen ? "refrigerator" : "freezer");
+      setMovedDate(format(new Date(), 'yyyy-MM-dd'));
+    }
+  }, [open, isFrozen]);
+
+  const { data: moves = [], isLoading: isLoadingMoves } = useQuery<StorageMove[]>({
+    queryKey: [`/api/food-items/${item.id}/moves`],
+    enabled: open,
+  });
+
+  const moveItemMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/food-items/${item.id}/move`, {
+        storageLocation: toLocation,
+        movedDate,
+      });
+      return await res.json();
+    },
+    onSuccess: (data: FoodItemWithStatus) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/food-items/${item.id}/moves`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      toast({
+        title: `Moved to the ${locationName(toLocation)}`,
+        description: `${item.name} now keeps until ${format(parseISO(data.effectiveExpirationDate), 'MMM d, yyyy')}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to move item: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ArrowRightLeft className="w-5 h-5 mr-2 text-primary" />
+            Move {item.name}
+          </DialogTitle>
+          <DialogDescription>
+            Currently in the {locationName(item.storageLocation)}. The expiration date is recalculated for the new location,
+            and time spent in the freezer doesn't count.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Move To</Label>
+            <div className="flex flex-wrap gap-2">
+              {otherLocations.map(location => (
+                <Button
+                  key={location.key}
+                  type="button"
+                  size="sm"
+                  variant={toLocation === location.key ? "default" : "outline"}
+                  onClick={() => setToLocation(location.key)}
+                >
+                  {location.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="moved-date">Moved On</Label>
+            <Input
+              id="moved-date"
+              type="date"
+              value={movedDate}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setMovedDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Location History</Label>
+            {isLoadingMoves ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : moves.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Kept in the {locationName(item.storageLocation)} since {format(parseISO(item.purchaseDate), 'MMM d')}.
+              </p>
+            ) : (
+              <ul className="max-h-40 overflow-y-auto space-y-1 text-sm text-gray-600">
+                {moves.map(move => (
+                  <li key={move.id} className="flex items-center justify-between">
+                    <span className="flex items-center">
+                      {locationName(move.fromLocation)}
+                      <ArrowRight className="h-3 w-3 mx-1" />
+                      {locationName(move.toLocation)}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {format(parseISO(move.movedDate), 'MMM d')} · exp. {format(parseISO(move.previousExpirationDate), 'MMM d')} → {format(parseISO(move.newExpirationDate), 'MMM d')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={moveItemMutation.isPending || !movedDate}
+            onClick={() => moveItemMutation.mutate()}
+            className="bg-primary hover:bg-primary-dark text-white"
+          >
+            {moveItemMutation.isPending ? 'Moving...' : `Move to ${locationName(toLocation)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
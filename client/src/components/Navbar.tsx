@@ -100,6 +100,7 @@ export default function Navbar() {
     { href: "/", label: "Dashboard" },
     { href: "/inventory", label: "Inventory" },
     { href: "/meal-planning", label: "Meal Planning" },
+    { href: "/shopping-list", label: "Shopping List" },
     { href: "/tips", label: "Tips" },
     { href: "/community", label: "Community" },
     { href: "/settings", label: "Settings" },
@@ -0,0 +1,58 @@
+import { NUTRIENTS, ItemNutrition, NutritionValues } from "@shared/schema";
+import { NUTRIENT_LABELS, emptyNutrition } from "@shared/nutrition";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+type NutritionInputProps = {
+  value: NutritionValues | null;
+  onChange: (nutrition: NutritionValues | null) => void;
+  // The values the item has now, used as the starting point for its own
+  current?: ItemNutrition | null;
+};
+
+/**
+ * An item's own nutrition per 100 g, or null to use the bundled dataset
+ */
+export default function NutritionInput({ value, onChange, current }: NutritionInputProps) {
+  if (!value) {
+    return (
+      <div className="flex items-center justify-between gap-4 rounded-md border border-border p-3">
+        <p className="text-sm text-gray-500">
+          {current?.matchedName
+            ? `Uses the values for ${current.matchedName} from the nutrition dataset.`
+            : "No nutrition data matches this item's name."}
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange(current ? { ...current.per100g } : emptyNutrition())}
+        >
+          Enter values
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border border-border p-3">
+      <div className="grid grid-cols-3 gap-2">
+        {NUTRIENTS.map((nutrient) => (
+          <label key={nutrient} className="space-y-1 text-sm">
+            <span className="text-gray-500">{NUTRIENT_LABELS[nutrient].label} ({NUTRIENT_LABELS[nutrient].unit})</span>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={value[nutrient]}
+              onChange={e => onChange({ ...value, [nutrient]: e.target.value ? parseFloat(e.target.value) : 0 })}
+            />
+          </label>
+        ))}
+      </div>
+      <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+        {current?.matchedName ? "Use dataset values" : "Clear values"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FoodItemWithStatus } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PackageOpen } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+type OpenItemDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: FoodItemWithStatus;
+};
+
+export default function OpenItemDialog({ open, onOpenChange, item }: OpenItemDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [openedDate, setOpenedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  useEffect(() => {
+    if (open) {
+      setOpenedDate(item.openedDate ?? format(new Date(), 'yyyy-MM-dd'));
+    }
+  }, [open, item.openedDate]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+  };
+
+  const markOpenedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/food-items/${item.id}/open`, { openedDate });
+      return await res.json();
+    },
+    onSuccess: (data: FoodItemWithStatus & { openedShelfLife: { description: string } | null }) => {
+      invalidate();
+      toast({
+        title: "Marked as opened",
+        description: data.openedShelfLife
+          ? `${data.openedShelfLife.description}. Use by ${format(new Date(data.effectiveExpirationDate), 'MMM d')}.`
+          : `Opening ${item.name} doesn't change when it expires.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to mark item as opened: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const markUnopenedMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/food-items/${item.id}/open`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Marked as unopened",
+        description: `${item.name} is back to its original expiration date.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update item: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isSubmitting = markOpenedMutation.isPending || markUnopenedMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <PackageOpen className="w-5 h-5 mr-2 text-primary" />
+            Mark {item.name} as Opened
+          </DialogTitle>
+          <DialogDescription>
+            Many foods spoil faster once opened. The expiration date is brought forward if needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="opened-date">Opened On</Label>
+          <Input
+            id="opened-date"
+            type="date"
+            value={openedDate}
+            max={format(new Date(), 'yyyy-MM-dd')}
+            onChange={(e) => setOpenedDate(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {item.openedDate && (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isSubmitting}
+              onClick={() => markUnopenedMutation.mutate()}
+            >
+              Mark Unopened
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={isSubmitting || !openedDate}
+            onClick={() => markOpenedMutation.mutate()}
+            className="bg-primary hover:bg-primary-dark text-white"
+          >
+            {markOpenedMutation.isPending ? 'Saving...' : 'Mark Opened'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
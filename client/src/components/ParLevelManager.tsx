@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { HouseholdWithRole, ParLevelWithStock, QUANTITY_UNITS } from "@shared/schema";
+import { formatQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useParLevels } from "@/hooks/use-par-levels";
+import StatusBadge from "./StatusBadge";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type ParLevelForm = {
+  name: string;
+  minQuantity: string;
+  unit: typeof QUANTITY_UNITS[number];
+};
+
+const EMPTY_FORM: ParLevelForm = { name: "", minQuantity: "1", unit: "items" };
+
+export default function ParLevelManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { parLevels } = useParLevels();
+
+  const [form, setForm] = useState<ParLevelForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const { data: households } = useQuery<HouseholdWithRole[]>({
+    queryKey: ['/api/households'],
+  });
+
+  const role = households?.find(household => household.isActive)?.role;
+  const canEdit = role === "owner" || role === "member";
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name.trim(),
+        minQuantity: parseFloat(form.minQuantity),
+        unit: form.unit,
+      };
+      if (editingId !== null) {
+        await apiRequest('PATCH', `/api/par-levels/${editingId}`, body);
+      } else {
+        await apiRequest('POST', '/api/par-levels', body);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/par-levels'] });
+      resetForm();
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (parLevel: ParLevelWithStock) => {
+      await apiRequest('DELETE', `/api/par-levels/${parLevel.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/par-levels'] });
+      resetForm();
+    },
+    onError: showError,
+  });
+
+  const handleEdit = (parLevel: ParLevelWithStock) => {
+    setEditingId(parLevel.id);
+    setForm({ name: parLevel.name, minQuantity: String(parLevel.minQuantity), unit: parLevel.unit });
+  };
+
+  const handleDelete = (parLevel: ParLevelWithStock) => {
+    if (window.confirm(`Stop tracking how much ${parLevel.name} you have?`)) {
+      deleteMutation.mutate(parLevel);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Staples & Par Levels</CardTitle>
+        <CardDescription>
+          Set the least you always want on hand of staples like eggs, milk or rice. Items with the same name count towards it, and you'll be reminded to restock when you run low.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {parLevels.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No par levels yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {parLevels.map(parLevel => (
+              <li key={parLevel.id} className="py-2 flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <span className="font-medium truncate">{parLevel.name}</span>
+                  <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+                    {formatQuantity(parLevel.onHand, parLevel.unit)} of {formatQuantity(parLevel.minQuantity, parLevel.unit)}
+                  </span>
+                  {parLevel.status === "low-stock" && (
+                    <span className="ml-2">
+                      <StatusBadge status="low-stock" />
+                    </span>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-gray-400"
+                      title="Edit"
+                      onClick={() => handleEdit(parLevel)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-gray-400 hover:text-red-500"
+                      title="Delete"
+                      onClick={() => handleDelete(parLevel)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canEdit && (
+          <form
+            className="flex flex-col sm:flex-row gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (form.name.trim() && parseFloat(form.minQuantity) > 0) {
+                saveMutation.mutate();
+              }
+            }}
+          >
+            <Input
+              placeholder="e.g. Eggs"
+              value={form.name}
+              maxLength={100}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              aria-label="Minimum quantity"
+              className="sm:w-24"
+              value={form.minQuantity}
+              onChange={(e) => setForm({ ...form, minQuantity: e.target.value })}
+            />
+            <Select value={form.unit} onValueChange={(unit) => setForm({ ...form, unit: unit as ParLevelForm["unit"] })}>
+              <SelectTrigger className="sm:w-32" aria-label="Unit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUANTITY_UNITS.map(unit => (
+                  <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {editingId !== null ? "Save" : <><Plus className="h-4 w-4 mr-1" /> Add</>}
+            </Button>
+            {editingId !== null && (
+              <Button type="button" variant="ghost" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { MAX_ITEM_PHOTOS } from "@shared/schema";
+import { uploadImage } from "@/lib/image-upload-service";
+import { ImageUpload } from "@/components/ImageUpload";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { X } from "lucide-react";
+
+type PhotoInputProps = {
+  value: string[];
+  onChange: (photos: string[]) => void;
+};
+
+/**
+ * Thumbnails of an item's photos, with a drop zone that uploads each new photo straight away
+ */
+export default function PhotoInput({ value, onChange }: PhotoInputProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const { toast } = useToast();
+
+  const handleImageSelected = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const imagePath = await uploadImage(file, '/api/food-items/photos');
+      onChange([...value, imagePath]);
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {value.map((photo, index) => (
+            <div key={photo} className="relative rounded-md overflow-hidden border border-border">
+              <img src={photo} alt={`Photo ${index + 1}`} className="w-full h-20 object-cover" />
+              <Button
+                type="button"
+                size="icon"
+                variant="destructive"
+                className="absolute top-1 right-1 h-6 w-6 rounded-full opacity-90"
+                onClick={() => onChange(value.filter(existing => existing !== photo))}
+                title="Remove photo"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {isUploading ? (
+        <p className="text-sm text-gray-500">Uploading photo...</p>
+      ) : value.length < MAX_ITEM_PHOTOS && (
+        // Remounted after each upload so the drop zone is empty again for the next photo
+        <ImageUpload
+          key={value.length}
+          onImageSelected={handleImageSelected}
+          onImageRemoved={() => {}}
+        />
+      )}
+    </div>
+  );
+}
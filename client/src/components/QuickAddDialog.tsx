@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { QUANTITY_UNITS, QuickAddDraft, QuickAddResult, ShelfLifeSuggestion } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories, useStorageLocations } from "@/hooks/use-categories";
+import { AlertCircle, Wand2, X } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type QuickAddDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export default function QuickAddDialog({ open, onOpenChange }: QuickAddDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
+  const [text, setText] = useState("");
+  const [drafts, setDrafts] = useState<QuickAddDraft[] | null>(null);
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) {
+      setText("");
+      setDrafts(null);
+      setSkipped([]);
+    }
+  }, [open]);
+
+  const parseMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/food-items/quick-add/parse', {
+        text,
+        today: format(new Date(), 'yyyy-MM-dd'),
+      });
+      return await res.json() as QuickAddResult;
+    },
+    onSuccess: (result) => {
+      setDrafts(result.drafts);
+      setSkipped(result.skipped);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to read items: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addItemsMutation = useMutation({
+    mutationFn: async (items: QuickAddDraft[]) => {
+      const res = await apiRequest('POST', '/api/food-items/quick-add', {
+        items: items.map(({ name, quantity, unit, category, storageLocation, purchaseDate, expirationDate }) => ({
+          name, quantity, unit, category, storageLocation, purchaseDate, expirationDate,
+        })),
+      });
+      return await res.json();
+    },
+    onSuccess: (created: unknown[]) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      toast({
+        title: "Items added",
+        description: `Added ${created.length} ${created.length === 1 ? 'item' : 'items'} to your inventory.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to add items: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = async (index: number, changes: Partial<QuickAddDraft>) => {
+    setDrafts(current => current && current.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+
+    // A predicted expiration date follows the category and location it was predicted for
+    const draft = drafts?.[index];
+    if (!draft || !draft.expirationEstimated || (changes.category === undefined && changes.storageLocation === undefined)) {
+      return;
+    }
+    const params = new URLSearchParams({
+      name: draft.name,
+      category: changes.category ?? draft.category,
+      storageLocation: changes.storageLocation ?? draft.storageLocation,
+      purchaseDate: draft.purchaseDate,
+    });
+    try {
+      const suggestion = await queryClient.fetchQuery<ShelfLifeSuggestion>({
+        queryKey: [`/api/shelf-life/suggestion?${params.toString()}`],
+      });
+      setDrafts(current => current && current.map((other, i) =>
+        i === index && other.expirationEstimated ? { ...other, expirationDate: suggestion.expirationDate } : other
+      ));
+    } catch (error) {
+      // Keep the earlier prediction; the date can still be edited by hand
+    }
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts(current => current && current.filter((_, i) => i !== index));
+  };
+
+  const canAdd = !!drafts && drafts.length > 0
+    && drafts.every(draft => draft.name.trim() && draft.quantity > 0 && draft.expirationDate);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Wand2 className="w-5 h-5 mr-2 text-primary" />
+            Quick Add
+          </DialogTitle>
+          <DialogDescription>
+            Type what you bought, separated by commas or new lines, e.g. "2 lbs chicken breast freezer exp friday,
+            1 dozen eggs". Check the items before they're added; anything left out is guessed from your earlier
+            items and the shelf-life guide.
+          </DialogDescription>
+        </DialogHeader>
+
+        {drafts === null ? (
+          <div className="space-y-2">
+            <Label htmlFor="quick-add-text">Items</Label>
+            <Textarea
+              id="quick-add-text"
+              rows={5}
+              value={text}
+              placeholder={"2 lbs chicken breast freezer exp friday\n1 dozen eggs\nmilk, bananas, bread bought yesterday"}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {drafts.length === 0 && (
+              <p className="text-sm text-gray-500">No items left to add.</p>
+            )}
+            {drafts.map((draft, index) => (
+              <div key={index} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Input
+                    value={draft.name}
+                    aria-label="Name"
+                    onChange={(e) => updateDraft(index, { name: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-gray-400 hover:text-red-500"
+                    onClick={() => removeDraft(index)}
+                    title="Don't add this item"
+                  >
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <div className="flex">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={draft.quantity}
+                      aria-label="Quantity"
+                      className="rounded-r-none"
+                      onChange={(e) => updateDraft(index, { quantity: parseFloat(e.target.value) || 0 })}
+                    />
+                    <Select
+                      value={draft.unit}
+                      onValueChange={(unit) => updateDraft(index, { unit: unit as QuickAddDraft["unit"] })}
+                    >
+                      <SelectTrigger className="rounded-l-none border-l-0 w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUANTITY_UNITS.map(unit => (
+                          <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Select value={draft.category} onValueChange={(category) => updateDraft(index, { category })}>
+                    <SelectTrigger aria-label="Category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category.key} value={category.key}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={draft.storageLocation} onValueChange={(storageLocation) => updateDraft(index, { storageLocation })}>
+                    <SelectTrigger aria-label="Storage location">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations.map(location => (
+                        <SelectItem key={location.key} value={location.key}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="date"
+                    value={draft.expirationDate}
+                    aria-label="Expiration date"
+                    title={draft.expirationEstimated ? "Predicted from the shelf-life guide" : undefined}
+                    onChange={(e) => updateDraft(index, { expirationDate: e.target.value, expirationEstimated: false })}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  From "{draft.text}"
+                  {draft.expirationEstimated && " · expiration date predicted"}
+                  {draft.purchaseDate !== format(new Date(), 'yyyy-MM-dd') && ` · bought ${draft.purchaseDate}`}
+                </p>
+                {draft.warnings.map(warning => (
+                  <p key={warning} className="flex items-start text-xs text-amber-700">
+                    <AlertCircle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            ))}
+            {skipped.length > 0 && (
+              <p className="text-sm text-gray-500">
+                Couldn't find an item in: {skipped.map(entry => `"${entry}"`).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {drafts === null ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                disabled={!text.trim() || parseMutation.isPending}
+                onClick={() => parseMutation.mutate()}
+                className="bg-primary hover:bg-primary-dark text-white"
+              >
+                {parseMutation.isPending ? 'Reading...' : 'Read Items'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => setDrafts(null)}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                disabled={!canAdd || addItemsMutation.isPending}
+                onClick={() => addItemsMutation.mutate(drafts)}
+                className="bg-primary hover:bg-primary-dark text-white"
+              >
+                {addItemsMutation.isPending ? 'Adding...' : `Add ${drafts.length} ${drafts.length === 1 ? 'Item' : 'Items'}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+import { useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Recall, RecallImportResult } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { Trash2, Upload } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+// The purchase period a recall covers, e.g. "Mar 1, 2026 - Mar 14, 2026"
+const describePeriod = (recall: Recall): string | null => {
+  const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+  if (recall.startDate && recall.endDate) return `${formatDate(recall.startDate)} - ${formatDate(recall.endDate)}`;
+  if (recall.startDate) return `From ${formatDate(recall.startDate)}`;
+  if (recall.endDate) return `Until ${formatDate(recall.endDate)}`;
+  return null;
+};
+
+/**
+ * Loads product recall files and lists the recalls every household's inventory is checked against.
+ * Only shown to admins.
+ */
+export default function RecallManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: recalls = [], isLoading } = useQuery<Recall[]>({
+    queryKey: ['/api/recalls'],
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File): Promise<RecallImportResult> => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      // Sent as a form so the browser sets the multipart boundary
+      const response = await fetch('/api/recalls/import', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to import recalls');
+      }
+      return await response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recalls'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recall-alerts'] });
+      toast({
+        title: `Loaded ${result.imported} recall${result.imported === 1 ? '' : 's'}`,
+        description: [
+          `${result.matches} inventory item${result.matches === 1 ? '' : 's'} matched.`,
+          result.duplicates > 0
+            ? `${result.duplicates} recall${result.duplicates === 1 ? ' was' : 's were'} already loaded.`
+            : null,
+          result.errors.length > 0
+            ? `Skipped ${result.errors.map(error => `row ${error.row} (${error.message})`).join(', ')}.`
+            : null,
+        ].filter(Boolean).join(' '),
+        variant: result.errors.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest('DELETE', `/api/recalls/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recalls'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recall-alerts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete recall: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Product Recalls</CardTitle>
+        <CardDescription>
+          Load recall notices from a CSV or JSON file with product name, brand, barcode, lot code,
+          start date, end date and description columns. Every household's inventory is checked
+          against them, and members who get expiration alerts are emailed about matches by barcode,
+          lot code or brand. Recalls already loaded are skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              importMutation.mutate(file);
+            }
+            e.target.value = "";
+          }}
+        />
+        <Button
+          variant="outline"
+          disabled={importMutation.isPending}
+          onClick={() => fileInput.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {importMutation.isPending ? "Loading..." : "Load Recall File"}
+        </Button>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading recalls...</p>
+        ) : recalls.length === 0 ? (
+          <p className="text-sm text-gray-500">No recalls have been loaded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {recalls.map((recall) => (
+              <li key={recall.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {recall.productName}
+                    {recall.brand && <span className="text-gray-500"> ({recall.brand})</span>}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {[
+                      recall.barcode && `Barcode ${recall.barcode}`,
+                      recall.lotCode && `Lot ${recall.lotCode}`,
+                      describePeriod(recall),
+                    ].filter(Boolean).join(' • ')}
+                  </p>
+                  <p className="text-sm text-gray-500 line-clamp-2">{recall.description}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Delete recall"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => {
+                    if (window.confirm(`Delete the recall of ${recall.productName}? Its alerts will be removed too.`)) {
+                      deleteMutation.mutate(recall.id);
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,26 +1,36 @@
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
+import type { DietaryConflict } from "@shared/schema";
+import DietaryWarnings from "@/components/DietaryWarnings";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 
+// Shape of the AI suggestions returned by /api/recipe-suggestions
 type RecipeSuggestion = {
-  id: number;
-  name: string;
+  id: string;
+  title: string;
   ingredients: string[];
   preparationTime: number;
-  matchingIngredients: string[];
-  matchScore: number;
+  matchingItems: string[];
+  conflicts?: DietaryConflict[];
   imageUrl?: string;
 };
 
 export default function RecipeSuggestions() {
-  const { data: recipeSuggestions, isLoading } = useQuery<RecipeSuggestion[]>({
+  const { data, isLoading } = useQuery<{ recipes: RecipeSuggestion[] }>({
     queryKey: ['/api/recipe-suggestions'],
   });
   
+  // Suggestions that clash with an allergen are never shown; other clashes are shown with a warning
+  const recipeSuggestions = data?.recipes ?? [];
+  const safeSuggestions = recipeSuggestions.filter(recipe =>
+    !recipe.conflicts?.some(conflict => conflict.type === "allergen")
+  );
+  const hiddenCount = recipeSuggestions.length - safeSuggestions.length;
+  
   // Get top 2 recipe suggestions
-  const topSuggestions = recipeSuggestions?.slice(0, 2) || [];
+  const topSuggestions = safeSuggestions.slice(0, 2);
 
   return (
     <Card>
@@ -52,7 +62,7 @@ export default function RecipeSuggestions() {
                         <img
                           className="h-full w-full object-cover"
                           src={recipe.imageUrl}
-                          alt={recipe.name}
+                          alt={recipe.title}
                         />
                       ) : (
                         <div className="h-full w-full flex items-center justify-center bg-amber-100 text-amber-500">
@@ -62,15 +72,16 @@ export default function RecipeSuggestions() {
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900 truncate">
-                        {recipe.name}
+                        {recipe.title}
                       </p>
                       <p className="text-sm text-gray-500 truncate">
-                        Uses: {recipe.matchingIngredients.slice(0, 2).join(', ')}
-                        {recipe.matchingIngredients.length > 2 && '...'} • {recipe.preparationTime} min
+                        Uses: {recipe.matchingItems.slice(0, 2).join(', ')}
+                        {recipe.matchingItems.length > 2 && '...'} • {recipe.preparationTime} min
                       </p>
+                      <DietaryWarnings conflicts={recipe.conflicts} className="mt-1" />
                     </div>
                     <div>
-                      <Link href={`/recipes/${recipe.id}`}>
+                      <Link href="/recipes">
                         <Button
                           variant="outline"
                           size="sm"
@@ -86,6 +97,11 @@ export default function RecipeSuggestions() {
           ) : (
             <p className="text-center py-6 text-gray-500">No recipe suggestions available. Add more items to your inventory!</p>
           )}
+          {hiddenCount > 0 && (
+            <p className="mt-4 text-xs text-gray-500">
+              {hiddenCount} suggestion{hiddenCount === 1 ? ' was' : 's were'} hidden because of your household's allergies.
+            </p>
+          )}
         </div>
         <div className="mt-6">
           <Link href="/recipes">
@@ -0,0 +1,159 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQueryClient, useMutation } from "@tanstack/react-query";
+import { FoodItemWithStatus } from "@shared/schema";
+import { formatQuantity, roundQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { HandHeart } from "lucide-react";
+
+type ShareItemDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: FoodItemWithStatus;
+};
+
+export default function ShareItemDialog({ open, onOpenChange, item }: ShareItemDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const formSchema = z.object({
+    quantity: z.coerce.number()
+      .min(0.01, "Quantity must be greater than 0")
+      .max(item.quantity, `You have ${formatQuantity(item.quantity, item.unit)}`),
+    pickupNotes: z.string().max(500).optional(),
+  });
+  type FormValues = z.infer<typeof formSchema>;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      quantity: item.quantity,
+      pickupNotes: "",
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      return await apiRequest('POST', '/api/share-listings', {
+        foodItemId: item.id,
+        quantity: roundQuantity(values.quantity),
+        pickupNotes: values.pickupNotes || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/share-listings'] });
+
+      toast({
+        title: "Listed for sharing",
+        description: `${item.name} is now on the community sharing board.`,
+      });
+
+      form.reset();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to share item: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <HandHeart className="w-5 h-5 mr-2 text-primary" />
+            Share {item.name}
+          </DialogTitle>
+          <DialogDescription>
+            Offer food you won't finish to the community. It keeps its expiration date
+            of {format(parseISO(item.effectiveExpirationDate), "MMM d")}, and leaves your inventory once it's picked up.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => shareMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Quantity ({item.unit})</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    You have {formatQuantity(item.quantity, item.unit)}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="pickupNotes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pickup Notes (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Where and when it can be picked up"
+                      className="resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={shareMutation.isPending}
+                className="bg-primary hover:bg-primary-dark text-white"
+              >
+                {shareMutation.isPending ? "Sharing..." : "Share"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ShareListingWithUsers } from "@shared/schema";
+import { formatQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar, HandHeart, MapPin, RefreshCw } from "lucide-react";
+
+type ListingAction = "claim" | "release" | "complete";
+
+/**
+ * Surplus food offered by the community, with claim and handover actions.
+ * The board refreshes itself from WebSocket broadcasts in CommunityChat.
+ */
+export default function ShareListingBoard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: listings = [], isLoading } = useQuery<ShareListingWithUsers[]>({
+    queryKey: ['/api/share-listings'],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ listing, action }: { listing: ShareListingWithUsers; action: ListingAction }) => {
+      return await apiRequest('POST', `/api/share-listings/${listing.id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/share-listings'] });
+      if (action === "complete") {
+        // The shared amount left the sharer's inventory
+        queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update listing: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest('DELETE', `/api/share-listings/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/share-listings'] });
+      toast({
+        title: "Listing withdrawn",
+        description: "The listing has been removed from the board",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to withdraw listing: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <RefreshCw className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (listings.length === 0) {
+    return (
+      <div className="flex flex-col justify-center items-center h-64 text-center">
+        <HandHeart className="h-12 w-12 text-muted-foreground mb-2" />
+        <p className="text-muted-foreground">Nothing is up for grabs right now</p>
+        <p className="text-sm text-muted-foreground mb-4">
+          Share food you won't finish from the share button on any item in your inventory.
+        </p>
+        <Link href="/inventory">
+          <Button variant="outline">Go to Inventory</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {listings.map((listing) => {
+        const isSharer = listing.userId === user?.id;
+        const isClaimer = listing.claimedById === user?.id;
+        const isPending = actionMutation.isPending && actionMutation.variables?.listing.id === listing.id;
+
+        return (
+          <Card key={listing.id} className="overflow-hidden shadow-md">
+            {listing.imageUrl && (
+              <div className="h-40 w-full overflow-hidden">
+                <img src={listing.imageUrl} alt={listing.name} className="w-full h-full object-cover" />
+              </div>
+            )}
+
+            <CardHeader>
+              <div className="flex justify-between items-start gap-2">
+                <CardTitle>{listing.name}</CardTitle>
+                <Badge variant={listing.status === "available" ? "default" : "secondary"} className="capitalize">
+                  {listing.status}
+                </Badge>
+              </div>
+              <CardDescription>
+                {formatQuantity(listing.quantity, listing.unit)} shared by {isSharer ? 'you' : listing.user.username}
+                {" "}{formatDistanceToNow(new Date(listing.createdAt), { addSuffix: true })}
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-2 text-sm text-muted-foreground">
+              <div className="flex items-center">
+                <Calendar className="mr-1 h-4 w-4" />
+                <span>Good until {format(parseISO(listing.expirationDate), 'MMM d, yyyy')}</span>
+              </div>
+              {listing.pickupNotes && (
+                <div className="flex items-start">
+                  <MapPin className="mr-1 h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>{listing.pickupNotes}</span>
+                </div>
+              )}
+              {listing.claimedBy && (
+                <p>Claimed by {isClaimer ? 'you' : listing.claimedBy.username}</p>
+              )}
+            </CardContent>
+
+            <CardFooter className="flex flex-col gap-2">
+              {!isSharer && listing.status === "available" && (
+                <Button
+                  className="w-full"
+                  disabled={isPending}
+                  onClick={() => actionMutation.mutate({ listing, action: "claim" })}
+                >
+                  Claim
+                </Button>
+              )}
+              {isSharer && listing.status === "claimed" && (
+                <Button
+                  className="w-full"
+                  disabled={isPending}
+                  onClick={() => actionMutation.mutate({ listing, action: "complete" })}
+                >
+                  Mark as Picked Up
+                </Button>
+              )}
+              {(isSharer || isClaimer) && listing.status === "claimed" && (
+                <Button
+                  variant="secondary"
+                  className="w-full"
+                  disabled={isPending}
+                  onClick={() => actionMutation.mutate({ listing, action: "release" })}
+                >
+                  {isClaimer ? "Release Claim" : "Turn Down Claim"}
+                </Button>
+              )}
+              {isSharer && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full text-muted-foreground hover:text-destructive"
+                  onClick={() => {
+                    if (window.confirm("Withdraw this listing from the board?")) {
+                      withdrawMutation.mutate(listing.id);
+                    }
+                  }}
+                >
+                  Withdraw
+                </Button>
+              )}
+            </CardFooter>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { ShelfLifeSuggestion } from "@shared/schema";
+import { format, parseISO } from "date-fns";
+import { Lightbulb } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+type ShelfLifeHintProps = {
+  suggestion?: ShelfLifeSuggestion;
+  onApply?: (expirationDate: string) => void;
+};
+
+const SOURCE_LABELS: Record<ShelfLifeSuggestion["source"], string> = {
+  household: "Your history",
+  item: "Shelf-life guide",
+  category: "Category average",
+  default: "Default",
+  cooked: "Cooked food guide",
+  ingredient: "Earliest ingredient",
+};
+
+export default function ShelfLifeHint({ suggestion, onApply }: ShelfLifeHintProps) {
+  if (!suggestion) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-start justify-between rounded-md bg-gray-50 px-3 py-2 text-xs text-gray-600">
+      <div className="flex items-start">
+        <Lightbulb className="h-4 w-4 mr-2 mt-0.5 text-amber-500 flex-shrink-0" />
+        <div>
+          <p>
+            <span className="font-medium">{SOURCE_LABELS[suggestion.source]}:</span>{" "}
+            keeps about {suggestion.days} day{suggestion.days !== 1 ? "s" : ""}
+            {" "}(until {format(parseISO(suggestion.expirationDate), "MMM d")})
+          </p>
+          <p className="text-gray-500">{suggestion.description}</p>
+        </div>
+      </div>
+      {onApply && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onApply(suggestion.expirationDate)}
+        >
+          Apply
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
-import { Clock, CheckCircle, AlertCircle } from "lucide-react";
+import { Clock, CheckCircle, AlertCircle, ShoppingBasket } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+// Expiration statuses, plus low stock for staples below their par level
+type BadgeStatus = 'expired' | 'expiring-soon' | 'fresh' | 'low-stock';
+
 type StatusBadgeProps = {
-  status: 'expired' | 'expiring-soon' | 'fresh';
-  daysUntilExpiration: number;
+  status: BadgeStatus;
+  daysUntilExpiration?: number;
 };
 
-export default function StatusBadge({ status, daysUntilExpiration }: StatusBadgeProps) {
+export default function StatusBadge({ status, daysUntilExpiration = 0 }: StatusBadgeProps) {
   const { icon: Icon, text, classes } = getStatusInfo(status, daysUntilExpiration);
   
   return (
@@ -20,7 +23,7 @@ export default function StatusBadge({ status, daysUntilExpiration }: StatusBadge
   );
 }
 
-function getStatusInfo(status: 'expired' | 'expiring-soon' | 'fresh', daysUntilExpiration: number) {
+function getStatusInfo(status: BadgeStatus, daysUntilExpiration: number) {
   switch (status) {
     case 'expired':
       return {
@@ -44,6 +47,12 @@ function getStatusInfo(status: 'expired' | 'expiring-soon' | 'fresh', daysUntilE
         text: `Fresh for ${daysUntilExpiration} days`,
         classes: 'bg-green-100 text-green-800'
       };
+    case 'low-stock':
+      return {
+        icon: ShoppingBasket,
+        text: 'Low stock',
+        classes: 'bg-blue-100 text-blue-800'
+      };
     default:
       return {
         icon: Clock,
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { TagWithCount } from "@shared/schema";
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_ITEM, normalizeTagName } from "@shared/tags";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+
+// Suggestions shown under the input at once
+const MAX_SUGGESTIONS = 6;
+
+type TagInputProps = {
+  value: string[];
+  onChange: (tags: string[]) => void;
+};
+
+/**
+ * Chips for an item's tags, with an input that suggests the household's existing tags as you type
+ */
+export default function TagInput({ value, onChange }: TagInputProps) {
+  const [text, setText] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+
+  const { data: tags = [] } = useQuery<TagWithCount[]>({
+    queryKey: ['/api/tags'],
+  });
+
+  const search = normalizeTagName(text);
+  // Most used tags first, so common ones are a click away before typing anything
+  const suggestions = tags
+    .filter(tag => !value.includes(tag.name) && tag.name.includes(search))
+    .sort((a, b) => b.itemCount - a.itemCount || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (name: string) => {
+    const tag = normalizeTagName(name).replace(/,/g, "");
+    if (tag && !value.includes(tag) && value.length < MAX_TAGS_PER_ITEM) {
+      onChange([...value, tag]);
+    }
+    setText("");
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(existing => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      // Keep Enter from submitting the surrounding form
+      e.preventDefault();
+      addTag(text);
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="font-normal">
+              {tag}
+              <button
+                type="button"
+                className="ml-1 text-gray-500 hover:text-gray-900"
+                onClick={() => removeTag(tag)}
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        placeholder={value.length >= MAX_TAGS_PER_ITEM ? "Tag limit reached" : "e.g. for lunches, kids, gluten-free"}
+        value={text}
+        maxLength={MAX_TAG_LENGTH}
+        disabled={value.length >= MAX_TAGS_PER_ITEM}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => {
+          setIsFocused(false);
+          if (text.trim()) {
+            addTag(text);
+          }
+        }}
+      />
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-full rounded-md border bg-white shadow-md py-1">
+          {suggestions.map(tag => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100 flex justify-between"
+                // Fire before the input's blur so the click isn't lost
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(tag.name);
+                }}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-gray-400">{tag.itemCount}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { HouseholdWithRole, TrashedFoodItem } from "@shared/schema";
+import { formatQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import FoodCategoryIcon from "./FoodCategoryIcon";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+type TrashDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+type Trash = {
+  retentionDays: number;
+  items: TrashedFoodItem[];
+};
+
+export default function TrashDialog({ open, onOpenChange }: TrashDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: trash, isLoading } = useQuery<Trash>({
+    queryKey: ['/api/food-items/trash'],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const { data: households } = useQuery<HouseholdWithRole[]>({
+    queryKey: ['/api/households'],
+    enabled: open,
+  });
+
+  const activeHousehold = households?.find(household => household.isActive);
+  const isOwner = activeHousehold?.role === "owner";
+  const items = trash?.items ?? [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/food-items/trash'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+  };
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message}`,
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashedFoodItem) => {
+      await apiRequest('POST', `/api/food-items/${item.id}/restore`);
+    },
+    onSuccess: (_data, item) => {
+      invalidate();
+      toast({
+        title: "Item restored",
+        description: `${item.name} is back in your inventory.`,
+      });
+    },
+    onError: showError("restore item"),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashedFoodItem) => {
+      await apiRequest('DELETE', `/api/food-items/${item.id}/purge`);
+    },
+    onSuccess: invalidate,
+    onError: showError("delete item"),
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', '/api/food-items/trash');
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Trash emptied",
+        description: "Everything in the trash was permanently deleted.",
+      });
+    },
+    onError: showError("empty trash"),
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: async (trashRetentionDays: number) => {
+      await apiRequest('PATCH', `/api/households/${activeHousehold!.id}`, { trashRetentionDays });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/households'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items/trash'] });
+    },
+    onError: showError("update retention period"),
+  });
+
+  // Deleting for good also removes the item's consumption and waste records, so always ask first
+  const handlePurge = (item: TrashedFoodItem) => {
+    if (window.confirm(`Permanently delete ${item.name}? Its consumption and waste records will be deleted too.`)) {
+      purgeMutation.mutate(item);
+    }
+  };
+
+  const handleEmpty = () => {
+    if (window.confirm("Permanently delete everything in the trash? This can't be undone.")) {
+      emptyMutation.mutate();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Trash2 className="h-5 w-5 mr-2" />
+            Trash
+          </DialogTitle>
+          <DialogDescription>
+            Deleted items are kept for {trash?.retentionDays ?? 30} days before they're permanently removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="trash-retention">Keep deleted items for</Label>
+            <Select
+              value={String(trash?.retentionDays ?? activeHousehold?.trashRetentionDays ?? 30)}
+              onValueChange={value => retentionMutation.mutate(parseInt(value))}
+            >
+              <SelectTrigger id="trash-retention" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading trash...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">The trash is empty.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {items.map(item => (
+              <li key={item.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center min-w-0">
+                  <span className="mr-3">
+                    <FoodCategoryIcon category={item.category} />
+                  </span>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatQuantity(item.quantity, item.unit)} · deleted {formatDistanceToNow(new Date(item.deletedAt!), { addSuffix: true })}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      Permanently deleted on {format(parseISO(item.purgeDate), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-1 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(item)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => handlePurge(item)}
+                    disabled={purgeMutation.isPending}
+                    title="Delete forever"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {items.length > 0 && (
+          <div className="flex justify-end">
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleEmpty}
+              disabled={emptyMutation.isPending}
+            >
+              Empty trash
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
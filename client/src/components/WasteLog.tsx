@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { WasteEntryWithItem } from "@shared/schema";
+import { formatQuantity, roundQuantity } from "@shared/units";
+import { formatPrice } from "@shared/prices";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import EditWasteEntryDialog from "@/components/EditWasteEntryDialog";
+
+export default function WasteLog() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editingEntry, setEditingEntry] = useState<WasteEntryWithItem | null>(null);
+
+  const { data: entries = [], isLoading } = useQuery<WasteEntryWithItem[]>({
+    queryKey: ['/api/waste-entries'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (entry: WasteEntryWithItem) => {
+      await apiRequest('DELETE', `/api/waste-entries/${entry.id}`);
+    },
+    onSuccess: (_, entry) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/waste-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/waste-insights'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      toast({
+        title: "Waste entry deleted",
+        description: `Your entry for ${entry.itemName} has been removed from your waste log.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete waste entry: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Waste Log</CardTitle>
+        <CardDescription>
+          Everything you've discarded in this household. Fix or remove entries that were logged by mistake.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            You haven't discarded anything yet. Use the discard button on an item to log waste.
+          </p>
+        ) : (
+          <ul className="divide-y max-h-96 overflow-y-auto">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between py-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{entry.itemName}</p>
+                  <p className="text-xs text-gray-500">
+                    {format(parseISO(entry.wasteDate), 'MMM d, yyyy')}
+                    {' · '}{formatQuantity(entry.quantity, entry.unit)}
+                    {entry.wasteWeight !== null && ` · ${roundQuantity(entry.wasteWeight)} kg`}
+                    {entry.estimatedValue !== null && entry.currency && ` · ${formatPrice(entry.estimatedValue, entry.currency)}`}
+                    {entry.reason && ` · ${entry.reason}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-gray-500 hover:text-primary"
+                    onClick={() => setEditingEntry(entry)}
+                    title="Edit entry"
+                  >
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-gray-500 hover:text-red-500"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(entry)}
+                    title="Delete entry"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {editingEntry && (
+        <EditWasteEntryDialog
+          open={!!editingEntry}
+          onOpenChange={(open) => !open && setEditingEntry(null)}
+          entry={editingEntry}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { CategoryOption } from "@shared/schema";
+import { buildCategoryOptions, buildLocationOptions } from "@shared/categories";
+
+// Shown until the household's own options have loaded
+const BUILT_IN_CATEGORIES = buildCategoryOptions([]);
+const BUILT_IN_LOCATIONS = buildLocationOptions([]);
+
+/**
+ * The food categories of the active household: the built-in ones plus its own
+ */
+export function useCategories() {
+  const { data: categories = BUILT_IN_CATEGORIES, isLoading } = useQuery<CategoryOption[]>({
+    queryKey: ['/api/categories'],
+  });
+
+  return { categories, isLoading };
+}
+
+/**
+ * The storage locations of the active household: the built-in ones plus its own
+ */
+export function useStorageLocations() {
+  const { data: locations = BUILT_IN_LOCATIONS, isLoading } = useQuery<CategoryOption[]>({
+    queryKey: ['/api/storage-locations'],
+  });
+
+  return { locations, isLoading };
+}
+
+/**
+ * Find the option for a stored key, falling back to a plain entry for keys that no longer exist
+ */
+export function findOption(options: CategoryOption[], key: string): CategoryOption {
+  return options.find(option => option.key === key) ?? {
+    key,
+    name: key.charAt(0).toUpperCase() + key.slice(1).replace(/-/g, " "),
+    icon: "package",
+    color: "#94a3b8",
+    base: "other",
+    custom: false,
+    id: null,
+  };
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FoodItemWithStatus } from "@shared/schema";
+
+type DuplicateQuery = {
+  name?: string;
+  category?: string;
+  storageLocation?: string;
+  excludeId?: number;
+};
+
+/**
+ * Fetch the household's items that look like the same food as the one being entered.
+ * The name is debounced so the request isn't repeated on every keystroke.
+ */
+export function useDuplicateCheck({ name = "", category, storageLocation, excludeId }: DuplicateQuery, enabled: boolean = true) {
+  const [debouncedName, setDebouncedName] = useState(name.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedName(name.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [name]);
+
+  const params = new URLSearchParams({
+    name: debouncedName,
+    category: category ?? "",
+    storageLocation: storageLocation ?? "",
+  });
+  if (excludeId !== undefined) {
+    params.set("excludeId", String(excludeId));
+  }
+
+  const { data: duplicates = [], isLoading } = useQuery<FoodItemWithStatus[]>({
+    queryKey: [`/api/food-items/duplicates?${params.toString()}`],
+    enabled: enabled && !!debouncedName && !!category && !!storageLocation,
+    // Items change as they're added, used up and merged, so don't trust an old answer
+    staleTime: 0,
+  });
+
+  return { duplicates, isLoading };
+}
@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { FoodItemWithStatus, ParLevelWithStock } from "@shared/schema";
+import { getLowStock, normalizeStapleName, withStockStatus } from "@shared/stock";
+
+/**
+ * The active household's par levels with how much of each staple is on hand.
+ * Stock is worked out from the cached inventory, so it updates as soon as items are added, used or thrown away.
+ */
+export function useParLevels() {
+  const { data: savedParLevels = [], isLoading } = useQuery<ParLevelWithStock[]>({
+    queryKey: ['/api/par-levels'],
+  });
+  const { data: foodItems } = useQuery<FoodItemWithStatus[]>({
+    queryKey: ['/api/food-items'],
+  });
+
+  const parLevels = foodItems
+    ? savedParLevels.map(parLevel => withStockStatus(parLevel, foodItems))
+    : savedParLevels;
+  const lowStock = foodItems
+    ? getLowStock(savedParLevels, foodItems)
+    : savedParLevels.filter(parLevel => parLevel.status === "low-stock");
+
+  const isLowStock = (name: string) =>
+    lowStock.some(parLevel => normalizeStapleName(parLevel.name) === normalizeStapleName(name));
+
+  return { parLevels, lowStock, isLowStock, isLoading };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ShelfLifeSuggestion } from "@shared/schema";
+
+type ShelfLifeQuery = {
+  name?: string;
+  category?: string;
+  storageLocation?: string;
+  purchaseDate?: string;
+};
+
+/**
+ * Fetch the server's expiration suggestion for the item being entered.
+ * The name is debounced so the request isn't repeated on every keystroke.
+ */
+export function useShelfLifeSuggestion({ name = "", category, storageLocation, purchaseDate }: ShelfLifeQuery) {
+  const [debouncedName, setDebouncedName] = useState(name);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedName(name.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [name]);
+
+  const params = new URLSearchParams({
+    name: debouncedName,
+    category: category ?? "",
+    storageLocation: storageLocation ?? "",
+    purchaseDate: purchaseDate ?? "",
+  });
+
+  const { data: suggestion, isLoading } = useQuery<ShelfLifeSuggestion>({
+    queryKey: [`/api/shelf-life/suggestion?${params.toString()}`],
+    enabled: !!category && !!storageLocation,
+  });
+
+  return { suggestion, isLoading };
+}
@@ -0,0 +1,55 @@
+import {
+  Apple,
+  Archive,
+  Baby,
+  Beef,
+  Box,
+  Candy,
+  Carrot,
+  Coffee,
+  Cookie,
+  EggFried,
+  Fish,
+  Leaf,
+  Milk,
+  Package,
+  Refrigerator,
+  ShoppingBag,
+  Snowflake,
+  Warehouse,
+  Wheat,
+  Wine,
+  type LucideIcon,
+} from "lucide-react";
+import { CUSTOM_ICONS } from "@shared/schema";
+
+// The lucide icon drawn for each icon a category or location can pick
+export const CATEGORY_ICONS: Record<typeof CUSTOM_ICONS[number], LucideIcon> = {
+  "apple": Apple,
+  "carrot": Carrot,
+  "egg": EggFried,
+  "milk": Milk,
+  "beef": Beef,
+  "fish": Fish,
+  "wheat": Wheat,
+  "cookie": Cookie,
+  "candy": Candy,
+  "coffee": Coffee,
+  "wine": Wine,
+  "baby": Baby,
+  "leaf": Leaf,
+  "shopping-bag": ShoppingBag,
+  "snowflake": Snowflake,
+  "refrigerator": Refrigerator,
+  "warehouse": Warehouse,
+  "archive": Archive,
+  "box": Box,
+  "package": Package,
+};
+
+/**
+ * Look up an icon by name, falling back to a package for unknown names
+ */
+export function getCategoryIcon(name: string): LucideIcon {
+  return CATEGORY_ICONS[name as typeof CUSTOM_ICONS[number]] ?? Package;
+}
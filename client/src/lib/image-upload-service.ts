@@ -6,14 +6,15 @@
 /**
  * Upload an image to the server
  * @param file The image file to upload
+ * @param endpoint Where to upload it; food item photos have their own endpoint
  * @returns Promise resolving to the image path on the server
  */
-export async function uploadImage(file: File): Promise<string> {
+export async function uploadImage(file: File, endpoint: string = '/api/upload-image'): Promise<string> {
   try {
     const formData = new FormData();
     formData.append('image', file);
     
-    const response = await fetch('/api/upload-image', {
+    const response = await fetch(endpoint, {
       method: 'POST',
       body: formData,
       // Don't set Content-Type header, let the browser set it with the correct boundary
@@ -0,0 +1,48 @@
+import { InventoryImportMapping, InventoryImportResult } from "@shared/schema";
+
+/**
+ * Inventory Import Service
+ * Sends CSV or JSON inventory files to the server for validation and import
+ */
+
+/**
+ * Upload an inventory file
+ * @param file The CSV or JSON file to import
+ * @param mapping Which column fills each field; the server guesses it when omitted
+ * @param dryRun Only validate the rows without creating any items
+ * @returns Promise resolving to the per-row validation results
+ */
+export async function importInventoryFile(
+  file: File,
+  mapping: InventoryImportMapping | undefined,
+  dryRun: boolean
+): Promise<InventoryImportResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('dryRun', String(dryRun));
+  if (mapping) {
+    formData.append('mapping', JSON.stringify(mapping));
+  }
+
+  const response = await fetch('/api/food-items/import', {
+    method: 'POST',
+    body: formData,
+    // Don't set Content-Type header, let the browser set it with the correct boundary
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    let errorMessage = 'Failed to import file';
+
+    try {
+      const errorData = await response.json();
+      errorMessage = errorData.message || errorMessage;
+    } catch (e) {
+      // Ignore JSON parse errors
+    }
+
+    throw new Error(errorMessage);
+  }
+
+  return await response.json();
+}
@@ -1,4 +1,5 @@
 import { formatDistanceToNow, differenceInDays, isAfter, isBefore, isToday, isTomorrow, format, addDays, parseISO } from "date-fns";
+import { ShelfLifeSuggestion } from "@shared/schema";
 
 /**
  * Formats a date string as a human-readable relative time
@@ -85,13 +86,13 @@ export function formatDateForInput(date: Date): string {
 }
 
 /**
- * Creates default expiration date (e.g., 7 days from purchase date)
+ * Creates the expiration date to pre-fill for a new item
  * @param purchaseDate - Purchase date
- * @param defaultDays - Default days to add (default: 7)
- * @returns Default expiration date
+ * @param suggestion - Shelf-life suggestion from the server, once it has loaded
+ * @returns Purchase date plus the suggested shelf life (7 days until a suggestion is available)
  */
-export function createDefaultExpirationDate(purchaseDate: Date, defaultDays = 7): Date {
-  return addDays(purchaseDate, defaultDays);
+export function createDefaultExpirationDate(purchaseDate: Date, suggestion?: ShelfLifeSuggestion | null): Date {
+  return addDays(purchaseDate, suggestion?.days ?? 7);
 }
 
 /**
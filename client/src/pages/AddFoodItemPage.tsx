@@ -1,14 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useLocation, useSearch } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
-import { ArrowLeft, Calendar, Info } from 'lucide-react';
+import { ArrowLeft, Calendar, Info, ScanBarcode } from 'lucide-react';
 import { z } from 'zod';
-import { InsertFoodItem, insertFoodItemSchema, FOOD_CATEGORIES, STORAGE_LOCATIONS, QUANTITY_UNITS } from '@shared/schema';
+import { CURRENCIES, InsertFoodItem, insertFoodItemSchema, QUANTITY_UNITS } from '@shared/schema';
 import { useMobileDetector } from '@/hooks/use-mobile-detector';
+import { useShelfLifeSuggestion } from '@/hooks/use-shelf-life-suggestion';
+import { useDuplicateCheck } from '@/hooks/use-duplicate-check';
+import { useCategories, useStorageLocations } from '@/hooks/use-categories';
+import { createDefaultExpirationDate, formatDateForInput } from '@/lib/utils/dateUtils';
+import { isWeightUnit } from '@shared/units';
+import BarcodeScanner, { BarcodeScanResult } from '@/components/BarcodeScanner';
+import ShelfLifeHint from '@/components/ShelfLifeHint';
+import DuplicateItemHint from '@/components/DuplicateItemHint';
 
 // Components
 import { Input } from '@/components/ui/input';
@@ -33,11 +41,14 @@ const formSchema = insertFoodItemSchema.extend({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function AddFoodItemPage() {
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
   const [, setLocation] = useLocation();
   const search = useSearch();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { isMobile } = useMobileDetector();
+  const [scannerOpen, setScannerOpen] = useState(false);
   
   // Form setup
   const form = useForm<FormValues>({
@@ -48,16 +59,45 @@ export default function AddFoodItemPage() {
       quantity: 1,
       unit: 'items',
       purchaseDate: getTodayDate(),
-      expirationDate: getTodayDate(),
+      expirationDate: formatDateForInput(createDefaultExpirationDate(new Date())),
       storageLocation: 'pantry',
       notes: '',
+      price: null,
+      currency: 'USD',
+      store: null,
     },
   });
 
+  // Follow the shelf-life suggestion until the user picks an expiration date themselves
+  const expirationTouched = useRef(false);
+  const { suggestion } = useShelfLifeSuggestion({
+    name: form.watch('name'),
+    category: form.watch('category'),
+    storageLocation: form.watch('storageLocation'),
+    purchaseDate: form.watch('purchaseDate'),
+  });
+
+  useEffect(() => {
+    if (suggestion && !expirationTouched.current) {
+      form.setValue('expirationDate', suggestion.expirationDate);
+    }
+  }, [suggestion, form]);
+
+  // Once the user has seen that the item looks like one they have, saving keeps it separate
+  const [duplicateWarned, setDuplicateWarned] = useState(false);
+  const { duplicates } = useDuplicateCheck({
+    name: form.watch('name'),
+    category: form.watch('category'),
+    storageLocation: form.watch('storageLocation'),
+  });
+
   // Mutation for creating food item
   const createFoodItemMutation = useMutation({
     mutationFn: async (newItem: InsertFoodItem) => {
-      const response = await apiRequest('POST', '/api/food-items', newItem);
+      const response = await apiRequest('POST', '/api/food-items', {
+        ...newItem,
+        allowDuplicate: duplicateWarned || duplicates.length > 0,
+      });
       return await response.json();
     },
     onSuccess: () => {
@@ -70,6 +110,14 @@ export default function AddFoodItemPage() {
       setLocation('/inventory');
     },
     onError: (error) => {
+      if (error.message.startsWith('409:')) {
+        setDuplicateWarned(true);
+        toast({
+          title: 'Already in your inventory',
+          description: 'Add this purchase to the existing item, or save again to keep it separate.',
+        });
+        return;
+      }
       toast({
         title: 'Error',
         description: 'Failed to add item. Please try again.',
@@ -83,6 +131,28 @@ export default function AddFoodItemPage() {
     createFoodItemMutation.mutate(values);
   };
 
+  // Pre-fill the form from the product catalog
+  const handleScan = ({ barcode, product }: BarcodeScanResult) => {
+    form.setValue('barcode', barcode);
+
+    if (!product) {
+      toast({
+        title: 'Product not found',
+        description: "Fill in the details once and we'll remember them for the next scan.",
+      });
+      return;
+    }
+
+    form.setValue('name', product.name);
+    form.setValue('category', product.category);
+    form.setValue('unit', product.unit);
+    form.setValue('storageLocation', product.storageLocation);
+    if (product.suggestedExpirationDate) {
+      form.setValue('expirationDate', product.suggestedExpirationDate);
+      expirationTouched.current = true;
+    }
+  };
+
   function getTodayDate() {
     const today = new Date();
     const year = today.getFullYear();
@@ -110,6 +180,16 @@ export default function AddFoodItemPage() {
             <CardTitle className="text-lg">Item Details</CardTitle>
           </CardHeader>
           <CardContent>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full mb-6"
+              onClick={() => setScannerOpen(true)}
+            >
+              <ScanBarcode className="h-4 w-4 mr-2" />
+              Scan Barcode
+            </Button>
+
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                 <FormField
@@ -135,7 +215,7 @@ export default function AddFoodItemPage() {
                         <FormLabel>Category</FormLabel>
                         <Select 
                           onValueChange={field.onChange} 
-                          defaultValue={field.value}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -143,9 +223,9 @@ export default function AddFoodItemPage() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {FOOD_CATEGORIES.map((category) => (
-                              <SelectItem key={category} value={category}>
-                                {category.charAt(0).toUpperCase() + category.slice(1)}
+                            {categories.map((category) => (
+                              <SelectItem key={category.key} value={category.key}>
+                                {category.name}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -163,7 +243,7 @@ export default function AddFoodItemPage() {
                         <FormLabel>Storage Location</FormLabel>
                         <Select 
                           onValueChange={field.onChange} 
-                          defaultValue={field.value}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -171,9 +251,9 @@ export default function AddFoodItemPage() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {STORAGE_LOCATIONS.map((location) => (
-                              <SelectItem key={location} value={location}>
-                                {location.charAt(0).toUpperCase() + location.slice(1)}
+                            {locations.map((location) => (
+                              <SelectItem key={location.key} value={location.key}>
+                                {location.name}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -195,7 +275,7 @@ export default function AddFoodItemPage() {
                           <Input 
                             type="number" 
                             min="0" 
-                            step="0.1" 
+                            step="any" 
                             {...field}
                             onChange={(e) => field.onChange(parseFloat(e.target.value))}
                           />
@@ -213,7 +293,7 @@ export default function AddFoodItemPage() {
                         <FormLabel>Unit</FormLabel>
                         <Select 
                           onValueChange={field.onChange} 
-                          defaultValue={field.value || 'items'}
+                          value={field.value || 'items'}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -234,6 +314,95 @@ export default function AddFoodItemPage() {
                   />
                 </div>
 
+                {!isWeightUnit(form.watch('unit') || 'items') && (
+                  <FormField
+                    control={form.control}
+                    name="unitWeight"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Weight per {form.watch('unit') === 'package' ? 'Package' : 'Item'} in g (Optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            placeholder="e.g. 180"
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Price Paid (Optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder="e.g. 3.49"
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : null)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Currency</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CURRENCIES.map((currency) => (
+                              <SelectItem key={currency} value={currency}>
+                                {currency}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="store"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Store (Optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="e.g. Corner Market"
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value || null)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -274,6 +443,7 @@ export default function AddFoodItemPage() {
                             {...field} 
                             onChange={(e) => {
                               // Explicitly set the exact date value without timezone adjustment
+                              expirationTouched.current = true;
                               field.onChange(e.target.value);
                             }}
                           />
@@ -284,6 +454,29 @@ export default function AddFoodItemPage() {
                   />
                 </div>
 
+                <ShelfLifeHint
+                  suggestion={suggestion}
+                  onApply={form.watch('expirationDate') !== suggestion?.expirationDate
+                    ? (expirationDate) => {
+                        form.setValue('expirationDate', expirationDate);
+                        expirationTouched.current = false;
+                      }
+                    : undefined}
+                />
+
+                <DuplicateItemHint
+                  duplicates={duplicates}
+                  purchase={{
+                    quantity: form.watch('quantity') ?? 0,
+                    unit: form.watch('unit') || 'items',
+                    unitWeight: form.watch('unitWeight'),
+                    purchaseDate: form.watch('purchaseDate'),
+                    expirationDate: form.watch('expirationDate'),
+                    storageLocation: form.watch('storageLocation'),
+                  }}
+                  onAdded={() => setLocation('/inventory')}
+                />
+
                 <FormField
                   control={form.control}
                   name="notes"
@@ -324,6 +517,13 @@ export default function AddFoodItemPage() {
           </CardContent>
         </Card>
       </div>
+
+      <BarcodeScanner
+        open={scannerOpen}
+        onOpenChange={setScannerOpen}
+        onScan={handleScan}
+        purchaseDate={form.watch('purchaseDate')}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -43,6 +43,11 @@ import {
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useTheme } from '@/lib/theme-context';
+import ShareListingBoard from '@/components/ShareListingBoard';
+import AllergenInput from '@/components/AllergenInput';
+import DietaryWarnings from '@/components/DietaryWarnings';
+import type { Allergen, DietaryConflict } from '@shared/schema';
+import { detectAllergens } from '@shared/dietary';
 
 // Define types for our chat messages
 type User = {
@@ -60,6 +65,8 @@ type SharedRecipe = {
   servings: number;
   imageUrl?: string;
   userId: number;
+  allergens: Allergen[];
+  conflicts?: DietaryConflict[]; // only on recipes loaded from the server, checked against the household's profiles
   createdAt: string;
   updatedAt: string;
 };
@@ -95,7 +102,8 @@ export default function CommunityChat() {
     prepTime: 10,
     cookTime: 10,
     servings: 2,
-    imageUrl: ''
+    imageUrl: '',
+    allergens: [] as Allergen[]
   });
   const [imageUrlError, setImageUrlError] = useState<string | null>(null);
   const [recipeDialogOpen, setRecipeDialogOpen] = useState(false);
@@ -305,6 +313,7 @@ export default function CommunityChat() {
           preparationTime: recipe.prepTime + recipe.cookTime,
           instructions: recipe.instructions,
           imageUrl: recipe.imageUrl && recipe.imageUrl.trim() !== '' ? recipe.imageUrl.trim() : null,
+          allergens: recipe.allergens,
           userId: user?.id, // Add userId as required by schema
         }),
       });
@@ -329,7 +338,8 @@ export default function CommunityChat() {
         prepTime: 10,
         cookTime: 10,
         servings: 2,
-        imageUrl: ''
+        imageUrl: '',
+        allergens: []
       });
       // WebSocket will handle the UI update
       toast({
@@ -493,6 +503,12 @@ export default function CommunityChat() {
             // Explicitly fetch fresh data after a recipe is deleted
             queryClient.invalidateQueries({ queryKey: ['/api/shared-recipes'] });
             queryClient.invalidateQueries({ queryKey: ['/api/chat-messages'] });
+          } else if (message.type === 'listing_updated' || message.type === 'listing_deleted') {
+            queryClient.invalidateQueries({ queryKey: ['/api/share-listings'] });
+            // A completed handover takes the food out of the sharer's inventory
+            if (message.data?.status === 'completed') {
+              queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+            }
           } else if (message.type === 'message_deleted') {
             console.log('Message deleted:', message.data);
             // Explicitly fetch fresh data after a message is deleted
@@ -717,6 +733,7 @@ export default function CommunityChat() {
         <TabsList className="mb-4">
           <TabsTrigger value="chat">Live Chat</TabsTrigger>
           <TabsTrigger value="recipes">Shared Recipes</TabsTrigger>
+          <TabsTrigger value="sharing">Food Sharing</TabsTrigger>
         </TabsList>
         
         {/* Chat Tab */}
@@ -906,6 +923,7 @@ export default function CommunityChat() {
                         <span>{recipe.servings} servings</span>
                       </div>
                     </div>
+                    <DietaryWarnings conflicts={recipe.conflicts} className="mt-3" />
                   </CardContent>
                   
                   <CardFooter className="flex flex-col gap-2">
@@ -952,6 +970,11 @@ export default function CommunityChat() {
             )}
           </div>
         </TabsContent>
+        
+        {/* Food Sharing Tab */}
+        <TabsContent value="sharing">
+          <ShareListingBoard />
+        </TabsContent>
       </Tabs>
       
       {/* Create Recipe Dialog */}
@@ -989,6 +1012,15 @@ export default function CommunityChat() {
                 />
               </div>
               
+              <div className="space-y-2">
+                <Label>Allergens</Label>
+                <AllergenInput
+                  value={recipeData.allergens}
+                  onChange={(allergens) => setRecipeData({...recipeData, allergens})}
+                  suggested={detectAllergens(recipeData.ingredients.split('\n'))}
+                />
+              </div>
+              
               <div className="space-y-2">
                 <Label htmlFor="instructions">Cooking Instructions</Label>
                 <Textarea
@@ -1206,6 +1238,7 @@ export default function CommunityChat() {
                       <li key={index}>{ingredient}</li>
                     ))}
                   </ul>
+                  <DietaryWarnings conflicts={selectedRecipe.conflicts} className="mt-3" />
                 </div>
               </div>
               
@@ -26,17 +26,8 @@ import { Badge } from "@/components/ui/badge";
 import { ArrowDownIcon, ArrowUpIcon } from "lucide-react";
 import WasteInsights from "@/components/WasteInsights";
 import ConsumptionInsights from "@/components/ConsumptionInsights";
-
-// Category colors for charts
-const CATEGORY_COLORS = {
-  produce: "#22c55e", // green
-  dairy: "#3b82f6", // blue
-  meat: "#ef4444", // red
-  bakery: "#f59e0b", // amber
-  pantry: "#8b5cf6", // violet
-  frozen: "#06b6d4", // cyan
-  other: "#94a3b8", // slate
-};
+import { findOption, useCategories, useStorageLocations } from "@/hooks/use-categories";
+import { CategoryOption } from "@shared/schema";
 
 type WasteInsightsData = {
   labels: string[];
@@ -48,13 +39,15 @@ export default function Dashboard() {
   const { data: foodItems } = useQuery<any[]>({
     queryKey: ['/api/food-items'],
   });
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
   
   const { data: wasteData, isLoading: isWasteLoading } = useQuery<WasteInsightsData>({
     queryKey: ['/api/waste-insights'],
   });
   
   // Prepare data for the category distribution chart
-  const categoryData = Array.isArray(foodItems) ? getCategoryDistribution(foodItems) : [];
+  const categoryData = Array.isArray(foodItems) ? getCategoryDistribution(foodItems, categories) : [];
 
   return (
     <div className="mb-8">
@@ -117,20 +110,12 @@ export default function Dashboard() {
                                 labelLine={true}
                                 label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}
                                 outerRadius={100}
-                                fill={CATEGORY_COLORS.produce}
+                                fill="#22c55e"
                                 dataKey="value"
                               >
-                                {categoryData.map((entry, index) => {
-                                  // Convert to lowercase for matching with our category keys
-                                  const category = entry.name.toLowerCase();
-                                  const color = CATEGORY_COLORS[category as keyof typeof CATEGORY_COLORS] || "#94a3b8";
-                                  return (
-                                    <Cell 
-                                      key={`cell-${index}`} 
-                                      fill={color} 
-                                    />
-                                  );
-                                })}
+                                {categoryData.map((entry, index) => (
+                                  <Cell key={`cell-${index}`} fill={entry.color} />
+                                ))}
                               </Pie>
                               <Tooltip formatter={(value) => [`${value} items`, 'Count']} />
                             </PieChart>
@@ -144,13 +129,13 @@ export default function Dashboard() {
                       <div className="mt-4">
                         <h4 className="text-sm font-medium mb-2">Category Legend</h4>
                         <div className="grid grid-cols-2 gap-2">
-                          {Object.entries(CATEGORY_COLORS).map(([category, color]) => (
-                            <div key={category} className="flex items-center">
+                          {categories.map((category) => (
+                            <div key={category.key} className="flex items-center">
                               <div 
                                 className="w-3 h-3 rounded-full mr-2" 
-                                style={{ backgroundColor: color }}
+                                style={{ backgroundColor: category.color }}
                               ></div>
-                              <span className="text-xs text-gray-600 capitalize">{category}</span>
+                              <span className="text-xs text-gray-600">{category.name}</span>
                             </div>
                           ))}
                         </div>
@@ -172,7 +157,7 @@ export default function Dashboard() {
                         ) : Array.isArray(foodItems) && foodItems.length > 0 ? (
                           <ResponsiveContainer width="100%" height="100%">
                             <BarChart
-                              data={getStorageDistribution(foodItems)}
+                              data={getStorageDistribution(foodItems, locations)}
                               layout="vertical"
                               margin={{ top: 20, right: 30, left: 80, bottom: 20 }}
                             >
@@ -364,35 +349,35 @@ export default function Dashboard() {
 }
 
 // Utility functions for chart data
-function getCategoryDistribution(items: any[]) {
+function getCategoryDistribution(items: any[], categories: CategoryOption[]) {
   // Count items by category
   const categoryCounts: Record<string, number> = {};
   
   items.forEach(item => {
-    const category = item.category || 'Other';
+    const category = item.category || 'other';
     categoryCounts[category] = (categoryCounts[category] || 0) + 1;
   });
   
-  // Convert to chart data format
-  return Object.entries(categoryCounts).map(([name, value]) => ({
-    name,
-    value
-  }));
+  // Convert to chart data format, labelled and colored like the household's categories
+  return Object.entries(categoryCounts).map(([key, value]) => {
+    const category = findOption(categories, key);
+    return { name: category.name, color: category.color, value };
+  });
 }
 
-function getStorageDistribution(items: any[]) {
+function getStorageDistribution(items: any[], locations: CategoryOption[]) {
   // Count items by storage location
   const locationCounts: Record<string, number> = {};
   
   items.forEach(item => {
-    const location = item.storageLocation || 'Other';
+    const location = item.storageLocation || 'other';
     locationCounts[location] = (locationCounts[location] || 0) + 1;
   });
   
   // Convert to chart data format and sort by count (descending)
   return Object.entries(locationCounts)
-    .map(([name, value]) => ({ 
-      name: name.charAt(0).toUpperCase() + name.slice(1), 
+    .map(([key, value]) => ({ 
+      name: findOption(locations, key).name, 
       value 
     }))
     .sort((a, b) => b.value - a.value);
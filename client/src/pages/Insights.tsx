@@ -18,7 +18,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SectionBackground } from "@/components/ui/section-background";
 import { GlassLogoBackground } from "@/components/ui/glass-logo-background";
 import WasteInsights from "@/components/WasteInsights";
+import WasteLog from "@/components/WasteLog";
 import ConsumptionInsights from "@/components/ConsumptionInsights";
+import { findOption, useCategories, useStorageLocations } from "@/hooks/use-categories";
+import { CategoryOption } from "@shared/schema";
 
 type WasteInsightsData = {
   labels: string[];
@@ -26,17 +29,6 @@ type WasteInsightsData = {
   trend: number;
 };
 
-// Mock data for category distribution (in a real app, this would come from an API)
-const CATEGORY_COLORS = {
-  produce: "#22c55e", // green
-  dairy: "#3b82f6", // blue
-  meat: "#ef4444", // red
-  bakery: "#f59e0b", // amber
-  pantry: "#8b5cf6", // violet
-  frozen: "#06b6d4", // cyan
-  other: "#94a3b8", // slate
-};
-
 export default function Insights() {
   const { data: wasteData, isLoading: isWasteLoading } = useQuery<WasteInsightsData>({
     queryKey: ['/api/waste-insights'],
@@ -45,9 +37,11 @@ export default function Insights() {
   const { data: foodItems } = useQuery<any[]>({
     queryKey: ['/api/food-items'],
   });
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
   
   // Prepare data for the category distribution chart
-  const categoryData = Array.isArray(foodItems) ? getCategoryDistribution(foodItems) : [];
+  const categoryData = Array.isArray(foodItems) ? getCategoryDistribution(foodItems, categories) : [];
   
   return (
     <div className="mb-8">
@@ -125,6 +119,8 @@ export default function Insights() {
               </CardContent>
             </Card>
             
+            <WasteLog />
+            
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card>
                 <CardHeader>
@@ -241,20 +237,12 @@ export default function Insights() {
                           labelLine={true}
                           label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}
                           outerRadius={100}
-                          fill={CATEGORY_COLORS.produce}
+                          fill="#22c55e"
                           dataKey="value"
                         >
-                          {categoryData.map((entry, index) => {
-                            // Convert to lowercase for matching with our category keys
-                            const category = entry.name.toLowerCase();
-                            const color = CATEGORY_COLORS[category as keyof typeof CATEGORY_COLORS] || "#94a3b8";
-                            return (
-                              <Cell 
-                                key={`cell-${index}`} 
-                                fill={color} 
-                              />
-                            );
-                          })}
+                          {categoryData.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={entry.color} />
+                          ))}
                         </Pie>
                         <Tooltip formatter={(value) => [`${value} items`, 'Count']} />
                       </PieChart>
@@ -268,13 +256,13 @@ export default function Insights() {
                 <div className="mt-4">
                   <h4 className="text-sm font-medium mb-2">Category Legend</h4>
                   <div className="grid grid-cols-2 gap-2">
-                    {Object.entries(CATEGORY_COLORS).map(([category, color]) => (
-                      <div key={category} className="flex items-center">
+                    {categories.map((category) => (
+                      <div key={category.key} className="flex items-center">
                         <div 
                           className="w-3 h-3 rounded-full mr-2" 
-                          style={{ backgroundColor: color }}
+                          style={{ backgroundColor: category.color }}
                         ></div>
-                        <span className="text-xs text-gray-600 capitalize">{category}</span>
+                        <span className="text-xs text-gray-600">{category.name}</span>
                       </div>
                     ))}
                   </div>
@@ -296,7 +284,7 @@ export default function Insights() {
                   ) : Array.isArray(foodItems) && foodItems.length > 0 ? (
                     <ResponsiveContainer width="100%" height="100%">
                       <BarChart
-                        data={getStorageDistribution(foodItems)}
+                        data={getStorageDistribution(foodItems, locations)}
                         layout="vertical"
                         margin={{ top: 20, right: 30, left: 80, bottom: 20 }}
                       >
@@ -389,29 +377,29 @@ export default function Insights() {
 }
 
 // Helper function to get category distribution data
-function getCategoryDistribution(items: any[]) {
+function getCategoryDistribution(items: any[], categories: CategoryOption[]) {
   const categoryCounts: Record<string, number> = {};
   
   items.forEach(item => {
     categoryCounts[item.category] = (categoryCounts[item.category] || 0) + 1;
   });
   
-  return Object.entries(categoryCounts).map(([name, value]) => ({
-    name: name.charAt(0).toUpperCase() + name.slice(1),
-    value
-  }));
+  return Object.entries(categoryCounts).map(([key, value]) => {
+    const category = findOption(categories, key);
+    return { name: category.name, color: category.color, value };
+  });
 }
 
 // Helper function to get storage location distribution
-function getStorageDistribution(items: any[]) {
+function getStorageDistribution(items: any[], locations: CategoryOption[]) {
   const storageCounts: Record<string, number> = {};
   
   items.forEach(item => {
     storageCounts[item.storageLocation] = (storageCounts[item.storageLocation] || 0) + 1;
   });
   
-  return Object.entries(storageCounts).map(([name, value]) => ({
-    name: name.charAt(0).toUpperCase() + name.slice(1),
+  return Object.entries(storageCounts).map(([key, value]) => ({
+    name: findOption(locations, key).name,
     value
   })).sort((a, b) => b.value - a.value);
 }
@@ -436,7 +424,7 @@ function getExpirationTimeline(items: any[]) {
   twoWeeksOut.setDate(today.getDate() + 14);
   
   items.forEach(item => {
-    const expirationDate = new Date(item.expirationDate);
+    const expirationDate = new Date(item.effectiveExpirationDate ?? item.expirationDate);
     expirationDate.setHours(0, 0, 0, 0);
     
     if (expirationDate < today) {
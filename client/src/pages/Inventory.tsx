@@ -1,10 +1,23 @@
+import { useState } from "react";
 import InventoryGrid from "@/components/InventoryGrid";
+import ImportInventoryDialog from "@/components/ImportInventoryDialog";
+import TrashDialog from "@/components/TrashDialog";
 import { SectionBackground } from "@/components/ui/section-background";
 import { GlassLogoBackground } from "@/components/ui/glass-logo-background";
 import { ThemeOverlay } from "@/components/ui/theme-overlay";
-import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Trash2, Upload } from "lucide-react";
 
 export default function Inventory() {
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isTrashDialogOpen, setIsTrashDialogOpen] = useState(false);
+
   return (
     <div className="mb-8">
       <ThemeOverlay variant="full">
@@ -12,11 +25,46 @@ export default function Inventory() {
           <GlassLogoBackground logoOpacity={0.07}>
             <div className="flex justify-between items-center mb-6">
               <h1 className="page-header">Inventory</h1>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setIsImportDialogOpen(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem asChild>
+                      <a href="/api/food-items/export?format=csv" download>CSV (spreadsheet)</a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href="/api/food-items/export?format=json" download>JSON</a>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button variant="outline" size="sm" onClick={() => setIsTrashDialogOpen(true)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Trash
+                </Button>
+              </div>
             </div>
             <InventoryGrid />
           </GlassLogoBackground>
         </SectionBackground>
       </ThemeOverlay>
+
+      <ImportInventoryDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+      />
+      <TrashDialog
+        open={isTrashDialogOpen}
+        onOpenChange={setIsTrashDialogOpen}
+      />
     </div>
   );
 }
@@ -15,7 +15,7 @@ import { FoodItemWithStatus } from "@shared/schema";
 import { SectionBackground } from "@/components/ui/section-background";
 import { GlassLogoBackground } from "@/components/ui/glass-logo-background";
 import { ThemeOverlay } from "@/components/ui/theme-overlay"; 
-import { PlusCircle, Utensils, Calendar as CalendarIcon, Info } from "lucide-react";
+import { PlusCircle, Utensils, Calendar as CalendarIcon, Info, Soup } from "lucide-react";
 import { format } from "date-fns";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -24,6 +24,8 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
+import LogLeftoversDialog from "@/components/LogLeftoversDialog";
+import MealPlanNutritionCard from "@/components/MealPlanNutritionCard";
 
 // Define the meal plan schema
 const mealPlanSchema = z.object({
@@ -54,6 +56,7 @@ interface MealPlanWithId extends MealPlan {
 export default function MealPlanning() {
   const [date, setDate] = useState<Date | undefined>(new Date());
   const [isAddPlanOpen, setIsAddPlanOpen] = useState(false);
+  const [leftoversPlan, setLeftoversPlan] = useState<MealPlanWithId | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -86,6 +89,7 @@ export default function MealPlanning() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/meal-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/meal-plans/nutrition'] });
       form.reset();
       setIsAddPlanOpen(false);
       toast({
@@ -109,6 +113,7 @@ export default function MealPlanning() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/meal-plans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/meal-plans/nutrition'] });
       toast({
         title: "Meal plan deleted",
         description: "The meal plan has been removed from your calendar",
@@ -214,6 +219,7 @@ export default function MealPlanning() {
                   />
                 </CardContent>
               </Card>
+              {date && <MealPlanNutritionCard date={date} />}
             </div>
 
             {/* Details column */}
@@ -244,19 +250,31 @@ export default function MealPlanning() {
                                 {plan.mealType}
                               </Badge>
                             </div>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={() => {
-                                if (confirm("Are you sure you want to delete this meal plan?")) {
-                                  deleteMealPlanMutation.mutate(plan.id);
-                                }
-                              }}
-                              className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-8 w-8 p-0"
-                            >
-                              <span className="sr-only">Delete</span>
-                              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"></path><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"></path><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path></svg>
-                            </Button>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setLeftoversPlan(plan)}
+                                className="h-8 px-2 text-xs"
+                                title="Log leftovers"
+                              >
+                                <Soup className="h-4 w-4 mr-1" />
+                                Leftovers
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => {
+                                  if (confirm("Are you sure you want to delete this meal plan?")) {
+                                    deleteMealPlanMutation.mutate(plan.id);
+                                  }
+                                }}
+                                className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-8 w-8 p-0"
+                              >
+                                <span className="sr-only">Delete</span>
+                                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"></path><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"></path><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path></svg>
+                              </Button>
+                            </div>
                           </div>
                           
                           <div className="mt-3">
@@ -521,6 +539,19 @@ export default function MealPlanning() {
               </Form>
             </DialogContent>
           </Dialog>
+
+          {leftoversPlan && (
+            <LogLeftoversDialog
+              key={leftoversPlan.id}
+              open
+              onOpenChange={(open) => !open && setLeftoversPlan(null)}
+              mealPlan={leftoversPlan}
+              cookedDate={format(
+                typeof leftoversPlan.date === 'string' ? new Date(leftoversPlan.date) : leftoversPlan.date,
+                'yyyy-MM-dd'
+              )}
+            />
+          )}
           </GlassLogoBackground>
         </SectionBackground>
       </ThemeOverlay>
@@ -29,7 +29,10 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { FoodItemWithStatus } from "@shared/schema";
+import { FoodItemWithStatus, DietaryConflict, DietaryRestrictions } from "@shared/schema";
+import { ALLERGEN_LABELS, DIET_LABELS, hasDietaryRestrictions } from "@shared/dietary";
+import DietaryWarnings from "@/components/DietaryWarnings";
+import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
@@ -43,6 +46,7 @@ type RecipeSuggestion = {
   matchingItems: string[];
   preparationTime: number;
   difficulty: string;
+  conflicts?: DietaryConflict[]; // where the recipe clashes with the household's dietary profiles
 };
 
 // AI-generated detailed recipe type
@@ -64,6 +68,7 @@ type DetailedRecipe = {
     carbs?: string;
     fat?: string;
   };
+  conflicts?: DietaryConflict[];
 };
 
 export default function Recipes() {
@@ -73,6 +78,12 @@ export default function Recipes() {
   const [selectedIngredients, setSelectedIngredients] = useState<string[]>([]);
   const [dietaryRestrictions, setDietaryRestrictions] = useState("");
   const [detailRecipeOpen, setDetailRecipeOpen] = useState(false);
+  const [hideConflicting, setHideConflicting] = useState(true);
+  
+  // What everyone in the household can't eat, from their dietary profiles
+  const { data: restrictions } = useQuery<DietaryRestrictions>({
+    queryKey: ['/api/dietary-restrictions'],
+  });
   
   // Load AI recipe suggestions
   const { 
@@ -106,12 +117,18 @@ export default function Recipes() {
   });
 
   // Filter AI suggestions based on search term
-  const filteredAiSuggestions = aiSuggestions?.recipes?.filter(recipe => 
+  const searchedAiSuggestions = aiSuggestions?.recipes?.filter(recipe => 
     recipe.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     recipe.ingredients.some(ingredient => 
       ingredient.toLowerCase().includes(searchTerm.toLowerCase())
     )
   );
+  
+  // Recipes that don't suit someone in the household are hidden unless asked for
+  const filteredAiSuggestions = hideConflicting
+    ? searchedAiSuggestions?.filter(recipe => !recipe.conflicts?.length)
+    : searchedAiSuggestions;
+  const hiddenCount = (searchedAiSuggestions?.length ?? 0) - (filteredAiSuggestions?.length ?? 0);
 
   // Check if there's an API quota error
   const hasQuotaError = aiSuggestionsError ? 
@@ -189,6 +206,17 @@ export default function Recipes() {
                 <Label htmlFor="expiry-priority">Prioritize expiring ingredients</Label>
               </div>
               
+              <div className="flex items-center space-x-2 mr-4">
+                <Switch
+                  id="hide-conflicting"
+                  checked={hideConflicting}
+                  onCheckedChange={setHideConflicting}
+                />
+                <Label htmlFor="hide-conflicting">
+                  Hide recipes that don't suit everyone{hiddenCount > 0 ? ` (${hiddenCount} hidden)` : ''}
+                </Label>
+              </div>
+              
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -201,6 +229,17 @@ export default function Recipes() {
               </Button>
             </div>
             
+            {restrictions && hasDietaryRestrictions(restrictions) ? (
+              <p className="text-sm text-gray-600 mb-4">
+                Cooking for {restrictions.members.map(member => member.username).join(', ')}: {describeRestrictions(restrictions)}.{' '}
+                <Link href="/settings" className="text-primary underline">Edit dietary profile</Link>
+              </p>
+            ) : (
+              <p className="text-sm text-gray-600 mb-4">
+                Add allergies, diets and dislikes to your <Link href="/settings" className="text-primary underline">dietary profile</Link> to tailor suggestions.
+              </p>
+            )}
+            
             {/* Recipe Cards */}
             {aiSuggestionsLoading ? (
               <AiRecipeSkeletons />
@@ -248,6 +287,7 @@ export default function Recipes() {
                           )}
                         </div>
                       </div>
+                      <DietaryWarnings conflicts={recipe.conflicts} className="mt-3" />
                     </CardContent>
                     <CardFooter>
                       <Button 
@@ -287,6 +327,19 @@ export default function Recipes() {
   );
 }
 
+// Summary of a household's restrictions, e.g. "vegetarian, no peanuts or mushrooms"
+function describeRestrictions(restrictions: DietaryRestrictions): string {
+  const avoided = [
+    ...restrictions.allergens.map(allergen => ALLERGEN_LABELS[allergen].toLowerCase()),
+    ...restrictions.dislikedIngredients,
+  ];
+  const parts = restrictions.diets.map(diet => DIET_LABELS[diet].toLowerCase());
+  if (avoided.length > 0) {
+    parts.push(`no ${avoided.join(' or ')}`);
+  }
+  return parts.join(', ');
+}
+
 // Skeleton for AI recipe suggestions
 function AiRecipeSkeletons() {
   return (
@@ -399,6 +452,7 @@ function DetailedRecipeDialog({
             </Badge>
             <Badge variant="outline" className="capitalize">{recipe.difficulty}</Badge>
           </div>
+          <DietaryWarnings conflicts={recipe.conflicts} className="mt-2" />
         </DialogHeader>
         
         <ScrollArea className="h-[60vh] pr-4">
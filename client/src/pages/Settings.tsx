@@ -7,6 +7,11 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 import { SectionBackground } from "@/components/ui/section-background";
 import { ThemeOverlay } from "@/components/ui/theme-overlay";
+import HouseholdSettings from "@/components/HouseholdSettings";
+import CategoryManager from "@/components/CategoryManager";
+import ParLevelManager from "@/components/ParLevelManager";
+import RecallManager from "@/components/RecallManager";
+import DietaryProfileCard from "@/components/DietaryProfileCard";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -385,8 +390,10 @@ export default function Settings() {
           </p>
 
           <Tabs defaultValue="notifications" value={activeTab} onValueChange={setActiveTab} className="mt-4">
-            <TabsList className="grid w-full md:w-[400px] grid-cols-2">
+            <TabsList className="grid w-full md:w-[600px] grid-cols-4">
               <TabsTrigger value="notifications">Notifications</TabsTrigger>
+              <TabsTrigger value="household">Household</TabsTrigger>
+              <TabsTrigger value="dietary">Dietary</TabsTrigger>
               <TabsTrigger value="appearance">Appearance</TabsTrigger>
             </TabsList>
 
@@ -524,6 +531,17 @@ export default function Settings() {
               </CardFooter>
             </form>
           </Card>
+          {currentUser?.isAdmin && <RecallManager />}
+        </TabsContent>
+
+        <TabsContent value="household" className="space-y-4 mt-6">
+          <HouseholdSettings />
+          <CategoryManager />
+          <ParLevelManager />
+        </TabsContent>
+
+        <TabsContent value="dietary" className="space-y-4 mt-6">
+          <DietaryProfileCard />
         </TabsContent>
 
         <TabsContent value="appearance" className="space-y-4 mt-6">
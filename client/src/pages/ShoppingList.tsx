@@ -0,0 +1,378 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FoodItemWithStatus, QUANTITY_UNITS, ShoppingListItem, ShoppingListWithItems } from "@shared/schema";
+import { formatQuantity } from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories, useStorageLocations, findOption } from "@/hooks/use-categories";
+import { SectionBackground } from "@/components/ui/section-background";
+import { GlassLogoBackground } from "@/components/ui/glass-logo-background";
+import { ThemeOverlay } from "@/components/ui/theme-overlay";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarPlus, Plus, ShoppingCart, Trash2 } from "lucide-react";
+
+// Days of upcoming meal plans the list is filled from
+const MEAL_PLAN_DAYS = 7;
+
+type NewItem = {
+  name: string;
+  quantity: string;
+  unit: typeof QUANTITY_UNITS[number];
+  category: string;
+  storageLocation: string;
+};
+
+const EMPTY_ITEM: NewItem = {
+  name: "",
+  quantity: "1",
+  unit: "items",
+  category: "other",
+  storageLocation: "pantry",
+};
+
+export default function ShoppingList() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { categories } = useCategories();
+  const { locations } = useStorageLocations();
+
+  const [selectedListId, setSelectedListId] = useState<number | null>(null);
+  const [newListName, setNewListName] = useState("");
+  const [newItem, setNewItem] = useState<NewItem>(EMPTY_ITEM);
+
+  const { data: lists, isLoading } = useQuery<ShoppingListWithItems[]>({
+    queryKey: ['/api/shopping-lists'],
+  });
+
+  // Show the newest list until the user picks another one
+  useEffect(() => {
+    if (lists && !lists.some(list => list.id === selectedListId)) {
+      setSelectedListId(lists[0]?.id ?? null);
+    }
+  }, [lists, selectedListId]);
+
+  const list = lists?.find(list => list.id === selectedListId);
+  const toBuy = list?.items.filter(item => !item.checked) ?? [];
+  const inCart = list?.items.filter(item => item.checked) ?? [];
+
+  const refreshLists = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/shopping-lists'] });
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createListMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/shopping-lists', { name });
+      return await response.json() as ShoppingListWithItems;
+    },
+    onSuccess: (created) => {
+      setNewListName("");
+      setSelectedListId(created.id);
+      refreshLists();
+    },
+    onError: showError,
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (listId: number) => {
+      await apiRequest('DELETE', `/api/shopping-lists/${listId}`);
+    },
+    onSuccess: refreshLists,
+    onError: showError,
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/shopping-lists/${list!.id}/items`, {
+        name: newItem.name.trim(),
+        quantity: parseFloat(newItem.quantity) || 1,
+        unit: newItem.unit,
+        category: newItem.category,
+        storageLocation: newItem.storageLocation,
+      });
+    },
+    onSuccess: () => {
+      setNewItem(EMPTY_ITEM);
+      refreshLists();
+    },
+    onError: showError,
+  });
+
+  const toggleItemMutation = useMutation({
+    mutationFn: async (item: ShoppingListItem) => {
+      await apiRequest('PATCH', `/api/shopping-list-items/${item.id}`, { checked: !item.checked });
+    },
+    onSuccess: refreshLists,
+    onError: showError,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (item: ShoppingListItem) => {
+      await apiRequest('DELETE', `/api/shopping-list-items/${item.id}`);
+    },
+    onSuccess: refreshLists,
+    onError: showError,
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/shopping-lists/${list!.id}/generate`, { days: MEAL_PLAN_DAYS });
+      return await response.json() as ShoppingListItem[];
+    },
+    onSuccess: (added) => {
+      refreshLists();
+      toast({
+        title: added.length > 0 ? "Added from your meal plan" : "Nothing to add",
+        description: added.length > 0
+          ? `${added.length} ingredient${added.length !== 1 ? "s" : ""} for the next ${MEAL_PLAN_DAYS} days ${added.length !== 1 ? "are" : "is"} missing from your inventory.`
+          : `Your inventory covers every meal planned for the next ${MEAL_PLAN_DAYS} days.`,
+      });
+    },
+    onError: showError,
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/shopping-lists/${list!.id}/checkout`);
+      return await response.json() as FoodItemWithStatus[];
+    },
+    onSuccess: (created) => {
+      refreshLists();
+      queryClient.invalidateQueries({ queryKey: ['/api/food-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/meal-plans'] });
+      toast({
+        title: "Shopping put away",
+        description: `${created.length} item${created.length !== 1 ? "s were" : " was"} added to your inventory with predicted expiration dates.`,
+      });
+    },
+    onError: showError,
+  });
+
+  const handleDeleteList = () => {
+    if (list && window.confirm(`Delete the list "${list.name}" and everything on it?`)) {
+      deleteListMutation.mutate(list.id);
+    }
+  };
+
+  const renderItem = (item: ShoppingListItem) => (
+    <li key={item.id} className="py-2 flex items-center justify-between">
+      <label className="flex items-start min-w-0 cursor-pointer">
+        <Checkbox
+          className="mt-1 mr-3"
+          checked={item.checked}
+          onCheckedChange={() => toggleItemMutation.mutate(item)}
+        />
+        <div className="min-w-0">
+          <p className={`font-medium truncate ${item.checked ? "line-through text-gray-400" : "text-gray-900"}`}>
+            {item.name}
+          </p>
+          <p className="text-xs text-gray-500">
+            {formatQuantity(item.quantity, item.unit)} · {findOption(categories, item.category).name} · {findOption(locations, item.storageLocation).name}
+          </p>
+          {item.notes && <p className="text-xs text-gray-400">{item.notes}</p>}
+        </div>
+      </label>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-gray-400 hover:text-red-500 shrink-0"
+        title="Remove from list"
+        onClick={() => deleteItemMutation.mutate(item)}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </li>
+  );
+
+  return (
+    <div className="mb-8">
+      <ThemeOverlay variant="full">
+        <SectionBackground pattern="meal-planning" className="p-6">
+          <GlassLogoBackground className="rounded-xl p-4">
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-6">
+              <h1 className="page-header">Shopping List</h1>
+              <form
+                className="flex space-x-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (newListName.trim()) {
+                    createListMutation.mutate(newListName.trim());
+                  }
+                }}
+              >
+                <Input
+                  placeholder="New list name"
+                  value={newListName}
+                  onChange={(e) => setNewListName(e.target.value)}
+                />
+                <Button type="submit" disabled={createListMutation.isPending}>
+                  <Plus className="h-4 w-4 mr-1" /> New List
+                </Button>
+              </form>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading shopping lists...</p>
+            ) : !list ? (
+              <Card>
+                <CardContent className="py-10 text-center text-gray-500">
+                  Start a shopping list to plan your next trip to the store.
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 space-y-0">
+                  <div>
+                    {lists && lists.length > 1 ? (
+                      <Select value={String(list.id)} onValueChange={(value) => setSelectedListId(parseInt(value))}>
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {lists.map(option => (
+                            <SelectItem key={option.id} value={String(option.id)}>
+                              {option.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <CardTitle>{list.name}</CardTitle>
+                    )}
+                    <CardDescription className="mt-1">
+                      {toBuy.length} to buy · {inCart.length} in the cart
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => generateMutation.mutate()}
+                      disabled={generateMutation.isPending}
+                    >
+                      <CalendarPlus className="h-4 w-4 mr-1" />
+                      {generateMutation.isPending ? "Checking..." : "Add From Meal Plan"}
+                    </Button>
+                    <Button
+                      onClick={() => checkoutMutation.mutate()}
+                      disabled={inCart.length === 0 || checkoutMutation.isPending}
+                      className="bg-primary hover:bg-primary-dark text-white"
+                    >
+                      <ShoppingCart className="h-4 w-4 mr-1" />
+                      {checkoutMutation.isPending ? "Adding..." : `Check Out (${inCart.length})`}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete list"
+                      className="text-gray-400 hover:text-red-500"
+                      onClick={handleDeleteList}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <form
+                    className="grid grid-cols-2 sm:grid-cols-6 gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (newItem.name.trim()) {
+                        addItemMutation.mutate();
+                      }
+                    }}
+                  >
+                    <Input
+                      className="col-span-2"
+                      placeholder="Add an item, e.g. Milk"
+                      value={newItem.name}
+                      onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      aria-label="Quantity"
+                      value={newItem.quantity}
+                      onChange={(e) => setNewItem({ ...newItem, quantity: e.target.value })}
+                    />
+                    <Select
+                      value={newItem.unit}
+                      onValueChange={(unit) => setNewItem({ ...newItem, unit: unit as NewItem["unit"] })}
+                    >
+                      <SelectTrigger aria-label="Unit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUANTITY_UNITS.map(unit => (
+                          <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={newItem.category} onValueChange={(category) => setNewItem({ ...newItem, category })}>
+                      <SelectTrigger aria-label="Category">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map(category => (
+                          <SelectItem key={category.key} value={category.key}>{category.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex space-x-2">
+                      <Select
+                        value={newItem.storageLocation}
+                        onValueChange={(storageLocation) => setNewItem({ ...newItem, storageLocation })}
+                      >
+                        <SelectTrigger aria-label="Storage location">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {locations.map(location => (
+                            <SelectItem key={location.key} value={location.key}>{location.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button type="submit" size="icon" disabled={addItemMutation.isPending} title="Add to list">
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </form>
+
+                  {list.items.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-6">
+                      This list is empty. Add items yourself or fill it from your meal plan.
+                    </p>
+                  ) : (
+                    <>
+                      {toBuy.length > 0 && (
+                        <ul className="divide-y divide-gray-100">{toBuy.map(renderItem)}</ul>
+                      )}
+                      {inCart.length > 0 && (
+                        <div>
+                          <h3 className="text-sm font-medium text-gray-500 mb-1">In the cart</h3>
+                          <ul className="divide-y divide-gray-100">{inCart.map(renderItem)}</ul>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </GlassLogoBackground>
+        </SectionBackground>
+      </ThemeOverlay>
+    </div>
+  );
+}
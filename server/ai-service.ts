@@ -1,5 +1,6 @@
 import OpenAI from "openai";
-import { FoodItemWithStatus } from "@shared/schema";
+import { FoodItemWithStatus, type DietaryRestrictions } from "@shared/schema";
+import { ALLERGEN_LABELS, DIET_LABELS, detectAllergens, findDietaryConflicts, hasDietaryRestrictions } from "@shared/dietary";
 
 // Initialize the OpenAI client if an API key is available
 let openai: OpenAI | null = null;
@@ -43,11 +44,13 @@ export class AIService {
    * @param foodItems List of food items in user's inventory
    * @param useExpiring Whether to prioritize expiring items
    * @param limit Number of recipes to generate
+   * @param restrictions What the household can't eat; recipes are told to avoid it and flagged if they don't
    */
   public async generateRecipeSuggestions(
     foodItems: FoodItemWithStatus[],
     useExpiring: boolean = true,
-    limit: number = 3
+    limit: number = 3,
+    restrictions?: DietaryRestrictions
   ): Promise<any> {
     try {
       if (!this.isConfigured()) {
@@ -58,10 +61,15 @@ export class AIService {
         };
       }
 
+      // Items with an allergen someone can't eat are left out so they can't end up in a recipe
+      const safeItems = restrictions
+        ? foodItems.filter(item => ![...item.allergens, ...detectAllergens([item.name])].some(allergen => restrictions.allergens.includes(allergen)))
+        : foodItems;
+
       // Sort items by expiration date if useExpiring is true
       const sortedItems = useExpiring
-        ? [...foodItems].sort((a, b) => a.daysUntilExpiration - b.daysUntilExpiration)
-        : foodItems;
+        ? [...safeItems].sort((a, b) => a.daysUntilExpiration - b.daysUntilExpiration)
+        : safeItems;
 
       // Prepare items information for the prompt
       const itemsList = sortedItems.map(item => 
@@ -77,7 +85,7 @@ Based on the following food items in the user's inventory, suggest ${limit} crea
 
 Food inventory:
 ${itemsList}
-
+${this.describeRestrictions(restrictions)}
 For each recipe, please provide:
 1. Recipe title (creative and appetizing)
 2. Brief description of the dish (1-2 sentences)
@@ -119,6 +127,12 @@ Respond with JSON in the following format:
       }
 
       const recipes = JSON.parse(responseContent);
+      if (restrictions && Array.isArray(recipes.recipes)) {
+        // The model can still slip up, so check its recipes against the restrictions too
+        for (const recipe of recipes.recipes) {
+          recipe.conflicts = findDietaryConflicts(Array.isArray(recipe.ingredients) ? recipe.ingredients.map(String) : [], [], restrictions);
+        }
+      }
       return recipes;
 
     } catch (error) {
@@ -135,10 +149,12 @@ Respond with JSON in the following format:
    * Generate a single detailed recipe based on selected ingredients
    * @param ingredients List of ingredients to include in the recipe
    * @param dietary Optional dietary restrictions (vegetarian, vegan, etc.)
+   * @param restrictions What the household can't eat, from its members' dietary profiles
    */
   public async generateDetailedRecipe(
     ingredients: string[],
-    dietary?: string
+    dietary?: string,
+    restrictions?: DietaryRestrictions
   ): Promise<any> {
     try {
       if (!this.isConfigured()) {
@@ -165,7 +181,7 @@ Respond with JSON in the following format:
 
       // Create a prompt for detailed recipe generation
       const prompt = `Create a detailed recipe using primarily these ingredients: ${ingredients.join(", ")}. ${dietaryStr}
-
+${this.describeRestrictions(restrictions)}
 Please structure the recipe with:
 - A creative title
 - Brief description of the dish
@@ -213,6 +229,10 @@ Respond with JSON in the following format:
       }
 
       const recipe = JSON.parse(responseContent);
+      if (restrictions && Array.isArray(recipe.ingredients)) {
+        const names = recipe.ingredients.map((ingredient: any) => String(ingredient?.name ?? ingredient));
+        recipe.conflicts = findDietaryConflicts(names, [], restrictions);
+      }
       return recipe;
 
     } catch (error) {
@@ -236,6 +256,33 @@ Respond with JSON in the following format:
       };
     }
   }
+
+  /**
+   * Prompt section listing what recipes must avoid, or an empty string if nothing is restricted
+   */
+  private describeRestrictions(restrictions?: DietaryRestrictions): string {
+    if (!restrictions || !hasDietaryRestrictions(restrictions)) {
+      return "";
+    }
+
+    const rules: string[] = [];
+    if (restrictions.allergens.length > 0) {
+      const allergens = restrictions.allergens.map(allergen => ALLERGEN_LABELS[allergen].toLowerCase());
+      rules.push(`- Someone in the household is allergic to: ${allergens.join(", ")}. Recipes MUST NOT contain these or any ingredient made from them, including traces in sauces, oils and garnishes.`);
+    }
+    if (restrictions.diets.length > 0) {
+      const diets = restrictions.diets.map(diet => DIET_LABELS[diet].toLowerCase());
+      rules.push(`- Recipes MUST be suitable for these diets: ${diets.join(", ")}.`);
+    }
+    if (restrictions.dislikedIngredients.length > 0) {
+      rules.push(`- Recipes MUST NOT use: ${restrictions.dislikedIngredients.join(", ")}.`);
+    }
+
+    return `
+Dietary requirements (hard constraints, never break these even if it means using fewer inventory items):
+${rules.join("\n")}
+`;
+  }
 }
 
 export const aiService = AIService.getInstance();
@@ -16,6 +16,13 @@ declare global {
   }
 }
 
+// The household a user has switched to is remembered per session
+declare module "express-session" {
+  interface SessionData {
+    activeHouseholdId?: number;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -0,0 +1,171 @@
+import {
+  FOOD_CATEGORIES,
+  STORAGE_LOCATIONS,
+  type CategoryOption,
+  type CustomCategory,
+  type CustomStorageLocation,
+  type InsertCustomCategory,
+  type InsertCustomStorageLocation,
+} from "@shared/schema";
+import { buildCategoryOptions, buildLocationOptions } from "@shared/categories";
+import { storage } from "./storage";
+
+type FoodCategory = typeof FOOD_CATEGORIES[number];
+type StorageLocation = typeof STORAGE_LOCATIONS[number];
+
+// What a household chooses when adding or changing a custom category or location
+type CustomCategoryInput = Pick<InsertCustomCategory, "name" | "icon" | "color" | "baseCategory">;
+type CustomStorageLocationInput = Pick<InsertCustomStorageLocation, "name" | "icon" | "color" | "baseLocation">;
+
+/**
+ * Raised when a custom category or location can't be saved, e.g. because its name is taken
+ */
+export class CategoryError extends Error {}
+
+/**
+ * Category Service
+ * Combines the built-in food categories and storage locations with each household's own,
+ * and maps custom ones back to the built-in category or location whose shelf life they share
+ */
+export class CategoryService {
+  private static instance: CategoryService;
+
+  private constructor() {}
+
+  public static getInstance(): CategoryService {
+    if (!CategoryService.instance) {
+      CategoryService.instance = new CategoryService();
+    }
+    return CategoryService.instance;
+  }
+
+  /**
+   * Get every category a household can file items under, built-in ones first
+   */
+  public async getCategories(householdId: number | null): Promise<CategoryOption[]> {
+    return buildCategoryOptions(householdId !== null ? await storage.getCustomCategories(householdId) : []);
+  }
+
+  /**
+   * Get every storage location a household can keep items in, built-in ones first
+   */
+  public async getLocations(householdId: number | null): Promise<CategoryOption[]> {
+    return buildLocationOptions(householdId !== null ? await storage.getCustomStorageLocations(householdId) : []);
+  }
+
+  /**
+   * Find the built-in category a category key behaves like.
+   * Unknown keys, e.g. from a deleted custom category, count as "other".
+   */
+  public async resolveCategory(householdId: number | null, key: string): Promise<FoodCategory> {
+    if (FOOD_CATEGORIES.includes(key as FoodCategory)) {
+      return key as FoodCategory;
+    }
+    const option = (await this.getCategories(householdId)).find(category => category.key === key);
+    return (option?.base as FoodCategory | undefined) ?? "other";
+  }
+
+  /**
+   * Find the built-in storage location a location key behaves like.
+   * Unknown keys count as "other".
+   */
+  public async resolveLocation(householdId: number | null, key: string): Promise<StorageLocation> {
+    if (STORAGE_LOCATIONS.includes(key as StorageLocation)) {
+      return key as StorageLocation;
+    }
+    const option = (await this.getLocations(householdId)).find(location => location.key === key);
+    return (option?.base as StorageLocation | undefined) ?? "other";
+  }
+
+  /**
+   * Check an item's category and storage location against the household's options
+   * @returns A message describing the first invalid value, or null if both are valid
+   */
+  public async validateItem(
+    householdId: number | null,
+    item: { category?: string; storageLocation?: string }
+  ): Promise<string | null> {
+    if (item.category !== undefined) {
+      const categories = await this.getCategories(householdId);
+      if (!categories.some(category => category.key === item.category)) {
+        return `Unknown category "${item.category}"`;
+      }
+    }
+    if (item.storageLocation !== undefined) {
+      const locations = await this.getLocations(householdId);
+      if (!locations.some(location => location.key === item.storageLocation)) {
+        return `Unknown storage location "${item.storageLocation}"`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Add a category to a household
+   * @throws CategoryError if the household already has a category with this name
+   */
+  public async createCategory(householdId: number, input: CustomCategoryInput): Promise<CustomCategory> {
+    const existing = await this.getCategories(householdId);
+    const key = this.makeKey(input.name, existing, "category");
+    return await storage.createCustomCategory({ ...input, householdId, key });
+  }
+
+  /**
+   * Change a custom category. Its key stays the same, so items keep their category when it's renamed.
+   * @throws CategoryError if another category already has the new name
+   */
+  public async updateCategory(category: CustomCategory, updates: Partial<CustomCategoryInput>): Promise<CustomCategory | undefined> {
+    if (updates.name !== undefined) {
+      const others = (await this.getCategories(category.householdId)).filter(option => option.id !== category.id);
+      this.makeKey(updates.name, others, "category");
+    }
+    return await storage.updateCustomCategory(category.id, updates);
+  }
+
+  /**
+   * Add a storage location to a household
+   * @throws CategoryError if the household already has a location with this name
+   */
+  public async createLocation(householdId: number, input: CustomStorageLocationInput): Promise<CustomStorageLocation> {
+    const existing = await this.getLocations(householdId);
+    const key = this.makeKey(input.name, existing, "storage location");
+    return await storage.createCustomStorageLocation({ ...input, householdId, key });
+  }
+
+  /**
+   * Change a custom storage location, keeping its key
+   * @throws CategoryError if another location already has the new name
+   */
+  public async updateLocation(
+    location: CustomStorageLocation,
+    updates: Partial<CustomStorageLocationInput>
+  ): Promise<CustomStorageLocation | undefined> {
+    if (updates.name !== undefined) {
+      const others = (await this.getLocations(location.householdId)).filter(option => option.id !== location.id);
+      this.makeKey(updates.name, others, "storage location");
+    }
+    return await storage.updateCustomStorageLocation(location.id, updates);
+  }
+
+  /**
+   * Turn a name into the key stored on items ("Garage Fridge" becomes "garage-fridge")
+   * @throws CategoryError if the name has no letters or digits, or another option already uses it
+   */
+  private makeKey(name: string, existing: CategoryOption[], kind: string): string {
+    const key = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    if (!key) {
+      throw new CategoryError(`A ${kind} name needs at least one letter or number`);
+    }
+
+    const normalizedName = name.trim().toLowerCase();
+    if (existing.some(option => option.key === key || option.name.toLowerCase() === normalizedName)) {
+      throw new CategoryError(`There is already a ${kind} called "${name.trim()}"`);
+    }
+    return key;
+  }
+}
+
+export const categoryService = CategoryService.getInstance();
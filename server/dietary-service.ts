@@ -0,0 +1,68 @@
+import type { Allergen, DietaryConflict, DietaryRestrictions, Diet } from "@shared/schema";
+import { detectAllergens, findDietaryConflicts } from "@shared/dietary";
+import { storage } from "./storage";
+
+/**
+ * Dietary Service
+ * Combines household members' dietary profiles and checks recipes against them
+ */
+export class DietaryService {
+  private static instance: DietaryService;
+
+  private constructor() {}
+
+  public static getInstance(): DietaryService {
+    if (!DietaryService.instance) {
+      DietaryService.instance = new DietaryService();
+    }
+    return DietaryService.instance;
+  }
+
+  /**
+   * Everything the household's meals have to avoid: the union of its members' profiles
+   */
+  public async getRestrictions(householdId: number): Promise<DietaryRestrictions> {
+    const profiles = await storage.getHouseholdDietaryProfiles(householdId);
+
+    const allergens = new Set<Allergen>();
+    const diets = new Set<Diet>();
+    const disliked = new Map<string, string>();
+    for (const profile of profiles) {
+      profile.allergens.forEach(allergen => allergens.add(allergen));
+      profile.diets.forEach(diet => diets.add(diet));
+      // Two members disliking "Mushrooms" and "mushrooms" is one restriction
+      profile.dislikedIngredients.forEach(ingredient => disliked.set(ingredient.toLowerCase(), ingredient));
+    }
+
+    return {
+      allergens: Array.from(allergens),
+      diets: Array.from(diets),
+      dislikedIngredients: Array.from(disliked.values()),
+      members: profiles.map(profile => ({
+        userId: profile.userId,
+        username: profile.username,
+        allergens: profile.allergens,
+        diets: profile.diets,
+        dislikedIngredients: profile.dislikedIngredients,
+      })),
+    };
+  }
+
+  /**
+   * Add the allergens a recipe's ingredients give away to the ones it is tagged with,
+   * and list where it clashes with the household's restrictions
+   */
+  public annotateRecipe<T extends { ingredients: string[]; allergens: Allergen[] }>(
+    recipe: T,
+    restrictions: DietaryRestrictions
+  ): T & { conflicts: DietaryConflict[] } {
+    const allergens = Array.from(new Set([...recipe.allergens, ...detectAllergens(recipe.ingredients)]));
+    return {
+      ...recipe,
+      allergens,
+      conflicts: findDietaryConflicts(recipe.ingredients, allergens, restrictions),
+    };
+  }
+}
+
+export const dietaryService = DietaryService.getInstance();
@@ -0,0 +1,118 @@
+import { MAX_ITEM_PHOTOS, type FoodItem } from "@shared/schema";
+import { isLikelyDuplicate } from "@shared/duplicates";
+import { convertQuantity, roundQuantity } from "@shared/units";
+import { storage } from "./storage";
+import { lotService } from "./lot-service";
+import { itemEventService } from "./item-event-service";
+import { tagService } from "./tag-service";
+
+/**
+ * Raised when items can't be merged, e.g. because their units can't be converted
+ */
+export class MergeError extends Error {}
+
+/**
+ * Duplicate Service
+ * Spots items that are probably the same food and merges them into one
+ */
+export class DuplicateService {
+  private static instance: DuplicateService;
+
+  private constructor() {}
+
+  public static getInstance(): DuplicateService {
+    if (!DuplicateService.instance) {
+      DuplicateService.instance = new DuplicateService();
+    }
+    return DuplicateService.instance;
+  }
+
+  /**
+   * A household's in-stock items that look like the same food as a new or edited one
+   * @param excludeId The item being checked, when it already exists
+   */
+  public async findDuplicates(
+    householdId: number,
+    candidate: Pick<FoodItem, "name" | "category" | "storageLocation">,
+    excludeId?: number
+  ): Promise<FoodItem[]> {
+    const items = await storage.getFoodItemsByHouseholdId(householdId);
+    return items.filter(item => item.id !== excludeId && isLikelyDuplicate(item, candidate));
+  }
+
+  /**
+   * Merge duplicates into one item.
+   * Their lots are converted to the target's unit and added to it, their consumption, waste,
+   * meal plan and other references move over, their tags, allergens and photos are combined,
+   * and the emptied duplicates then go to the trash.
+   * @param target The item that is kept
+   * @param sources Items from the same household to fold into the target
+   * @returns The target with its combined quantity
+   */
+  public async merge(target: FoodItem, sources: FoodItem[], userId: number): Promise<FoodItem> {
+    // Check every item before changing anything, so a bad one doesn't leave a half-done merge
+    const factors = new Map<number, number>();
+    for (const source of sources) {
+      if (source.id === target.id) {
+        throw new MergeError("An item can't be merged into itself");
+      }
+      if (source.householdId !== target.householdId) {
+        throw new MergeError(`${source.name} belongs to a different household`);
+      }
+      if (source.deletedAt || target.deletedAt) {
+        throw new MergeError("Items in the trash can't be merged");
+      }
+
+      const factor = convertQuantity(1, source.unit, target.unit, source.unitWeight ?? target.unitWeight);
+      if (factor === null) {
+        throw new MergeError(`${source.name} is counted in ${source.unit}, which can't be converted to ${target.name}'s ${target.unit}`);
+      }
+      factors.set(source.id, factor);
+    }
+
+    // Give items from before lots existed their lot first, so it isn't lost among the moved ones
+    await lotService.getLots(target);
+
+    const tagLinks = await storage.getFoodItemTags([target.id, ...sources.map(source => source.id)]);
+    const allergens = new Set(target.allergens);
+    const photos = [...target.photos];
+
+    for (const source of sources) {
+      const factor = factors.get(source.id)!;
+      let added = 0;
+      for (const lot of await lotService.getLots(source)) {
+        const quantity = roundQuantity(lot.quantity * factor);
+        await storage.updateFoodItemLot(lot.id, { foodItemId: target.id, quantity });
+        added += quantity;
+      }
+
+      await storage.moveFoodItemReferences(source.id, target.id);
+      source.allergens.forEach(allergen => allergens.add(allergen));
+
+      // Photos beyond what the target can hold stay on the trashed duplicate and are purged with it
+      const movedPhotos = source.photos
+        .filter(photo => !photos.includes(photo))
+        .slice(0, Math.max(0, MAX_ITEM_PHOTOS - photos.length));
+      photos.push(...movedPhotos);
+
+      await itemEventService.record(target, "merged", userId, {
+        mergedFrom: source.name,
+        quantity: roundQuantity(added),
+        unit: target.unit,
+      });
+
+      // Trashed rather than purged, like any other deleted item; its lots have all moved, so it's empty
+      await storage.updateFoodItem(source.id, {
+        quantity: 0,
+        photos: source.photos.filter(photo => !movedPhotos.includes(photo)),
+      });
+      await storage.trashFoodItem(source.id);
+    }
+
+    await tagService.setItemTags(target, tagLinks.map(link => link.name));
+    await storage.updateFoodItem(target.id, { allergens: Array.from(allergens), photos });
+    return await lotService.syncItem(target);
+  }
+}
+
+export const duplicateService = DuplicateService.getInstance();
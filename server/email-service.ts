@@ -1,5 +1,6 @@
 import { MailService, MailDataRequired } from '@sendgrid/mail';
-import { FoodItemWithStatus, foodItems, FoodItem } from '@shared/schema';
+import { FoodItemWithStatus, foodItems, FoodItem, ParLevelWithStock, Recall, RECALL_MATCH_TYPES } from '@shared/schema';
+import { withExpirationStatus } from '@shared/expiration';
 import { formatDistance } from 'date-fns';
 import { db } from './db';
 import { eq } from 'drizzle-orm';
@@ -22,6 +23,36 @@ const FROM_EMAIL = process.env.SENDGRID_FROM_EMAIL || 'notifications@foodexpiry.
 // For development, we can also allow fallback to console output
 export const ENABLE_EMAIL_FALLBACK = true;
 
+// Make user-entered text safe to put in an email's HTML, e.g. a household named "<a href=...>"
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// How much of a staple is left, e.g. "1 of 2 liters left" or "none left (keep 12 items)"
+const describeStock = (parLevel: ParLevelWithStock): string =>
+  parLevel.onHand > 0
+    ? `${parLevel.onHand} of ${parLevel.minQuantity} ${parLevel.unit} left`
+    : `none left (keep ${parLevel.minQuantity} ${parLevel.unit})`;
+
+const RECALL_MATCH_LABELS: Record<typeof RECALL_MATCH_TYPES[number], string> = {
+  barcode: 'matched by barcode',
+  lot: 'matched by lot code',
+  brand: 'matched by name and brand',
+  name: 'possible match by name',
+};
+
+// The recall and what it was matched on, e.g. "Acme (lot L123) - matched by barcode"
+const describeRecall = (recall: Recall, matchType: typeof RECALL_MATCH_TYPES[number]): string =>
+  [
+    recall.brand,
+    recall.lotCode ? `lot ${recall.lotCode}` : null,
+    RECALL_MATCH_LABELS[matchType],
+  ].filter(Boolean).join(', ');
+
 export class EmailService {
   private static instance: EmailService;
 
@@ -45,8 +76,13 @@ export class EmailService {
 
   /**
    * Sends an expiration notification email with a list of expiring food items
+   * and the staples that have run below their par level
    */
-  public async sendExpirationNotification(email: string, expiringItems: FoodItemWithStatus[]): Promise<boolean> {
+  public async sendExpirationNotification(
+    email: string,
+    expiringItems: FoodItemWithStatus[],
+    lowStock: ParLevelWithStock[] = []
+  ): Promise<boolean> {
     if (!this.isConfigured()) {
       console.warn("SendGrid not configured, skipping email notification");
       return false;
@@ -72,6 +108,7 @@ export class EmailService {
             li { margin-bottom: 8px; }
             .expired { color: #dc2626; }
             .expiring-soon { color: #ea580c; }
+            .low-stock { color: #2563eb; }
             .cta-button { display: inline-block; background-color: #22c55e; color: white; padding: 10px 20px; 
                           text-decoration: none; border-radius: 4px; font-weight: bold; margin-top: 20px; }
           </style>
@@ -89,7 +126,7 @@ export class EmailService {
               <ul>
                 ${expiredItems.map(item => `
                   <li class="expired">
-                    <strong>${item.name}</strong> - expired ${formatDistance(new Date(item.expirationDate), new Date(), { addSuffix: true })}
+                    <strong>${item.name}</strong> - expired ${formatDistance(new Date(item.effectiveExpirationDate), new Date(), { addSuffix: true })}
                     (${item.quantity} ${item.unit})
                   </li>
                 `).join('')}
@@ -101,13 +138,24 @@ export class EmailService {
               <ul>
                 ${expiringSoonItems.map(item => `
                   <li class="expiring-soon">
-                    <strong>${item.name}</strong> - expires ${formatDistance(new Date(item.expirationDate), new Date(), { addSuffix: true })}
+                    <strong>${item.name}</strong> - expires ${formatDistance(new Date(item.effectiveExpirationDate), new Date(), { addSuffix: true })}
                     (${item.quantity} ${item.unit})
                   </li>
                 `).join('')}
               </ul>
             ` : ''}
             
+            ${lowStock.length > 0 ? `
+              <h2>🛒 Time to Restock (${lowStock.length})</h2>
+              <ul>
+                ${lowStock.map(parLevel => `
+                  <li class="low-stock">
+                    <strong>${parLevel.name}</strong> - ${describeStock(parLevel)}
+                  </li>
+                `).join('')}
+              </ul>
+            ` : ''}
+            
             <p>
               Please take action on these items to reduce food waste.
             </p>
@@ -133,12 +181,17 @@ We wanted to let you know about the following items in your food inventory:
 
 ${expiredItems.length > 0 ? `
 EXPIRED ITEMS (${expiredItems.length}):
-${expiredItems.map(item => `- ${item.name} - expired ${formatDistance(new Date(item.expirationDate), new Date(), { addSuffix: true })} (${item.quantity} ${item.unit})`).join('\n')}
+${expiredItems.map(item => `- ${item.name} - expired ${formatDistance(new Date(item.effectiveExpirationDate), new Date(), { addSuffix: true })} (${item.quantity} ${item.unit})`).join('\n')}
 ` : ''}
 
 ${expiringSoonItems.length > 0 ? `
 EXPIRING SOON (${expiringSoonItems.length}):
-${expiringSoonItems.map(item => `- ${item.name} - expires ${formatDistance(new Date(item.expirationDate), new Date(), { addSuffix: true })} (${item.quantity} ${item.unit})`).join('\n')}
+${expiringSoonItems.map(item => `- ${item.name} - expires ${formatDistance(new Date(item.effectiveExpirationDate), new Date(), { addSuffix: true })} (${item.quantity} ${item.unit})`).join('\n')}
+` : ''}
+
+${lowStock.length > 0 ? `
+TIME TO RESTOCK (${lowStock.length}):
+${lowStock.map(parLevel => `- ${parLevel.name} - ${describeStock(parLevel)}`).join('\n')}
 ` : ''}
 
 Please take action on these items to reduce food waste.
@@ -153,7 +206,7 @@ This is an automated message. To change your notification preferences, visit the
       const params: MailDataRequired = {
         to: email,
         from: FROM_EMAIL,
-        subject: `FoodExpiry Alert: ${expiredItems.length} expired and ${expiringSoonItems.length} expiring soon`,
+        subject: `FoodExpiry Alert: ${expiredItems.length} expired and ${expiringSoonItems.length} expiring soon${lowStock.length > 0 ? `, ${lowStock.length} to restock` : ''}`,
         text,
         html,
       };
@@ -171,7 +224,7 @@ This is an automated message. To change your notification preferences, visit the
           console.log(`To: ${email}`);
           console.log(`From: ${FROM_EMAIL}`);
           console.log(`Subject: FoodExpiry Alert: ${expiredItems.length} expired and ${expiringSoonItems.length} expiring soon`);
-          console.log(`Content: Notification about ${expiredItems.length + expiringSoonItems.length} items`);
+          console.log(`Content: Notification about ${expiredItems.length + expiringSoonItems.length} items and ${lowStock.length} staples to restock`);
           
           // Show detailed error information
           if (sendError instanceof Error && 'response' in sendError) {
@@ -205,9 +258,13 @@ This is an automated message. To change your notification preferences, visit the
   }
 
   /**
-   * Sends a weekly summary email with inventory status
+   * Sends a weekly summary email with inventory status and the staples to restock
    */
-  public async sendWeeklySummary(email: string, foodItems: FoodItemWithStatus[]): Promise<boolean> {
+  public async sendWeeklySummary(
+    email: string,
+    foodItems: FoodItemWithStatus[],
+    lowStock: ParLevelWithStock[] = []
+  ): Promise<boolean> {
     if (!this.isConfigured()) {
       console.warn("SendGrid not configured, skipping weekly summary email");
       return false;
@@ -236,6 +293,7 @@ This is an automated message. To change your notification preferences, visit the
             .fresh { color: #22c55e; }
             .expired { color: #dc2626; }
             .expiring-soon { color: #ea580c; }
+            .low-stock { color: #2563eb; }
             .cta-button { display: inline-block; background-color: #22c55e; color: white; padding: 10px 20px; 
                           text-decoration: none; border-radius: 4px; font-weight: bold; margin-top: 20px; }
           </style>
@@ -274,6 +332,17 @@ This is an automated message. To change your notification preferences, visit the
               <p>🚫 <strong>Action needed:</strong> You have ${expiredItems.length} expired items to take care of.</p>
             ` : ''}
             
+            ${lowStock.length > 0 ? `
+              <h2>🛒 Time to Restock</h2>
+              <ul>
+                ${lowStock.map(parLevel => `
+                  <li class="low-stock">
+                    <strong>${parLevel.name}</strong> - ${describeStock(parLevel)}
+                  </li>
+                `).join('')}
+              </ul>
+            ` : ''}
+            
             <a href="https://foodexpiry.app" class="cta-button">View Your Inventory</a>
             
             <p>Thank you for using FoodExpiry!</p>
@@ -301,6 +370,10 @@ You currently have ${foodItems.length} items in your inventory.
 
 ${expiringSoonItems.length > 0 ? `ACTION NEEDED: You have ${expiringSoonItems.length} items expiring soon.\n` : ''}
 ${expiredItems.length > 0 ? `ACTION NEEDED: You have ${expiredItems.length} expired items to take care of.\n` : ''}
+${lowStock.length > 0 ? `
+TIME TO RESTOCK:
+${lowStock.map(parLevel => `- ${parLevel.name} - ${describeStock(parLevel)}`).join('\n')}
+` : ''}
 
 Visit your inventory at: https://foodexpiry.app
 
@@ -363,6 +436,84 @@ This weekly summary is sent based on your notification preferences. To change yo
     }
   }
 
+  /**
+   * Sends an alert about inventory items that may be covered by a product recall
+   */
+  public async sendRecallAlert(
+    email: string,
+    matches: { recall: Recall; item: FoodItem; matchType: typeof RECALL_MATCH_TYPES[number] }[]
+  ): Promise<boolean> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
+          .header { background: linear-gradient(to right, #f87171, #dc2626); padding: 20px; color: white; border-radius: 8px 8px 0 0; }
+          .content { padding: 20px; background-color: #f9f9f9; border-radius: 0 0 8px 8px; }
+          .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #777; }
+          h1 { margin: 0; }
+          ul { padding-left: 20px; }
+          li { margin-bottom: 12px; }
+          .recall { color: #dc2626; }
+          .cta-button { display: inline-block; background-color: #dc2626; color: white; padding: 10px 20px;
+                        text-decoration: none; border-radius: 4px; font-weight: bold; margin-top: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>Product Recall Alert</h1>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p>The following items in your food inventory may be affected by a product recall:</p>
+          <ul>
+            ${matches.map(({ recall, item, matchType }) => `
+              <li>
+                <strong class="recall">${item.name}</strong> (${item.quantity} ${item.unit}, bought ${item.purchaseDate})
+                - recalled as <strong>${recall.productName}</strong> (${describeRecall(recall, matchType)})<br>
+                ${recall.description}
+              </li>
+            `).join('')}
+          </ul>
+          <p>
+            Check the packaging against the recall and don't eat anything that's affected.
+          </p>
+          <a href="https://foodexpiry.app" class="cta-button">View Your Inventory</a>
+        </div>
+        <div class="footer">
+          <p>This is an automated message from FoodExpiry. To change your notification preferences,
+             visit the Settings page in your FoodExpiry account.</p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+Product Recall Alert
+
+Hello,
+
+The following items in your food inventory may be affected by a product recall:
+
+${matches.map(({ recall, item, matchType }) => `- ${item.name} (${item.quantity} ${item.unit}, bought ${item.purchaseDate}) - recalled as ${recall.productName} (${describeRecall(recall, matchType)})
+  ${recall.description}`).join('\n')}
+
+Check the packaging against the recall and don't eat anything that's affected.
+
+Visit your inventory at: https://foodexpiry.app
+
+This is an automated message. To change your notification preferences, visit the Settings page in your FoodExpiry account.
+    `;
+
+    return await this.sendEmail(
+      email,
+      `FoodExpiry Recall Alert: ${matches.length} item${matches.length === 1 ? '' : 's'} may be affected`,
+      text,
+      html
+    );
+  }
+
   /**
    * Sends an email with custom subject and content
    */
@@ -434,24 +585,7 @@ This weekly summary is sent based on your notification preferences. To change yo
           : await db.select().from(foodItems);
         
         // Add status information for each item
-        foodItemsWithStatus = items.map((item: FoodItem) => {
-          const expirationDate = new Date(item.expirationDate);
-          const today = new Date();
-          const daysUntilExpiration = Math.ceil((expirationDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-          
-          let status: 'expired' | 'expiring-soon' | 'fresh' = 'fresh';
-          if (daysUntilExpiration < 0) {
-            status = 'expired';
-          } else if (daysUntilExpiration <= 3) {
-            status = 'expiring-soon';
-          }
-          
-          return {
-            ...item,
-            status,
-            daysUntilExpiration
-          };
-        });
+        foodItemsWithStatus = items.map((item: FoodItem) => withExpirationStatus(item));
       } catch (err) {
         console.error('Error fetching food items for test notification:', err);
         // Continue with empty array if there's an error
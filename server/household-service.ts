@@ -0,0 +1,246 @@
+import {
+  type FoodItem,
+  type Household,
+  type HouseholdInvite,
+  type HouseholdMember,
+  type HouseholdRole,
+  type ParLevelWithStock,
+  type User,
+} from "@shared/schema";
+import { getLowStock } from "@shared/stock";
+import { storage } from "./storage";
+import { otpService } from "./otp-service";
+
+// Records that belong to a household (food items, meal plans, waste and consumption entries)
+type HouseholdScopedRecord = {
+  householdId: number | null;
+  userId: number | null;
+};
+
+// Wrong invite codes an invite takes before it has to be sent again
+const MAX_INVITE_ATTEMPTS = 5;
+
+// Wrong invite codes a user can enter before being locked out for a while, whichever invites they aim at
+const MAX_INVITE_ATTEMPTS_PER_USER = 10;
+const INVITE_LOCKOUT_MINUTES = 15;
+
+/**
+ * Household Service
+ * Resolves which household a user is acting in and what their role allows
+ */
+export class HouseholdService {
+  private static instance: HouseholdService;
+
+  // Recent wrong invite codes per user ID
+  private failedInviteAttempts = new Map<number, { count: number; firstAt: Date }>();
+
+  private constructor() {}
+
+  public static getInstance(): HouseholdService {
+    if (!HouseholdService.instance) {
+      HouseholdService.instance = new HouseholdService();
+    }
+    return HouseholdService.instance;
+  }
+
+  /**
+   * Whether a role may add, change or remove household records
+   */
+  public canEdit(role: HouseholdRole): boolean {
+    return role === "owner" || role === "member";
+  }
+
+  /**
+   * Whether a role may invite people and manage membership
+   */
+  public canManage(role: HouseholdRole): boolean {
+    return role === "owner";
+  }
+
+  /**
+   * Get the membership a user acts under for a request.
+   * Users without any household get a personal one, which also adopts the
+   * records they created before households existed.
+   * @param user The authenticated user
+   * @param preferredHouseholdId The household selected in the user's session, if any
+   */
+  public async getActiveMembership(user: User, preferredHouseholdId?: number): Promise<HouseholdMember> {
+    if (preferredHouseholdId !== undefined) {
+      const preferred = await storage.getHouseholdMember(preferredHouseholdId, user.id);
+      if (preferred) {
+        return preferred;
+      }
+    }
+
+    const memberships = await storage.getHouseholdsByUserId(user.id);
+    if (memberships.length > 0) {
+      const member = await storage.getHouseholdMember(memberships[0].id, user.id);
+      if (member) {
+        return member;
+      }
+    }
+
+    return await this.createPersonalHousehold(user);
+  }
+
+  /**
+   * Get a user's membership in the household a record belongs to
+   * @returns The membership, or undefined if the user has no access to the record
+   */
+  public async getMembershipForRecord(user: User, record: HouseholdScopedRecord): Promise<HouseholdMember | undefined> {
+    if (record.householdId === null) {
+      // Records that were never assigned to a household are only visible to their creator
+      return record.userId === user.id ? await this.getActiveMembership(user) : undefined;
+    }
+
+    return await storage.getHouseholdMember(record.householdId, user.id);
+  }
+
+  /**
+   * Get the food items of every household a user belongs to, e.g. for notification emails
+   */
+  public async getFoodItemsForUser(userId: number): Promise<FoodItem[]> {
+    const memberships = await storage.getHouseholdsByUserId(userId);
+
+    const items: FoodItem[] = [];
+    for (const household of memberships) {
+      items.push(...await storage.getFoodItemsByHouseholdId(household.id));
+    }
+    return items;
+  }
+
+  /**
+   * Get the staples that have run below their par level in any of a user's households
+   */
+  public async getLowStockForUser(userId: number): Promise<ParLevelWithStock[]> {
+    const memberships = await storage.getHouseholdsByUserId(userId);
+    const today = new Date();
+
+    const lowStock: ParLevelWithStock[] = [];
+    for (const household of memberships) {
+      const parLevels = await storage.getParLevels(household.id);
+      if (parLevels.length > 0) {
+        const items = await storage.getFoodItemsByHouseholdId(household.id);
+        lowStock.push(...getLowStock(parLevels, items, today));
+      }
+    }
+    return lowStock;
+  }
+
+  /**
+   * Create a household owned by the given user
+   */
+  public async createHousehold(user: User, name: string): Promise<Household> {
+    const household = await storage.createHousehold({ name, createdBy: user.id });
+    await storage.addHouseholdMember({ householdId: household.id, userId: user.id, role: "owner" });
+    return household;
+  }
+
+  /**
+   * Invite someone to a household by email, replacing any pending invite for the same address
+   * @returns The invite and whether the email was sent
+   */
+  public async inviteMember(
+    household: Household,
+    inviter: User,
+    email: string,
+    role: HouseholdRole
+  ): Promise<{ invite: HouseholdInvite; emailSent: boolean }> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const pending = await storage.getPendingHouseholdInvites(household.id);
+    for (const existing of pending.filter(invite => invite.email === normalizedEmail)) {
+      await storage.deleteHouseholdInvite(existing.id);
+    }
+
+    const code = otpService.generateOTP();
+
+    // Invitations are valid for 7 days
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7);
+
+    const invite = await storage.createHouseholdInvite({
+      householdId: household.id,
+      email: normalizedEmail,
+      code,
+      role,
+      invitedBy: inviter.id,
+      expiresAt,
+    });
+
+    const emailSent = await otpService.sendHouseholdInviteEmail(
+      normalizedEmail,
+      code,
+      household.name,
+      inviter.name || inviter.username
+    );
+
+    return { invite, emailSent };
+  }
+
+  /**
+   * Accept a pending invite addressed to the user's email
+   * @param user The user accepting the invite
+   * @param code The code from the invitation email
+   */
+  public async acceptInvite(user: User, code: string): Promise<{ valid: boolean; locked?: boolean; member?: HouseholdMember }> {
+    if (!user.email) {
+      return { valid: false };
+    }
+    if (this.isLockedOut(user.id)) {
+      return { valid: false, locked: true };
+    }
+
+    // Invites that took too many wrong codes can't be accepted any more, so codes can't be guessed
+    const invites = (await storage.getPendingHouseholdInvitesByEmail(user.email))
+      .filter(candidate => candidate.failedAttempts < MAX_INVITE_ATTEMPTS);
+    const invite = invites.find(candidate => candidate.code === code.trim());
+    if (!invite) {
+      await storage.recordFailedHouseholdInviteAttempt(invites.map(candidate => candidate.id));
+      this.recordFailedInviteAttempt(user.id);
+      return { valid: false, locked: this.isLockedOut(user.id) };
+    }
+    this.failedInviteAttempts.delete(user.id);
+
+    let member = await storage.getHouseholdMember(invite.householdId, user.id);
+    if (!member) {
+      member = await storage.addHouseholdMember({
+        householdId: invite.householdId,
+        userId: user.id,
+        role: invite.role,
+      });
+    }
+
+    await storage.markHouseholdInviteAccepted(invite.id);
+
+    return { valid: true, member };
+  }
+
+  private isLockedOut(userId: number): boolean {
+    const attempts = this.failedInviteAttempts.get(userId);
+    if (!attempts) {
+      return false;
+    }
+    if (Date.now() - attempts.firstAt.getTime() > INVITE_LOCKOUT_MINUTES * 60 * 1000) {
+      this.failedInviteAttempts.delete(userId);
+      return false;
+    }
+    return attempts.count >= MAX_INVITE_ATTEMPTS_PER_USER;
+  }
+
+  private recordFailedInviteAttempt(userId: number): void {
+    this.isLockedOut(userId); // forgets attempts from before the current window
+    const attempts = this.failedInviteAttempts.get(userId) ?? { count: 0, firstAt: new Date() };
+    attempts.count++;
+    this.failedInviteAttempts.set(userId, attempts);
+  }
+
+  /**
+   * Create the personal household a user starts with
+   */
+  private async createPersonalHousehold(user: User): Promise<HouseholdMember> {
+    return await storage.createPersonalHousehold(user.id, `${user.name || user.username}'s Household`);
+  }
+}
+
+export const householdService = HouseholdService.getInstance();
@@ -3,6 +3,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
 import { notificationScheduler } from "./notification-scheduler";
+import { trashService } from "./trash-service";
+import { productCatalogService } from "./product-catalog-service";
+import { shelfLifeService } from "./shelf-life-service";
+import { nutritionService } from "./nutrition-service";
 
 const app = express();
 app.use(express.json());
@@ -47,6 +51,11 @@ app.use((req, res, next) => {
       log("Database initialized with sample data");
     }
     
+    // Load the bundled barcode catalog, shelf-life and nutrition data on first start
+    await productCatalogService.seedCatalog();
+    await shelfLifeService.seedRules();
+    await nutritionService.seedFacts();
+    
     const server = await registerRoutes(app);
 
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -80,6 +89,9 @@ app.use((req, res, next) => {
       // Initialize notification scheduler
       notificationScheduler.initialize();
       log('Notification scheduler initialized');
+      
+      // Purge deleted items once they're past their household's retention period
+      trashService.initialize();
     });
   } catch (error) {
     log(`Error during server startup: ${error}`);
@@ -0,0 +1,475 @@
+import { format, isValid, parse, parseISO } from "date-fns";
+import { z } from "zod";
+import {
+  QUANTITY_UNITS,
+  CURRENCIES,
+  INVENTORY_TRANSFER_FIELDS,
+  INVENTORY_FILE_FORMATS,
+  insertFoodItemSchema,
+  type CategoryOption,
+  type FoodItem,
+  type InsertFoodItem,
+  type InventoryImportMapping,
+  type InventoryImportResult,
+  type InventoryImportRow,
+} from "@shared/schema";
+import { UNIT_ALIASES } from "@shared/units";
+import { LOCATION_ALIASES } from "@shared/categories";
+import { storage } from "./storage";
+import { lotService } from "./lot-service";
+import { shelfLifeService } from "./shelf-life-service";
+import { productCatalogService } from "./product-catalog-service";
+import { itemEventService } from "./item-event-service";
+import { categoryService } from "./category-service";
+import { recallService } from "./recall-service";
+
+type TransferField = typeof INVENTORY_TRANSFER_FIELDS[number];
+type InventoryFileFormat = typeof INVENTORY_FILE_FORMATS[number];
+type FileRecord = Record<string, unknown>;
+
+// Keeps a single import to a size one request can handle comfortably
+const MAX_IMPORT_ROWS = 1000;
+
+// Leading characters that make spreadsheets treat a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Date layouts accepted in imported files besides ISO dates
+const DATE_FORMATS = ["yyyy-MM-dd", "M/d/yyyy", "M/d/yy", "yyyy/M/d", "d.M.yyyy"];
+
+// Other column names spreadsheets commonly use for each field
+const FIELD_ALIASES: Record<TransferField, string[]> = {
+  name: ["item", "itemname", "product", "productname", "food", "description"],
+  category: ["type", "foodcategory", "group"],
+  quantity: ["qty", "amount", "count"],
+  unit: ["units", "uom", "measure"],
+  unitWeight: ["weight", "unitweightg", "gramsperunit", "itemweight"],
+  purchaseDate: ["purchased", "bought", "dateadded", "added", "boughton"],
+  expirationDate: ["expiration", "expires", "expiry", "expirydate", "bestbefore", "useby", "bestby"],
+  storageLocation: ["location", "storage", "storedin", "where"],
+  notes: ["note", "comments", "comment"],
+  barcode: ["upc", "ean", "gtin", "code"],
+  price: ["cost", "paid", "pricepaid", "amountpaid"],
+  currency: ["curr", "currencycode"],
+  store: ["shop", "retailer", "supermarket", "boughtat"],
+};
+
+// Spreadsheet data is checked more strictly than the columns' plain text types
+// (categories and locations are matched against the household's own before this runs)
+const importItemSchema = insertFoodItemSchema.extend({
+  unit: z.enum(QUANTITY_UNITS),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  unitWeight: z.number().positive("Unit weight must be greater than 0").nullish(),
+  currency: z.enum(CURRENCIES, { errorMap: () => ({ message: `Currency must be one of ${CURRENCIES.join(", ")}` }) }).optional(),
+});
+
+/**
+ * Raised when an uploaded file can't be read at all, as opposed to rows failing validation
+ */
+export class InventoryFileError extends Error {}
+
+/**
+ * Inventory Transfer Service
+ * Imports food items from CSV or JSON files and exports a household's inventory in the same layout
+ */
+export class InventoryTransferService {
+  private static instance: InventoryTransferService;
+
+  private constructor() {}
+
+  public static getInstance(): InventoryTransferService {
+    if (!InventoryTransferService.instance) {
+      InventoryTransferService.instance = new InventoryTransferService();
+    }
+    return InventoryTransferService.instance;
+  }
+
+  /**
+   * Work out a file's format from what the client said and the file's name
+   */
+  public detectFormat(requested: string | undefined, filename: string): InventoryFileFormat {
+    if (requested && (INVENTORY_FILE_FORMATS as readonly string[]).includes(requested)) {
+      return requested as InventoryFileFormat;
+    }
+    return filename.toLowerCase().endsWith(".json") ? "json" : "csv";
+  }
+
+  /**
+   * Validate the rows of an import file and, unless this is a dry run, create the valid ones
+   * @param content The file's text
+   * @param fileFormat Whether the file is CSV or JSON
+   * @param mapping Which column fills each field; guessed from the column names when omitted
+   * @param dryRun Only validate, without creating anything
+   * @param householdId The household the items are added to
+   * @param userId The user importing the items
+   */
+  public async importItems(
+    content: string,
+    fileFormat: InventoryFileFormat,
+    mapping: InventoryImportMapping | undefined,
+    dryRun: boolean,
+    householdId: number,
+    userId: number
+  ): Promise<InventoryImportResult> {
+    const { columns, records } = this.parseFile(content, fileFormat);
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new InventoryFileError(`Files can contain at most ${MAX_IMPORT_ROWS} items; this one has ${records.length}`);
+    }
+
+    const effectiveMapping = mapping ?? this.suggestMapping(columns);
+    const unknownColumns = Object.values(effectiveMapping).filter(column => column && !columns.includes(column));
+    if (unknownColumns.length > 0) {
+      throw new InventoryFileError(`Mapped columns not found in the file: ${unknownColumns.join(", ")}`);
+    }
+
+    const options = {
+      categories: await categoryService.getCategories(householdId),
+      locations: await categoryService.getLocations(householdId),
+    };
+    const rows: InventoryImportRow[] = [];
+    for (let index = 0; index < records.length; index++) {
+      rows.push(await this.validateRecord(records[index], index + 1, effectiveMapping, options, householdId, userId));
+    }
+
+    const validRows = rows.filter(row => row.errors.length === 0);
+    let importedCount = 0;
+    if (!dryRun) {
+      for (const row of validRows) {
+        await this.createItem(row.item as InsertFoodItem);
+        importedCount++;
+      }
+    }
+
+    return {
+      dryRun,
+      format: fileFormat,
+      columns,
+      mapping: effectiveMapping,
+      rows,
+      validCount: validRows.length,
+      errorCount: rows.length - validRows.length,
+      importedCount,
+    };
+  }
+
+  /**
+   * Write food items out as CSV or JSON, using the same field names the importer reads
+   */
+  public exportItems(items: FoodItem[], fileFormat: InventoryFileFormat): string {
+    const records = items.map(item => {
+      const record: Record<TransferField, string | number | null> = {} as Record<TransferField, string | number | null>;
+      for (const field of INVENTORY_TRANSFER_FIELDS) {
+        record[field] = item[field] ?? null;
+      }
+      return record;
+    });
+
+    if (fileFormat === "json") {
+      return JSON.stringify(records, null, 2);
+    }
+
+    const lines = [INVENTORY_TRANSFER_FIELDS.join(",")];
+    for (const record of records) {
+      lines.push(INVENTORY_TRANSFER_FIELDS.map(field => this.escapeCsvCell(record[field])).join(","));
+    }
+    return lines.join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Read the records of a CSV or JSON file, with the columns they use
+   */
+  public parseFile(content: string, fileFormat: InventoryFileFormat): { columns: string[]; records: FileRecord[] } {
+    return fileFormat === "json" ? this.parseJson(content) : this.parseCsv(content);
+  }
+
+  /**
+   * Read a date written in one of the layouts spreadsheets commonly use
+   * @returns The date as yyyy-MM-dd, or null if it isn't a date
+   */
+  public parseDate(text: string): string | null {
+    for (const dateFormat of DATE_FORMATS) {
+      const date = parse(text, dateFormat, new Date());
+      // Two-digit years would otherwise match four-digit layouts as the first century
+      if (isValid(date) && date.getFullYear() >= 1900) {
+        return format(date, 'yyyy-MM-dd');
+      }
+    }
+
+    const date = parseISO(text);
+    return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+  }
+
+  /**
+   * Guess which column holds each field by comparing column names with field names and their aliases
+   */
+  public suggestMapping(columns: string[]): InventoryImportMapping {
+    const mapping: InventoryImportMapping = {};
+    const normalizedColumns = columns.map(column => ({ column, key: this.normalizeKey(column) }));
+
+    for (const field of INVENTORY_TRANSFER_FIELDS) {
+      const candidates = [this.normalizeKey(field), ...FIELD_ALIASES[field]];
+      const match = normalizedColumns.find(({ column, key }) =>
+        candidates.includes(key) && !Object.values(mapping).includes(column)
+      );
+      if (match) {
+        mapping[field] = match.column;
+      }
+    }
+
+    return mapping;
+  }
+
+  private async validateRecord(
+    record: FileRecord,
+    row: number,
+    mapping: InventoryImportMapping,
+    options: { categories: CategoryOption[]; locations: CategoryOption[] },
+    householdId: number,
+    userId: number
+  ): Promise<InventoryImportRow> {
+    const errors: InventoryImportRow["errors"] = [];
+    const warnings: string[] = [];
+    const cell = (field: TransferField) => {
+      const column = mapping[field];
+      const value = column ? record[column] : undefined;
+      if (value === undefined || value === null) return undefined;
+      const text = String(value).trim();
+      return text === "" ? undefined : text;
+    };
+
+    const item: Partial<InsertFoodItem> = {
+      name: cell("name"),
+      category: this.matchOption(cell("category"), options.categories, {}, errors, "category"),
+      unit: this.normalizeAlias(cell("unit"), UNIT_ALIASES) ?? "items",
+      storageLocation: this.matchOption(cell("storageLocation"), options.locations, LOCATION_ALIASES, errors, "storageLocation"),
+      notes: cell("notes") ?? null,
+      barcode: cell("barcode") ?? null,
+      currency: cell("currency")?.toUpperCase() as InsertFoodItem["currency"],
+      store: cell("store") ?? null,
+      userId,
+      householdId,
+    };
+
+    for (const field of ["quantity", "unitWeight"] as const) {
+      const text = cell(field);
+      if (text === undefined) continue;
+      const value = Number(text.replace(",", "."));
+      if (isNaN(value)) {
+        errors.push({ field, message: `"${text}" is not a number` });
+      } else {
+        item[field] = value;
+      }
+    }
+    if (item.quantity === undefined && cell("quantity") === undefined) {
+      item.quantity = 1;
+    }
+
+    // Prices are often written with a currency symbol, e.g. "$4.99"
+    const priceText = cell("price");
+    if (priceText !== undefined) {
+      const price = Number(priceText.replace(/[^\d.,-]/g, "").replace(",", "."));
+      if (isNaN(price) || price < 0) {
+        errors.push({ field: "price", message: `"${priceText}" is not a price` });
+      } else {
+        item.price = price;
+      }
+    }
+
+    for (const field of ["purchaseDate", "expirationDate"] as const) {
+      const text = cell(field);
+      if (text === undefined) continue;
+      const date = this.parseDate(text);
+      if (date) {
+        item[field] = date;
+      } else {
+        errors.push({ field, message: `"${text}" is not a date` });
+      }
+    }
+    if (!item.purchaseDate && cell("purchaseDate") === undefined) {
+      item.purchaseDate = format(new Date(), 'yyyy-MM-dd');
+      warnings.push("No purchase date, using today");
+    }
+
+    // Predict a missing expiration date the same way the add form does
+    if (!item.expirationDate && cell("expirationDate") === undefined && item.purchaseDate && item.name
+      && item.category && item.storageLocation) {
+      const suggestion = await shelfLifeService.suggest(
+        householdId, item.name, item.category, item.storageLocation, parseISO(item.purchaseDate)
+      );
+      item.expirationDate = suggestion.expirationDate;
+      warnings.push(`No expiration date, predicted ${suggestion.expirationDate}. ${suggestion.description}`);
+    }
+
+    const validation = importItemSchema.safeParse(item);
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        const field = issue.path.join(".");
+        // Conversion errors above already explain what was wrong with these
+        if (!errors.some(error => error.field === field)) {
+          errors.push({ field, message: issue.message });
+        }
+      }
+    }
+
+    return { row, item, errors, warnings };
+  }
+
+  private async createItem(itemData: InsertFoodItem): Promise<FoodItem> {
+    const newItem = await storage.createFoodItem(itemData);
+    await lotService.createInitialLot(newItem);
+    await itemEventService.record(newItem, "created", newItem.userId, {
+      quantity: newItem.quantity,
+      unit: newItem.unit,
+      source: "import"
+    });
+    await recallService.checkItem(newItem);
+
+    if (newItem.barcode) {
+      try {
+        await productCatalogService.learnFromFoodItem(newItem);
+      } catch (error) {
+        console.error("Error updating product catalog:", error);
+      }
+    }
+
+    return newItem;
+  }
+
+  private parseJson(content: string): { columns: string[]; records: FileRecord[] } {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new InventoryFileError("The file is not valid JSON");
+    }
+
+    // Accept a bare array or an object wrapping one, e.g. { "items": [...] }
+    const list = Array.isArray(data)
+      ? data
+      : data && typeof data === "object" ? Object.values(data).find(Array.isArray) : undefined;
+    if (!list) {
+      throw new InventoryFileError("Expected a JSON array of items");
+    }
+
+    const records = list.filter((entry): entry is FileRecord => !!entry && typeof entry === "object" && !Array.isArray(entry));
+    if (records.length !== list.length) {
+      throw new InventoryFileError("Every entry in the JSON array must be an object");
+    }
+
+    const columns: string[] = [];
+    for (const record of records) {
+      for (const key of Object.keys(record)) {
+        if (!columns.includes(key)) columns.push(key);
+      }
+    }
+
+    return { columns, records };
+  }
+
+  private parseCsv(content: string): { columns: string[]; records: FileRecord[] } {
+    const text = content.replace(/^\uFEFF/, "");
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+    // Spreadsheets in many locales separate columns with semicolons
+    const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+    if (inQuotes) {
+      throw new InventoryFileError("The CSV file has an unclosed quote");
+    }
+    if (field !== "" || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    const nonEmpty = rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+    if (nonEmpty.length === 0) {
+      throw new InventoryFileError("The CSV file is empty");
+    }
+
+    const columns = nonEmpty[0].map((column, index) => column.trim() || `Column ${index + 1}`);
+    const records = nonEmpty.slice(1).map(cells => {
+      const record: FileRecord = {};
+      columns.forEach((column, index) => {
+        // Undo the apostrophe our own export puts before formula-like text
+        const cell = cells[index];
+        record[column] = cell !== undefined && /^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell;
+      });
+      return record;
+    });
+
+    return { columns, records };
+  }
+
+  private escapeCsvCell(value: string | number | null): string {
+    if (value === null) {
+      return "";
+    }
+    // Text a spreadsheet would run as a formula, e.g. an item named "=HYPERLINK(...)", is kept as text
+    const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * Find the category or location a cell refers to, by key, name or common alias.
+   * Unmatched values are reported as errors and left out of the item.
+   */
+  private matchOption(
+    value: string | undefined,
+    options: CategoryOption[],
+    aliases: Record<string, string>,
+    errors: InventoryImportRow["errors"],
+    field: TransferField
+  ): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const normalized = this.normalizeAlias(value, aliases)!;
+    const match = options.find(option => option.key === normalized || option.name.toLowerCase() === normalized);
+    if (!match) {
+      errors.push({ field, message: `"${value}" is not one of your ${field === "category" ? "categories" : "storage locations"}` });
+    }
+    return match?.key;
+  }
+
+  private normalizeAlias(value: string | undefined, aliases: Record<string, string>): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const normalized = value.toLowerCase();
+    return aliases[normalized] ?? normalized;
+  }
+
+  private normalizeKey(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+  }
+}
+
+export const inventoryTransferService = InventoryTransferService.getInstance();
@@ -0,0 +1,112 @@
+import {
+  FOOD_ITEM_EVENT_TYPES,
+  type FoodItem,
+  type FoodItemEventDetails,
+  type FoodItemEventWithUser,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+type FoodItemEventType = typeof FOOD_ITEM_EVENT_TYPES[number];
+
+// Fields whose changes show up in an item's history
+const TRACKED_FIELDS = [
+  "name",
+  "category",
+  "quantity",
+  "unit",
+  "unitWeight",
+  "purchaseDate",
+  "expirationDate",
+  "storageLocation",
+  "notes",
+  "barcode",
+  "openedDate",
+  "openedExpirationDate",
+  "price",
+  "currency",
+  "store",
+] as const;
+
+/**
+ * Item Event Service
+ * Keeps the append-only history of each food item: who added, changed, used up or removed it, and when
+ */
+export class ItemEventService {
+  private static instance: ItemEventService;
+
+  private constructor() {}
+
+  public static getInstance(): ItemEventService {
+    if (!ItemEventService.instance) {
+      ItemEventService.instance = new ItemEventService();
+    }
+    return ItemEventService.instance;
+  }
+
+  /**
+   * Add an entry to an item's history.
+   * A failure is logged rather than thrown so it never undoes the change being recorded.
+   * @param item The item as it is after the change (or just before it was deleted)
+   * @param eventType What happened to the item
+   * @param userId The user who made the change
+   * @param details Quantities, locations or changed fields, depending on the event type
+   */
+  public async record(
+    item: FoodItem,
+    eventType: FoodItemEventType,
+    userId: number | null,
+    details: FoodItemEventDetails = {}
+  ): Promise<void> {
+    try {
+      await storage.createFoodItemEvent({
+        foodItemId: item.id,
+        householdId: item.householdId,
+        userId,
+        itemName: item.name,
+        eventType,
+        details,
+      });
+    } catch (error) {
+      console.error(`Error recording ${eventType} event for food item ${item.id}:`, error);
+    }
+  }
+
+  /**
+   * Record the fields that differ between two versions of an item.
+   * Nothing is recorded when nothing changed.
+   */
+  public async recordChanges(
+    before: FoodItem,
+    after: FoodItem,
+    eventType: FoodItemEventType,
+    userId: number | null,
+    details: FoodItemEventDetails = {}
+  ): Promise<void> {
+    const changes = this.diff(before, after);
+    if (Object.keys(changes).length === 0 && Object.keys(details).length === 0) {
+      return;
+    }
+    await this.record(after, eventType, userId, { ...details, changes });
+  }
+
+  /**
+   * Get an item's history, most recent first
+   */
+  public async getTimeline(foodItemId: number): Promise<FoodItemEventWithUser[]> {
+    return await storage.getFoodItemEvents(foodItemId);
+  }
+
+  private diff(before: FoodItem, after: FoodItem): NonNullable<FoodItemEventDetails["changes"]> {
+    const changes: NonNullable<FoodItemEventDetails["changes"]> = {};
+    for (const field of TRACKED_FIELDS) {
+      const previous = before[field] ?? null;
+      const current = after[field] ?? null;
+      if (previous !== current) {
+        changes[field] = { before: previous, after: current };
+      }
+    }
+    return changes;
+  }
+}
+
+export const itemEventService = ItemEventService.getInstance();
@@ -0,0 +1,125 @@
+import { format, parseISO } from "date-fns";
+import {
+  type FoodItem,
+  type MealPlan,
+  type ShelfLifeSuggestion,
+  QUANTITY_UNITS,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { shelfLifeService } from "./shelf-life-service";
+import { lotService } from "./lot-service";
+import { itemEventService } from "./item-event-service";
+
+// What the user entered when logging leftovers
+export type LeftoversInput = {
+  name?: string;
+  quantity: number;
+  unit: typeof QUANTITY_UNITS[number];
+  storageLocation: string;
+  cookedDate?: string; // defaults to the meal plan's date
+  expirationDate?: string; // defaults to the suggested date
+};
+
+/**
+ * Leftover Service
+ * Turns a cooked meal plan entry into a food item for its leftovers
+ */
+export class LeftoverService {
+  private static instance: LeftoverService;
+
+  private constructor() {}
+
+  public static getInstance(): LeftoverService {
+    if (!LeftoverService.instance) {
+      LeftoverService.instance = new LeftoverService();
+    }
+    return LeftoverService.instance;
+  }
+
+  /**
+   * Suggest when leftovers of a meal go off
+   * @param householdId The household the leftovers will belong to
+   * @param storageLocation Where the leftovers will be kept
+   * @param cookedDate When the meal was cooked, yyyy-MM-dd; defaults to the meal plan's date
+   */
+  public async suggest(
+    mealPlan: MealPlan,
+    householdId: number,
+    storageLocation: string,
+    cookedDate?: string
+  ): Promise<ShelfLifeSuggestion> {
+    const ingredients = await this.getIngredients(mealPlan, householdId);
+    return await shelfLifeService.suggestLeftovers(
+      householdId,
+      storageLocation,
+      parseISO(cookedDate ?? mealPlan.date),
+      ingredients
+    );
+  }
+
+  /**
+   * Add the leftovers of a meal to the household's inventory, linked to the meal and its ingredients
+   * @param householdId The household the leftovers belong to
+   * @param userId The user logging the leftovers
+   */
+  public async logLeftovers(
+    mealPlan: MealPlan,
+    input: LeftoversInput,
+    householdId: number,
+    userId: number
+  ): Promise<FoodItem> {
+    const cookedDate = input.cookedDate ?? mealPlan.date;
+    const ingredients = await this.getIngredients(mealPlan, householdId);
+    const expirationDate = input.expirationDate ?? (await shelfLifeService.suggestLeftovers(
+      householdId,
+      input.storageLocation,
+      parseISO(cookedDate),
+      ingredients
+    )).expirationDate;
+
+    const madeWith = ingredients.length > 0
+      ? `, made with ${ingredients.map(item => item.name).join(", ")}`
+      : "";
+
+    const item = await storage.createFoodItem({
+      name: input.name?.trim() || `${mealPlan.name} leftovers`,
+      category: "other",
+      quantity: input.quantity,
+      unit: input.unit,
+      purchaseDate: cookedDate,
+      expirationDate,
+      storageLocation: input.storageLocation,
+      notes: `Left over from ${mealPlan.name} on ${format(parseISO(cookedDate), "MMM d, yyyy")}${madeWith}`,
+      userId,
+      householdId,
+      leftovers: true,
+      sourceMealPlanId: mealPlan.id,
+      ingredientIds: ingredients.map(item => item.id),
+    });
+    await lotService.createInitialLot(item);
+    await itemEventService.record(item, "created", userId, {
+      quantity: item.quantity,
+      unit: item.unit,
+      source: "leftovers",
+    });
+
+    return item;
+  }
+
+  /**
+   * The meal's ingredients that still exist in the household.
+   * Trashed items count, since cooking often uses an item up.
+   */
+  private async getIngredients(mealPlan: MealPlan, householdId: number): Promise<FoodItem[]> {
+    const ingredients: FoodItem[] = [];
+    for (const id of mealPlan.ingredients) {
+      const item = await storage.getFoodItem(id, true);
+      if (item && item.householdId === householdId) {
+        ingredients.push(item);
+      }
+    }
+    return ingredients;
+  }
+}
+
+export const leftoverService = LeftoverService.getInstance();
@@ -0,0 +1,175 @@
+import {
+  type FoodItem,
+  type FoodItemLot,
+  type InsertFoodItem,
+  type InsertFoodItemLot,
+} from "@shared/schema";
+import { roundQuantity } from "@shared/units";
+import { storage } from "./storage";
+
+// The lot fields a new purchase of an existing item provides
+export type NewLot = Omit<InsertFoodItemLot, "foodItemId">;
+
+/**
+ * Lot Service
+ * Keeps a food item's purchase lots and its summary fields in step.
+ * The item's quantity is the sum of its lots, and its expiration date and
+ * storage location follow the earliest-expiring lot that still has stock.
+ */
+export class LotService {
+  private static instance: LotService;
+
+  private constructor() {}
+
+  public static getInstance(): LotService {
+    if (!LotService.instance) {
+      LotService.instance = new LotService();
+    }
+    return LotService.instance;
+  }
+
+  /**
+   * Get an item's lots, oldest purchase first.
+   * Items created before lots existed get a single lot matching their current fields.
+   */
+  public async getLots(item: FoodItem): Promise<FoodItemLot[]> {
+    const lots = await storage.getFoodItemLots(item.id);
+    if (lots.length > 0 || item.quantity <= 0) {
+      return lots;
+    }
+
+    const lot = await storage.createFoodItemLot({
+      foodItemId: item.id,
+      quantity: item.quantity,
+      purchaseDate: item.purchaseDate,
+      expirationDate: item.expirationDate,
+      storageLocation: item.storageLocation,
+    });
+    return [lot];
+  }
+
+  /**
+   * Record the first lot of a newly created item
+   */
+  public async createInitialLot(item: FoodItem): Promise<FoodItemLot | undefined> {
+    if (item.quantity <= 0) {
+      return undefined;
+    }
+
+    return await storage.createFoodItemLot({
+      foodItemId: item.id,
+      quantity: item.quantity,
+      purchaseDate: item.purchaseDate,
+      expirationDate: item.expirationDate,
+      storageLocation: item.storageLocation,
+    });
+  }
+
+  /**
+   * Add a new purchase of an existing item
+   * @returns The item with its refreshed summary fields
+   */
+  public async addLot(item: FoodItem, lot: NewLot): Promise<FoodItem> {
+    await this.getLots(item);
+    await storage.createFoodItemLot({ ...lot, foodItemId: item.id });
+    return await this.syncItem(item);
+  }
+
+  /**
+   * Take a quantity out of an item, emptying the oldest lots first
+   * @param quantity The amount to remove, in the item's unit
+   * @returns The item with its refreshed summary fields
+   */
+  public async drawDown(item: FoodItem, quantity: number): Promise<FoodItem> {
+    const lots = await this.getLots(item);
+
+    let remaining = quantity;
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      if (lot.quantity <= 0) continue;
+
+      const taken = Math.min(lot.quantity, remaining);
+      const left = roundQuantity(lot.quantity - taken);
+      if (left > 0) {
+        await storage.updateFoodItemLot(lot.id, { quantity: left });
+      } else {
+        await storage.deleteFoodItemLot(lot.id);
+      }
+      remaining = roundQuantity(remaining - taken);
+    }
+
+    return await this.syncItem(item);
+  }
+
+  /**
+   * Carry a direct edit of an item's summary fields over to its lots.
+   * Quantity changes draw down the oldest lots or top up the newest one;
+   * date and location changes apply to the earliest-expiring lot the item shows.
+   */
+  public async applyItemEdit(item: FoodItem, updates: Partial<InsertFoodItem>): Promise<void> {
+    const lots = (await this.getLots(item)).filter(lot => lot.quantity > 0);
+    if (lots.length === 0) {
+      if (updates.quantity !== undefined && updates.quantity > 0) {
+        await storage.createFoodItemLot({
+          foodItemId: item.id,
+          quantity: updates.quantity,
+          purchaseDate: updates.purchaseDate ?? item.purchaseDate,
+          expirationDate: updates.expirationDate ?? item.expirationDate,
+          storageLocation: updates.storageLocation ?? item.storageLocation,
+        });
+      }
+      return;
+    }
+
+    const lotUpdates: Partial<InsertFoodItemLot> = {};
+    if (updates.purchaseDate !== undefined && updates.purchaseDate !== item.purchaseDate) {
+      lotUpdates.purchaseDate = updates.purchaseDate;
+    }
+    if (updates.expirationDate !== undefined && updates.expirationDate !== item.expirationDate) {
+      lotUpdates.expirationDate = updates.expirationDate;
+    }
+    if (updates.storageLocation !== undefined && updates.storageLocation !== item.storageLocation) {
+      lotUpdates.storageLocation = updates.storageLocation;
+    }
+    if (Object.keys(lotUpdates).length > 0) {
+      await storage.updateFoodItemLot(this.earliestExpiring(lots).id, lotUpdates);
+    }
+
+    if (updates.quantity !== undefined && updates.quantity !== item.quantity) {
+      const difference = roundQuantity(updates.quantity - item.quantity);
+      if (difference < 0) {
+        await this.drawDown(item, -difference);
+      } else {
+        const newest = lots[lots.length - 1];
+        await storage.updateFoodItemLot(newest.id, { quantity: roundQuantity(newest.quantity + difference) });
+      }
+    }
+  }
+
+  /**
+   * Recalculate an item's quantity, dates and location from its lots
+   */
+  public async syncItem(item: FoodItem): Promise<FoodItem> {
+    const lots = (await storage.getFoodItemLots(item.id)).filter(lot => lot.quantity > 0);
+    if (lots.length === 0) {
+      return (await storage.updateFoodItem(item.id, { quantity: 0 })) ?? item;
+    }
+
+    const earliest = this.earliestExpiring(lots);
+    const oldestPurchase = lots.reduce((oldest, lot) => lot.purchaseDate < oldest ? lot.purchaseDate : oldest, lots[0].purchaseDate);
+
+    const updated = await storage.updateFoodItem(item.id, {
+      quantity: roundQuantity(lots.reduce((total, lot) => total + lot.quantity, 0)),
+      purchaseDate: oldestPurchase,
+      expirationDate: earliest.expirationDate,
+      storageLocation: earliest.storageLocation,
+    });
+    return updated ?? item;
+  }
+
+  private earliestExpiring(lots: FoodItemLot[]): FoodItemLot {
+    return lots.reduce((earliest, lot) => lot.expirationDate < earliest.expirationDate ? lot : earliest, lots[0]);
+  }
+}
+
+export const lotService = LotService.getInstance();
@@ -1,8 +1,9 @@
 import cron from 'node-cron';
-import { differenceInDays, isAfter, sub } from 'date-fns';
+import { sub } from 'date-fns';
 import { storage } from './storage';
 import { emailService } from './email-service';
-import { FoodItemWithStatus } from '@shared/schema';
+import { householdService } from './household-service';
+import { withExpirationStatus } from '@shared/expiration';
 
 // Logging helper
 const log = (message: string) => {
@@ -90,48 +91,34 @@ export class NotificationScheduler {
         try {
           // Get expiring items for this user
           const userId = user.userId;
-          const allItems = await storage.getFoodItemsByUserId(userId);
+          const allItems = await householdService.getFoodItemsForUser(userId);
           
           // Filter to items expiring within threshold days
           const today = new Date();
           const threshold = new Date();
           threshold.setDate(today.getDate() + daysThreshold);
           
-          const expiringItems = allItems.filter(item => {
-            const expirationDate = new Date(item.expirationDate);
-            return expirationDate >= today && expirationDate <= threshold;
-          });
-          
-          // Convert to FoodItemWithStatus format
-          const expiringItemsWithStatus = expiringItems.map(item => {
-            const expirationDate = new Date(item.expirationDate);
-            const daysUntilExpiration = differenceInDays(expirationDate, today);
-            
-            let status: 'expired' | 'expiring-soon' | 'fresh';
-            if (!isAfter(expirationDate, today)) {
-              status = 'expired';
-            } else if (daysUntilExpiration <= 3) {
-              status = 'expiring-soon';
-            } else {
-              status = 'fresh';
-            }
-            
-            return {
-              ...item,
-              status,
-              daysUntilExpiration
-            } as FoodItemWithStatus;
-          });
+          // Opened items go by their shortened, effective expiration date
+          const expiringItemsWithStatus = allItems
+            .map(item => withExpirationStatus(item, today))
+            .filter(item => {
+              const expirationDate = new Date(item.effectiveExpirationDate);
+              return expirationDate >= today && expirationDate <= threshold;
+            });
           
           // Filter to only expired or expiring soon items
           const relevantItems = expiringItemsWithStatus.filter(
             item => item.status === 'expired' || item.status === 'expiring-soon'
           );
           
-          if (relevantItems.length > 0) {
+          // Staples below their par level go in a restock section of the same email
+          const lowStock = await householdService.getLowStockForUser(userId);
+          
+          if (relevantItems.length > 0 || lowStock.length > 0) {
             const result = await emailService.sendExpirationNotification(
               user.emailAddress!, 
-              relevantItems
+              relevantItems,
+              lowStock
             );
             
             // Update last notified timestamp
@@ -139,7 +126,7 @@ export class NotificationScheduler {
             
             log(`Sent ${frequency} expiration notification to user ${user.userId} (${user.emailAddress}): ${result ? 'success' : 'failed'}`);
           } else {
-            log(`No relevant expiring items for user ${user.userId}`);
+            log(`No relevant expiring or low-stock items for user ${user.userId}`);
           }
         } catch (error) {
           log(`Error processing user ${user.userId}: ${(error as Error).message}`);
@@ -163,36 +150,20 @@ export class NotificationScheduler {
       
       for (const user of users) {
         try {
-          // Get all food items for this user
+          // Get all food items across this user's households
           const userId = user.userId;
-          const foodItems = await storage.getFoodItemsByUserId(userId);
+          const foodItems = await householdService.getFoodItemsForUser(userId);
           
           // Convert to FoodItemWithStatus format
           const today = new Date();
-          const foodItemsWithStatus = foodItems.map(item => {
-            const expirationDate = new Date(item.expirationDate);
-            const daysUntilExpiration = differenceInDays(expirationDate, today);
-            
-            let status: 'expired' | 'expiring-soon' | 'fresh';
-            if (!isAfter(expirationDate, today)) {
-              status = 'expired';
-            } else if (daysUntilExpiration <= 3) {
-              status = 'expiring-soon';
-            } else {
-              status = 'fresh';
-            }
-            
-            return {
-              ...item,
-              status,
-              daysUntilExpiration
-            } as FoodItemWithStatus;
-          });
+          const foodItemsWithStatus = foodItems.map(item => withExpirationStatus(item, today));
+          const lowStock = await householdService.getLowStockForUser(userId);
           
           // Send weekly summary email
           const result = await emailService.sendWeeklySummary(
             user.emailAddress!, 
-            foodItemsWithStatus
+            foodItemsWithStatus,
+            lowStock
           );
           
           // Update last notified timestamp
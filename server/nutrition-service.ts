@@ -0,0 +1,192 @@
+import fs from "fs";
+import path from "path";
+import {
+  NUTRIENTS,
+  type FoodItem,
+  type InsertNutritionFact,
+  type ItemNutrition,
+  type MealPlan,
+  type MealPlanNutrition,
+  type NutritionFact,
+  type NutritionSummary,
+  type NutritionValues,
+} from "@shared/schema";
+import { DEFAULT_SERVING_GRAMS, emptyNutrition, scaleNutrition, sumNutrition } from "@shared/nutrition";
+import { storage } from "./storage";
+
+/**
+ * Nutrition Service
+ * Matches food items to the bundled nutrition dataset and adds up the nutrition of planned meals
+ */
+export class NutritionService {
+  private static instance: NutritionService;
+  private readonly seedFile = path.join(process.cwd(), 'server', 'data', 'nutrition.json');
+  private facts: NutritionFact[] | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): NutritionService {
+    if (!NutritionService.instance) {
+      NutritionService.instance = new NutritionService();
+    }
+    return NutritionService.instance;
+  }
+
+  /**
+   * Load the bundled dataset into an empty nutrition table
+   */
+  public async seedFacts(): Promise<void> {
+    if ((await storage.getNutritionFacts()).length > 0) {
+      return;
+    }
+
+    let facts: InsertNutritionFact[];
+    try {
+      facts = JSON.parse(fs.readFileSync(this.seedFile, 'utf-8'));
+    } catch (error) {
+      console.error('Error reading nutrition seed file:', error);
+      return;
+    }
+
+    await storage.createNutritionFacts(facts);
+    this.facts = null;
+
+    console.log(`Initialized nutrition dataset with ${facts.length} foods`);
+  }
+
+  /**
+   * Nutrition of an item per 100 g.
+   * Values entered on the item win over the dataset entry its name matches.
+   * @returns The nutrition, or null if the item has no values and matches no food in the dataset
+   */
+  public async getItemNutrition(item: FoodItem): Promise<ItemNutrition | null> {
+    const fact = this.findFact(await this.getFacts(), item.name);
+
+    if (item.nutrition) {
+      return {
+        per100g: item.nutrition,
+        source: "item",
+        matchedName: fact?.name ?? null,
+        servingGrams: fact?.servingGrams ?? DEFAULT_SERVING_GRAMS,
+      };
+    }
+    if (fact) {
+      return {
+        per100g: Object.fromEntries(NUTRIENTS.map(nutrient => [nutrient, fact[nutrient]])) as NutritionValues,
+        source: "dataset",
+        matchedName: fact.name,
+        servingGrams: fact.servingGrams,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Estimate the nutrition of planned meals, by meal, by day and in total.
+   * Meals don't record how much of each ingredient they use, so each counts as one typical serving.
+   * @param householdId Ingredients from other households are ignored
+   */
+  public async summarize(mealPlans: MealPlan[], householdId: number): Promise<NutritionSummary> {
+    const ingredientIds = Array.from(new Set(mealPlans.flatMap(mealPlan => mealPlan.ingredients)));
+    const items = (await storage.getFoodItemsByIds(ingredientIds))
+      .filter(item => item.householdId === householdId);
+
+    const nutritionById = new Map<number, ItemNutrition | null>();
+    for (const item of items) {
+      nutritionById.set(item.id, await this.getItemNutrition(item));
+    }
+
+    const meals: MealPlanNutrition[] = mealPlans.map(mealPlan => {
+      const meal: MealPlanNutrition = {
+        mealPlanId: mealPlan.id,
+        date: mealPlan.date,
+        totals: emptyNutrition(),
+        ingredients: [],
+        unknown: [],
+      };
+
+      const amounts: NutritionValues[] = [];
+      for (const id of mealPlan.ingredients) {
+        const item = items.find(candidate => candidate.id === id);
+        if (!item) continue;
+
+        const nutrition = nutritionById.get(id);
+        if (!nutrition) {
+          meal.unknown.push(item.name);
+          continue;
+        }
+        meal.ingredients.push({ foodItemId: id, name: item.name, grams: nutrition.servingGrams, source: nutrition.source });
+        amounts.push(scaleNutrition(nutrition.per100g, nutrition.servingGrams));
+      }
+      meal.totals = sumNutrition(amounts);
+      return meal;
+    });
+
+    const dates = Array.from(new Set(meals.map(meal => meal.date))).sort();
+    const days = dates.map(date => ({
+      date,
+      totals: sumNutrition(meals.filter(meal => meal.date === date).map(meal => meal.totals)),
+    }));
+    const totals = sumNutrition(days.map(day => day.totals));
+
+    return {
+      meals,
+      days,
+      totals,
+      dailyAverage: Object.fromEntries(
+        NUTRIENTS.map(nutrient => [nutrient, days.length > 0 ? totals[nutrient] / days.length : 0])
+      ) as NutritionValues,
+    };
+  }
+
+  /**
+   * Find the dataset food for an item name.
+   * An exact name or alias match wins; otherwise the longest name or alias
+   * contained in the item name ("organic whole milk" matches "whole milk").
+   */
+  private findFact(facts: NutritionFact[], name: string): NutritionFact | undefined {
+    const normalized = this.normalizeName(name);
+    if (!normalized) {
+      return undefined;
+    }
+
+    let best: { fact: NutritionFact; score: number } | undefined;
+    for (const fact of facts) {
+      for (const term of [fact.name, ...fact.aliases].map(candidate => this.normalizeName(candidate))) {
+        let score = 0;
+        if (term === normalized) {
+          score = 1000;
+        } else if (` ${normalized} `.includes(` ${term} `)) {
+          score = term.length;
+        }
+
+        if (score > 0 && (!best || score > best.score)) {
+          best = { fact, score };
+        }
+      }
+    }
+
+    return best?.fact;
+  }
+
+  private normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9%\s-]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      // Treat simple plurals like their singular ("apples" and "apple")
+      .split(' ')
+      .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+      .join(' ');
+  }
+
+  private async getFacts(): Promise<NutritionFact[]> {
+    if (!this.facts) {
+      this.facts = await storage.getNutritionFacts();
+    }
+    return this.facts;
+  }
+}
+
+export const nutritionService = NutritionService.getInstance();
@@ -1,6 +1,6 @@
 import { randomInt } from "crypto";
 import { InsertOtpVerification } from "@shared/schema";
-import { emailService } from "./email-service";
+import { emailService, escapeHtml } from "./email-service";
 import { storage } from "./storage";
 
 /**
@@ -22,7 +22,7 @@ export class OtpService {
   /**
    * Generate a new 6-digit OTP
    */
-  private generateOTP(): string {
+  public generateOTP(): string {
     return randomInt(100000, 999999).toString();
   }
 
@@ -141,6 +141,43 @@ export class OtpService {
       htmlContent
     );
   }
+  
+  /**
+   * Send a household invitation email with a join code
+   * @param email The email of the person being invited
+   * @param code The code the invitee enters to join
+   * @param householdName The name of the household they are invited to
+   * @param inviterName The name of the member who sent the invite
+   */
+  public async sendHouseholdInviteEmail(email: string, code: string, householdName: string, inviterName: string): Promise<boolean> {
+    const appName = "FoodExpiry";
+    // Both names are typed in by users, and the email can go to any address
+    const household = escapeHtml(householdName);
+    const inviter = escapeHtml(inviterName);
+    
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 5px;">
+        <h2 style="color: #0d6a30; text-align: center;">Join ${household} on ${appName}</h2>
+        <p>${inviter} has invited you to share their household inventory on ${appName}. To join, sign in and enter the following code in Settings &rarr; Household:</p>
+        <div style="background-color: #f5f5f5; padding: 15px; text-align: center; font-size: 24px; font-weight: bold; letter-spacing: 5px; margin: 20px 0; border-radius: 4px;">
+          ${code}
+        </div>
+        <p>This invitation will expire in 7 days.</p>
+        <p>If you don't know ${inviter}, you can safely ignore this email.</p>
+        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0; text-align: center; color: #666; font-size: 12px;">
+          <p>This is an automated email from ${appName}. Please do not reply to this email.</p>
+        </div>
+      </div>
+    `;
+
+    return await emailService.sendEmail(
+      email, 
+      // The subject is plain text, but line breaks in it could start new mail headers
+      `${inviterName} invited you to ${householdName} on ${appName}`.replace(/[\r\n]+/g, " "), 
+      `${inviterName} invited you to join ${householdName} on ${appName}. Your invitation code is: ${code}. This invitation will expire in 7 days.`,
+      htmlContent
+    );
+  }
 }
 
 export const otpService = OtpService.getInstance();
\ No newline at end of file
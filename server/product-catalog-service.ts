@@ -0,0 +1,160 @@
+import fs from "fs";
+import path from "path";
+import { addDays, differenceInDays, format } from "date-fns";
+import {
+  FOOD_CATEGORIES,
+  QUANTITY_UNITS,
+  STORAGE_LOCATIONS,
+  type FoodItem,
+  type InsertProductCatalogEntry,
+  type ProductLookupResult,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { categoryService } from "./category-service";
+
+// Shape of an entry in server/data/product-catalog.json
+type SeedProduct = {
+  barcode: string;
+  name: string;
+  category: typeof FOOD_CATEGORIES[number];
+  unit: typeof QUANTITY_UNITS[number];
+  storageLocation: typeof STORAGE_LOCATIONS[number];
+  shelfLifeDays?: number | null;
+};
+
+/**
+ * Product Catalog Service
+ * Looks up products by EAN/UPC barcode and learns new ones from items users add
+ */
+export class ProductCatalogService {
+  private static instance: ProductCatalogService;
+  private readonly seedFile = path.join(process.cwd(), 'server', 'data', 'product-catalog.json');
+
+  private constructor() {}
+
+  public static getInstance(): ProductCatalogService {
+    if (!ProductCatalogService.instance) {
+      ProductCatalogService.instance = new ProductCatalogService();
+    }
+    return ProductCatalogService.instance;
+  }
+
+  /**
+   * Normalize a scanned or typed barcode to its digits.
+   * UPC-A codes are stored as 12 digits, so an EAN-13 with a leading zero is shortened.
+   * @returns The normalized code, or null if it is not a valid EAN-8/UPC/EAN-13 length
+   */
+  public normalizeBarcode(barcode: string): string | null {
+    let digits = barcode.replace(/\D/g, '');
+    if (digits.length === 13 && digits.startsWith('0')) {
+      digits = digits.slice(1);
+    }
+    return [8, 12, 13].includes(digits.length) ? digits : null;
+  }
+
+  /**
+   * Load the bundled product catalog into an empty table
+   */
+  public async seedCatalog(): Promise<void> {
+    if (await storage.countProductCatalogEntries() > 0) {
+      return;
+    }
+
+    let products: SeedProduct[];
+    try {
+      products = JSON.parse(fs.readFileSync(this.seedFile, 'utf-8'));
+    } catch (error) {
+      console.error('Error reading product catalog seed file:', error);
+      return;
+    }
+
+    for (const product of products) {
+      const barcode = this.normalizeBarcode(product.barcode);
+      if (!barcode) continue;
+
+      await storage.createProductCatalogEntry({
+        barcode,
+        name: product.name,
+        category: product.category,
+        unit: product.unit,
+        storageLocation: product.storageLocation,
+        shelfLifeDays: product.shelfLifeDays ?? null,
+        source: "seed",
+        timesAdded: 0,
+      });
+    }
+
+    console.log(`Initialized product catalog with ${products.length} products`);
+  }
+
+  /**
+   * Look up a barcode and suggest the details for a new food item
+   * @param barcode The scanned or typed code
+   * @param purchaseDate The date the item is being added for, used for the suggested expiration
+   */
+  public async lookup(barcode: string, purchaseDate: Date = new Date()): Promise<ProductLookupResult | undefined> {
+    const normalized = this.normalizeBarcode(barcode);
+    if (!normalized) {
+      return undefined;
+    }
+
+    const product = await storage.getProductByBarcode(normalized);
+    if (!product) {
+      return undefined;
+    }
+
+    return {
+      barcode: product.barcode,
+      name: product.name,
+      category: product.category,
+      unit: product.unit,
+      storageLocation: product.storageLocation,
+      suggestedExpirationDate: product.shelfLifeDays !== null
+        ? format(addDays(purchaseDate, product.shelfLifeDays), 'yyyy-MM-dd')
+        : null,
+      source: product.source,
+    };
+  }
+
+  /**
+   * Remember what a user added under a barcode so the next scan pre-fills it.
+   * Seeded products keep their curated details; learned ones follow the latest item.
+   */
+  public async learnFromFoodItem(item: FoodItem): Promise<void> {
+    if (!item.barcode) {
+      return;
+    }
+
+    const barcode = this.normalizeBarcode(item.barcode);
+    if (!barcode) {
+      return;
+    }
+
+    const shelfLifeDays = differenceInDays(new Date(item.expirationDate), new Date(item.purchaseDate));
+    // The catalog is shared by every household, so custom categories and locations are stored as what they're based on
+    const learned: InsertProductCatalogEntry = {
+      barcode,
+      name: item.name,
+      category: await categoryService.resolveCategory(item.householdId, item.category),
+      unit: item.unit,
+      storageLocation: await categoryService.resolveLocation(item.householdId, item.storageLocation),
+      shelfLifeDays: shelfLifeDays >= 0 ? shelfLifeDays : null,
+      source: "learned",
+      timesAdded: 1,
+    };
+
+    const existing = await storage.getProductByBarcode(barcode);
+    if (!existing) {
+      await storage.createProductCatalogEntry(learned);
+    } else if (existing.source === "seed") {
+      await storage.updateProductCatalogEntry(existing.id, { timesAdded: existing.timesAdded + 1 });
+    } else {
+      await storage.updateProductCatalogEntry(existing.id, {
+        ...learned,
+        timesAdded: existing.timesAdded + 1,
+      });
+    }
+  }
+}
+
+export const productCatalogService = ProductCatalogService.getInstance();
@@ -0,0 +1,435 @@
+import { addDays, addMonths, addYears, differenceInDays, format, isValid, parse, parseISO, subDays, subYears } from "date-fns";
+import {
+  FOOD_CATEGORIES,
+  QUANTITY_UNITS,
+  STORAGE_LOCATIONS,
+  type CategoryOption,
+  type FoodItem,
+  type InsertFoodItem,
+  type QuickAddDraft,
+  type QuickAddResult,
+} from "@shared/schema";
+import { UNIT_ALIASES } from "@shared/units";
+import { LOCATION_ALIASES } from "@shared/categories";
+import { storage } from "./storage";
+import { lotService } from "./lot-service";
+import { shelfLifeService, type FoodMatch } from "./shelf-life-service";
+import { itemEventService } from "./item-event-service";
+import { categoryService } from "./category-service";
+import { recallService } from "./recall-service";
+import { duplicateService } from "./duplicate-service";
+
+type QuantityUnit = typeof QUANTITY_UNITS[number];
+type FoodCategory = typeof FOOD_CATEGORIES[number];
+type StorageLocation = typeof STORAGE_LOCATIONS[number];
+
+// What could be read from one entry before looking anything up
+type ParsedEntry = {
+  name: string;
+  quantity: number | null;
+  unit: QuantityUnit | null;
+  storageLocation: string | null;
+  purchaseDate: string | null;
+  expirationDate: string | null;
+  warnings: string[];
+};
+
+// Keeps a quick add to a list someone would type in one go
+export const MAX_QUICK_ADD_ENTRIES = 50;
+
+// Numbers people write out, e.g. "a dozen eggs" or "two onions"
+const NUMBER_WORDS = new Map<string, number>(Object.entries({
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, half: 0.5,
+}));
+
+// Words that introduce a date, with the multi-word ones first so they win over their first word
+const EXPIRATION_MARKERS = [
+  ["best", "before"], ["best", "by"], ["use", "by"], ["good", "until"], ["good", "till"],
+  ["exp"], ["expires"], ["expire"], ["expiring"], ["expiry"], ["expiration"], ["bb"], ["until"],
+];
+const PURCHASE_MARKERS = [["bought"], ["purchased"]];
+
+// Words that can come before a storage location, e.g. "in the freezer"
+const LOCATION_PREPOSITIONS = ["in", "into", "to", "on"];
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// Dates written with a year, and without one; the latter fall in the year that makes sense for the date
+const FULL_DATE_FORMATS = ["yyyy-MM-dd", "M/d/yyyy", "M/d/yy", "MMM d yyyy", "MMMM d yyyy", "d MMM yyyy", "d MMMM yyyy"];
+const SHORT_DATE_FORMATS = ["M/d", "MMM d", "MMMM d", "d MMM", "d MMMM", "MMM do", "MMMM do", "do MMM", "do MMMM"];
+
+// A date this far in the past is read as next year's, e.g. "exp jan 5" typed in October
+const PAST_DATE_ROLLOVER_DAYS = 60;
+
+// Where each built-in category is usually kept when the text doesn't say
+const CATEGORY_LOCATIONS: Record<FoodCategory, StorageLocation> = {
+  produce: "refrigerator",
+  dairy: "refrigerator",
+  meat: "refrigerator",
+  bakery: "counter",
+  pantry: "pantry",
+  frozen: "freezer",
+  other: "pantry",
+};
+
+/**
+ * Raised when a quick-add text can't be read at all, as opposed to entries that need checking
+ */
+export class QuickAddError extends Error {}
+
+/**
+ * Quick Add Service
+ * Reads free-text shopping lists like "2 lbs chicken breast freezer exp friday" into draft food items,
+ * using only the shelf-life guide and the household's own history
+ */
+export class QuickAddService {
+  private static instance: QuickAddService;
+
+  private constructor() {}
+
+  public static getInstance(): QuickAddService {
+    if (!QuickAddService.instance) {
+      QuickAddService.instance = new QuickAddService();
+    }
+    return QuickAddService.instance;
+  }
+
+  /**
+   * Read a quick-add text into drafts for the user to confirm.
+   * Entries are separated by commas, semicolons or new lines.
+   * @param text What the user typed
+   * @param householdId The household whose categories, locations and history apply
+   * @param today The user's current date, which relative dates like "friday" count from
+   */
+  public async parse(text: string, householdId: number, today: Date): Promise<QuickAddResult> {
+    // Commas between digits are decimal commas, e.g. "1,5 kg"
+    const entries = text.split(/[\n;]+|(?<!\d),|,(?!\d)/).map(entry => entry.trim()).filter(Boolean);
+    if (entries.length > MAX_QUICK_ADD_ENTRIES) {
+      throw new QuickAddError(`Quick add reads at most ${MAX_QUICK_ADD_ENTRIES} items at a time; this has ${entries.length}`);
+    }
+
+    const categories = await categoryService.getCategories(householdId);
+    const locations = await categoryService.getLocations(householdId);
+    const drafts: QuickAddDraft[] = [];
+    const skipped: string[] = [];
+    for (const entry of entries) {
+      const parsed = this.readEntry(entry, locations, today);
+      if (!parsed.name) {
+        skipped.push(entry);
+        continue;
+      }
+      drafts.push(await this.buildDraft(entry, parsed, householdId, categories, locations, today));
+    }
+
+    return { drafts, skipped };
+  }
+
+  /**
+   * Create confirmed drafts as food items
+   * @param items The drafts as the user confirmed or edited them, with the household and user set
+   */
+  public async createItems(items: InsertFoodItem[]): Promise<FoodItem[]> {
+    const created: FoodItem[] = [];
+    for (const itemData of items) {
+      const newItem = await storage.createFoodItem(itemData);
+      await lotService.createInitialLot(newItem);
+      await itemEventService.record(newItem, "created", newItem.userId, {
+        quantity: newItem.quantity,
+        unit: newItem.unit,
+        source: "quick-add"
+      });
+      await recallService.checkItem(newItem);
+      created.push(newItem);
+    }
+    return created;
+  }
+
+  /**
+   * Fill in what the text didn't say: the category and location from the household's last item
+   * of the same name or the shelf-life guide, and a predicted expiration date
+   */
+  private async buildDraft(
+    entry: string,
+    parsed: ParsedEntry,
+    householdId: number,
+    categories: CategoryOption[],
+    locations: CategoryOption[],
+    today: Date
+  ): Promise<QuickAddDraft> {
+    const warnings = [...parsed.warnings];
+    let storageLocation = parsed.storageLocation;
+    let category: string;
+
+    // A category that has since been deleted doesn't count
+    const latest = await storage.getLatestFoodItemByName(householdId, parsed.name);
+    const previous = latest && categories.some(option => option.key === latest.category) ? latest : undefined;
+    const food = previous ? null : await shelfLifeService.matchFood(parsed.name);
+    if (previous) {
+      category = previous.category;
+      if (!storageLocation && locations.some(option => option.key === previous.storageLocation)) {
+        storageLocation = previous.storageLocation;
+      }
+    } else if (food) {
+      category = food.category;
+      storageLocation ??= this.usualLocation(food);
+    } else {
+      category = "other";
+      warnings.push("Couldn't tell what kind of food this is, so it's filed under Other");
+    }
+    storageLocation ??= CATEGORY_LOCATIONS[await categoryService.resolveCategory(householdId, category)];
+
+    const purchaseDate = parsed.purchaseDate ?? format(today, 'yyyy-MM-dd');
+    let expirationDate = parsed.expirationDate;
+    if (!expirationDate) {
+      const suggestion = await shelfLifeService.suggest(householdId, parsed.name, category, storageLocation, parseISO(purchaseDate));
+      expirationDate = suggestion.expirationDate;
+    } else if (expirationDate < purchaseDate) {
+      warnings.push("Expires before it was bought");
+    }
+
+    const duplicates = await duplicateService.findDuplicates(householdId, { name: parsed.name, category, storageLocation });
+    if (duplicates.length > 0) {
+      warnings.push(`You already have ${duplicates.map(item => item.name).join(", ")}`);
+    }
+
+    return {
+      text: entry,
+      name: parsed.name,
+      quantity: parsed.quantity ?? 1,
+      unit: parsed.unit ?? "items",
+      category,
+      storageLocation,
+      purchaseDate,
+      expirationDate,
+      expirationEstimated: !parsed.expirationDate,
+      warnings,
+    };
+  }
+
+  /**
+   * Split an entry into its quantity, unit, dates, storage location and the name left over
+   */
+  private readEntry(entry: string, locations: CategoryOption[], today: Date): ParsedEntry {
+    const words = entry.split(/\s+/).filter(Boolean);
+    const keys = words.map(word => this.normalizeWord(word));
+    const used = words.map(() => false);
+    const markUsed = (from: number, to: number) => {
+      for (let i = from; i < to; i++) used[i] = true;
+    };
+    const parsed: ParsedEntry = {
+      name: "",
+      quantity: null,
+      unit: null,
+      storageLocation: null,
+      purchaseDate: null,
+      expirationDate: null,
+      warnings: [],
+    };
+
+    // 1. A leading quantity and unit: "2 lbs", "500g", "a dozen", "3x", "a bag of"
+    let index = 0;
+    const leading = keys[0]?.match(/^(\d+(?:[.,]\d+)?|\d+\/\d+)([a-z]*)$/);
+    if (leading && (leading[2] === "" || leading[2] === "x" || this.readUnit(leading[2]))) {
+      parsed.quantity = this.readNumber(leading[1]);
+      parsed.unit = leading[2] && leading[2] !== "x" ? this.readUnit(leading[2]) : null;
+      index = 1;
+    } else if (words.length > 1 && NUMBER_WORDS.has(keys[0])) {
+      parsed.quantity = NUMBER_WORDS.get(keys[0])!;
+      index = 1;
+    }
+    if (parsed.quantity !== null) {
+      if (keys[index] === "x") index++;
+      if (keys[index] === "dozen") {
+        parsed.quantity *= 12;
+        index++;
+      }
+      if (!parsed.unit && keys[index] !== undefined && this.readUnit(keys[index])) {
+        parsed.unit = this.readUnit(keys[index]);
+        index++;
+      }
+      if (keys[index] === "of") index++;
+      markUsed(0, index);
+    } else {
+      // ...or a trailing count: "milk x2"
+      const trailing = keys[keys.length - 1]?.match(/^x(\d+)$/);
+      if (trailing && words.length > 1) {
+        parsed.quantity = Number(trailing[1]);
+        markUsed(keys.length - 1, keys.length);
+      }
+    }
+
+    // 2. Dates after a marker: "exp friday", "best by 3/15", "bought yesterday"
+    for (let i = 0; i < keys.length; i++) {
+      if (used[i]) continue;
+      for (const [markers, direction] of [[EXPIRATION_MARKERS, "future"], [PURCHASE_MARKERS, "past"]] as const) {
+        const marker = markers.find(candidate => candidate.every((word, offset) => keys[i + offset] === word && !used[i + offset]));
+        if (!marker) continue;
+
+        const field = direction === "future" ? "expirationDate" : "purchaseDate";
+        let start = i + marker.length;
+        if (keys[start] === "on") start++;
+        const date = parsed[field] === null ? this.readDate(keys, start, today, direction) : null;
+        if (date) {
+          parsed[field] = format(date.date, 'yyyy-MM-dd');
+          markUsed(i, start + date.length);
+        } else if (parsed[field] === null) {
+          parsed.warnings.push(`Couldn't read a date after "${words.slice(i, i + marker.length).join(" ")}"`);
+          markUsed(i, i + marker.length);
+        }
+        break;
+      }
+    }
+
+    // 3. A storage location, by name or a common spelling. One at the start of the name is part of it
+    // ("frozen peas"), unless it's introduced like "in the freezer"
+    const candidates = [
+      ...locations.filter(option => option.key !== "other").map(option => ({ key: option.key, phrase: option.name.toLowerCase().split(/\s+/) })),
+      ...Object.entries(LOCATION_ALIASES).map(([alias, key]) => ({ key, phrase: [alias] })),
+    ].sort((a, b) => b.phrase.length - a.phrase.length);
+    for (let i = 0; i < keys.length && parsed.storageLocation === null; i++) {
+      const match = candidates.find(candidate =>
+        candidate.phrase.every((word, offset) => keys[i + offset] === word && !used[i + offset])
+      );
+      if (!match) continue;
+
+      let start = i;
+      if (start > 0 && keys[start - 1] === "the" && !used[start - 1]) start--;
+      const introduced = start > 0 && LOCATION_PREPOSITIONS.includes(keys[start - 1]) && !used[start - 1];
+      if (introduced) {
+        start--;
+      } else if (!used.slice(0, i).some(wasUsed => !wasUsed)) {
+        continue;
+      }
+      parsed.storageLocation = match.key;
+      markUsed(start, i + match.phrase.length);
+    }
+
+    // 4. Whatever is left is the name
+    const name = words
+      .filter((_, i) => !used[i])
+      .join(" ")
+      .replace(/^[\s,.:;-]+|[\s,.:;-]+$/g, "");
+    parsed.name = name.charAt(0).toUpperCase() + name.slice(1);
+    return parsed;
+  }
+
+  /**
+   * Read a date starting at a word: "today", "friday", "next week", "in 3 days", "2 days ago", "3/15", "nov 2"
+   * @param direction Whether the date is expected to be ahead (expirations) or behind (purchases)
+   * @returns The date and how many words it took, or null if there's no date there
+   */
+  private readDate(keys: string[], start: number, today: Date, direction: "future" | "past"): { date: Date; length: number } | null {
+    const key = keys[start];
+    if (key === undefined) {
+      return null;
+    }
+
+    if (key === "today" || key === "tonight") return { date: today, length: 1 };
+    if (key === "tomorrow" || key === "tmrw") return { date: addDays(today, 1), length: 1 };
+    if (key === "yesterday") return { date: subDays(today, 1), length: 1 };
+    if (key === "next" && keys[start + 1] === "week") return { date: addDays(today, 7), length: 2 };
+    if (key === "next" && keys[start + 1] === "month") return { date: addMonths(today, 1), length: 2 };
+
+    // Weekdays mean the coming one for expirations and the last one for purchases
+    const prefix = ["this", "next", "last"].includes(key) ? key : null;
+    const weekday = this.readWeekday(keys[start + (prefix ? 1 : 0)]);
+    if (weekday !== null) {
+      const length = prefix ? 2 : 1;
+      if (direction === "past" || prefix === "last") {
+        const daysBack = (today.getDay() - weekday + 7) % 7;
+        return { date: subDays(today, daysBack === 0 && prefix === "last" ? 7 : daysBack), length };
+      }
+      const daysAhead = (weekday - today.getDay() + 7) % 7;
+      return { date: addDays(today, daysAhead === 0 && prefix === "next" ? 7 : daysAhead), length };
+    }
+
+    // Periods: "in 3 days", "2 weeks", "a month", "4 days ago"
+    const amountIndex = key === "in" ? start + 1 : start;
+    const amount = keys[amountIndex] !== undefined
+      ? NUMBER_WORDS.get(keys[amountIndex]) ?? this.readNumber(keys[amountIndex])
+      : null;
+    const period = keys[amountIndex + 1]?.match(/^(day|week|wk|month|mo)s?$/)?.[1];
+    if (amount !== null && period) {
+      const ago = keys[amountIndex + 2] === "ago";
+      const sign = ago ? -1 : 1;
+      const date = period === "day" ? addDays(today, sign * amount)
+        : period === "week" || period === "wk" ? addDays(today, sign * Math.round(amount * 7))
+        : addMonths(today, sign * Math.round(amount));
+      return { date, length: amountIndex + 2 - start + (ago ? 1 : 0) };
+    }
+
+    // Calendar dates, trying the longest reading first so "nov 2 2026" keeps its year
+    for (const length of [3, 2, 1]) {
+      if (start + length > keys.length) continue;
+      const date = this.readCalendarDate(keys.slice(start, start + length).join(" "), today, direction);
+      if (date) {
+        return { date, length };
+      }
+    }
+
+    return null;
+  }
+
+  private readCalendarDate(text: string, today: Date, direction: "future" | "past"): Date | null {
+    for (const dateFormat of FULL_DATE_FORMATS) {
+      const date = parse(text, dateFormat, today);
+      // Two-digit years would otherwise match four-digit layouts as the first century
+      if (isValid(date) && date.getFullYear() >= 1900) {
+        return date;
+      }
+    }
+
+    for (const dateFormat of SHORT_DATE_FORMATS) {
+      const date = parse(text, dateFormat, today);
+      if (!isValid(date)) continue;
+      if (direction === "future" && differenceInDays(today, date) > PAST_DATE_ROLLOVER_DAYS) {
+        return addYears(date, 1);
+      }
+      if (direction === "past" && date > today) {
+        return subYears(date, 1);
+      }
+      return date;
+    }
+
+    return null;
+  }
+
+  private readWeekday(key: string | undefined): number | null {
+    if (!key || key.length < 3) {
+      return null;
+    }
+    const index = WEEKDAYS.findIndex(day => day.startsWith(key));
+    return index === -1 ? null : index;
+  }
+
+  private readNumber(text: string): number | null {
+    const fraction = text.match(/^(\d+)\/(\d+)$/);
+    if (fraction) {
+      return Number(fraction[2]) > 0 ? Number(fraction[1]) / Number(fraction[2]) : null;
+    }
+    const value = Number(text.replace(",", "."));
+    return text !== "" && !isNaN(value) ? value : null;
+  }
+
+  private readUnit(key: string): QuantityUnit | null {
+    const unit = UNIT_ALIASES[key] ?? key;
+    return (QUANTITY_UNITS as readonly string[]).includes(unit) ? unit as QuantityUnit : null;
+  }
+
+  // A food's usual home: its category's default if the guide covers it there, otherwise anywhere but the freezer
+  private usualLocation(food: FoodMatch): StorageLocation {
+    const preferred = CATEGORY_LOCATIONS[food.category];
+    if (food.storageLocations.includes(preferred)) {
+      return preferred;
+    }
+    return food.storageLocations.find(location => location !== "freezer") ?? preferred;
+  }
+
+  // Lowercase a word and drop surrounding punctuation, e.g. "Lbs." to "lbs" and "friday," to "friday"
+  private normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/^[^a-z0-9]+|[^a-z0-9%]+$/g, "");
+  }
+}
+
+export const quickAddService = QuickAddService.getInstance();
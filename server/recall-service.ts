@@ -0,0 +1,261 @@
+import {
+  INVENTORY_FILE_FORMATS,
+  insertRecallSchema,
+  type FoodItem,
+  type InsertRecall,
+  type Recall,
+  type RecallAlert,
+  type RecallImportResult,
+  RECALL_MATCH_TYPES,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import { inventoryTransferService, InventoryFileError } from "./inventory-transfer-service";
+
+type RecallField = "sourceId" | "productName" | "brand" | "barcode" | "lotCode" | "startDate" | "endDate" | "description";
+type RecallMatchType = typeof RECALL_MATCH_TYPES[number];
+
+// A recall that may apply to an item, before it's saved
+type RecallNotice = { recall: Recall; item: FoodItem; matchType: RecallMatchType };
+
+// Recall notices are published by many agencies; at most this many are loaded at once
+const MAX_RECALL_ROWS = 5000;
+
+// Column names recall notices commonly use for each field, normalized to lowercase letters and digits
+const FIELD_ALIASES: Record<RecallField, string[]> = {
+  sourceId: ["recallid", "recallnumber", "eventid", "referencenumber", "id"],
+  productName: ["productname", "product", "name", "item", "productdescription"],
+  brand: ["brand", "brandname", "manufacturer", "company", "firm"],
+  barcode: ["barcode", "upc", "ean", "gtin", "code"],
+  lotCode: ["lotcode", "lot", "lotnumber", "batch", "batchcode"],
+  startDate: ["startdate", "from", "datefrom", "soldfrom", "start"],
+  endDate: ["enddate", "to", "dateto", "solduntil", "end"],
+  description: ["description", "reason", "details", "hazard", "reasonforrecall"],
+};
+
+/**
+ * Recall Service
+ * Loads product recalls and matches them against the food items households have in stock
+ */
+export class RecallService {
+  private static instance: RecallService;
+
+  private constructor() {}
+
+  public static getInstance(): RecallService {
+    if (!RecallService.instance) {
+      RecallService.instance = new RecallService();
+    }
+    return RecallService.instance;
+  }
+
+  /**
+   * Load recalls from a CSV or JSON file and check every household's inventory against them.
+   * Valid rows are loaded even when others fail validation.
+   * @param userId The admin loading the file
+   */
+  public async importRecalls(
+    content: string,
+    fileFormat: typeof INVENTORY_FILE_FORMATS[number],
+    userId: number
+  ): Promise<RecallImportResult> {
+    const { columns, records } = inventoryTransferService.parseFile(content, fileFormat);
+    if (records.length > MAX_RECALL_ROWS) {
+      throw new InventoryFileError(`Files can contain at most ${MAX_RECALL_ROWS} recalls; this one has ${records.length}`);
+    }
+
+    const mapping = this.mapColumns(columns);
+    if (!mapping.productName || !mapping.description) {
+      throw new InventoryFileError("Recall files need a product name and a description column");
+    }
+
+    const errors: RecallImportResult["errors"] = [];
+    const valid: InsertRecall[] = [];
+    records.forEach((record, index) => {
+      const cell = (field: RecallField) => {
+        const column = mapping[field];
+        const value = column ? record[column] : undefined;
+        const text = value === undefined || value === null ? "" : String(value).trim();
+        return text === "" ? undefined : text;
+      };
+      const date = (field: "startDate" | "endDate") => {
+        const text = cell(field);
+        return text === undefined ? undefined : inventoryTransferService.parseDate(text) ?? text;
+      };
+
+      const sourceId = cell("sourceId");
+      const validation = insertRecallSchema
+        .refine(recall => !recall.startDate || !recall.endDate || recall.startDate <= recall.endDate, {
+          message: "The start date must be before the end date",
+        })
+        .safeParse({
+          productName: cell("productName"),
+          brand: cell("brand"),
+          // Spreadsheets often drop the leading zeros of a code stored as a number
+          barcode: cell("barcode")?.replace(/\D/g, "") || undefined,
+          lotCode: cell("lotCode"),
+          startDate: date("startDate"),
+          endDate: date("endDate"),
+          description: cell("description"),
+          importedBy: userId,
+        });
+      if (validation.success) {
+        valid.push({ ...validation.data, sourceKey: sourceId ? `id:${sourceId}` : this.recallKey(validation.data) });
+      } else {
+        errors.push({ row: index + 1, message: validation.error.errors.map(error => error.message).join("; ") });
+      }
+    });
+
+    // Recalls loaded before were already matched, so only new ones are checked
+    const created = await storage.createRecalls(valid);
+    const items = await storage.getInStockFoodItems();
+    const matches = await this.recordMatches(created, items);
+
+    return { imported: created.length, errors, matches, duplicates: valid.length - created.length };
+  }
+
+  /**
+   * Check a newly added item against every recall.
+   * Errors are logged rather than thrown so they never stop the item from being added.
+   */
+  public async checkItem(item: FoodItem): Promise<void> {
+    try {
+      await this.recordMatches(await storage.getRecalls(), [item]);
+    } catch (error) {
+      console.error(`Error checking food item ${item.id} against recalls:`, error);
+    }
+  }
+
+  /**
+   * Whether a recall may apply to an item.
+   * A barcode on both sides decides it; otherwise the names are compared, and a matching name is
+   * certain with the recall's lot code in the item's notes, likely with its brand in the item's name
+   * or notes, and only possible without either. A recall limited to a purchase period only applies
+   * to items bought within it.
+   */
+  public matchItem(recall: Recall, item: FoodItem): RecallMatchType | null {
+    if (recall.startDate && item.purchaseDate < recall.startDate) return null;
+    if (recall.endDate && item.purchaseDate > recall.endDate) return null;
+
+    if (recall.barcode && item.barcode) {
+      return this.normalizeBarcode(recall.barcode) === this.normalizeBarcode(item.barcode) ? "barcode" : null;
+    }
+
+    // "Whole milk" may be the recalled "Acme Organic Whole Milk", and the other way round
+    const itemName = this.normalizeName(item.name);
+    const productName = this.normalizeName(recall.productName);
+    if (!this.containsWords(productName, itemName) && !this.containsWords(itemName, productName)) {
+      return null;
+    }
+
+    const notes = this.normalizeName(item.notes ?? "");
+    if (this.containsWords(notes, this.normalizeName(recall.lotCode ?? ""))) {
+      return "lot";
+    }
+    const brand = this.normalizeName(recall.brand ?? "");
+    return this.containsWords(itemName, brand) || this.containsWords(notes, brand) ? "brand" : "name";
+  }
+
+  /**
+   * The household's recall alerts that haven't been dismissed
+   */
+  public async getAlerts(householdId: number): Promise<RecallAlert[]> {
+    return await storage.getRecallAlerts(householdId);
+  }
+
+  /**
+   * Save the matches between recalls and items and email the households concerned.
+   * Name-only matches are too uncertain to email about, so they only show in the app.
+   * @returns How many matches were found
+   */
+  private async recordMatches(recalls: Recall[], items: FoodItem[]): Promise<number> {
+    const found: RecallNotice[] = [];
+    for (const recall of recalls) {
+      for (const item of items) {
+        const matchType = this.matchItem(recall, item);
+        if (matchType) {
+          found.push({ recall, item, matchType });
+        }
+      }
+    }
+    await storage.createRecallMatches(found.map(({ recall, item, matchType }) => ({
+      recallId: recall.id,
+      foodItemId: item.id,
+      householdId: item.householdId,
+      matchType,
+    })));
+
+    const likely = found.filter(({ matchType }) => matchType !== "name");
+    const householdIds = Array.from(new Set(likely.map(({ item }) => item.householdId)));
+    for (const householdId of householdIds) {
+      if (householdId !== null) {
+        await this.notifyHousehold(householdId, likely.filter(({ item }) => item.householdId === householdId));
+      }
+    }
+
+    return found.length;
+  }
+
+  /**
+   * Email every member of a household who gets expiration alerts; recalls don't wait for their usual schedule
+   */
+  private async notifyHousehold(
+    householdId: number,
+    matches: RecallNotice[]
+  ): Promise<void> {
+    const members = await storage.getHouseholdMembers(householdId);
+    for (const member of members) {
+      try {
+        const settings = await storage.getNotificationSettings(member.userId);
+        if (settings?.emailEnabled && settings.emailAddress && settings.expirationAlerts) {
+          await emailService.sendRecallAlert(settings.emailAddress, matches);
+        }
+      } catch (error) {
+        console.error(`Error sending recall alert to user ${member.userId}:`, error);
+      }
+    }
+  }
+
+  // Find the column holding each field
+  private mapColumns(columns: string[]): Partial<Record<RecallField, string>> {
+    const mapping: Partial<Record<RecallField, string>> = {};
+    for (const field of Object.keys(FIELD_ALIASES) as RecallField[]) {
+      const match = columns.find(column =>
+        FIELD_ALIASES[field].includes(column.toLowerCase().replace(/[^a-z0-9]/g, "")) &&
+        !Object.values(mapping).includes(column)
+      );
+      if (match) {
+        mapping[field] = match;
+      }
+    }
+    return mapping;
+  }
+
+  // UPC-A codes are EAN-13 codes with a leading zero, so compare without leading zeros
+  private normalizeBarcode(barcode: string): string {
+    return barcode.replace(/\D/g, "").replace(/^0+/, "");
+  }
+
+  private normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+  }
+
+  // Whether normalized text contains the normalized words as whole words
+  private containsWords(text: string, words: string): boolean {
+    return !!text && !!words && ` ${text} `.includes(` ${words} `);
+  }
+
+  // Identifies a recall without a source ID, so a feed loaded again isn't added twice
+  private recallKey(recall: InsertRecall): string {
+    return [
+      this.normalizeName(recall.productName),
+      this.normalizeName(recall.brand ?? ""),
+      recall.barcode ? this.normalizeBarcode(recall.barcode) : "",
+      this.normalizeName(recall.lotCode ?? ""),
+      recall.startDate ?? "",
+      recall.endDate ?? "",
+    ].join("|");
+  }
+}
+
+export const recallService = RecallService.getInstance();
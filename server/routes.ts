@@ -4,6 +4,7 @@ import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { 
   insertFoodItemSchema, 
+  insertFoodItemLotSchema,
   insertWasteEntrySchema, 
   insertConsumptionEntrySchema,
   insertUserSchema,
@@ -12,10 +13,19 @@ import {
   insertChatMessageSchema,
   insertSharedRecipeSchema,
   insertRecipeCommentSchema,
+  insertDietaryProfileSchema,
+  HOUSEHOLD_ROLES,
+  QUANTITY_UNITS,
+  FOOD_CATEGORIES,
+  STORAGE_LOCATIONS,
+  CUSTOM_ICONS,
+  INVENTORY_TRANSFER_FIELDS,
+  INVENTORY_FILE_FORMATS,
   FoodItemWithStatus,
-  ChatMessageWithUser
+  ChatMessageWithUser,
+  HouseholdWithRole,
+  InsertWasteEntry
 } from "@shared/schema";
-import { differenceInDays, isAfter } from "date-fns";
 import { setupAuth } from "./auth";
 import { emailService } from "./email-service";
 import multer from "multer";
@@ -24,13 +34,45 @@ import path from "path";
 import { randomBytes } from "crypto";
 import { ENABLE_EMAIL_FALLBACK } from "./email-service";
 import { aiService } from "./ai-service";
-import { ZodError } from "zod";
+import { householdService } from "./household-service";
+import { productCatalogService } from "./product-catalog-service";
+import { lotService } from "./lot-service";
+import { shelfLifeService } from "./shelf-life-service";
+import { storageMoveService } from "./storage-move-service";
+import { inventoryTransferService, InventoryFileError } from "./inventory-transfer-service";
+import { itemEventService } from "./item-event-service";
+import { trashService } from "./trash-service";
+import { categoryService, CategoryError } from "./category-service";
+import { shoppingListService, DEFAULT_SHOPPING_DAYS } from "./shopping-list-service";
+import { tagService } from "./tag-service";
+import { leftoverService } from "./leftover-service";
+import { shareListingService, ShareListingError } from "./share-listing-service";
+import { recallService } from "./recall-service";
+import { nutritionService } from "./nutrition-service";
+import { dietaryService } from "./dietary-service";
+import { duplicateService, MergeError } from "./duplicate-service";
+import { quickAddService, QuickAddError, MAX_QUICK_ADD_ENTRIES } from "./quick-add-service";
+import { uploadService, UPLOADS_DIR } from "./upload-service";
+import { convertQuantity, estimateWeightKg } from "@shared/units";
+import { withExpirationStatus } from "@shared/expiration";
+import { estimateValue, getMainCurrency, totalByCurrency } from "@shared/prices";
+import { normalizeStapleName, withStockStatus } from "@shared/stock";
+import { tagNamesSchema } from "@shared/tags";
+import { noDietaryRestrictions } from "@shared/dietary";
+import { foodItemQuerySchema, isoDate, type FoodItemPage } from "@shared/food-item-query";
+import { addDays, format, parseISO } from "date-fns";
+import { z, ZodError } from "zod";
 
 // Helper function to format Zod validation errors
 function formatZodError(error: ZodError): string {
   return error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join(', ');
 }
 
+// Helper function to resolve the household membership the authenticated user is acting under
+async function getActiveMembership(req: Request) {
+  return await householdService.getActiveMembership(req.user!, req.session.activeHouseholdId);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
@@ -38,44 +80,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const apiRouter = express.Router();
   
   // Food Items
+  // Search, filter and sort the household's items; pass a limit to page through them with a cursor
   apiRouter.get("/food-items", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
-      const items = await storage.getFoodItemsByUserId(userId);
+      const validation = foodItemQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      const query = validation.data;
       
-      // Add expiration status to each item
-      const itemsWithStatus: FoodItemWithStatus[] = items.map(item => {
-        const expirationDate = new Date(item.expirationDate);
-        const today = new Date();
-        const daysUntilExpiration = differenceInDays(expirationDate, today);
-        
-        let status: 'expired' | 'expiring-soon' | 'fresh';
-        if (!isAfter(expirationDate, today)) {
-          status = 'expired';
-        } else if (daysUntilExpiration <= 3) {
-          status = 'expiring-soon';
-        } else {
-          status = 'fresh';
-        }
-        
-        return {
-          ...item,
-          status,
-          daysUntilExpiration
-        };
-      });
+      const membership = await getActiveMembership(req);
+      const { items, nextCursor } = await storage.searchFoodItems(membership.householdId, query);
+      const lots = await storage.getFoodItemLotsByFoodItemIds(items.map(item => item.id));
+      const taggedItems = await tagService.withTags(items);
+      
+      // Add expiration status and purchase lots to each item
+      const today = new Date();
+      const itemsWithStatus: FoodItemWithStatus[] = taggedItems.map(item => ({
+        ...withExpirationStatus(item, today),
+        lots: lots.filter(lot => lot.foodItemId === item.id)
+      }));
+      
+      // Without a limit every matching item is returned as a plain list
+      if (query.limit === undefined) {
+        return res.json(itemsWithStatus);
+      }
       
-      res.json(itemsWithStatus);
+      const page: FoodItemPage = { items: itemsWithStatus, nextCursor };
+      res.json(page);
     } catch (error) {
       console.error("Error fetching food items:", error);
       res.status(500).json({ message: "Failed to retrieve food items" });
     }
   });
   
+  // Import files are read in memory; they're only kept long enough to validate and create the items
+  const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
+  });
+  
+  // Bulk import food items from a CSV or JSON file, optionally as a dry run that only validates
+  apiRouter.post("/food-items/import", importUpload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Viewers cannot add items to this household" });
+      }
+      
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      let mapping: unknown = undefined;
+      if (req.body.mapping) {
+        try {
+          mapping = JSON.parse(req.body.mapping);
+        } catch (error) {
+          return res.status(400).json({ message: "Invalid column mapping" });
+        }
+      }
+      
+      const validation = z.object({
+        format: z.enum(INVENTORY_FILE_FORMATS).optional(),
+        mapping: z.record(z.enum(INVENTORY_TRANSFER_FIELDS), z.string()).optional(),
+        dryRun: z.enum(["true", "false"]).default("true"),
+      }).safeParse({ ...req.body, mapping });
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const result = await inventoryTransferService.importItems(
+        req.file.buffer.toString('utf-8'),
+        inventoryTransferService.detectFormat(validation.data.format, req.file.originalname),
+        validation.data.mapping,
+        validation.data.dryRun === "true",
+        membership.householdId,
+        req.user!.id
+      );
+      
+      res.status(result.dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof InventoryFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing food items:", error);
+      res.status(500).json({ message: "Failed to import food items" });
+    }
+  });
+  
+  // Read a free-text list like "2 lbs chicken breast freezer exp friday, 1 dozen eggs" into drafts to confirm
+  apiRouter.post("/food-items/quick-add/parse", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const validation = z.object({
+        text: z.string().trim().min(1, "Type at least one item").max(5000),
+        today: isoDate.optional(),
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      // Relative dates count from the user's day, which may differ from the server's
+      const { text, today } = validation.data;
+      const membership = await getActiveMembership(req);
+      const result = await quickAddService.parse(text, membership.householdId, today ? parseISO(today) : new Date());
+      res.json(result);
+    } catch (error) {
+      if (error instanceof QuickAddError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error reading quick-add text:", error);
+      res.status(500).json({ message: "Failed to read items" });
+    }
+  });
+  
+  // Create the confirmed quick-add drafts in one go
+  apiRouter.post("/food-items/quick-add", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Viewers cannot add items to this household" });
+      }
+      
+      const validation = z.object({
+        items: z.array(insertFoodItemSchema.omit({ userId: true, householdId: true }))
+          .min(1, "Add at least one item")
+          .max(MAX_QUICK_ADD_ENTRIES, `Add at most ${MAX_QUICK_ADD_ENTRIES} items at a time`),
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      // Check every item first so one bad entry doesn't leave the rest half added
+      const items = validation.data.items;
+      for (const item of items) {
+        const invalidCategory = await categoryService.validateItem(membership.householdId, item);
+        if (invalidCategory) {
+          return res.status(400).json({ message: `${item.name}: ${invalidCategory}` });
+        }
+      }
+      
+      const created = await quickAddService.createItems(items.map(item => ({
+        ...item,
+        userId: req.user!.id,
+        householdId: membership.householdId
+      })));
+      res.status(201).json(created.map(item => withExpirationStatus(item)));
+    } catch (error) {
+      console.error("Error creating quick-add items:", error);
+      res.status(500).json({ message: "Failed to add items" });
+    }
+  });
+  
+  // Download the household's inventory in the layout the importer reads
+  apiRouter.get("/food-items/export", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const validation = z.object({
+        format: z.enum(INVENTORY_FILE_FORMATS).default("csv"),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const items = await storage.getFoodItemsByHouseholdId(membership.householdId);
+      const fileFormat = validation.data.format;
+      
+      res.setHeader('Content-Type', fileFormat === 'json' ? 'application/json' : 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="inventory-${format(new Date(), 'yyyy-MM-dd')}.${fileFormat}"`);
+      res.send(inventoryTransferService.exportItems(items, fileFormat));
+    } catch (error) {
+      console.error("Error exporting food items:", error);
+      res.status(500).json({ message: "Failed to export food items" });
+    }
+  });
+  
+  // Items deleted from the household's inventory that can still be restored
+  apiRouter.get("/food-items/trash", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const trash = await trashService.getTrash(membership.householdId);
+      res.json(trash);
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+  
+  // Permanently delete everything in the household's trash
+  apiRouter.delete("/food-items/trash", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to empty the trash" });
+      }
+      
+      const items = await storage.getTrashedFoodItems(membership.householdId);
+      for (const item of items) {
+        await trashService.purge(item);
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      res.status(500).json({ message: "Failed to empty trash" });
+    }
+  });
+  
+  // Items the household already has that look like the same food as one being added
+  apiRouter.get("/food-items/duplicates", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const validation = z.object({
+        name: z.string().trim().min(1),
+        category: z.string().min(1),
+        storageLocation: z.string().min(1),
+        excludeId: z.coerce.number().int().optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const { excludeId, ...candidate } = validation.data;
+      const membership = await getActiveMembership(req);
+      const duplicates = await duplicateService.findDuplicates(membership.householdId, candidate, excludeId);
+      res.json(duplicates.map(item => withExpirationStatus(item)));
+    } catch (error) {
+      console.error("Error finding duplicate food items:", error);
+      res.status(500).json({ message: "Failed to check for duplicates" });
+    }
+  });
+  
   apiRouter.get("/food-items/:id", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
@@ -92,29 +358,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Food item not found" });
       }
       
-      // Check if the food item belongs to the authenticated user
-      if (item.userId !== req.user!.id) {
+      // Check if the food item belongs to one of the user's households
+      const membership = await householdService.getMembershipForRecord(req.user!, item);
+      if (!membership) {
         return res.status(403).json({ message: "You don't have permission to access this food item" });
       }
       
-      // Add expiration status
-      const expirationDate = new Date(item.expirationDate);
-      const today = new Date();
-      const daysUntilExpiration = differenceInDays(expirationDate, today);
-      
-      let status: 'expired' | 'expiring-soon' | 'fresh';
-      if (!isAfter(expirationDate, today)) {
-        status = 'expired';
-      } else if (daysUntilExpiration <= 3) {
-        status = 'expiring-soon';
-      } else {
-        status = 'fresh';
-      }
-      
+      // Add expiration status, purchase lots and tags
+      const [taggedItem] = await tagService.withTags([item]);
       const itemWithStatus: FoodItemWithStatus = {
-        ...item,
-        status,
-        daysUntilExpiration
+        ...withExpirationStatus(taggedItem),
+        lots: await lotService.getLots(item)
       };
       
       res.json(itemWithStatus);
@@ -130,7 +384,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const validation = insertFoodItemSchema.safeParse(req.body);
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Viewers cannot add items to this household" });
+      }
+      
+      const validation = insertFoodItemSchema.extend({ tags: tagNamesSchema.optional() }).safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ 
           message: "Invalid food item data", 
@@ -138,14 +397,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Add the user ID from the authenticated session
+      const invalidCategory = await categoryService.validateItem(membership.householdId, validation.data);
+      if (invalidCategory) {
+        return res.status(400).json({ message: invalidCategory });
+      }
+      
+      const foreignPhotos = await uploadService.findForeignItemPhotos(membership.householdId, validation.data.photos ?? []);
+      if (foreignPhotos.length > 0) {
+        return res.status(400).json({ message: "Photos must be uploaded for this household's items" });
+      }
+      
+      // Ask before adding what looks like a second entry for something the household already has
+      if (req.body.allowDuplicate !== true) {
+        const duplicates = await duplicateService.findDuplicates(membership.householdId, validation.data);
+        if (duplicates.length > 0) {
+          return res.status(409).json({
+            message: `You already have ${duplicates.map(item => item.name).join(", ")}`,
+            duplicates: duplicates.map(item => withExpirationStatus(item))
+          });
+        }
+      }
+      
+      // Add the user and household from the authenticated session
+      const { tags: tagNames, ...itemFields } = validation.data;
       const itemData = {
-        ...validation.data,
-        userId: req.user!.id
+        ...itemFields,
+        userId: req.user!.id,
+        householdId: membership.householdId
       };
       
       const newItem = await storage.createFoodItem(itemData);
-      res.status(201).json(newItem);
+      await lotService.createInitialLot(newItem);
+      await itemEventService.record(newItem, "created", req.user!.id, {
+        quantity: newItem.quantity,
+        unit: newItem.unit,
+        ...(newItem.barcode ? { source: "barcode" } : {})
+      });
+      await recallService.checkItem(newItem);
+      const tags = tagNames ? await tagService.setItemTags(newItem, tagNames) : [];
+      
+      // Remember scanned products so the next scan of the same code pre-fills the form
+      if (newItem.barcode) {
+        try {
+          await productCatalogService.learnFromFoodItem(newItem);
+        } catch (error) {
+          console.error("Error updating product catalog:", error);
+        }
+      }
+      
+      res.status(201).json({ ...newItem, tags });
     } catch (error) {
       console.error("Error creating food item:", error);
       res.status(500).json({ message: "Failed to create food item" });
@@ -154,13 +454,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   apiRouter.patch("/food-items/:id", async (req: Request, res: Response) => {
     try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      // Partially validate the update fields
-      const validation = insertFoodItemSchema.partial().safeParse(req.body);
+      const existingItem = await storage.getFoodItem(id);
+      if (!existingItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, existingItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to update this food item" });
+      }
+      
+      // Partially validate the update fields; ownership fields cannot be changed here
+      const validation = insertFoodItemSchema
+        .partial()
+        .omit({ userId: true, householdId: true })
+        .extend({ tags: tagNamesSchema.optional() })
+        .safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ 
           message: "Invalid food item update data", 
@@ -168,18 +486,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const updatedItem = await storage.updateFoodItem(id, validation.data);
+      const invalidCategory = await categoryService.validateItem(existingItem.householdId, validation.data);
+      if (invalidCategory) {
+        return res.status(400).json({ message: invalidCategory });
+      }
+      
+      // Photos the item already has may predate upload records, so only new ones are checked
+      const addedPhotos = (validation.data.photos ?? []).filter(photo => !existingItem.photos.includes(photo));
+      const foreignPhotos = await uploadService.findForeignItemPhotos(membership.householdId, addedPhotos);
+      if (foreignPhotos.length > 0) {
+        return res.status(400).json({ message: "Photos must be uploaded for this household's items" });
+      }
+      
+      // Quantity, dates and location are summaries of the item's lots, so change the lots first
+      const { quantity, purchaseDate, expirationDate, storageLocation, tags: tagNames, ...otherUpdates } = validation.data;
+      await lotService.applyItemEdit(existingItem, { quantity, purchaseDate, expirationDate, storageLocation });
+      
+      const updatedItem = await storage.updateFoodItem(id, otherUpdates);
       if (!updatedItem) {
         return res.status(404).json({ message: "Food item not found" });
       }
       
-      res.json(updatedItem);
+      const syncedItem = await lotService.syncItem(updatedItem);
+      await itemEventService.recordChanges(existingItem, syncedItem, "edited", req.user!.id);
+      
+      // Tags are only replaced when sent
+      if (tagNames) {
+        await tagService.setItemTags(syncedItem, tagNames);
+      }
+      
+      // Delete the files of photos taken off the item, unless another item shows them
+      if (otherUpdates.photos) {
+        await uploadService.deleteItemPhotos(
+          membership.householdId,
+          existingItem.photos.filter(photo => !otherUpdates.photos!.includes(photo))
+        );
+      }
+      
+      const [taggedItem] = await tagService.withTags([syncedItem]);
+      res.json(taggedItem);
     } catch (error) {
       res.status(500).json({ message: "Failed to update food item" });
     }
   });
   
-  apiRouter.delete("/food-items/:id", async (req: Request, res: Response) => {
+  // Add another purchase of an existing item as a new lot
+  apiRouter.post("/food-items/:id/lots", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -190,128 +542,847 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      // Get the food item to check if it belongs to the authenticated user
       const foodItem = await storage.getFoodItem(id);
       if (!foodItem) {
         return res.status(404).json({ message: "Food item not found" });
       }
       
-      // Make sure the food item belongs to the authenticated user
-      if (foodItem.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Not authorized to delete this food item" });
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to update this food item" });
       }
       
-      console.log(`Attempting to delete food item ${id} for user ${req.user!.id}`);
-      const success = await storage.deleteFoodItem(id);
-      if (!success) {
-        return res.status(404).json({ message: "Food item not found" });
+      const validation = insertFoodItemLotSchema.omit({ foodItemId: true }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid lot data", 
+          errors: validation.error.format() 
+        });
       }
       
-      console.log(`Successfully deleted food item ${id}`);
-      res.status(204).end();
-    } catch (error) {
-      console.error("Error deleting food item:", error);
-      res.status(500).json({ message: "Failed to delete food item" });
-    }
-  });
-  
-  // Recipes
-  apiRouter.get("/recipes", async (req: Request, res: Response) => {
-    try {
-      const recipes = await storage.getAllRecipes();
-      res.json(recipes);
+      if (validation.data.quantity <= 0) {
+        return res.status(400).json({ message: "Quantity must be greater than 0" });
+      }
+      
+      const invalidLocation = await categoryService.validateItem(foodItem.householdId, { storageLocation: validation.data.storageLocation });
+      if (invalidLocation) {
+        return res.status(400).json({ message: invalidLocation });
+      }
+      
+      const updatedItem = await lotService.addLot(foodItem, validation.data);
+      await itemEventService.recordChanges(foodItem, updatedItem, "restocked", req.user!.id, {
+        quantity: validation.data.quantity,
+        unit: foodItem.unit
+      });
+      res.status(201).json(updatedItem);
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve recipes" });
+      console.error("Error adding lot:", error);
+      res.status(500).json({ message: "Failed to add lot" });
     }
   });
   
-  apiRouter.get("/recipes/:id", async (req: Request, res: Response) => {
+  // Fold duplicate items into this one, combining their quantities and history
+  apiRouter.post("/food-items/:id/merge", async (req: Request, res: Response) => {
     try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      const recipe = await storage.getRecipe(id);
-      if (!recipe) {
-        return res.status(404).json({ message: "Recipe not found" });
+      const validation = z.object({
+        itemIds: z.array(z.number().int()).min(1, "Pick at least one item to merge")
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
       }
       
-      res.json(recipe);
+      const target = await storage.getFoodItem(id);
+      if (!target) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, target);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to merge these food items" });
+      }
+      
+      const sources = await storage.getFoodItemsByIds(Array.from(new Set(validation.data.itemIds)));
+      if (sources.length !== new Set(validation.data.itemIds).size || sources.some(item => item.householdId !== target.householdId)) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const merged = await duplicateService.merge(target, sources, req.user!.id);
+      const [withTags] = await tagService.withTags([withExpirationStatus(merged)]);
+      res.json(withTags);
     } catch (error) {
-      res.status(500).json({ message: "Failed to retrieve recipe" });
+      if (error instanceof MergeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error merging food items:", error);
+      res.status(500).json({ message: "Failed to merge food items" });
     }
   });
   
-  // AI Recipe suggestions based on food items
-  apiRouter.get("/recipe-suggestions", async (req: Request, res: Response) => {
+  // Remove a lot that was recorded by mistake
+  apiRouter.delete("/food-items/:id/lots/:lotId", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      // Check if OpenAI is configured
-      if (!aiService.isConfigured()) {
-        return res.status(503).json({ message: "AI recipe suggestions are not available at the moment" });
+      const id = parseInt(req.params.id);
+      const lotId = parseInt(req.params.lotId);
+      if (isNaN(id) || isNaN(lotId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      const userId = req.user!.id;
-      
-      // Get user's food items with expiration status
-      const items = await storage.getFoodItemsByUserId(userId);
-      
-      // If no items, return empty array
-      if (items.length === 0) {
-        return res.json({ recipes: [] });
+      const foodItem = await storage.getFoodItem(id);
+      const lot = await storage.getFoodItemLot(lotId);
+      if (!foodItem || !lot || lot.foodItemId !== foodItem.id) {
+        return res.status(404).json({ message: "Lot not found" });
       }
       
-      // Add expiration status to each item
-      const itemsWithStatus: FoodItemWithStatus[] = items.map(item => {
-        const expirationDate = new Date(item.expirationDate);
-        const today = new Date();
-        const daysUntilExpiration = differenceInDays(expirationDate, today);
-        
-        let status: 'expired' | 'expiring-soon' | 'fresh';
-        if (!isAfter(expirationDate, today)) {
-          status = 'expired';
-        } else if (daysUntilExpiration <= 3) {
-          status = 'expiring-soon';
-        } else {
-          status = 'fresh';
-        }
-        
-        return {
-          ...item,
-          status,
-          daysUntilExpiration
-        };
-      });
-      
-      // Get priority parameter (whether to prioritize expiring items)
-      const useExpiring = req.query.expiring !== 'false';
-      
-      // Get limit parameter (number of recipes to generate)
-      const limit = parseInt(req.query.limit as string) || 3;
-      
-      // Generate AI recipe suggestions
-      const suggestions = await aiService.generateRecipeSuggestions(
-        itemsWithStatus,
-        useExpiring, 
-        Math.min(limit, 5) // Cap at 5 recipes max
-      );
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to update this food item" });
+      }
       
-      res.json(suggestions);
+      await storage.deleteFoodItemLot(lotId);
+      const updatedItem = await lotService.syncItem(foodItem);
+      await itemEventService.recordChanges(foodItem, updatedItem, "edited", req.user!.id);
+      res.json(updatedItem);
     } catch (error) {
-      console.error("Error generating AI recipe suggestions:", error);
-      res.status(500).json({ 
-        message: "Failed to generate recipe suggestions",
-        error: (error as Error).message
-      });
+      console.error("Error deleting lot:", error);
+      res.status(500).json({ message: "Failed to delete lot" });
     }
   });
   
-  // Generate detailed AI recipe based on selected ingredients
-  apiRouter.post("/recipe-details", async (req: Request, res: Response) => {
+  // Mark an item as opened, which can bring its expiration forward
+  apiRouter.post("/food-items/:id/open", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const foodItem = await storage.getFoodItem(id);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to update this food item" });
+      }
+      
+      const validation = z.object({ openedDate: isoDate.optional() }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      // A plain date is the user's calendar day, not midnight UTC
+      const openedDate = validation.data.openedDate ? parseISO(validation.data.openedDate) : new Date();
+      
+      const openedShelfLife = await shelfLifeService.getOpenedShelfLife(foodItem.householdId, foodItem.name, foodItem.category, foodItem.storageLocation);
+      const updatedItem = await storage.updateFoodItem(id, {
+        openedDate: format(openedDate, 'yyyy-MM-dd'),
+        openedExpirationDate: openedShelfLife ? format(addDays(openedDate, openedShelfLife.days), 'yyyy-MM-dd') : null,
+      });
+      if (!updatedItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      await itemEventService.recordChanges(foodItem, updatedItem, "opened", req.user!.id);
+      
+      res.json({
+        ...withExpirationStatus(updatedItem),
+        openedShelfLife
+      });
+    } catch (error) {
+      console.error("Error marking food item as opened:", error);
+      res.status(500).json({ message: "Failed to mark food item as opened" });
+    }
+  });
+  
+  // Undo marking an item as opened
+  apiRouter.delete("/food-items/:id/open", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const foodItem = await storage.getFoodItem(id);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to update this food item" });
+      }
+      
+      const updatedItem = await storage.updateFoodItem(id, { openedDate: null, openedExpirationDate: null });
+      if (!updatedItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      await itemEventService.recordChanges(foodItem, updatedItem, "edited", req.user!.id);
+      
+      res.json(withExpirationStatus(updatedItem));
+    } catch (error) {
+      console.error("Error clearing opened state:", error);
+      res.status(500).json({ message: "Failed to clear opened state" });
+    }
+  });
+  
+  // Move an item to another storage location, recalculating when it expires
+  apiRouter.post("/food-items/:id/move", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const validation = z.object({
+        storageLocation: z.string().trim().min(1),
+        movedDate: isoDate.optional(),
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      // A plain date is the user's calendar day, not midnight UTC
+      const movedDate = validation.data.movedDate ? parseISO(validation.data.movedDate) : new Date();
+      
+      const foodItem = await storage.getFoodItem(id);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to update this food item" });
+      }
+      
+      if (foodItem.storageLocation === validation.data.storageLocation) {
+        return res.status(400).json({ message: `Item is already in the ${foodItem.storageLocation}` });
+      }
+      
+      const invalidLocation = await categoryService.validateItem(foodItem.householdId, { storageLocation: validation.data.storageLocation });
+      if (invalidLocation) {
+        return res.status(400).json({ message: invalidLocation });
+      }
+      
+      const { item, move } = await storageMoveService.moveItem(
+        foodItem,
+        validation.data.storageLocation,
+        movedDate,
+        membership.householdId,
+        req.user!.id
+      );
+      await itemEventService.recordChanges(foodItem, item, "moved", req.user!.id, {
+        fromLocation: move.fromLocation,
+        toLocation: move.toLocation
+      });
+      
+      res.json({
+        ...withExpirationStatus(item),
+        lots: await lotService.getLots(item),
+        move
+      });
+    } catch (error) {
+      console.error("Error moving food item:", error);
+      res.status(500).json({ message: "Failed to move food item" });
+    }
+  });
+  
+  // Everything that has happened to an item, most recent first
+  apiRouter.get("/food-items/:id/events", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      // Trashed items keep their history
+      const foodItem = await storage.getFoodItem(id, true);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership) {
+        return res.status(403).json({ message: "You don't have permission to access this food item" });
+      }
+      
+      const events = await itemEventService.getTimeline(foodItem.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching food item history:", error);
+      res.status(500).json({ message: "Failed to fetch food item history" });
+    }
+  });
+  
+  // Nutrition per 100 g, from the item's own values or the bundled dataset; null when neither has any
+  apiRouter.get("/food-items/:id/nutrition", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const foodItem = await storage.getFoodItem(id);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership) {
+        return res.status(403).json({ message: "You don't have permission to access this food item" });
+      }
+      
+      res.json(await nutritionService.getItemNutrition(foodItem));
+    } catch (error) {
+      console.error("Error fetching food item nutrition:", error);
+      res.status(500).json({ message: "Failed to fetch food item nutrition" });
+    }
+  });
+  
+  // Where an item has been kept, most recent move first
+  apiRouter.get("/food-items/:id/moves", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const foodItem = await storage.getFoodItem(id);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership) {
+        return res.status(403).json({ message: "You don't have permission to access this food item" });
+      }
+      
+      const moves = await storageMoveService.getHistory(foodItem.id);
+      res.json(moves);
+    } catch (error) {
+      console.error("Error fetching storage moves:", error);
+      res.status(500).json({ message: "Failed to fetch storage moves" });
+    }
+  });
+  
+  apiRouter.delete("/food-items/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      // Get the food item to check if it belongs to the authenticated user
+      const foodItem = await storage.getFoodItem(id);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      // Make sure the user may change the household the food item belongs to
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to delete this food item" });
+      }
+      
+      // Deleting moves the item to the trash; it's purged for good after the household's retention period
+      const trashed = await storage.trashFoodItem(id);
+      if (!trashed) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      await itemEventService.record(trashed, "deleted", req.user!.id, {
+        quantity: trashed.quantity,
+        unit: trashed.unit
+      });
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting food item:", error);
+      res.status(500).json({ message: "Failed to delete food item" });
+    }
+  });
+  
+  // Take an item back out of the trash
+  apiRouter.post("/food-items/:id/restore", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const foodItem = await storage.getFoodItem(id, true);
+      if (!foodItem || !foodItem.deletedAt) {
+        return res.status(404).json({ message: "Food item not found in the trash" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to restore this food item" });
+      }
+      
+      const restored = await storage.restoreFoodItem(id);
+      if (!restored) {
+        return res.status(404).json({ message: "Food item not found in the trash" });
+      }
+      await itemEventService.record(restored, "restored", req.user!.id, {
+        quantity: restored.quantity,
+        unit: restored.unit
+      });
+      
+      res.json(withExpirationStatus(restored));
+    } catch (error) {
+      console.error("Error restoring food item:", error);
+      res.status(500).json({ message: "Failed to restore food item" });
+    }
+  });
+  
+  // Permanently delete an item in the trash, along with its consumption and waste records
+  apiRouter.delete("/food-items/:id/purge", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const foodItem = await storage.getFoodItem(id, true);
+      if (!foodItem || !foodItem.deletedAt) {
+        return res.status(404).json({ message: "Food item not found in the trash" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to delete this food item" });
+      }
+      
+      const success = await trashService.purge(foodItem);
+      if (!success) {
+        return res.status(404).json({ message: "Food item not found in the trash" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error purging food item:", error);
+      res.status(500).json({ message: "Failed to delete food item" });
+    }
+  });
+  
+  // Product catalog lookup for scanned barcodes
+  apiRouter.get("/product-catalog/:barcode", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      if (!productCatalogService.normalizeBarcode(req.params.barcode)) {
+        return res.status(400).json({ message: "Invalid barcode" });
+      }
+      
+      const purchaseDate = req.query.purchaseDate ? new Date(req.query.purchaseDate as string) : new Date();
+      if (isNaN(purchaseDate.getTime())) {
+        return res.status(400).json({ message: "Invalid purchase date" });
+      }
+      
+      const product = await productCatalogService.lookup(req.params.barcode, purchaseDate);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      res.json(product);
+    } catch (error) {
+      console.error("Error looking up product:", error);
+      res.status(500).json({ message: "Failed to look up product" });
+    }
+  });
+  
+  // Expiration date suggestion from the shelf-life knowledge base
+  apiRouter.get("/shelf-life/suggestion", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const validation = z.object({
+        name: z.string().default(""),
+        category: z.string().min(1),
+        storageLocation: z.string().min(1),
+        purchaseDate: z.string().optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const { name, category, storageLocation } = validation.data;
+      const purchaseDate = validation.data.purchaseDate ? new Date(validation.data.purchaseDate) : new Date();
+      if (isNaN(purchaseDate.getTime())) {
+        return res.status(400).json({ message: "Invalid purchase date" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const suggestion = await shelfLifeService.suggest(membership.householdId, name, category, storageLocation, purchaseDate);
+      res.json(suggestion);
+    } catch (error) {
+      console.error("Error suggesting shelf life:", error);
+      res.status(500).json({ message: "Failed to suggest an expiration date" });
+    }
+  });
+
+  // Categories and storage locations: the built-in ones plus the household's own
+  const customCategoryInput = z.object({
+    name: z.string().trim().min(1).max(40),
+    icon: z.enum(CUSTOM_ICONS),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex code like #22c55e"),
+  });
+  
+  apiRouter.get("/categories", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      res.json(await categoryService.getCategories(membership.householdId));
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+  
+  apiRouter.post("/categories", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Viewers cannot add categories to this household" });
+      }
+      
+      const validation = customCategoryInput.extend({ baseCategory: z.enum(FOOD_CATEGORIES) }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const category = await categoryService.createCategory(membership.householdId, validation.data);
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating category:", error);
+      res.status(500).json({ message: "Failed to create category" });
+    }
+  });
+  
+  apiRouter.patch("/categories/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const category = await storage.getCustomCategory(id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      const membership = await storage.getHouseholdMember(category.householdId, req.user!.id);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change this category" });
+      }
+      
+      const validation = customCategoryInput.extend({ baseCategory: z.enum(FOOD_CATEGORIES) }).partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const updated = await categoryService.updateCategory(category, validation.data);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating category:", error);
+      res.status(500).json({ message: "Failed to update category" });
+    }
+  });
+  
+  // Items in the category move to the built-in category it was based on
+  apiRouter.delete("/categories/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const category = await storage.getCustomCategory(id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      const membership = await storage.getHouseholdMember(category.householdId, req.user!.id);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to delete this category" });
+      }
+      
+      await storage.deleteCustomCategory(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      res.status(500).json({ message: "Failed to delete category" });
+    }
+  });
+  
+  apiRouter.get("/storage-locations", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      res.json(await categoryService.getLocations(membership.householdId));
+    } catch (error) {
+      console.error("Error fetching storage locations:", error);
+      res.status(500).json({ message: "Failed to fetch storage locations" });
+    }
+  });
+  
+  apiRouter.post("/storage-locations", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Viewers cannot add storage locations to this household" });
+      }
+      
+      const validation = customCategoryInput.extend({ baseLocation: z.enum(STORAGE_LOCATIONS) }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const location = await categoryService.createLocation(membership.householdId, validation.data);
+      res.status(201).json(location);
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating storage location:", error);
+      res.status(500).json({ message: "Failed to create storage location" });
+    }
+  });
+  
+  apiRouter.patch("/storage-locations/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const location = await storage.getCustomStorageLocation(id);
+      if (!location) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      
+      const membership = await storage.getHouseholdMember(location.householdId, req.user!.id);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change this storage location" });
+      }
+      
+      const validation = customCategoryInput.extend({ baseLocation: z.enum(STORAGE_LOCATIONS) }).partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const updated = await categoryService.updateLocation(location, validation.data);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating storage location:", error);
+      res.status(500).json({ message: "Failed to update storage location" });
+    }
+  });
+  
+  // Items kept there move to the built-in location it was based on
+  apiRouter.delete("/storage-locations/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const location = await storage.getCustomStorageLocation(id);
+      if (!location) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      
+      const membership = await storage.getHouseholdMember(location.householdId, req.user!.id);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to delete this storage location" });
+      }
+      
+      await storage.deleteCustomStorageLocation(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting storage location:", error);
+      res.status(500).json({ message: "Failed to delete storage location" });
+    }
+  });
+  
+  // Recipes, with the allergens they contain and how they clash with the household's dietary restrictions
+  apiRouter.get("/recipes", async (req: Request, res: Response) => {
+    try {
+      const restrictions = req.isAuthenticated()
+        ? await dietaryService.getRestrictions((await getActiveMembership(req)).householdId)
+        : noDietaryRestrictions();
+      const recipes = await storage.getAllRecipes();
+      res.json(recipes.map(recipe => dietaryService.annotateRecipe(recipe, restrictions)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve recipes" });
+    }
+  });
+  
+  apiRouter.get("/recipes/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const recipe = await storage.getRecipe(id);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      
+      const restrictions = req.isAuthenticated()
+        ? await dietaryService.getRestrictions((await getActiveMembership(req)).householdId)
+        : noDietaryRestrictions();
+      res.json(dietaryService.annotateRecipe(recipe, restrictions));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to retrieve recipe" });
+    }
+  });
+  
+  // AI Recipe suggestions based on food items
+  apiRouter.get("/recipe-suggestions", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      // Check if OpenAI is configured
+      if (!aiService.isConfigured()) {
+        return res.status(503).json({ message: "AI recipe suggestions are not available at the moment" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      
+      // Get the household's food items with expiration status
+      const items = await storage.getFoodItemsByHouseholdId(membership.householdId);
+      
+      // If no items, return empty array
+      if (items.length === 0) {
+        return res.json({ recipes: [] });
+      }
+      
+      // Add expiration status to each item
+      const today = new Date();
+      const itemsWithStatus: FoodItemWithStatus[] = items.map(item => withExpirationStatus(item, today));
+      
+      // Get priority parameter (whether to prioritize expiring items)
+      const useExpiring = req.query.expiring !== 'false';
+      
+      // Get limit parameter (number of recipes to generate)
+      const limit = parseInt(req.query.limit as string) || 3;
+      
+      // Generate AI recipe suggestions that respect everyone's dietary profile
+      const restrictions = await dietaryService.getRestrictions(membership.householdId);
+      const suggestions = await aiService.generateRecipeSuggestions(
+        itemsWithStatus,
+        useExpiring, 
+        Math.min(limit, 5), // Cap at 5 recipes max
+        restrictions
+      );
+      
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error generating AI recipe suggestions:", error);
+      res.status(500).json({ 
+        message: "Failed to generate recipe suggestions",
+        error: (error as Error).message
+      });
+    }
+  });
+  
+  // Generate detailed AI recipe based on selected ingredients
+  apiRouter.post("/recipe-details", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Not authenticated" });
@@ -322,426 +1393,1537 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(503).json({ message: "AI recipe generation is not available at the moment" });
       }
       
-      const { ingredients, dietary } = req.body;
+      const { ingredients, dietary } = req.body;
+      
+      if (!ingredients || !Array.isArray(ingredients) || ingredients.length === 0) {
+        return res.status(400).json({ message: "At least one ingredient is required" });
+      }
+      
+      // Generate detailed recipe
+      const membership = await getActiveMembership(req);
+      const restrictions = await dietaryService.getRestrictions(membership.householdId);
+      const recipe = await aiService.generateDetailedRecipe(ingredients, dietary, restrictions);
+      
+      res.json(recipe);
+    } catch (error) {
+      console.error("Error generating detailed recipe:", error);
+      res.status(500).json({ 
+        message: "Failed to generate detailed recipe",
+        error: (error as Error).message
+      });
+    }
+  });
+  
+  // Waste Entries
+  apiRouter.post("/waste-entries", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const validation = insertWasteEntrySchema.omit({ userId: true, householdId: true }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid waste entry data", 
+          errors: validation.error.format() 
+        });
+      }
+      
+      // Waste entries belong to the household of the wasted item
+      const foodItem = await storage.getFoodItem(validation.data.foodItemId);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to record waste for this food item" });
+      }
+      
+      // The wasted amount has to come out of the item's stock in the item's own unit
+      const wastedQuantity = convertQuantity(validation.data.quantity, validation.data.unit, foodItem.unit, foodItem.unitWeight);
+      if (wastedQuantity === null) {
+        return res.status(400).json({
+          message: `Can't convert ${validation.data.unit} to ${foodItem.unit}. Set a weight per item or package on this item first.`
+        });
+      }
+      
+      // Estimate the wasted weight from the item's unit weight when none was given
+      const wasteWeight = validation.data.wasteWeight
+        ?? estimateWeightKg(validation.data.quantity, validation.data.unit, foodItem.unitWeight);
+      
+      // Value the wasted portion at the item's price unless a value was given
+      const estimatedValue = validation.data.estimatedValue
+        ?? estimateValue(foodItem, validation.data.quantity, validation.data.unit);
+      
+      // Add the user and household from the authenticated session
+      const newEntry = await storage.createWasteEntry({
+        ...validation.data,
+        wasteWeight,
+        estimatedValue,
+        currency: estimatedValue !== null ? foodItem.currency : null,
+        userId: req.user!.id,
+        householdId: membership.householdId
+      });
+      
+      // Take the wasted amount out of the oldest lots
+      const updatedItem = await lotService.drawDown(foodItem, wastedQuantity);
+      await itemEventService.recordChanges(foodItem, updatedItem, "wasted", req.user!.id, {
+        quantity: newEntry.quantity,
+        unit: newEntry.unit,
+        ...(newEntry.reason ? { reason: newEntry.reason } : {})
+      });
+      res.status(201).json(newEntry);
+    } catch (error) {
+      console.error("Error creating waste entry:", error);
+      res.status(500).json({ message: "Failed to create waste entry" });
+    }
+  });
+  
+  // The signed-in user's own waste in the active household
+  apiRouter.get("/waste-entries", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const entries = await storage.getWasteEntriesByUserId(membership.householdId, req.user!.id);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waste entries:", error);
+      res.status(500).json({ message: "Failed to retrieve waste entries" });
+    }
+  });
+  
+  // Correct one of your own waste entries. Only the log changes: the food is gone either way,
+  // so the item's stock isn't adjusted
+  apiRouter.patch("/waste-entries/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const validation = insertWasteEntrySchema
+        .pick({ quantity: true, unit: true, wasteWeight: true, wasteDate: true, reason: true })
+        .partial()
+        .safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const entry = await storage.getWasteEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Waste entry not found" });
+      }
+      if (entry.userId !== req.user!.id) {
+        return res.status(403).json({ message: "You can only change your own waste entries" });
+      }
+      
+      // Former members keep their user ID on the entry but no longer have a say in the household's insights
+      const membership = await householdService.getMembershipForRecord(req.user!, entry);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change waste entries in this household" });
+      }
+      
+      // A new amount needs a new weight and value, unless a weight was given with it
+      const updates: Partial<InsertWasteEntry> = { ...validation.data };
+      if (updates.quantity !== undefined || updates.unit !== undefined) {
+        const quantity = updates.quantity ?? entry.quantity;
+        const unit = updates.unit ?? entry.unit;
+        const foodItem = entry.foodItemId !== null ? await storage.getFoodItem(entry.foodItemId, true) : undefined;
+        updates.wasteWeight ??= estimateWeightKg(quantity, unit, foodItem?.unitWeight);
+        if (foodItem) {
+          updates.estimatedValue = estimateValue(foodItem, quantity, unit);
+          updates.currency = updates.estimatedValue !== null ? foodItem.currency : null;
+        }
+      }
+      
+      const updatedEntry = await storage.updateWasteEntry(id, updates);
+      res.json(updatedEntry);
+    } catch (error) {
+      console.error("Error updating waste entry:", error);
+      res.status(500).json({ message: "Failed to update waste entry" });
+    }
+  });
+  
+  // Remove one of your own waste entries, e.g. one recorded by mistake
+  apiRouter.delete("/waste-entries/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const entry = await storage.getWasteEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Waste entry not found" });
+      }
+      if (entry.userId !== req.user!.id) {
+        return res.status(403).json({ message: "You can only delete your own waste entries" });
+      }
+      
+      // Former members keep their user ID on the entry but no longer have a say in the household's insights
+      const membership = await householdService.getMembershipForRecord(req.user!, entry);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to delete waste entries in this household" });
+      }
+      
+      await storage.deleteWasteEntry(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting waste entry:", error);
+      res.status(500).json({ message: "Failed to delete waste entry" });
+    }
+  });
+  
+  apiRouter.get("/waste-insights", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      // Default to last 6 months if not specified
+      const months = parseInt(req.query.months as string) || 6;
+      
+      const endDate = new Date();
+      const startDate = new Date();
+      startDate.setMonth(endDate.getMonth() - months);
+      
+      // Only the signed-in user's waste, not everyone's in the household
+      const membership = await getActiveMembership(req);
+      const entries = await storage.getWasteEntriesByDateRange(membership.householdId, startDate, endDate, req.user!.id);
+      
+      // Group by month
+      const monthlyData: Record<string, number> = {};
+      
+      for (let i = 0; i < months; i++) {
+        const date = new Date();
+        date.setMonth(endDate.getMonth() - i);
+        const monthKey = `${date.getFullYear()}-${date.getMonth() + 1}`;
+        monthlyData[monthKey] = 0;
+      }
+      
+      // Calculate waste weight per month
+      entries.forEach(entry => {
+        const wasteDate = new Date(entry.wasteDate);
+        const monthKey = `${wasteDate.getFullYear()}-${wasteDate.getMonth() + 1}`;
+        
+        // Use wasteWeight if available, otherwise estimate based on quantity
+        const weight = entry.wasteWeight || estimateWeightKg(entry.quantity, entry.unit);
+        
+        if (monthlyData[monthKey] !== undefined) {
+          monthlyData[monthKey] += weight;
+        }
+      });
+      
+      // Format for chart display
+      const labels = Object.keys(monthlyData)
+        .sort()
+        .map(key => {
+          const [year, month] = key.split('-').map(Number);
+          return new Date(year, month - 1).toLocaleString('default', { month: 'short' });
+        });
+      
+      const data = Object.keys(monthlyData)
+        .sort()
+        .map(key => parseFloat(monthlyData[key].toFixed(2)));
+      
+      // Calculate trend
+      let trend = 0;
+      if (data.length >= 2) {
+        const latest = data[data.length - 1];
+        const previous = data[data.length - 2];
+        
+        if (previous > 0) {
+          trend = ((latest - previous) / previous) * 100;
+        }
+      }
+      
+      res.json({
+        labels,
+        data,
+        trend: parseFloat(trend.toFixed(2))
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate waste insights" });
+    }
+  });
+  
+  // Consumption Entries
+  apiRouter.post("/consumption-entries", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      console.log("Received consumption entry data:", req.body);
+      
+      const validation = insertConsumptionEntrySchema.safeParse(req.body);
+      if (!validation.success) {
+        console.error("Validation error:", validation.error.format());
+        return res.status(400).json({ 
+          message: "Invalid consumption entry data", 
+          errors: validation.error.format() 
+        });
+      }
+      
+      // Consumption entries belong to the household of the consumed item
+      const foodItem = await storage.getFoodItem(validation.data.foodItemId);
+      if (!foodItem) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, foodItem);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to record consumption for this food item" });
+      }
+      
+      // The consumed amount has to come out of the item's stock in the item's own unit
+      const consumedQuantity = convertQuantity(validation.data.quantity, validation.data.unit, foodItem.unit, foodItem.unitWeight);
+      if (consumedQuantity === null) {
+        return res.status(400).json({
+          message: `Can't convert ${validation.data.unit} to ${foodItem.unit}. Set a weight per item or package on this item first.`
+        });
+      }
+      
+      // Value the consumed portion at the item's price unless a value was given
+      const estimatedValue = validation.data.estimatedValue
+        ?? estimateValue(foodItem, validation.data.quantity, validation.data.unit);
+      
+      // Add the user and household from the authenticated session
+      const entryData = {
+        ...validation.data,
+        estimatedValue,
+        currency: estimatedValue !== null ? foodItem.currency : null,
+        userId: req.user!.id,
+        householdId: membership.householdId
+      };
+      
+      console.log("Validated entry data:", entryData);
+      
+      const newEntry = await storage.createConsumptionEntry(entryData);
+      
+      // Take the consumed amount out of the oldest lots
+      const updatedItem = await lotService.drawDown(foodItem, consumedQuantity);
+      await itemEventService.recordChanges(foodItem, updatedItem, "consumed", req.user!.id, {
+        quantity: newEntry.quantity,
+        unit: newEntry.unit
+      });
+      
+      res.status(201).json(newEntry);
+    } catch (error) {
+      console.error("Error creating consumption entry:", error);
+      res.status(500).json({ message: "Failed to create consumption entry" });
+    }
+  });
+  
+  apiRouter.get("/consumption-entries", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const entries = await storage.getConsumptionEntriesByHouseholdId(membership.householdId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching consumption entries:", error);
+      res.status(500).json({ message: "Failed to retrieve consumption entries" });
+    }
+  });
+  
+  apiRouter.get("/consumption-insights", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      // Default to last 6 months if not specified
+      const months = parseInt(req.query.months as string) || 6;
+      
+      const endDate = new Date();
+      const startDate = new Date();
+      startDate.setMonth(endDate.getMonth() - months);
+      
+      const membership = await getActiveMembership(req);
+      const entries = await storage.getConsumptionEntriesByDateRange(membership.householdId, startDate, endDate);
+      
+      // Money is only added up in one currency, the one most of it was recorded in
+      const currency = getMainCurrency(totalByCurrency(entries));
+      
+      // Group by month
+      const monthlyData: Record<string, { count: number, value: number }> = {};
+      
+      for (let i = 0; i < months; i++) {
+        const date = new Date();
+        date.setMonth(endDate.getMonth() - i);
+        const monthKey = `${date.getFullYear()}-${date.getMonth() + 1}`;
+        monthlyData[monthKey] = { count: 0, value: 0 };
+      }
+      
+      // Calculate consumption per month
+      entries.forEach(entry => {
+        const consumptionDate = new Date(entry.consumptionDate);
+        const monthKey = `${consumptionDate.getFullYear()}-${consumptionDate.getMonth() + 1}`;
+        
+        if (monthlyData[monthKey] !== undefined) {
+          monthlyData[monthKey].count += 1;
+          if (entry.currency === currency) {
+            monthlyData[monthKey].value += (entry.estimatedValue || 0);
+          }
+        }
+      });
+      
+      // Format for chart display
+      const labels = Object.keys(monthlyData)
+        .sort()
+        .map(key => {
+          const [year, month] = key.split('-').map(Number);
+          return new Date(year, month - 1).toLocaleString('default', { month: 'short' });
+        });
+      
+      const countData = Object.keys(monthlyData)
+        .sort()
+        .map(key => monthlyData[key].count);
+        
+      const valueData = Object.keys(monthlyData)
+        .sort()
+        .map(key => parseFloat(monthlyData[key].value.toFixed(2)));
+      
+      // Calculate trend for consumption value
+      let trend = 0;
+      if (valueData.length >= 2) {
+        const latest = valueData[valueData.length - 1];
+        const previous = valueData[valueData.length - 2];
+        
+        if (previous > 0) {
+          trend = ((latest - previous) / previous) * 100;
+        }
+      }
+      
+      res.json({
+        labels,
+        countData,
+        valueData,
+        currency,
+        trend: parseFloat(trend.toFixed(2))
+      });
+    } catch (error) {
+      console.error("Error calculating consumption insights:", error);
+      res.status(500).json({ message: "Failed to calculate consumption insights" });
+    }
+  });
+  
+  // Meal Plan endpoints
+  apiRouter.get("/meal-plans", async (req: Request, res: Response) => {
+    try {
+      // Make sure the user is authenticated
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const mealPlans = await storage.getMealPlansByHouseholdId(membership.householdId);
+      
+      res.json(mealPlans);
+    } catch (error) {
+      console.error("Error fetching meal plans:", error);
+      res.status(500).json({ error: "Failed to fetch meal plans" });
+    }
+  });
+  
+  apiRouter.get("/meal-plans/date-range", async (req: Request, res: Response) => {
+    try {
+      // Make sure the user is authenticated
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const { startDate, endDate } = req.query;
+      
+      if (!startDate || !endDate) {
+        return res.status(400).json({ error: "Start date and end date are required" });
+      }
+      
+      const start = new Date(startDate as string);
+      const end = new Date(endDate as string);
+      
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        return res.status(400).json({ error: "Invalid date format" });
+      }
+      
+      const mealPlans = await storage.getMealPlansByDateRange(membership.householdId, start, end);
+      
+      res.json(mealPlans);
+    } catch (error) {
+      console.error("Error fetching meal plans by date range:", error);
+      res.status(500).json({ error: "Failed to fetch meal plans" });
+    }
+  });
+  
+  // Estimated nutrition of the meals planned between two dates, by meal, by day and in total
+  apiRouter.get("/meal-plans/nutrition", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const validation = z.object({
+        startDate: isoDate,
+        endDate: isoDate,
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: formatZodError(validation.error) });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const mealPlans = await storage.getMealPlansByDateRange(
+        membership.householdId,
+        new Date(validation.data.startDate),
+        new Date(validation.data.endDate)
+      );
+      
+      res.json(await nutritionService.summarize(mealPlans, membership.householdId));
+    } catch (error) {
+      console.error("Error estimating meal plan nutrition:", error);
+      res.status(500).json({ error: "Failed to estimate meal plan nutrition" });
+    }
+  });
+  
+  apiRouter.get("/meal-plans/:id", async (req: Request, res: Response) => {
+    try {
+      // Make sure the user is authenticated
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const mealPlanId = parseInt(req.params.id);
+      
+      if (isNaN(mealPlanId)) {
+        return res.status(400).json({ error: "Invalid meal plan ID" });
+      }
+      
+      const mealPlan = await storage.getMealPlan(mealPlanId);
+      
+      if (!mealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
+      
+      // Make sure the meal plan belongs to one of the user's households
+      const membership = await householdService.getMembershipForRecord(req.user!, mealPlan);
+      if (!membership) {
+        return res.status(403).json({ error: "Not authorized to access this meal plan" });
+      }
+      
+      res.json(mealPlan);
+    } catch (error) {
+      console.error("Error fetching meal plan:", error);
+      res.status(500).json({ error: "Failed to fetch meal plan" });
+    }
+  });
+  
+  apiRouter.post("/meal-plans", async (req: Request, res: Response) => {
+    try {
+      // Make sure the user is authenticated
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const userId = req.user!.id;
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ error: "Viewers cannot add meal plans to this household" });
+      }
+      
+      // Validate the meal plan data using the insert schema
+      const validation = insertMealPlanSchema.safeParse({
+        ...req.body,
+        userId,
+        householdId: membership.householdId
+      });
+      
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid meal plan data", 
+          details: formatZodError(validation.error)
+        });
+      }
+      
+      // Create the meal plan
+      const mealPlan = await storage.createMealPlan(validation.data);
+      
+      res.status(201).json(mealPlan);
+    } catch (error) {
+      console.error("Error creating meal plan:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: formatZodError(error) });
+      }
+      res.status(500).json({ error: "Failed to create meal plan" });
+    }
+  });
+  
+  apiRouter.patch("/meal-plans/:id", async (req: Request, res: Response) => {
+    try {
+      // Make sure the user is authenticated
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const mealPlanId = parseInt(req.params.id);
+      
+      if (isNaN(mealPlanId)) {
+        return res.status(400).json({ error: "Invalid meal plan ID" });
+      }
+      
+      // Get the current meal plan
+      const existingMealPlan = await storage.getMealPlan(mealPlanId);
+      
+      if (!existingMealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
+      
+      // Make sure the user may change meal plans in the plan's household
+      const membership = await householdService.getMembershipForRecord(req.user!, existingMealPlan);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ error: "Not authorized to update this meal plan" });
+      }
+      
+      // Update the meal plan; ownership fields cannot be changed here
+      const { userId: _userId, householdId: _householdId, ...updates } = req.body;
+      const updatedMealPlan = await storage.updateMealPlan(mealPlanId, updates);
+      
+      res.json(updatedMealPlan);
+    } catch (error) {
+      console.error("Error updating meal plan:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: formatZodError(error) });
+      }
+      res.status(500).json({ error: "Failed to update meal plan" });
+    }
+  });
+  
+  apiRouter.delete("/meal-plans/:id", async (req: Request, res: Response) => {
+    try {
+      // Make sure the user is authenticated
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const mealPlanId = parseInt(req.params.id);
+      
+      if (isNaN(mealPlanId)) {
+        return res.status(400).json({ error: "Invalid meal plan ID" });
+      }
+      
+      // Get the current meal plan
+      const existingMealPlan = await storage.getMealPlan(mealPlanId);
+      
+      if (!existingMealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
+      
+      // Make sure the user may change meal plans in the plan's household
+      const membership = await householdService.getMembershipForRecord(req.user!, existingMealPlan);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ error: "Not authorized to delete this meal plan" });
+      }
+      
+      // Delete the meal plan
+      const success = await storage.deleteMealPlan(mealPlanId);
+      
+      if (success) {
+        res.status(204).end();
+      } else {
+        res.status(500).json({ error: "Failed to delete meal plan" });
+      }
+    } catch (error) {
+      console.error("Error deleting meal plan:", error);
+      res.status(500).json({ error: "Failed to delete meal plan" });
+    }
+  });
+  
+  // Leftovers of a cooked meal plan entry
+  const leftoversInput = z.object({
+    name: z.string().trim().max(100).optional(),
+    quantity: z.number().positive("Quantity must be greater than 0"),
+    unit: z.enum(QUANTITY_UNITS),
+    storageLocation: z.string().trim().min(1),
+    cookedDate: isoDate.optional(),
+    expirationDate: isoDate.optional(),
+  });
+  
+  apiRouter.get("/meal-plans/:id/leftovers/suggestion", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const mealPlanId = parseInt(req.params.id);
+      if (isNaN(mealPlanId)) {
+        return res.status(400).json({ error: "Invalid meal plan ID" });
+      }
+      
+      const validation = leftoversInput.pick({ storageLocation: true, cookedDate: true }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ error: formatZodError(validation.error) });
+      }
+      
+      const mealPlan = await storage.getMealPlan(mealPlanId);
+      if (!mealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
+      
+      const membership = await householdService.getMembershipForRecord(req.user!, mealPlan);
+      if (!membership) {
+        return res.status(403).json({ error: "Not authorized to access this meal plan" });
+      }
+      
+      const { storageLocation, cookedDate } = validation.data;
+      res.json(await leftoverService.suggest(mealPlan, membership.householdId, storageLocation, cookedDate));
+    } catch (error) {
+      console.error("Error suggesting leftovers expiration:", error);
+      res.status(500).json({ error: "Failed to suggest an expiration date" });
+    }
+  });
+  
+  apiRouter.post("/meal-plans/:id/leftovers", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+      
+      const mealPlanId = parseInt(req.params.id);
+      if (isNaN(mealPlanId)) {
+        return res.status(400).json({ error: "Invalid meal plan ID" });
+      }
       
-      if (!ingredients || !Array.isArray(ingredients) || ingredients.length === 0) {
-        return res.status(400).json({ message: "At least one ingredient is required" });
+      const validation = leftoversInput.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: formatZodError(validation.error) });
       }
       
-      // Generate detailed recipe
-      const recipe = await aiService.generateDetailedRecipe(ingredients, dietary);
+      const mealPlan = await storage.getMealPlan(mealPlanId);
+      if (!mealPlan) {
+        return res.status(404).json({ error: "Meal plan not found" });
+      }
       
-      res.json(recipe);
+      // Leftovers go into the meal plan's household
+      const membership = await householdService.getMembershipForRecord(req.user!, mealPlan);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ error: "Not authorized to log leftovers for this meal plan" });
+      }
+      
+      const invalidLocation = await categoryService.validateItem(membership.householdId, validation.data);
+      if (invalidLocation) {
+        return res.status(400).json({ error: invalidLocation });
+      }
+      
+      const item = await leftoverService.logLeftovers(mealPlan, validation.data, membership.householdId, req.user!.id);
+      res.status(201).json(item);
     } catch (error) {
-      console.error("Error generating detailed recipe:", error);
-      res.status(500).json({ 
-        message: "Failed to generate detailed recipe",
-        error: (error as Error).message
+      console.error("Error logging leftovers:", error);
+      res.status(500).json({ error: "Failed to log leftovers" });
+    }
+  });
+  
+  // Shopping Lists
+  const shoppingListItemInput = z.object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    quantity: z.number().positive("Quantity must be greater than 0").optional(),
+    unit: z.enum(QUANTITY_UNITS).optional(),
+    category: z.string().trim().min(1).optional(),
+    storageLocation: z.string().trim().min(1).optional(),
+    notes: z.string().max(500).nullable().optional(),
+  });
+  
+  // Find a list and the requesting user's membership of its household
+  const getShoppingListForUser = async (req: Request, listId: number) => {
+    const list = await storage.getShoppingList(listId);
+    if (!list) {
+      return { list: undefined, membership: undefined };
+    }
+    const membership = await storage.getHouseholdMember(list.householdId, req.user!.id);
+    return { list, membership };
+  };
+  
+  apiRouter.get("/shopping-lists", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const lists = await storage.getShoppingLists(membership.householdId);
+      res.json(lists);
+    } catch (error) {
+      console.error("Error fetching shopping lists:", error);
+      res.status(500).json({ message: "Failed to retrieve shopping lists" });
+    }
+  });
+  
+  apiRouter.post("/shopping-lists", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Viewers cannot create shopping lists" });
+      }
+      
+      const validation = z.object({ name: z.string().trim().min(1, "Name is required").max(60) }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const list = await storage.createShoppingList({
+        name: validation.data.name,
+        householdId: membership.householdId,
+        userId: req.user!.id
       });
+      res.status(201).json({ ...list, items: [] });
+    } catch (error) {
+      console.error("Error creating shopping list:", error);
+      res.status(500).json({ message: "Failed to create shopping list" });
     }
   });
   
-  // Waste Entries
-  apiRouter.post("/waste-entries", async (req: Request, res: Response) => {
+  apiRouter.patch("/shopping-lists/:id", async (req: Request, res: Response) => {
     try {
-      const validation = insertWasteEntrySchema.safeParse(req.body);
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const { list, membership } = await getShoppingListForUser(req, id);
+      if (!list) {
+        return res.status(404).json({ message: "Shopping list not found" });
+      }
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change this shopping list" });
+      }
+      
+      const validation = z.object({ name: z.string().trim().min(1, "Name is required").max(60) }).safeParse(req.body);
       if (!validation.success) {
-        return res.status(400).json({ 
-          message: "Invalid waste entry data", 
-          errors: validation.error.format() 
-        });
+        return res.status(400).json({ message: formatZodError(validation.error) });
       }
       
-      const newEntry = await storage.createWasteEntry(validation.data);
-      res.status(201).json(newEntry);
+      const updatedList = await storage.updateShoppingList(id, { name: validation.data.name });
+      res.json(updatedList);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create waste entry" });
+      console.error("Error updating shopping list:", error);
+      res.status(500).json({ message: "Failed to update shopping list" });
     }
   });
   
-  apiRouter.get("/waste-insights", async (req: Request, res: Response) => {
+  apiRouter.delete("/shopping-lists/:id", async (req: Request, res: Response) => {
     try {
-      // Default to last 6 months if not specified
-      const months = parseInt(req.query.months as string) || 6;
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
       
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setMonth(endDate.getMonth() - months);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
       
-      const entries = await storage.getWasteEntriesByDateRange(startDate, endDate);
+      const { list, membership } = await getShoppingListForUser(req, id);
+      if (!list) {
+        return res.status(404).json({ message: "Shopping list not found" });
+      }
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to delete this shopping list" });
+      }
       
-      // Group by month
-      const monthlyData: Record<string, number> = {};
+      await storage.deleteShoppingList(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting shopping list:", error);
+      res.status(500).json({ message: "Failed to delete shopping list" });
+    }
+  });
+  
+  apiRouter.post("/shopping-lists/:id/items", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
       
-      for (let i = 0; i < months; i++) {
-        const date = new Date();
-        date.setMonth(endDate.getMonth() - i);
-        const monthKey = `${date.getFullYear()}-${date.getMonth() + 1}`;
-        monthlyData[monthKey] = 0;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      // Calculate waste weight per month
-      entries.forEach(entry => {
-        const wasteDate = new Date(entry.wasteDate);
-        const monthKey = `${wasteDate.getFullYear()}-${wasteDate.getMonth() + 1}`;
-        
-        // Use wasteWeight if available, otherwise estimate based on quantity
-        const weight = entry.wasteWeight || (entry.quantity * 0.25); // Rough estimate if weight not provided
-        
-        if (monthlyData[monthKey] !== undefined) {
-          monthlyData[monthKey] += weight;
-        }
-      });
+      const { list, membership } = await getShoppingListForUser(req, id);
+      if (!list) {
+        return res.status(404).json({ message: "Shopping list not found" });
+      }
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change this shopping list" });
+      }
+      
+      const validation = shoppingListItemInput.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const invalidCategory = await categoryService.validateItem(list.householdId, validation.data);
+      if (invalidCategory) {
+        return res.status(400).json({ message: invalidCategory });
+      }
+      
+      const item = await storage.createShoppingListItem({ ...validation.data, listId: id, source: "manual" });
+      res.status(201).json(item);
+    } catch (error) {
+      console.error("Error adding shopping list item:", error);
+      res.status(500).json({ message: "Failed to add shopping list item" });
+    }
+  });
+  
+  // Add what upcoming meals need and the inventory doesn't have
+  apiRouter.post("/shopping-lists/:id/generate", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const { list, membership } = await getShoppingListForUser(req, id);
+      if (!list) {
+        return res.status(404).json({ message: "Shopping list not found" });
+      }
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change this shopping list" });
+      }
+      
+      const validation = z.object({
+        days: z.number().int().min(1).max(31).default(DEFAULT_SHOPPING_DAYS)
+      }).safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const added = await shoppingListService.generateFromMealPlans(list, validation.data.days);
+      res.status(201).json(added);
+    } catch (error) {
+      console.error("Error generating shopping list:", error);
+      res.status(500).json({ message: "Failed to generate shopping list" });
+    }
+  });
+  
+  // Add everything checked off to the inventory
+  apiRouter.post("/shopping-lists/:id/checkout", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const { list, membership } = await getShoppingListForUser(req, id);
+      if (!list) {
+        return res.status(404).json({ message: "Shopping list not found" });
+      }
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to add items to this household" });
+      }
+      
+      const created = await shoppingListService.checkout(list, req.user!.id);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error checking out shopping list:", error);
+      res.status(500).json({ message: "Failed to check out shopping list" });
+    }
+  });
+  
+  apiRouter.patch("/shopping-list-items/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const item = await storage.getShoppingListItem(id);
+      if (!item) {
+        return res.status(404).json({ message: "Shopping list item not found" });
+      }
+      
+      const { list, membership } = await getShoppingListForUser(req, item.listId);
+      if (!list || !membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change this shopping list" });
+      }
+      
+      const validation = shoppingListItemInput.partial().extend({ checked: z.boolean().optional() }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const invalidCategory = await categoryService.validateItem(list.householdId, validation.data);
+      if (invalidCategory) {
+        return res.status(400).json({ message: invalidCategory });
+      }
+      
+      const updatedItem = await storage.updateShoppingListItem(id, validation.data);
+      res.json(updatedItem);
+    } catch (error) {
+      console.error("Error updating shopping list item:", error);
+      res.status(500).json({ message: "Failed to update shopping list item" });
+    }
+  });
+  
+  apiRouter.delete("/shopping-list-items/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const item = await storage.getShoppingListItem(id);
+      if (!item) {
+        return res.status(404).json({ message: "Shopping list item not found" });
+      }
+      
+      const { list, membership } = await getShoppingListForUser(req, item.listId);
+      if (!list || !membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change this shopping list" });
+      }
+      
+      await storage.deleteShoppingListItem(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting shopping list item:", error);
+      res.status(500).json({ message: "Failed to delete shopping list item" });
+    }
+  });
+  
+  // Par levels
+  const parLevelInput = z.object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    minQuantity: z.number().positive("Minimum quantity must be greater than 0"),
+    unit: z.enum(QUANTITY_UNITS),
+  });
+  
+  // Each staple has one par level per household, whatever the case of its name
+  const findParLevelByName = async (householdId: number, name: string) => {
+    const parLevels = await storage.getParLevels(householdId);
+    return parLevels.find(parLevel => normalizeStapleName(parLevel.name) === normalizeStapleName(name));
+  };
+  
+  apiRouter.get("/par-levels", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      const parLevels = await storage.getParLevels(membership.householdId);
+      const items = await storage.getFoodItemsByHouseholdId(membership.householdId);
+      
+      const today = new Date();
+      res.json(parLevels.map(parLevel => withStockStatus(parLevel, items, today)));
+    } catch (error) {
+      console.error("Error fetching par levels:", error);
+      res.status(500).json({ message: "Failed to fetch par levels" });
+    }
+  });
+  
+  apiRouter.post("/par-levels", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Viewers cannot set par levels for this household" });
+      }
+      
+      const validation = parLevelInput.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      if (await findParLevelByName(membership.householdId, validation.data.name)) {
+        return res.status(400).json({ message: `There is already a par level for ${validation.data.name}` });
+      }
+      
+      const parLevel = await storage.createParLevel({ ...validation.data, householdId: membership.householdId });
+      const items = await storage.getFoodItemsByHouseholdId(membership.householdId);
+      res.status(201).json(withStockStatus(parLevel, items));
+    } catch (error) {
+      console.error("Error creating par level:", error);
+      res.status(500).json({ message: "Failed to create par level" });
+    }
+  });
+  
+  apiRouter.patch("/par-levels/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
       
-      // Format for chart display
-      const labels = Object.keys(monthlyData)
-        .sort()
-        .map(key => {
-          const [year, month] = key.split('-').map(Number);
-          return new Date(year, month - 1).toLocaleString('default', { month: 'short' });
-        });
+      const parLevel = await storage.getParLevel(id);
+      if (!parLevel) {
+        return res.status(404).json({ message: "Par level not found" });
+      }
       
-      const data = Object.keys(monthlyData)
-        .sort()
-        .map(key => parseFloat(monthlyData[key].toFixed(2)));
+      const membership = await storage.getHouseholdMember(parLevel.householdId, req.user!.id);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to change this par level" });
+      }
       
-      // Calculate trend
-      let trend = 0;
-      if (data.length >= 2) {
-        const latest = data[data.length - 1];
-        const previous = data[data.length - 2];
-        
-        if (previous > 0) {
-          trend = ((latest - previous) / previous) * 100;
+      const validation = parLevelInput.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      if (validation.data.name) {
+        const existing = await findParLevelByName(parLevel.householdId, validation.data.name);
+        if (existing && existing.id !== id) {
+          return res.status(400).json({ message: `There is already a par level for ${validation.data.name}` });
         }
       }
       
-      res.json({
-        labels,
-        data,
-        trend: parseFloat(trend.toFixed(2))
-      });
+      const updated = await storage.updateParLevel(id, validation.data);
+      const items = await storage.getFoodItemsByHouseholdId(parLevel.householdId);
+      res.json(withStockStatus(updated!, items));
     } catch (error) {
-      res.status(500).json({ message: "Failed to calculate waste insights" });
+      console.error("Error updating par level:", error);
+      res.status(500).json({ message: "Failed to update par level" });
     }
   });
   
-  // Consumption Entries
-  apiRouter.post("/consumption-entries", async (req: Request, res: Response) => {
+  apiRouter.delete("/par-levels/:id", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      console.log("Received consumption entry data:", req.body);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
       
-      const validation = insertConsumptionEntrySchema.safeParse(req.body);
-      if (!validation.success) {
-        console.error("Validation error:", validation.error.format());
-        return res.status(400).json({ 
-          message: "Invalid consumption entry data", 
-          errors: validation.error.format() 
-        });
+      const parLevel = await storage.getParLevel(id);
+      if (!parLevel) {
+        return res.status(404).json({ message: "Par level not found" });
       }
       
-      // Add the user ID from the authenticated session
-      const entryData = {
-        ...validation.data,
-        userId: req.user!.id
-      };
+      const membership = await storage.getHouseholdMember(parLevel.householdId, req.user!.id);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to delete this par level" });
+      }
       
-      console.log("Validated entry data:", entryData);
+      await storage.deleteParLevel(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting par level:", error);
+      res.status(500).json({ message: "Failed to delete par level" });
+    }
+  });
+  
+  // Tags, for autocomplete and filtering
+  apiRouter.get("/tags", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
       
-      const newEntry = await storage.createConsumptionEntry(entryData);
-      res.status(201).json(newEntry);
+      const membership = await getActiveMembership(req);
+      res.json(await storage.getTags(membership.householdId));
     } catch (error) {
-      console.error("Error creating consumption entry:", error);
-      res.status(500).json({ message: "Failed to create consumption entry" });
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
     }
   });
   
-  apiRouter.get("/consumption-entries", async (req: Request, res: Response) => {
+  // Households
+  apiRouter.get("/households", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
-      const entries = await storage.getConsumptionEntriesByUserId(userId);
-      res.json(entries);
+      // Resolving the active membership also creates a personal household on first use
+      const activeMembership = await getActiveMembership(req);
+      const userHouseholds = await storage.getHouseholdsByUserId(req.user!.id);
+      
+      const result: HouseholdWithRole[] = userHouseholds.map(household => ({
+        ...household,
+        isActive: household.id === activeMembership.householdId
+      }));
+      
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching consumption entries:", error);
-      res.status(500).json({ message: "Failed to retrieve consumption entries" });
+      console.error("Error fetching households:", error);
+      res.status(500).json({ message: "Failed to retrieve households" });
     }
   });
   
-  apiRouter.get("/consumption-insights", async (req: Request, res: Response) => {
+  apiRouter.post("/households", async (req: Request, res: Response) => {
     try {
       if (!req.isAuthenticated()) {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      // Default to last 6 months if not specified
-      const months = parseInt(req.query.months as string) || 6;
+      const validation = z.object({ name: z.string().trim().min(1).max(80) }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
       
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setMonth(endDate.getMonth() - months);
+      const household = await householdService.createHousehold(req.user!, validation.data.name);
       
-      const userId = req.user!.id;
-      const entries = await storage.getConsumptionEntriesByDateRange(userId, startDate, endDate);
+      // Switch to the new household straight away
+      req.session.activeHouseholdId = household.id;
       
-      // Group by month
-      const monthlyData: Record<string, { count: number, value: number }> = {};
+      res.status(201).json(household);
+    } catch (error) {
+      console.error("Error creating household:", error);
+      res.status(500).json({ message: "Failed to create household" });
+    }
+  });
+  
+  apiRouter.patch("/households/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
       
-      for (let i = 0; i < months; i++) {
-        const date = new Date();
-        date.setMonth(endDate.getMonth() - i);
-        const monthKey = `${date.getFullYear()}-${date.getMonth() + 1}`;
-        monthlyData[monthKey] = { count: 0, value: 0 };
+      const householdId = parseInt(req.params.id);
+      if (isNaN(householdId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      // Calculate consumption per month
-      entries.forEach(entry => {
-        const consumptionDate = new Date(entry.consumptionDate);
-        const monthKey = `${consumptionDate.getFullYear()}-${consumptionDate.getMonth() + 1}`;
-        
-        if (monthlyData[monthKey] !== undefined) {
-          monthlyData[monthKey].count += 1;
-          monthlyData[monthKey].value += (entry.estimatedValue || 0);
-        }
-      });
+      const membership = await storage.getHouseholdMember(householdId, req.user!.id);
+      if (!membership || !householdService.canManage(membership.role)) {
+        return res.status(403).json({ message: "Only household owners can change household settings" });
+      }
       
-      // Format for chart display
-      const labels = Object.keys(monthlyData)
-        .sort()
-        .map(key => {
-          const [year, month] = key.split('-').map(Number);
-          return new Date(year, month - 1).toLocaleString('default', { month: 'short' });
-        });
+      const validation = z.object({
+        name: z.string().trim().min(1).max(80).optional(),
+        trashRetentionDays: z.number().int().min(1).max(365).optional(),
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
       
-      const countData = Object.keys(monthlyData)
-        .sort()
-        .map(key => monthlyData[key].count);
-        
-      const valueData = Object.keys(monthlyData)
-        .sort()
-        .map(key => parseFloat(monthlyData[key].value.toFixed(2)));
+      const household = await storage.updateHousehold(householdId, validation.data);
+      if (!household) {
+        return res.status(404).json({ message: "Household not found" });
+      }
       
-      // Calculate trend for consumption value
-      let trend = 0;
-      if (valueData.length >= 2) {
-        const latest = valueData[valueData.length - 1];
-        const previous = valueData[valueData.length - 2];
-        
-        if (previous > 0) {
-          trend = ((latest - previous) / previous) * 100;
-        }
+      res.json(household);
+    } catch (error) {
+      console.error("Error updating household:", error);
+      res.status(500).json({ message: "Failed to update household" });
+    }
+  });
+  
+  // Switch the household the session operates on
+  apiRouter.post("/households/:id/activate", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
       }
       
-      res.json({
-        labels,
-        countData,
-        valueData,
-        trend: parseFloat(trend.toFixed(2))
-      });
+      const householdId = parseInt(req.params.id);
+      if (isNaN(householdId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const membership = await storage.getHouseholdMember(householdId, req.user!.id);
+      if (!membership) {
+        return res.status(403).json({ message: "You are not a member of this household" });
+      }
+      
+      req.session.activeHouseholdId = householdId;
+      
+      res.json({ success: true, householdId });
     } catch (error) {
-      console.error("Error calculating consumption insights:", error);
-      res.status(500).json({ message: "Failed to calculate consumption insights" });
+      console.error("Error switching household:", error);
+      res.status(500).json({ message: "Failed to switch household" });
     }
   });
   
-  // Meal Plan endpoints
-  apiRouter.get("/meal-plans", async (req: Request, res: Response) => {
+  apiRouter.get("/households/:id/members", async (req: Request, res: Response) => {
     try {
-      // Make sure the user is authenticated
       if (!req.isAuthenticated()) {
-        return res.status(401).json({ error: "Not authenticated" });
+        return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
-      const mealPlans = await storage.getMealPlansByUserId(userId);
+      const householdId = parseInt(req.params.id);
+      if (isNaN(householdId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
       
-      res.json(mealPlans);
+      const membership = await storage.getHouseholdMember(householdId, req.user!.id);
+      if (!membership) {
+        return res.status(403).json({ message: "You are not a member of this household" });
+      }
+      
+      const members = await storage.getHouseholdMembers(householdId);
+      res.json(members);
     } catch (error) {
-      console.error("Error fetching meal plans:", error);
-      res.status(500).json({ error: "Failed to fetch meal plans" });
+      console.error("Error fetching household members:", error);
+      res.status(500).json({ message: "Failed to retrieve household members" });
     }
   });
   
-  apiRouter.get("/meal-plans/date-range", async (req: Request, res: Response) => {
+  apiRouter.patch("/households/:id/members/:memberId", async (req: Request, res: Response) => {
     try {
-      // Make sure the user is authenticated
       if (!req.isAuthenticated()) {
-        return res.status(401).json({ error: "Not authenticated" });
+        return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
-      const { startDate, endDate } = req.query;
+      const householdId = parseInt(req.params.id);
+      const memberId = parseInt(req.params.memberId);
+      if (isNaN(householdId) || isNaN(memberId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
       
-      if (!startDate || !endDate) {
-        return res.status(400).json({ error: "Start date and end date are required" });
+      const membership = await storage.getHouseholdMember(householdId, req.user!.id);
+      if (!membership || !householdService.canManage(membership.role)) {
+        return res.status(403).json({ message: "Only household owners can change roles" });
       }
       
-      const start = new Date(startDate as string);
-      const end = new Date(endDate as string);
+      const validation = z.object({ role: z.enum(HOUSEHOLD_ROLES) }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
       
-      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-        return res.status(400).json({ error: "Invalid date format" });
+      const member = await storage.getHouseholdMemberById(memberId);
+      if (!member || member.householdId !== householdId) {
+        return res.status(404).json({ message: "Household member not found" });
       }
       
-      const mealPlans = await storage.getMealPlansByDateRange(userId, start, end);
+      // A household always keeps at least one owner
+      if (member.role === "owner" && validation.data.role !== "owner") {
+        const members = await storage.getHouseholdMembers(householdId);
+        if (members.filter(m => m.role === "owner").length <= 1) {
+          return res.status(400).json({ message: "A household needs at least one owner" });
+        }
+      }
       
-      res.json(mealPlans);
+      const updatedMember = await storage.updateHouseholdMemberRole(memberId, validation.data.role);
+      res.json(updatedMember);
     } catch (error) {
-      console.error("Error fetching meal plans by date range:", error);
-      res.status(500).json({ error: "Failed to fetch meal plans" });
+      console.error("Error updating household member:", error);
+      res.status(500).json({ message: "Failed to update household member" });
     }
   });
   
-  apiRouter.get("/meal-plans/:id", async (req: Request, res: Response) => {
+  // Remove a member, or leave the household when removing yourself
+  apiRouter.delete("/households/:id/members/:memberId", async (req: Request, res: Response) => {
     try {
-      // Make sure the user is authenticated
       if (!req.isAuthenticated()) {
-        return res.status(401).json({ error: "Not authenticated" });
+        return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
-      const mealPlanId = parseInt(req.params.id);
+      const householdId = parseInt(req.params.id);
+      const memberId = parseInt(req.params.memberId);
+      if (isNaN(householdId) || isNaN(memberId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
       
-      if (isNaN(mealPlanId)) {
-        return res.status(400).json({ error: "Invalid meal plan ID" });
+      const membership = await storage.getHouseholdMember(householdId, req.user!.id);
+      const member = await storage.getHouseholdMemberById(memberId);
+      if (!membership || !member || member.householdId !== householdId) {
+        return res.status(404).json({ message: "Household member not found" });
       }
       
-      const mealPlan = await storage.getMealPlan(mealPlanId);
+      const isSelf = member.userId === req.user!.id;
+      if (!isSelf && !householdService.canManage(membership.role)) {
+        return res.status(403).json({ message: "Only household owners can remove members" });
+      }
       
-      if (!mealPlan) {
-        return res.status(404).json({ error: "Meal plan not found" });
+      if (member.role === "owner") {
+        const members = await storage.getHouseholdMembers(householdId);
+        if (members.filter(m => m.role === "owner").length <= 1) {
+          return res.status(400).json({ message: "Make someone else an owner before the last owner leaves" });
+        }
       }
       
-      // Make sure the meal plan belongs to the authenticated user
-      if (mealPlan.userId !== userId) {
-        return res.status(403).json({ error: "Not authorized to access this meal plan" });
+      await storage.removeHouseholdMember(memberId);
+      
+      if (isSelf && req.session.activeHouseholdId === householdId) {
+        delete req.session.activeHouseholdId;
       }
       
-      res.json(mealPlan);
+      res.status(204).end();
     } catch (error) {
-      console.error("Error fetching meal plan:", error);
-      res.status(500).json({ error: "Failed to fetch meal plan" });
+      console.error("Error removing household member:", error);
+      res.status(500).json({ message: "Failed to remove household member" });
     }
   });
   
-  apiRouter.post("/meal-plans", async (req: Request, res: Response) => {
+  apiRouter.get("/households/:id/invites", async (req: Request, res: Response) => {
     try {
-      // Make sure the user is authenticated
       if (!req.isAuthenticated()) {
-        return res.status(401).json({ error: "Not authenticated" });
+        return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
+      const householdId = parseInt(req.params.id);
+      if (isNaN(householdId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
       
-      // Validate the meal plan data using the insert schema
-      const validation = insertMealPlanSchema.safeParse({
-        ...req.body,
-        userId
-      });
+      const membership = await storage.getHouseholdMember(householdId, req.user!.id);
+      if (!membership || !householdService.canManage(membership.role)) {
+        return res.status(403).json({ message: "Only household owners can view invitations" });
+      }
+      
+      const invites = await storage.getPendingHouseholdInvites(householdId);
+      
+      // Never expose the join codes themselves
+      res.json(invites.map(({ code, ...invite }) => invite));
+    } catch (error) {
+      console.error("Error fetching household invites:", error);
+      res.status(500).json({ message: "Failed to retrieve household invitations" });
+    }
+  });
+  
+  apiRouter.post("/households/:id/invites", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const householdId = parseInt(req.params.id);
+      if (isNaN(householdId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const membership = await storage.getHouseholdMember(householdId, req.user!.id);
+      if (!membership || !householdService.canManage(membership.role)) {
+        return res.status(403).json({ message: "Only household owners can invite members" });
+      }
       
+      const validation = z.object({
+        email: z.string().email(),
+        role: z.enum(HOUSEHOLD_ROLES).default("member")
+      }).safeParse(req.body);
       if (!validation.success) {
-        return res.status(400).json({ 
-          error: "Invalid meal plan data", 
-          details: formatZodError(validation.error)
-        });
+        return res.status(400).json({ message: formatZodError(validation.error) });
       }
       
-      // Create the meal plan
-      const mealPlan = await storage.createMealPlan(validation.data);
+      const household = await storage.getHousehold(householdId);
+      if (!household) {
+        return res.status(404).json({ message: "Household not found" });
+      }
       
-      res.status(201).json(mealPlan);
-    } catch (error) {
-      console.error("Error creating meal plan:", error);
-      if (error instanceof ZodError) {
-        return res.status(400).json({ error: formatZodError(error) });
+      const { invite, emailSent } = await householdService.inviteMember(
+        household,
+        req.user!,
+        validation.data.email,
+        validation.data.role
+      );
+      
+      if (!emailSent) {
+        await storage.deleteHouseholdInvite(invite.id);
+        return res.status(500).json({ message: "Failed to send invitation email" });
       }
-      res.status(500).json({ error: "Failed to create meal plan" });
+      
+      const { code, ...inviteWithoutCode } = invite;
+      res.status(201).json(inviteWithoutCode);
+    } catch (error) {
+      console.error("Error creating household invite:", error);
+      res.status(500).json({ message: "Failed to create household invitation" });
     }
   });
   
-  apiRouter.patch("/meal-plans/:id", async (req: Request, res: Response) => {
+  apiRouter.delete("/households/:id/invites/:inviteId", async (req: Request, res: Response) => {
     try {
-      // Make sure the user is authenticated
       if (!req.isAuthenticated()) {
-        return res.status(401).json({ error: "Not authenticated" });
+        return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
-      const mealPlanId = parseInt(req.params.id);
-      
-      if (isNaN(mealPlanId)) {
-        return res.status(400).json({ error: "Invalid meal plan ID" });
+      const householdId = parseInt(req.params.id);
+      const inviteId = parseInt(req.params.inviteId);
+      if (isNaN(householdId) || isNaN(inviteId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
       }
       
-      // Get the current meal plan
-      const existingMealPlan = await storage.getMealPlan(mealPlanId);
-      
-      if (!existingMealPlan) {
-        return res.status(404).json({ error: "Meal plan not found" });
+      const membership = await storage.getHouseholdMember(householdId, req.user!.id);
+      if (!membership || !householdService.canManage(membership.role)) {
+        return res.status(403).json({ message: "Only household owners can cancel invitations" });
       }
       
-      // Make sure the meal plan belongs to the authenticated user
-      if (existingMealPlan.userId !== userId) {
-        return res.status(403).json({ error: "Not authorized to update this meal plan" });
+      const invite = await storage.getHouseholdInvite(inviteId);
+      if (!invite || invite.householdId !== householdId) {
+        return res.status(404).json({ message: "Invitation not found" });
       }
       
-      // Update the meal plan
-      const updatedMealPlan = await storage.updateMealPlan(mealPlanId, req.body);
-      
-      res.json(updatedMealPlan);
+      await storage.deleteHouseholdInvite(inviteId);
+      res.status(204).end();
     } catch (error) {
-      console.error("Error updating meal plan:", error);
-      if (error instanceof ZodError) {
-        return res.status(400).json({ error: formatZodError(error) });
-      }
-      res.status(500).json({ error: "Failed to update meal plan" });
+      console.error("Error cancelling household invite:", error);
+      res.status(500).json({ message: "Failed to cancel household invitation" });
     }
   });
   
-  apiRouter.delete("/meal-plans/:id", async (req: Request, res: Response) => {
+  // Join a household with the code from an invitation email
+  apiRouter.post("/household-invites/accept", async (req: Request, res: Response) => {
     try {
-      // Make sure the user is authenticated
       if (!req.isAuthenticated()) {
-        return res.status(401).json({ error: "Not authenticated" });
+        return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
-      const mealPlanId = parseInt(req.params.id);
-      
-      if (isNaN(mealPlanId)) {
-        return res.status(400).json({ error: "Invalid meal plan ID" });
+      const { code } = req.body;
+      if (!code || typeof code !== "string") {
+        return res.status(400).json({ message: "Invitation code is required" });
       }
       
-      // Get the current meal plan
-      const existingMealPlan = await storage.getMealPlan(mealPlanId);
-      
-      if (!existingMealPlan) {
-        return res.status(404).json({ error: "Meal plan not found" });
+      const result = await householdService.acceptInvite(req.user!, code);
+      if (result.locked) {
+        return res.status(429).json({ message: "Too many wrong codes. Please wait a few minutes and try again." });
       }
-      
-      // Make sure the meal plan belongs to the authenticated user
-      if (existingMealPlan.userId !== userId) {
-        return res.status(403).json({ error: "Not authorized to delete this meal plan" });
+      if (!result.valid || !result.member) {
+        return res.status(400).json({ message: "Invalid or expired invitation code" });
       }
       
-      // Delete the meal plan
-      const success = await storage.deleteMealPlan(mealPlanId);
+      req.session.activeHouseholdId = result.member.householdId;
       
-      if (success) {
-        res.status(204).end();
-      } else {
-        res.status(500).json({ error: "Failed to delete meal plan" });
-      }
+      const household = await storage.getHousehold(result.member.householdId);
+      res.json({ success: true, household, role: result.member.role });
     } catch (error) {
-      console.error("Error deleting meal plan:", error);
-      res.status(500).json({ error: "Failed to delete meal plan" });
+      console.error("Error accepting household invite:", error);
+      res.status(500).json({ message: "Failed to accept household invitation" });
     }
   });
   
@@ -752,41 +2934,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
-      const userId = req.user!.id;
-      const foodItems = await storage.getFoodItemsByUserId(userId);
+      const membership = await getActiveMembership(req);
+      const foodItems = await storage.getFoodItemsByHouseholdId(membership.householdId);
       
       const today = new Date();
       
       // Count expiring items (expiring in 3 days or less)
-      const expiringItems = foodItems.filter(item => {
-        const expirationDate = new Date(item.expirationDate);
-        const daysUntilExpiration = differenceInDays(expirationDate, today);
-        return daysUntilExpiration <= 3 && isAfter(expirationDate, today);
-      });
+      const expiringItems = foodItems.filter(item => withExpirationStatus(item, today).status === 'expiring-soon');
       
       // Calculate total waste saved (placeholder logic for MVP)
       const wasteEntries = await storage.getWasteEntriesByDateRange(
+        membership.householdId,
         new Date(today.getFullYear(), today.getMonth() - 3, today.getDate()),
         today
       );
       
       // Calculate recent waste weight
       const wasteWeight = wasteEntries.reduce((total, entry) => {
-        return total + (entry.wasteWeight || 0);
+        return total + (entry.wasteWeight || estimateWeightKg(entry.quantity, entry.unit));
       }, 0);
       
       // Get consumption entries for the last 3 months
       const consumptionEntries = await storage.getConsumptionEntriesByDateRange(
-        userId,
+        membership.householdId,
         new Date(today.getFullYear(), today.getMonth() - 3, today.getDate()),
         today
       );
       
-      // Calculate consumption metrics
+      // Calculate consumption metrics, adding up money in the currency most of it was recorded in
       const consumedCount = consumptionEntries.length;
-      const consumedValue = consumptionEntries.reduce((total, entry) => {
-        return total + (entry.estimatedValue || 0);
-      }, 0);
+      const consumedTotals = totalByCurrency(consumptionEntries);
+      const wastedTotals = totalByCurrency(wasteEntries);
+      const currency = getMainCurrency(totalByCurrency([...consumptionEntries, ...wasteEntries]));
+      const consumedValue = consumedTotals[currency] ?? 0;
+      const wastedValue = wastedTotals[currency] ?? 0;
       
       // Estimate waste saved (in a real app, this would compare to previous periods)
       const wasteSaved = foodItems.length * 0.1; // Simple placeholder calculation
@@ -796,7 +2977,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expiringCount: expiringItems.length,
         wasteSavedKg: parseFloat(wasteSaved.toFixed(1)),
         consumedCount,
-        consumedValue: parseFloat(consumedValue.toFixed(2))
+        consumedValue: parseFloat(consumedValue.toFixed(2)),
+        wastedValue: parseFloat(wastedValue.toFixed(2)),
+        currency
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to calculate dashboard stats" });
@@ -1059,6 +3242,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dietary Profiles
+  // The signed-in user's own profile; users who never saved one get an empty profile
+  apiRouter.get("/dietary-profile", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const profile = await storage.getDietaryProfile(req.user!.id);
+      res.json(profile ?? { userId: req.user!.id, allergens: [], diets: [], dislikedIngredients: [] });
+    } catch (error) {
+      console.error("Error retrieving dietary profile:", error);
+      res.status(500).json({ message: "Failed to retrieve dietary profile" });
+    }
+  });
+  
+  apiRouter.put("/dietary-profile", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const validation = insertDietaryProfileSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const profile = await storage.saveDietaryProfile(req.user!.id, validation.data);
+      res.json(profile);
+    } catch (error) {
+      console.error("Error saving dietary profile:", error);
+      res.status(500).json({ message: "Failed to save dietary profile" });
+    }
+  });
+  
+  // What recipes for the active household have to avoid, combined from its members' profiles
+  apiRouter.get("/dietary-restrictions", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      res.json(await dietaryService.getRestrictions(membership.householdId));
+    } catch (error) {
+      console.error("Error retrieving dietary restrictions:", error);
+      res.status(500).json({ message: "Failed to retrieve dietary restrictions" });
+    }
+  });
+
   // Email Notification Endpoints
   apiRouter.post("/notifications/send-test", async (req: Request, res: Response) => {
     try {
@@ -1167,30 +3400,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Expiration alerts are not enabled" });
       }
       
-      // Get expiring items within the threshold for this specific user
-      const expiringItems = await storage.getExpiringFoodItemsForNotification(daysThreshold, userId);
+      // Get expiring items within the threshold across the user's households
+      const userHouseholds = await storage.getHouseholdsByUserId(userId);
+      const expiringItems = await storage.getExpiringFoodItemsForNotification(
+        daysThreshold,
+        userHouseholds.map(household => household.id)
+      );
       
       // Convert to FoodItemWithStatus format
       const today = new Date();
-      const expiringItemsWithStatus = expiringItems.map(item => {
-        const expirationDate = new Date(item.expirationDate);
-        const daysUntilExpiration = differenceInDays(expirationDate, today);
-        
-        let status: 'expired' | 'expiring-soon' | 'fresh';
-        if (!isAfter(expirationDate, today)) {
-          status = 'expired';
-        } else if (daysUntilExpiration <= 3) {
-          status = 'expiring-soon';
-        } else {
-          status = 'fresh';
-        }
-        
-        return {
-          ...item,
-          status,
-          daysUntilExpiration
-        };
-      });
+      const expiringItemsWithStatus = expiringItems.map(item => withExpirationStatus(item, today));
       
       // Update last notified timestamp regardless of whether the email was sent
       await storage.updateLastNotified(settings.id, new Date());
@@ -1274,30 +3493,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Weekly summary emails are not enabled" });
       }
       
-      // Get all food items for the user
-      const foodItems = await storage.getFoodItemsByUserId(userId);
+      // Get all food items across the user's households
+      const foodItems = await householdService.getFoodItemsForUser(userId);
       
       // Convert to FoodItemWithStatus format
       const today = new Date();
-      const foodItemsWithStatus = foodItems.map(item => {
-        const expirationDate = new Date(item.expirationDate);
-        const daysUntilExpiration = differenceInDays(expirationDate, today);
-        
-        let status: 'expired' | 'expiring-soon' | 'fresh';
-        if (!isAfter(expirationDate, today)) {
-          status = 'expired';
-        } else if (daysUntilExpiration <= 3) {
-          status = 'expiring-soon';
-        } else {
-          status = 'fresh';
-        }
-        
-        return {
-          ...item,
-          status,
-          daysUntilExpiration
-        };
-      });
+      const foodItemsWithStatus = foodItems.map(item => withExpirationStatus(item, today));
       
       // Send weekly summary via SendGrid
       const emailSent = await emailService.sendWeeklySummary(
@@ -1487,8 +3688,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Not authenticated" });
       }
       
+      const membership = await getActiveMembership(req);
+      const restrictions = await dietaryService.getRestrictions(membership.householdId);
       const recipes = await storage.getSharedRecipes();
-      res.json(recipes);
+      res.json(recipes.map(recipe => dietaryService.annotateRecipe(recipe, restrictions)));
     } catch (error) {
       console.error("Error fetching shared recipes:", error);
       res.status(500).json({ message: "Failed to retrieve shared recipes" });
@@ -1512,7 +3715,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Shared recipe not found" });
       }
       
-      res.json(recipe);
+      const membership = await getActiveMembership(req);
+      const restrictions = await dietaryService.getRestrictions(membership.householdId);
+      res.json(dietaryService.annotateRecipe(recipe, restrictions));
     } catch (error) {
       console.error("Error retrieving shared recipe:", error);
       res.status(500).json({ message: "Failed to retrieve shared recipe" });
@@ -1740,8 +3945,263 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Community share listings: surplus food offered from a household's inventory
+  const shareListingInput = z.object({
+    foodItemId: z.number().int(),
+    quantity: z.number().positive("Quantity must be greater than 0"),
+    pickupNotes: z.string().max(500).optional(),
+  });
+  
+  apiRouter.get("/share-listings", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      res.json(await storage.getOpenShareListings());
+    } catch (error) {
+      console.error("Error fetching share listings:", error);
+      res.status(500).json({ message: "Failed to retrieve share listings" });
+    }
+  });
+  
+  apiRouter.post("/share-listings", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const validation = shareListingInput.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const item = await storage.getFoodItem(validation.data.foodItemId);
+      if (!item) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      // Only members who can change the item may give it away
+      const membership = await householdService.getMembershipForRecord(req.user!, item);
+      if (!membership || !householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Not authorized to share this item" });
+      }
+      
+      const listing = await shareListingService.createListing(item, validation.data, req.user!.id);
+      broadcastToClients(JSON.stringify({
+        type: 'listing_updated',
+        data: listing
+      }));
+      
+      res.status(201).json(listing);
+    } catch (error) {
+      if (error instanceof ShareListingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating share listing:", error);
+      res.status(500).json({ message: "Failed to create share listing" });
+    }
+  });
+  
+  // Move a listing through claim, release and handover
+  const changeShareListingState = (action: "claim" | "release" | "complete") =>
+    async (req: Request, res: Response) => {
+      try {
+        if (!req.isAuthenticated()) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+        
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid ID format" });
+        }
+        
+        const listing = await storage.getShareListing(id);
+        if (!listing) {
+          return res.status(404).json({ message: "Share listing not found" });
+        }
+        
+        const updatedListing = await shareListingService[action](listing, req.user!.id);
+        broadcastToClients(JSON.stringify({
+          type: 'listing_updated',
+          data: updatedListing
+        }));
+        
+        res.json(updatedListing);
+      } catch (error) {
+        if (error instanceof ShareListingError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error(`Error trying to ${action} share listing:`, error);
+        res.status(500).json({ message: `Failed to ${action} share listing` });
+      }
+    };
+  
+  apiRouter.post("/share-listings/:id/claim", changeShareListingState("claim"));
+  apiRouter.post("/share-listings/:id/release", changeShareListingState("release"));
+  apiRouter.post("/share-listings/:id/complete", changeShareListingState("complete"));
+  
+  // Withdraw a listing that hasn't been handed over
+  apiRouter.delete("/share-listings/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const listing = await storage.getShareListing(id);
+      if (!listing) {
+        return res.status(404).json({ message: "Share listing not found" });
+      }
+      if (listing.userId !== req.user!.id) {
+        return res.status(403).json({ message: "You can only withdraw your own listings" });
+      }
+      if (listing.status === "completed") {
+        return res.status(400).json({ message: "Completed listings can't be withdrawn" });
+      }
+      
+      await storage.deleteShareListing(id);
+      broadcastToClients(JSON.stringify({
+        type: 'listing_deleted',
+        data: { listingId: id }
+      }));
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error withdrawing share listing:", error);
+      res.status(500).json({ message: "Failed to withdraw share listing" });
+    }
+  });
+
+  // Product Recalls
+  apiRouter.get("/recalls", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!req.user!.isAdmin) {
+        return res.status(403).json({ message: "Only admins can manage recalls" });
+      }
+      
+      res.json(await storage.getRecalls());
+    } catch (error) {
+      console.error("Error fetching recalls:", error);
+      res.status(500).json({ message: "Failed to retrieve recalls" });
+    }
+  });
+  
+  // Load recalls from a CSV or JSON file and check every household's inventory against them
+  apiRouter.post("/recalls/import", importUpload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!req.user!.isAdmin) {
+        return res.status(403).json({ message: "Only admins can load recalls" });
+      }
+      
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const validation = z.object({
+        format: z.enum(INVENTORY_FILE_FORMATS).optional(),
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: formatZodError(validation.error) });
+      }
+      
+      const result = await recallService.importRecalls(
+        req.file.buffer.toString('utf-8'),
+        inventoryTransferService.detectFormat(validation.data.format, req.file.originalname),
+        req.user!.id
+      );
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof InventoryFileError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing recalls:", error);
+      res.status(500).json({ message: "Failed to import recalls" });
+    }
+  });
+  
+  apiRouter.delete("/recalls/:id", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!req.user!.isAdmin) {
+        return res.status(403).json({ message: "Only admins can manage recalls" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const deleted = await storage.deleteRecall(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Recall not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting recall:", error);
+      res.status(500).json({ message: "Failed to delete recall" });
+    }
+  });
+  
+  // Recalls that may apply to the active household's items
+  apiRouter.get("/recall-alerts", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const membership = await getActiveMembership(req);
+      res.json(await recallService.getAlerts(membership.householdId));
+    } catch (error) {
+      console.error("Error fetching recall alerts:", error);
+      res.status(500).json({ message: "Failed to retrieve recall alerts" });
+    }
+  });
+  
+  // Hide an alert once the household has checked the item
+  apiRouter.post("/recall-alerts/:id/dismiss", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      
+      const match = await storage.getRecallMatch(id);
+      const membership = await getActiveMembership(req);
+      if (!match || match.householdId !== membership.householdId) {
+        return res.status(404).json({ message: "Recall alert not found" });
+      }
+      if (!householdService.canEdit(membership.role)) {
+        return res.status(403).json({ message: "Viewers cannot dismiss recall alerts" });
+      }
+      
+      res.json(await storage.dismissRecallMatch(id));
+    } catch (error) {
+      console.error("Error dismissing recall alert:", error);
+      res.status(500).json({ message: "Failed to dismiss recall alert" });
+    }
+  });
+
   // Configure multer for image uploads
-  const uploadsDir = path.join(process.cwd(), 'uploads');
+  const uploadsDir = UPLOADS_DIR;
   
   // Ensure uploads directory exists
   if (!fs.existsSync(uploadsDir)) {
@@ -1799,6 +4259,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Photo upload for food items; the household is recorded so the file can later be deleted with the item
+  apiRouter.post('/food-items/photos', upload.single('image'), async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        if (req.file) {
+          await uploadService.deleteImages([`/uploads/${req.file.filename}`]);
+        }
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const imagePath = `/uploads/${req.file.filename}`;
+      const membership = await getActiveMembership(req);
+      if (!householdService.canEdit(membership.role)) {
+        await uploadService.deleteImages([imagePath]);
+        return res.status(403).json({ message: "Viewers cannot add photos to this household's items" });
+      }
+      
+      await uploadService.recordItemPhoto(membership.householdId, req.user!.id, imagePath);
+      res.status(201).json({ 
+        message: "Photo uploaded successfully",
+        imagePath 
+      });
+    } catch (error) {
+      console.error("Error uploading item photo:", error);
+      res.status(500).json({ message: "Failed to upload photo" });
+    }
+  });
+  
   // Serve uploaded files statically
   app.use('/uploads', express.static(uploadsDir));
   
@@ -0,0 +1,152 @@
+import { format } from "date-fns";
+import {
+  type FoodItem,
+  type ShareListingWithUsers,
+} from "@shared/schema";
+import { getEffectiveExpirationDate } from "@shared/expiration";
+import { roundQuantity } from "@shared/units";
+import { storage } from "./storage";
+import { lotService } from "./lot-service";
+import { itemEventService } from "./item-event-service";
+
+// What the sharer enters when offering part of an item
+type ShareListingInput = {
+  quantity: number; // in the item's unit
+  pickupNotes?: string;
+};
+
+/**
+ * Raised when a listing can't move to the requested state, e.g. claiming one that's already claimed
+ */
+export class ShareListingError extends Error {}
+
+/**
+ * Share Listing Service
+ * Offers surplus food to the community and walks each listing through claim and handover
+ */
+export class ShareListingService {
+  private static instance: ShareListingService;
+
+  private constructor() {}
+
+  public static getInstance(): ShareListingService {
+    if (!ShareListingService.instance) {
+      ShareListingService.instance = new ShareListingService();
+    }
+    return ShareListingService.instance;
+  }
+
+  /**
+   * List part of an item for others to claim.
+   * The name, unit, expiration and first photo are carried over from the item.
+   */
+  public async createListing(item: FoodItem, input: ShareListingInput, userId: number): Promise<ShareListingWithUsers> {
+    const expirationDate = getEffectiveExpirationDate(item);
+    if (expirationDate < format(new Date(), 'yyyy-MM-dd')) {
+      throw new ShareListingError(`${item.name} has expired and can't be shared`);
+    }
+
+    // Open listings already promise part of the item away
+    const promised = (await storage.getOpenShareListingsForItem(item.id))
+      .reduce((total, listing) => total + listing.quantity, 0);
+    const available = roundQuantity(item.quantity - promised);
+    if (input.quantity > available) {
+      throw new ShareListingError(
+        available > 0
+          ? `Only ${available} ${item.unit} of ${item.name} is left to share`
+          : `All of ${item.name} is already listed`
+      );
+    }
+
+    const listing = await storage.createShareListing({
+      userId,
+      householdId: item.householdId,
+      foodItemId: item.id,
+      name: item.name,
+      quantity: input.quantity,
+      unit: item.unit,
+      expirationDate,
+      pickupNotes: input.pickupNotes?.trim() || null,
+      imageUrl: item.photos[0] ?? null,
+    });
+    return (await storage.getShareListing(listing.id))!;
+  }
+
+  /**
+   * Reserve an available listing for a user
+   */
+  public async claim(listing: ShareListingWithUsers, userId: number): Promise<ShareListingWithUsers> {
+    if (listing.userId === userId) {
+      throw new ShareListingError("You can't claim your own listing");
+    }
+    if (listing.status !== "available") {
+      throw new ShareListingError("This listing has already been claimed");
+    }
+
+    const claimed = await storage.updateShareListing(
+      listing.id,
+      { status: "claimed", claimedById: userId, claimedAt: new Date() },
+      "available"
+    );
+    if (!claimed) {
+      throw new ShareListingError("This listing has already been claimed");
+    }
+    return (await storage.getShareListing(listing.id))!;
+  }
+
+  /**
+   * Put a claimed listing back on offer; the claimer can back out and the sharer can turn a claim down
+   */
+  public async release(listing: ShareListingWithUsers, userId: number): Promise<ShareListingWithUsers> {
+    if (listing.status !== "claimed") {
+      throw new ShareListingError("This listing hasn't been claimed");
+    }
+    if (listing.claimedById !== userId && listing.userId !== userId) {
+      throw new ShareListingError("Only the sharer or the claimer can release this listing");
+    }
+
+    // A listing completed in the meantime stays completed
+    const released = await storage.updateShareListing(
+      listing.id,
+      { status: "available", claimedById: null, claimedAt: null },
+      "claimed"
+    );
+    if (!released) {
+      throw new ShareListingError("This listing hasn't been claimed");
+    }
+    return (await storage.getShareListing(listing.id))!;
+  }
+
+  /**
+   * Mark a claimed listing as handed over and take the shared amount out of the sharer's item
+   */
+  public async complete(listing: ShareListingWithUsers, userId: number): Promise<ShareListingWithUsers> {
+    if (listing.userId !== userId) {
+      throw new ShareListingError("Only the sharer can complete this listing");
+    }
+    if (listing.status !== "claimed") {
+      throw new ShareListingError("Only claimed listings can be completed");
+    }
+
+    // Only one of two completions racing each other takes the amount out of the item
+    const completed = await storage.updateShareListing(listing.id, { status: "completed", completedAt: new Date() }, "claimed");
+    if (!completed) {
+      throw new ShareListingError("Only claimed listings can be completed");
+    }
+
+    // The item may have been used up or thrown away since it was listed
+    const item = listing.foodItemId !== null ? await storage.getFoodItem(listing.foodItemId) : undefined;
+    if (item && item.quantity > 0) {
+      const sharedQuantity = Math.min(listing.quantity, item.quantity);
+      const updatedItem = await lotService.drawDown(item, sharedQuantity);
+      await itemEventService.recordChanges(item, updatedItem, "shared", userId, {
+        quantity: sharedQuantity,
+        unit: item.unit,
+      });
+    }
+
+    return (await storage.getShareListing(listing.id))!;
+  }
+}
+
+export const shareListingService = ShareListingService.getInstance();
@@ -0,0 +1,372 @@
+import fs from "fs";
+import path from "path";
+import { addDays, differenceInDays, format, parseISO } from "date-fns";
+import {
+  FOOD_CATEGORIES,
+  STORAGE_LOCATIONS,
+  type FoodItem,
+  type InsertShelfLifeRule,
+  type ShelfLifeRule,
+  type ShelfLifeSuggestion,
+} from "@shared/schema";
+import { getEffectiveExpirationDate } from "@shared/expiration";
+import { storage } from "./storage";
+import { categoryService } from "./category-service";
+
+type FoodCategory = typeof FOOD_CATEGORIES[number];
+type StorageLocation = typeof STORAGE_LOCATIONS[number];
+
+// Shape of server/data/shelf-life.json
+type ShelfLifeDataset = {
+  categories: Record<FoodCategory, Partial<Record<StorageLocation, number>>>;
+  openedCategories: Partial<Record<FoodCategory, number>>;
+  items: {
+    name: string;
+    aliases: string[];
+    category: FoodCategory;
+    days: Partial<Record<StorageLocation, number>>;
+    opened?: number;
+  }[];
+};
+
+// Suggested shelf life once an item has been opened
+export type OpenedShelfLife = {
+  days: number;
+  description: string;
+};
+
+// A food from the knowledge base that an item name refers to
+export type FoodMatch = {
+  name: string;
+  category: FoodCategory;
+  storageLocations: StorageLocation[]; // where the knowledge base knows how long it keeps
+};
+
+// Used when nothing in the knowledge base applies
+const DEFAULT_SHELF_LIFE_DAYS = 7;
+
+// How long cooked food keeps, following USDA guidance for leftovers
+const COOKED_FOOD_DAYS: Record<StorageLocation, number> = {
+  refrigerator: 4,
+  freezer: 90,
+  pantry: 1,
+  counter: 1,
+  other: 1,
+};
+
+// A household needs this many earlier purchases before its own history is trusted
+const MIN_HISTORY_SAMPLES = 2;
+
+/**
+ * Shelf Life Service
+ * Predicts expiration dates from the bundled shelf-life dataset and each household's history
+ */
+export class ShelfLifeService {
+  private static instance: ShelfLifeService;
+  private readonly seedFile = path.join(process.cwd(), 'server', 'data', 'shelf-life.json');
+  private rules: ShelfLifeRule[] | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ShelfLifeService {
+    if (!ShelfLifeService.instance) {
+      ShelfLifeService.instance = new ShelfLifeService();
+    }
+    return ShelfLifeService.instance;
+  }
+
+  /**
+   * Load the bundled dataset into an empty shelf-life table
+   */
+  public async seedRules(): Promise<void> {
+    if ((await storage.getShelfLifeRules()).length > 0) {
+      return;
+    }
+
+    let dataset: ShelfLifeDataset;
+    try {
+      dataset = JSON.parse(fs.readFileSync(this.seedFile, 'utf-8'));
+    } catch (error) {
+      console.error('Error reading shelf-life seed file:', error);
+      return;
+    }
+
+    // Opening something doesn't shorten its life while it stays frozen
+    const openedDaysFor = (storageLocation: string, openedDays?: number) =>
+      storageLocation === "freezer" ? null : openedDays ?? null;
+
+    const rules: InsertShelfLifeRule[] = [];
+    for (const [category, locations] of Object.entries(dataset.categories)) {
+      for (const [storageLocation, days] of Object.entries(locations)) {
+        rules.push({
+          name: null,
+          aliases: [],
+          category: category as FoodCategory,
+          storageLocation: storageLocation as StorageLocation,
+          days: days!,
+          openedDays: openedDaysFor(storageLocation, dataset.openedCategories[category as FoodCategory]),
+        });
+      }
+    }
+    for (const item of dataset.items) {
+      for (const [storageLocation, days] of Object.entries(item.days)) {
+        rules.push({
+          name: item.name,
+          aliases: item.aliases,
+          category: item.category,
+          storageLocation: storageLocation as StorageLocation,
+          days: days!,
+          openedDays: openedDaysFor(storageLocation, item.opened),
+        });
+      }
+    }
+
+    await storage.createShelfLifeRules(rules);
+    this.rules = null;
+
+    console.log(`Initialized shelf-life knowledge base with ${rules.length} rules`);
+  }
+
+  /**
+   * Suggest an expiration date for an item
+   * @param householdId The household whose earlier purchases refine the estimate
+   * @param name The item name as typed by the user
+   * @param category The item's food category, built-in or one of the household's own
+   * @param storageLocation Where the item will be kept, built-in or one of the household's own
+   * @param purchaseDate The purchase date the shelf life counts from
+   */
+  public async suggest(
+    householdId: number,
+    name: string,
+    category: string,
+    storageLocation: string,
+    purchaseDate: Date
+  ): Promise<ShelfLifeSuggestion> {
+    const estimate = await this.estimateDays(householdId, name, category, storageLocation);
+
+    return {
+      ...estimate,
+      expirationDate: format(addDays(purchaseDate, estimate.days), 'yyyy-MM-dd'),
+    };
+  }
+
+  /**
+   * Suggest an expiration date for leftovers of a cooked meal.
+   * Leftovers keep as long as cooked food does, but no longer than the first of their
+   * ingredients to go off, unless they're frozen.
+   * @param householdId The household whose custom locations apply
+   * @param storageLocation Where the leftovers will be kept, built-in or one of the household's own
+   * @param cookedDate When the meal was cooked
+   * @param ingredients The food items the meal was made from
+   */
+  public async suggestLeftovers(
+    householdId: number | null,
+    storageLocation: string,
+    cookedDate: Date,
+    ingredients: FoodItem[]
+  ): Promise<ShelfLifeSuggestion> {
+    const location = await categoryService.resolveLocation(householdId, storageLocation);
+    const days = COOKED_FOOD_DAYS[location];
+    let suggestion: ShelfLifeSuggestion = {
+      days,
+      expirationDate: format(addDays(cookedDate, days), 'yyyy-MM-dd'),
+      source: "cooked",
+      description: `Cooked food keeps about ${days} days in the ${location}`,
+    };
+
+    if (location === "freezer") {
+      return suggestion;
+    }
+
+    // An opened ingredient goes off at its opened date, unless its printed date comes first
+    const earliest = ingredients
+      .map(item => ({ item, expirationDate: getEffectiveExpirationDate(item) }))
+      .sort((a, b) => a.expirationDate.localeCompare(b.expirationDate))[0];
+    if (earliest && earliest.expirationDate < suggestion.expirationDate) {
+      // Leftovers get at least a day, even when an ingredient was already past its date
+      const ingredientDays = Math.max(1, differenceInDays(parseISO(earliest.expirationDate), cookedDate));
+      suggestion = {
+        days: ingredientDays,
+        expirationDate: format(addDays(cookedDate, ingredientDays), 'yyyy-MM-dd'),
+        source: "ingredient",
+        description: `Limited by ${earliest.item.name}, which expires ${earliest.expirationDate}`,
+      };
+    }
+
+    return suggestion;
+  }
+
+  /**
+   * Look up how long an item keeps once opened.
+   * A matching food's own rule wins over its category's default.
+   * @param householdId The household whose custom categories and locations apply
+   * @returns The opened shelf life, or null if opening doesn't shorten it
+   */
+  public async getOpenedShelfLife(
+    householdId: number | null,
+    name: string,
+    itemCategory: string,
+    itemStorageLocation: string
+  ): Promise<OpenedShelfLife | null> {
+    const rules = await this.getRules();
+    const category = await categoryService.resolveCategory(householdId, itemCategory);
+    const storageLocation = await categoryService.resolveLocation(householdId, itemStorageLocation);
+
+    // An opened jar often moves, e.g. from the pantry to the fridge, so fall back to the food's rule for another location
+    const itemRule = this.findItemRule(rules, name, storageLocation)
+      ?? (storageLocation !== "freezer"
+        ? this.findItemRule(rules.filter(rule => rule.storageLocation !== "freezer"), name)
+        : undefined);
+    if (itemRule) {
+      return itemRule.openedDays !== null
+        ? { days: itemRule.openedDays, description: `${itemRule.name} keeps about ${itemRule.openedDays} days once opened` }
+        : null;
+    }
+
+    const categoryRule = rules.find(rule =>
+      rule.name === null && rule.category === category && rule.storageLocation === storageLocation
+    );
+    if (categoryRule && categoryRule.openedDays !== null) {
+      return { days: categoryRule.openedDays, description: `Opened ${category} keeps about ${categoryRule.openedDays} days` };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the food an item name refers to in the knowledge base, e.g. to guess its category
+   * @returns The matching food, or null if the name isn't one the knowledge base knows
+   */
+  public async matchFood(name: string): Promise<FoodMatch | null> {
+    const rules = await this.getRules();
+    const rule = this.findItemRule(rules, name);
+    if (!rule || rule.name === null) {
+      return null;
+    }
+
+    return {
+      name: rule.name,
+      category: rule.category as FoodCategory,
+      storageLocations: rules
+        .filter(other => other.name === rule.name)
+        .map(other => other.storageLocation as StorageLocation),
+    };
+  }
+
+  private async estimateDays(
+    householdId: number,
+    name: string,
+    itemCategory: string,
+    itemStorageLocation: string
+  ): Promise<Omit<ShelfLifeSuggestion, "expirationDate">> {
+    // 1. How long this household's earlier purchases of the same food were kept
+    if (name.trim()) {
+      const history = await storage.getShelfLifeHistory(householdId, name, itemStorageLocation);
+      const samples = history
+        .map(item => differenceInDays(new Date(item.expirationDate), new Date(item.purchaseDate)))
+        .filter(days => days >= 0);
+
+      if (samples.length >= MIN_HISTORY_SAMPLES) {
+        return {
+          days: this.median(samples),
+          source: "household",
+          description: `Based on your last ${samples.length} purchases of ${name.trim()} kept in the ${itemStorageLocation.replace(/-/g, ' ')}`,
+        };
+      }
+    }
+
+    // Custom categories and locations share the rules of the built-in ones they're based on
+    const rules = await this.getRules();
+    const category = await categoryService.resolveCategory(householdId, itemCategory);
+    const storageLocation = await categoryService.resolveLocation(householdId, itemStorageLocation);
+
+    // 2. The knowledge base entry for this food
+    const itemRule = this.findItemRule(rules, name, storageLocation);
+    if (itemRule) {
+      return {
+        days: itemRule.days,
+        source: "item",
+        description: `Typical shelf life of ${itemRule.name} in the ${storageLocation}`,
+      };
+    }
+
+    // 3. The default for the whole category
+    const categoryRule = rules.find(rule =>
+      rule.name === null && rule.category === category && rule.storageLocation === storageLocation
+    );
+    if (categoryRule) {
+      return {
+        days: categoryRule.days,
+        source: "category",
+        description: `Typical shelf life of ${category} in the ${storageLocation}`,
+      };
+    }
+
+    return {
+      days: DEFAULT_SHELF_LIFE_DAYS,
+      source: "default",
+      description: `No shelf-life data available, defaulting to ${DEFAULT_SHELF_LIFE_DAYS} days`,
+    };
+  }
+
+  /**
+   * Find the most specific named rule for an item name.
+   * Exact name or alias matches win; otherwise the longest name or alias
+   * contained in the item name ("organic whole milk" matches "whole milk").
+   */
+  private findItemRule(rules: ShelfLifeRule[], name: string, storageLocation?: StorageLocation): ShelfLifeRule | undefined {
+    const normalized = this.normalizeName(name);
+    if (!normalized) {
+      return undefined;
+    }
+
+    let best: { rule: ShelfLifeRule; score: number } | undefined;
+    for (const rule of rules) {
+      if (rule.name === null || (storageLocation && rule.storageLocation !== storageLocation)) continue;
+
+      for (const term of [rule.name, ...rule.aliases].map(candidate => this.normalizeName(candidate))) {
+        let score = 0;
+        if (term === normalized) {
+          score = 1000;
+        } else if (` ${normalized} `.includes(` ${term} `)) {
+          score = term.length;
+        }
+
+        if (score > 0 && (!best || score > best.score)) {
+          best = { rule, score };
+        }
+      }
+    }
+
+    return best?.rule;
+  }
+
+  private normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9%\s-]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      // Treat simple plurals like their singular ("apples" and "apple")
+      .split(' ')
+      .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+      .join(' ');
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+      : sorted[middle];
+  }
+
+  private async getRules(): Promise<ShelfLifeRule[]> {
+    if (!this.rules) {
+      this.rules = await storage.getShelfLifeRules();
+    }
+    return this.rules;
+  }
+}
+
+export const shelfLifeService = ShelfLifeService.getInstance();
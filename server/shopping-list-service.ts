@@ -0,0 +1,165 @@
+import { addDays, format, parseISO } from "date-fns";
+import {
+  type FoodItem,
+  type FoodItemWithStatus,
+  type MealPlan,
+  type ShoppingList,
+  type ShoppingListItem,
+} from "@shared/schema";
+import { getEffectiveExpirationDate, withExpirationStatus } from "@shared/expiration";
+import { storage } from "./storage";
+import { lotService } from "./lot-service";
+import { shelfLifeService } from "./shelf-life-service";
+import { itemEventService } from "./item-event-service";
+import { recallService } from "./recall-service";
+
+// How far ahead meal plans are looked at when none is given
+export const DEFAULT_SHOPPING_DAYS = 7;
+
+// An ingredient the upcoming meals need but the inventory can't supply
+type MissingIngredient = {
+  item: FoodItem;
+  meals: MealPlan[];
+};
+
+/**
+ * Shopping List Service
+ * Fills shopping lists from the meal plan and turns what was bought into inventory
+ */
+export class ShoppingListService {
+  private static instance: ShoppingListService;
+
+  private constructor() {}
+
+  public static getInstance(): ShoppingListService {
+    if (!ShoppingListService.instance) {
+      ShoppingListService.instance = new ShoppingListService();
+    }
+    return ShoppingListService.instance;
+  }
+
+  /**
+   * Add the ingredients of upcoming meals that are used up, in the trash, or will have expired
+   * by the day of the meal, unless another item of the same name in stock covers them.
+   * Ingredients already waiting on the list aren't added twice.
+   * @param list The list to add to
+   * @param days How many days of meal plans to look at, starting today
+   * @returns The items that were added
+   */
+  public async generateFromMealPlans(list: ShoppingList, days: number = DEFAULT_SHOPPING_DAYS): Promise<ShoppingListItem[]> {
+    const today = new Date();
+    const mealPlans = await storage.getMealPlansByDateRange(list.householdId, today, addDays(today, days));
+    const inventory = await storage.getFoodItemsByHouseholdId(list.householdId);
+
+    const missing = new Map<string, MissingIngredient>();
+    for (const mealPlan of mealPlans) {
+      for (const foodItemId of mealPlan.ingredients) {
+        const item = await storage.getFoodItem(foodItemId, true);
+        if (!item) {
+          continue;
+        }
+
+        const key = this.normalizeName(item.name);
+        const inStock = inventory.some(candidate =>
+          this.normalizeName(candidate.name) === key && getEffectiveExpirationDate(candidate) >= mealPlan.date
+        );
+        if (inStock) {
+          continue;
+        }
+
+        const entry = missing.get(key);
+        if (entry) {
+          if (!entry.meals.includes(mealPlan)) {
+            entry.meals.push(mealPlan);
+          }
+        } else {
+          missing.set(key, { item, meals: [mealPlan] });
+        }
+      }
+    }
+
+    const onList = new Set(
+      (await storage.getShoppingListItems(list.id))
+        .filter(item => !item.checked)
+        .map(item => this.normalizeName(item.name))
+    );
+
+    const added: ShoppingListItem[] = [];
+    for (const [key, { item, meals }] of Array.from(missing.entries())) {
+      if (onList.has(key)) {
+        continue;
+      }
+
+      added.push(await storage.createShoppingListItem({
+        listId: list.id,
+        name: item.name,
+        // Buy the same amount again when some is left but won't last; otherwise one of the item's unit
+        quantity: item.quantity > 0 && !item.deletedAt ? item.quantity : 1,
+        unit: item.unit,
+        category: item.category,
+        storageLocation: item.storageLocation,
+        notes: `For ${meals.map(meal => `${meal.name} (${format(parseISO(meal.date), 'EEE MMM d')})`).join(", ")}`,
+        source: "meal-plan",
+        replacesFoodItemId: item.id,
+      }));
+    }
+
+    return added;
+  }
+
+  /**
+   * Add everything checked off on a list to the inventory and take it off the list.
+   * Expiration dates are predicted from the purchase date, and upcoming meals that were
+   * counting on a used-up item are pointed at the new one.
+   * @param list The list being checked out
+   * @param userId The user who did the shopping
+   * @returns The new food items
+   */
+  public async checkout(list: ShoppingList, userId: number): Promise<FoodItemWithStatus[]> {
+    const today = new Date();
+    const purchaseDate = format(today, 'yyyy-MM-dd');
+    const checked = (await storage.getShoppingListItems(list.id)).filter(item => item.checked);
+
+    const created: FoodItemWithStatus[] = [];
+    for (const listItem of checked) {
+      const suggestion = await shelfLifeService.suggest(
+        list.householdId, listItem.name, listItem.category, listItem.storageLocation, today
+      );
+
+      const newItem = await storage.createFoodItem({
+        name: listItem.name,
+        category: listItem.category,
+        quantity: listItem.quantity,
+        unit: listItem.unit,
+        purchaseDate,
+        expirationDate: suggestion.expirationDate,
+        storageLocation: listItem.storageLocation,
+        notes: null,
+        userId,
+        householdId: list.householdId,
+      });
+      await lotService.createInitialLot(newItem);
+      await itemEventService.record(newItem, "created", userId, {
+        quantity: newItem.quantity,
+        unit: newItem.unit,
+        source: "shopping-list",
+      });
+      await recallService.checkItem(newItem);
+
+      if (listItem.replacesFoodItemId !== null) {
+        await storage.replaceMealPlanIngredient(list.householdId, purchaseDate, listItem.replacesFoodItemId, newItem.id);
+      }
+
+      await storage.deleteShoppingListItem(listItem.id);
+      created.push(withExpirationStatus(newItem, today));
+    }
+
+    return created;
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
+
+export const shoppingListService = ShoppingListService.getInstance();
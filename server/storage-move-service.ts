@@ -0,0 +1,181 @@
+import { addDays, differenceInDays, format, parseISO, startOfDay } from "date-fns";
+import {
+  type FoodItem,
+  type StorageMove,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { lotService } from "./lot-service";
+import { shelfLifeService } from "./shelf-life-service";
+import { categoryService } from "./category-service";
+
+// A built-in storage location or the key of one of the household's own
+type StorageLocation = string;
+
+// Expiration fields of a lot after it has been moved
+type RecalculatedExpiration = {
+  expirationDate: string;
+  frozenRemainingDays: number | null;
+};
+
+/**
+ * Storage Move Service
+ * Moves food items between storage locations and recalculates their expiration.
+ * Freezing pauses the clock: a lot keeps the days it had left when it was frozen
+ * and gets them back when it is thawed.
+ */
+export class StorageMoveService {
+  private static instance: StorageMoveService;
+
+  private constructor() {}
+
+  public static getInstance(): StorageMoveService {
+    if (!StorageMoveService.instance) {
+      StorageMoveService.instance = new StorageMoveService();
+    }
+    return StorageMoveService.instance;
+  }
+
+  /**
+   * Move all of an item's stock to another storage location
+   * @param item The item to move
+   * @param toLocation Where the item is going
+   * @param movedDate The day the item was moved
+   * @param householdId The household whose history refines the shelf-life estimates
+   * @param userId The user who moved the item
+   * @returns The item with its new expiration and the recorded move
+   */
+  public async moveItem(
+    item: FoodItem,
+    toLocation: StorageLocation,
+    movedDate: Date,
+    householdId: number,
+    userId: number
+  ): Promise<{ item: FoodItem; move: StorageMove }> {
+    const day = startOfDay(movedDate);
+    const fromLocation = item.storageLocation;
+
+    // Custom freezers pause the clock just like the built-in one
+    const isFreezer = async (location: StorageLocation) =>
+      (await categoryService.resolveLocation(householdId, location)) === "freezer";
+
+    // Shelf life of this food at each location, looked up once per move
+    const shelfLifeDays = new Map<StorageLocation, number>();
+    const daysAt = async (location: StorageLocation) => {
+      if (!shelfLifeDays.has(location)) {
+        const suggestion = await shelfLifeService.suggest(householdId, item.name, item.category, location, day);
+        shelfLifeDays.set(location, suggestion.days);
+      }
+      return shelfLifeDays.get(location)!;
+    };
+
+    const lots = (await lotService.getLots(item)).filter(lot => lot.quantity > 0);
+    let updatedItem: FoodItem;
+    if (lots.length > 0) {
+      for (const lot of lots) {
+        if (lot.storageLocation === toLocation) continue;
+
+        const recalculated = await this.recalculate(
+          lot.expirationDate, lot.frozenRemainingDays, lot.storageLocation, toLocation, day, daysAt, isFreezer
+        );
+        await storage.updateFoodItemLot(lot.id, { ...recalculated, storageLocation: toLocation });
+      }
+      updatedItem = await lotService.syncItem(item);
+    } else {
+      // Nothing left in stock, so only the item itself moves
+      const { expirationDate } = await this.recalculate(item.expirationDate, null, fromLocation, toLocation, day, daysAt, isFreezer);
+      updatedItem = (await storage.updateFoodItem(item.id, { expirationDate, storageLocation: toLocation })) ?? item;
+    }
+
+    if (item.openedDate) {
+      updatedItem = (await storage.updateFoodItem(item.id, {
+        openedExpirationDate: await this.recalculateOpened(item, fromLocation, toLocation, day, isFreezer),
+      })) ?? updatedItem;
+    }
+
+    const move = await storage.createStorageMove({
+      foodItemId: item.id,
+      userId,
+      fromLocation,
+      toLocation,
+      movedDate: format(day, 'yyyy-MM-dd'),
+      previousExpirationDate: item.expirationDate,
+      newExpirationDate: updatedItem.expirationDate,
+    });
+
+    return { item: updatedItem, move };
+  }
+
+  /**
+   * Work out a lot's expiration at its new location.
+   * Going into the freezer starts the freezer's shelf life and remembers the days that were left;
+   * coming out gives those days back, capped at the new location's shelf life.
+   * Other moves keep the same share of the food's shelf life, e.g. half-way through in the pantry
+   * is half-way through in the fridge.
+   */
+  private async recalculate(
+    expirationDate: string,
+    frozenRemainingDays: number | null,
+    fromLocation: StorageLocation,
+    toLocation: StorageLocation,
+    movedDate: Date,
+    daysAt: (location: StorageLocation) => Promise<number>,
+    isFreezer: (location: StorageLocation) => Promise<boolean>
+  ): Promise<RecalculatedExpiration> {
+    const remainingDays = Math.max(differenceInDays(parseISO(expirationDate), movedDate), 0);
+    const fromFreezer = await isFreezer(fromLocation);
+
+    if (await isFreezer(toLocation)) {
+      return {
+        expirationDate: format(addDays(movedDate, await daysAt(toLocation)), 'yyyy-MM-dd'),
+        frozenRemainingDays: fromFreezer ? frozenRemainingDays : remainingDays,
+      };
+    }
+
+    const targetDays = await daysAt(toLocation);
+    let days: number;
+    if (fromFreezer) {
+      // Bought frozen, so there's no earlier clock to resume
+      days = frozenRemainingDays !== null ? Math.min(frozenRemainingDays, targetDays) : targetDays;
+    } else {
+      days = Math.round(remainingDays * targetDays / Math.max(await daysAt(fromLocation), 1));
+    }
+
+    return {
+      expirationDate: format(addDays(movedDate, days), 'yyyy-MM-dd'),
+      frozenRemainingDays: null,
+    };
+  }
+
+  /**
+   * Work out when an opened item goes off at its new location.
+   * The opened clock stops in the freezer and restarts on thawing.
+   */
+  private async recalculateOpened(
+    item: FoodItem,
+    fromLocation: StorageLocation,
+    toLocation: StorageLocation,
+    movedDate: Date,
+    isFreezer: (location: StorageLocation) => Promise<boolean>
+  ): Promise<string | null> {
+    if (await isFreezer(toLocation)) {
+      return null;
+    }
+
+    const openedShelfLife = await shelfLifeService.getOpenedShelfLife(item.householdId, item.name, item.category, toLocation);
+    if (!openedShelfLife) {
+      return null;
+    }
+
+    const start = await isFreezer(fromLocation) ? movedDate : parseISO(item.openedDate!);
+    return format(addDays(start, openedShelfLife.days), 'yyyy-MM-dd');
+  }
+
+  /**
+   * Get an item's moves, most recent first
+   */
+  public async getHistory(foodItemId: number): Promise<StorageMove[]> {
+    return await storage.getStorageMoves(foodItemId);
+  }
+}
+
+export const storageMoveService = StorageMoveService.getInstance();
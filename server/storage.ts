@@ -1,33 +1,65 @@
 import { 
   foodItems, 
+  foodItemLots,
+  itemPhotos,
+  storageMoves,
+  foodItemEvents,
   recipes, 
   wasteEntries,
   consumptionEntries,
   users,
   notificationSettings,
+  dietaryProfiles,
   mealPlans,
   otpVerifications,
   chatMessages,
   sharedRecipes,
   recipeComments,
-  FOOD_CATEGORIES,
-  STORAGE_LOCATIONS,
+  households,
+  householdMembers,
+  householdInvites,
+  customCategories,
+  customStorageLocations,
+  shoppingLists,
+  shoppingListItems,
+  parLevels,
+  shareListings,
+  recalls,
+  recallMatches,
+  tags,
+  foodItemTags,
+  productCatalog,
+  shelfLifeRules,
+  nutritionFacts,
   QUANTITY_UNITS,
   NOTIFICATION_FREQUENCIES,
   MEAL_TYPES,
   MESSAGE_TYPES,
+  HOUSEHOLD_ROLES,
   type FoodItem, 
   type InsertFoodItem,
+  type FoodItemLot,
+  type InsertFoodItemLot,
+  type ItemPhoto,
+  type InsertItemPhoto,
+  type StorageMove,
+  type InsertStorageMove,
+  type FoodItemEvent,
+  type InsertFoodItemEvent,
+  type FoodItemEventWithUser,
   type Recipe,
   type InsertRecipe,
   type WasteEntry,
   type InsertWasteEntry,
+  type WasteEntryWithItem,
   type ConsumptionEntry,
   type InsertConsumptionEntry,
   type User,
   type InsertUser,
   type NotificationSetting,
   type InsertNotificationSetting,
+  type DietaryProfile,
+  type InsertDietaryProfile,
   type MealPlan,
   type InsertMealPlan,
   type OtpVerification,
@@ -38,22 +70,98 @@ import {
   type SharedRecipe,
   type InsertSharedRecipe,
   type RecipeComment,
-  type InsertRecipeComment
+  type InsertRecipeComment,
+  type Household,
+  type InsertHousehold,
+  type HouseholdMember,
+  type InsertHouseholdMember,
+  type HouseholdMemberWithUser,
+  type HouseholdInvite,
+  type InsertHouseholdInvite,
+  type CustomCategory,
+  type InsertCustomCategory,
+  type CustomStorageLocation,
+  type InsertCustomStorageLocation,
+  type ShoppingList,
+  type InsertShoppingList,
+  type ShoppingListItem,
+  type InsertShoppingListItem,
+  type ShoppingListWithItems,
+  type ParLevel,
+  type InsertParLevel,
+  type ShareListing,
+  type InsertShareListing,
+  type ShareListingWithUsers,
+  type Recall,
+  type InsertRecall,
+  type RecallMatch,
+  type InsertRecallMatch,
+  type RecallAlert,
+  type Tag,
+  type InsertTag,
+  type TagWithCount,
+  type HouseholdRole,
+  type ProductCatalogEntry,
+  type ShelfLifeRule,
+  type InsertShelfLifeRule,
+  type NutritionFact,
+  type InsertNutritionFact,
+  type InsertProductCatalogEntry
 } from "@shared/schema";
+import { encodeFoodItemCursor, type FoodItemQuery } from "@shared/food-item-query";
+import { EXPIRING_SOON_DAYS, getEffectiveExpirationDate } from "@shared/expiration";
+import { getUnitPrice } from "@shared/prices";
 import { db } from "./db";
-import { eq, between, and, desc, sql, gt } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { eq, between, and, or, asc, desc, sql, gt, gte, lte, ilike, inArray, isNull, isNotNull, arrayOverlaps, type SQL } from "drizzle-orm";
+import { addDays, format } from "date-fns";
 import connectPg from "connect-pg-simple";
 import session from "express-session";
 import { pool } from "./db";
 
+// First key of the advisory lock taken while creating a user's personal household; the second is the user ID
+const PERSONAL_HOUSEHOLD_LOCK = 1;
+
 export interface IStorage {
   // Food Items
   getAllFoodItems(): Promise<FoodItem[]>;
-  getFoodItemsByUserId(userId: number): Promise<FoodItem[]>;
-  getFoodItem(id: number): Promise<FoodItem | undefined>;
+  getFoodItemsByHouseholdId(householdId: number): Promise<FoodItem[]>;
+  searchFoodItems(householdId: number, query: FoodItemQuery): Promise<{ items: FoodItem[]; nextCursor: string | null }>;
+  getFoodItem(id: number, includeTrashed?: boolean): Promise<FoodItem | undefined>;
+  getFoodItemsByIds(ids: number[]): Promise<FoodItem[]>;
+  getLatestFoodItemByName(householdId: number, name: string): Promise<FoodItem | undefined>;
   createFoodItem(item: InsertFoodItem): Promise<FoodItem>;
   updateFoodItem(id: number, item: Partial<InsertFoodItem>): Promise<FoodItem | undefined>;
   deleteFoodItem(id: number): Promise<boolean>;
+  moveFoodItemReferences(fromId: number, toId: number): Promise<void>;
+  
+  // Trash
+  getTrashedFoodItems(householdId: number): Promise<FoodItem[]>;
+  getFoodItemsDueForPurge(): Promise<FoodItem[]>;
+  trashFoodItem(id: number): Promise<FoodItem | undefined>;
+  restoreFoodItem(id: number): Promise<FoodItem | undefined>;
+  
+  // Food Item Lots
+  getFoodItemLots(foodItemId: number): Promise<FoodItemLot[]>;
+  getFoodItemLotsByFoodItemIds(foodItemIds: number[]): Promise<FoodItemLot[]>;
+  getFoodItemLot(id: number): Promise<FoodItemLot | undefined>;
+  createFoodItemLot(lot: InsertFoodItemLot): Promise<FoodItemLot>;
+  updateFoodItemLot(id: number, updates: Partial<InsertFoodItemLot>): Promise<FoodItemLot | undefined>;
+  deleteFoodItemLot(id: number): Promise<boolean>;
+  
+  // Item Photos
+  createItemPhoto(photo: InsertItemPhoto): Promise<ItemPhoto>;
+  getItemPhotosByPaths(householdId: number, paths: string[]): Promise<ItemPhoto[]>;
+  deleteItemPhotos(ids: number[]): Promise<void>;
+  getItemPhotoPathsInUse(householdId: number, paths: string[]): Promise<string[]>;
+  
+  // Storage Moves
+  getStorageMoves(foodItemId: number): Promise<StorageMove[]>;
+  createStorageMove(move: InsertStorageMove): Promise<StorageMove>;
+  
+  // Food Item Events
+  getFoodItemEvents(foodItemId: number): Promise<FoodItemEventWithUser[]>;
+  createFoodItemEvent(event: InsertFoodItemEvent): Promise<FoodItemEvent>;
   
   // Recipes
   getAllRecipes(): Promise<Recipe[]>;
@@ -62,16 +170,20 @@ export interface IStorage {
   
   // Waste Entries
   createWasteEntry(entry: InsertWasteEntry): Promise<WasteEntry>;
-  getWasteEntriesByDateRange(startDate: Date, endDate: Date): Promise<WasteEntry[]>;
+  getWasteEntry(id: number): Promise<WasteEntry | undefined>;
+  getWasteEntriesByUserId(householdId: number, userId: number): Promise<WasteEntryWithItem[]>;
+  getWasteEntriesByDateRange(householdId: number, startDate: Date, endDate: Date, userId?: number): Promise<WasteEntry[]>;
+  updateWasteEntry(id: number, updates: Partial<InsertWasteEntry>): Promise<WasteEntry | undefined>;
+  deleteWasteEntry(id: number): Promise<boolean>;
   
   // Consumption Entries
   createConsumptionEntry(entry: InsertConsumptionEntry): Promise<ConsumptionEntry>;
-  getConsumptionEntriesByUserId(userId: number): Promise<ConsumptionEntry[]>;
-  getConsumptionEntriesByDateRange(userId: number, startDate: Date, endDate: Date): Promise<ConsumptionEntry[]>;
+  getConsumptionEntriesByHouseholdId(householdId: number): Promise<ConsumptionEntry[]>;
+  getConsumptionEntriesByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<ConsumptionEntry[]>;
 
   // Meal Plans
-  getMealPlansByUserId(userId: number): Promise<MealPlan[]>;
-  getMealPlansByDateRange(userId: number, startDate: Date, endDate: Date): Promise<MealPlan[]>;
+  getMealPlansByHouseholdId(householdId: number): Promise<MealPlan[]>;
+  getMealPlansByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<MealPlan[]>;
   getMealPlan(id: number): Promise<MealPlan | undefined>;
   createMealPlan(mealPlan: InsertMealPlan): Promise<MealPlan>;
   updateMealPlan(id: number, mealPlan: Partial<InsertMealPlan>): Promise<MealPlan | undefined>;
@@ -89,9 +201,14 @@ export interface IStorage {
   getNotificationSettings(userId: number): Promise<NotificationSetting | undefined>;
   createNotificationSettings(settings: InsertNotificationSetting): Promise<NotificationSetting>;
   updateNotificationSettings(id: number, settings: Partial<InsertNotificationSetting>): Promise<NotificationSetting | undefined>;
-  getExpiringFoodItemsForNotification(daysThreshold: number, userId?: number): Promise<FoodItem[]>;
+  getExpiringFoodItemsForNotification(daysThreshold: number, householdIds?: number[]): Promise<FoodItem[]>;
   updateLastNotified(id: number, timestamp: Date): Promise<void>;
   
+  // Dietary Profiles
+  getDietaryProfile(userId: number): Promise<DietaryProfile | undefined>;
+  saveDietaryProfile(userId: number, profile: InsertDietaryProfile): Promise<DietaryProfile>;
+  getHouseholdDietaryProfiles(householdId: number): Promise<(DietaryProfile & { username: string })[]>;
+  
   // OTP Verification
   getOtpByEmail(email: string): Promise<OtpVerification | undefined>;
   createOtp(otpData: InsertOtpVerification): Promise<OtpVerification>;
@@ -112,6 +229,105 @@ export interface IStorage {
   getRecipeComments(recipeId: number): Promise<RecipeComment[]>;
   createRecipeComment(comment: InsertRecipeComment): Promise<RecipeComment>;
   
+  // Households
+  getHousehold(id: number): Promise<Household | undefined>;
+  getHouseholdsByUserId(userId: number): Promise<(Household & { role: HouseholdRole })[]>;
+  createHousehold(household: InsertHousehold): Promise<Household>;
+  updateHousehold(id: number, updates: Partial<InsertHousehold>): Promise<Household | undefined>;
+  getHouseholdMember(householdId: number, userId: number): Promise<HouseholdMember | undefined>;
+  getHouseholdMemberById(id: number): Promise<HouseholdMember | undefined>;
+  getHouseholdMembers(householdId: number): Promise<HouseholdMemberWithUser[]>;
+  addHouseholdMember(member: InsertHouseholdMember): Promise<HouseholdMember>;
+  updateHouseholdMemberRole(id: number, role: HouseholdRole): Promise<HouseholdMember | undefined>;
+  removeHouseholdMember(id: number): Promise<boolean>;
+  createPersonalHousehold(userId: number, name: string): Promise<HouseholdMember>;
+  
+  // Household Invites
+  getHouseholdInvite(id: number): Promise<HouseholdInvite | undefined>;
+  getPendingHouseholdInvites(householdId: number): Promise<HouseholdInvite[]>;
+  getPendingHouseholdInvitesByEmail(email: string): Promise<HouseholdInvite[]>;
+  createHouseholdInvite(invite: InsertHouseholdInvite): Promise<HouseholdInvite>;
+  markHouseholdInviteAccepted(id: number): Promise<void>;
+  recordFailedHouseholdInviteAttempt(ids: number[]): Promise<void>;
+  deleteHouseholdInvite(id: number): Promise<boolean>;
+  
+  // Custom Categories and Storage Locations
+  getCustomCategories(householdId: number): Promise<CustomCategory[]>;
+  getCustomCategory(id: number): Promise<CustomCategory | undefined>;
+  createCustomCategory(category: InsertCustomCategory): Promise<CustomCategory>;
+  updateCustomCategory(id: number, updates: Partial<InsertCustomCategory>): Promise<CustomCategory | undefined>;
+  deleteCustomCategory(id: number): Promise<boolean>;
+  getCustomStorageLocations(householdId: number): Promise<CustomStorageLocation[]>;
+  getCustomStorageLocation(id: number): Promise<CustomStorageLocation | undefined>;
+  createCustomStorageLocation(location: InsertCustomStorageLocation): Promise<CustomStorageLocation>;
+  updateCustomStorageLocation(id: number, updates: Partial<InsertCustomStorageLocation>): Promise<CustomStorageLocation | undefined>;
+  deleteCustomStorageLocation(id: number): Promise<boolean>;
+  
+  // Shopping Lists
+  getShoppingLists(householdId: number): Promise<ShoppingListWithItems[]>;
+  getShoppingList(id: number): Promise<ShoppingList | undefined>;
+  createShoppingList(list: InsertShoppingList): Promise<ShoppingList>;
+  updateShoppingList(id: number, updates: Partial<InsertShoppingList>): Promise<ShoppingList | undefined>;
+  deleteShoppingList(id: number): Promise<boolean>;
+  getShoppingListItems(listId: number): Promise<ShoppingListItem[]>;
+  getShoppingListItem(id: number): Promise<ShoppingListItem | undefined>;
+  createShoppingListItem(item: InsertShoppingListItem): Promise<ShoppingListItem>;
+  updateShoppingListItem(id: number, updates: Partial<InsertShoppingListItem>): Promise<ShoppingListItem | undefined>;
+  deleteShoppingListItem(id: number): Promise<boolean>;
+  replaceMealPlanIngredient(householdId: number, fromDate: string, oldFoodItemId: number, newFoodItemId: number): Promise<void>;
+  
+  // Tags
+  getTags(householdId: number): Promise<TagWithCount[]>;
+  getTagByName(householdId: number, name: string): Promise<Tag | undefined>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  getFoodItemTags(foodItemIds: number[]): Promise<{ foodItemId: number; name: string }[]>;
+  setFoodItemTags(foodItemId: number, tagIds: number[]): Promise<void>;
+  
+  // Par Levels
+  getParLevels(householdId: number): Promise<ParLevel[]>;
+  getParLevel(id: number): Promise<ParLevel | undefined>;
+  createParLevel(parLevel: InsertParLevel): Promise<ParLevel>;
+  updateParLevel(id: number, updates: Partial<InsertParLevel>): Promise<ParLevel | undefined>;
+  deleteParLevel(id: number): Promise<boolean>;
+  
+  // Share Listings
+  getOpenShareListings(): Promise<ShareListingWithUsers[]>;
+  getShareListing(id: number): Promise<ShareListingWithUsers | undefined>;
+  getOpenShareListingsForItem(foodItemId: number): Promise<ShareListing[]>;
+  createShareListing(listing: InsertShareListing): Promise<ShareListing>;
+  updateShareListing(
+    id: number,
+    updates: Partial<Omit<ShareListing, "id" | "createdAt">>,
+    fromStatus?: ShareListing["status"]
+  ): Promise<ShareListing | undefined>;
+  deleteShareListing(id: number): Promise<boolean>;
+  
+  // Recalls
+  getRecalls(): Promise<Recall[]>;
+  getRecall(id: number): Promise<Recall | undefined>;
+  createRecalls(recalls: InsertRecall[]): Promise<Recall[]>;
+  deleteRecall(id: number): Promise<boolean>;
+  getInStockFoodItems(): Promise<FoodItem[]>;
+  getRecallAlerts(householdId: number): Promise<RecallAlert[]>;
+  getRecallMatch(id: number): Promise<RecallMatch | undefined>;
+  createRecallMatches(matches: InsertRecallMatch[]): Promise<RecallMatch[]>;
+  dismissRecallMatch(id: number): Promise<RecallMatch | undefined>;
+  
+  // Product Catalog
+  getProductByBarcode(barcode: string): Promise<ProductCatalogEntry | undefined>;
+  createProductCatalogEntry(entry: InsertProductCatalogEntry): Promise<ProductCatalogEntry>;
+  updateProductCatalogEntry(id: number, updates: Partial<InsertProductCatalogEntry>): Promise<ProductCatalogEntry | undefined>;
+  countProductCatalogEntries(): Promise<number>;
+  
+  // Shelf Life
+  getShelfLifeRules(): Promise<ShelfLifeRule[]>;
+  createShelfLifeRules(rules: InsertShelfLifeRule[]): Promise<void>;
+  getShelfLifeHistory(householdId: number, name: string, storageLocation: string): Promise<Pick<FoodItem, "purchaseDate" | "expirationDate">[]>;
+  
+  // Nutrition Facts
+  getNutritionFacts(): Promise<NutritionFact[]>;
+  createNutritionFacts(facts: InsertNutritionFact[]): Promise<void>;
+  
   // Session Management
   sessionStore: session.Store;
 }
@@ -130,57 +346,414 @@ export class DatabaseStorage implements IStorage {
   }
   // Food Items
   async getAllFoodItems(): Promise<FoodItem[]> {
-    return await db.select().from(foodItems).orderBy(desc(foodItems.expirationDate));
+    return await db
+      .select()
+      .from(foodItems)
+      .where(isNull(foodItems.deletedAt))
+      .orderBy(desc(foodItems.expirationDate));
   }
   
-  async getFoodItemsByUserId(userId: number): Promise<FoodItem[]> {
+  async getFoodItemsByHouseholdId(householdId: number): Promise<FoodItem[]> {
     const result = await db.select()
       .from(foodItems)
-      .where(eq(foodItems.userId, userId))
+      .where(and(eq(foodItems.householdId, householdId), isNull(foodItems.deletedAt)))
       .orderBy(desc(foodItems.expirationDate));
     
     // Filter out consumed items (quantity = 0) in memory
     return result.filter(item => item.quantity > 0);
   }
 
-  async getFoodItem(id: number): Promise<FoodItem | undefined> {
-    const result = await db.select().from(foodItems).where(eq(foodItems.id, id));
+  // Filter, sort and page a household's in-stock items in the database
+  async searchFoodItems(householdId: number, query: FoodItemQuery): Promise<{ items: FoodItem[]; nextCursor: string | null }> {
+    // Postgres' least() skips nulls, so unopened items fall back to their printed date
+    const effectiveExpiration = sql`least(${foodItems.expirationDate}, ${foodItems.openedExpirationDate})`;
+    const today = format(new Date(), 'yyyy-MM-dd');
+    // Days until expiration round down, so an item EXPIRING_SOON_DAYS + 1 days out already counts as expiring soon
+    const expiringSoonLimit = format(addDays(new Date(), EXPIRING_SOON_DAYS + 1), 'yyyy-MM-dd');
+    
+    const conditions: SQL[] = [
+      eq(foodItems.householdId, householdId),
+      isNull(foodItems.deletedAt),
+      gt(foodItems.quantity, 0),
+    ];
+    
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(ilike(foodItems.name, pattern), ilike(foodItems.notes, pattern))!);
+    }
+    if (query.category) {
+      conditions.push(eq(foodItems.category, query.category));
+    }
+    if (query.storageLocation) {
+      conditions.push(eq(foodItems.storageLocation, query.storageLocation));
+    }
+    if (query.status === 'expired') {
+      conditions.push(sql`${effectiveExpiration} <= ${today}::date`);
+    } else if (query.status === 'expiring-soon') {
+      conditions.push(sql`${effectiveExpiration} > ${today}::date and ${effectiveExpiration} <= ${expiringSoonLimit}::date`);
+    } else if (query.status === 'fresh') {
+      conditions.push(sql`${effectiveExpiration} > ${expiringSoonLimit}::date`);
+    }
+    // Items must carry every tag asked for
+    for (const tag of query.tags ?? []) {
+      conditions.push(sql`exists (
+        select 1 from ${foodItemTags}
+        inner join ${tags} on ${tags.id} = ${foodItemTags.tagId}
+        where ${foodItemTags.foodItemId} = ${foodItems.id} and ${tags.name} = ${tag}
+      )`);
+    }
+    if (query.leftovers !== undefined) {
+      conditions.push(eq(foodItems.leftovers, query.leftovers));
+    }
+    if (query.expiresAfter) {
+      conditions.push(sql`${effectiveExpiration} >= ${query.expiresAfter}::date`);
+    }
+    if (query.expiresBefore) {
+      conditions.push(sql`${effectiveExpiration} <= ${query.expiresBefore}::date`);
+    }
+    
+    // The sort value of an item, both as SQL and as stored in a cursor
+    let sortExpression: SQL;
+    let cursorValue: (item: FoodItem) => string | number;
+    switch (query.sort) {
+      case 'name':
+        sortExpression = sql`lower(${foodItems.name})`;
+        cursorValue = item => item.name.toLowerCase();
+        break;
+      case 'created':
+        // Timestamps are stored in microseconds but cursors only carry milliseconds
+        sortExpression = sql`date_trunc('milliseconds', ${foodItems.createdAt})`;
+        cursorValue = item => item.createdAt.toISOString();
+        break;
+      case 'quantity':
+        sortExpression = sql`${foodItems.quantity}`;
+        cursorValue = item => item.quantity;
+        break;
+      default:
+        sortExpression = effectiveExpiration;
+        cursorValue = item => getEffectiveExpirationDate(item);
+        break;
+    }
+    
+    // Keyset pagination: continue after the last item of the previous page, using the id to break ties
+    if (query.cursor) {
+      const { value, id } = query.cursor;
+      const after = query.sort === 'quantity' ? sql`${value}::double precision`
+        : query.sort === 'created' ? sql`${value}::timestamp`
+        : query.sort === 'name' ? sql`${value}::text`
+        : sql`${value}::date`;
+      conditions.push(query.direction === 'desc'
+        ? sql`(${sortExpression}, ${foodItems.id}) < (${after}, ${id}::integer)`
+        : sql`(${sortExpression}, ${foodItems.id}) > (${after}, ${id}::integer)`);
+    }
+    
+    const order = query.direction === 'desc' ? desc : asc;
+    const itemsQuery = db
+      .select()
+      .from(foodItems)
+      .where(and(...conditions))
+      .orderBy(order(sortExpression), order(foodItems.id));
+    if (query.limit === undefined) {
+      return { items: await itemsQuery, nextCursor: null };
+    }
+    
+    // One extra row tells us whether there's another page
+    const rows = await itemsQuery.limit(query.limit + 1);
+    if (rows.length <= query.limit) {
+      return { items: rows, nextCursor: null };
+    }
+    
+    const items = rows.slice(0, query.limit);
+    const last = items[items.length - 1];
+    return { items, nextCursor: encodeFoodItemCursor({ value: cursorValue(last), id: last.id }) };
+  }
+
+  // Items in the trash are only returned when asked for
+  async getFoodItem(id: number, includeTrashed: boolean = false): Promise<FoodItem | undefined> {
+    const result = await db
+      .select()
+      .from(foodItems)
+      .where(includeTrashed ? eq(foodItems.id, id) : and(eq(foodItems.id, id), isNull(foodItems.deletedAt)));
     return result.length > 0 ? result[0] : undefined;
   }
 
+  // Includes used-up and trashed items, which meals may still refer to
+  async getFoodItemsByIds(ids: number[]): Promise<FoodItem[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(foodItems).where(inArray(foodItems.id, ids));
+  }
+
+  // The household's most recent item with this name, including used-up ones, to file a new one the same way
+  async getLatestFoodItemByName(householdId: number, name: string): Promise<FoodItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(foodItems)
+      .where(
+        and(
+          eq(foodItems.householdId, householdId),
+          isNull(foodItems.deletedAt),
+          sql`lower(trim(${foodItems.name})) = ${name.trim().toLowerCase()}`
+        )
+      )
+      .orderBy(desc(foodItems.createdAt))
+      .limit(1);
+    return item;
+  }
+
   async createFoodItem(item: InsertFoodItem): Promise<FoodItem> {
+    const unitPrice = getUnitPrice(item.price, item.quantity ?? 1);
     // @ts-ignore - Type issues with drizzle-orm
-    const [newItem] = await db.insert(foodItems).values(item).returning();
+    const [newItem] = await db.insert(foodItems).values({ ...item, unitPrice }).returning();
     return newItem;
   }
 
   async updateFoodItem(id: number, updates: Partial<InsertFoodItem>): Promise<FoodItem | undefined> {
-    // Handle type-safe category updates
-    const typeCheckedUpdates: any = { ...updates };
-    
-    // For proper type checking, ensure category is one of the allowed values
-    if (updates.category && typeof updates.category === 'string') {
-      if (FOOD_CATEGORIES.includes(updates.category as any)) {
-        typeCheckedUpdates.category = updates.category;
-      } else {
-        throw new Error(`Invalid category: ${updates.category}`);
+    // Categories are checked against the household's categories before they get here.
+    // A changed price is spread over the quantity it's entered with; using up the item keeps the unit price.
+    let unitPrice: number | null | undefined;
+    if (updates.price !== undefined) {
+      const current = await this.getFoodItem(id, true);
+      if (current && current.price !== updates.price) {
+        unitPrice = getUnitPrice(updates.price, updates.quantity ?? current.quantity);
       }
     }
-    
+
     const [updatedItem] = await db
       .update(foodItems)
-      .set(typeCheckedUpdates)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set(unitPrice !== undefined ? { ...updates, unitPrice } : updates)
       .where(eq(foodItems.id, id))
       .returning();
     
     return updatedItem;
   }
 
+  // Permanently delete an item along with everything recorded against it, except its waste and consumption
   async deleteFoodItem(id: number): Promise<boolean> {
+    await db.delete(foodItemLots).where(eq(foodItemLots.foodItemId, id));
+    await db.delete(storageMoves).where(eq(storageMoves.foodItemId, id));
+    await db.delete(foodItemTags).where(eq(foodItemTags.foodItemId, id));
+    // Waste and consumption history stays in the insights, under the item's name
+    const item = await this.getFoodItem(id, true);
+    if (item) {
+      await db
+        .update(wasteEntries)
+        .set({ foodItemId: null, itemName: item.name })
+        .where(eq(wasteEntries.foodItemId, id));
+      await db
+        .update(consumptionEntries)
+        .set({ foodItemId: null, itemName: item.name })
+        .where(eq(consumptionEntries.foodItemId, id));
+    }
+    await db
+      .update(mealPlans)
+      .set({ ingredients: sql`array_remove(${mealPlans.ingredients}, ${id})` })
+      .where(sql`${id} = ANY(${mealPlans.ingredients})`);
+    await db.update(shareListings).set({ foodItemId: null }).where(eq(shareListings.foodItemId, id));
+    await db.delete(recallMatches).where(eq(recallMatches.foodItemId, id));
+    await db
+      .update(foodItems)
+      .set({ ingredientIds: sql`array_remove(${foodItems.ingredientIds}, ${id})` })
+      .where(sql`${id} = ANY(${foodItems.ingredientIds})`);
     const result = await db.delete(foodItems).where(eq(foodItems.id, id)).returning();
     return result.length > 0;
   }
 
+  // Point everything recorded against an item at another one, e.g. when merging duplicates.
+  // Lots, tags and the item's own history are left for the caller.
+  async moveFoodItemReferences(fromId: number, toId: number): Promise<void> {
+    await db.update(storageMoves).set({ foodItemId: toId }).where(eq(storageMoves.foodItemId, fromId));
+    await db.update(wasteEntries).set({ foodItemId: toId }).where(eq(wasteEntries.foodItemId, fromId));
+    await db.update(consumptionEntries).set({ foodItemId: toId }).where(eq(consumptionEntries.foodItemId, fromId));
+    await db.update(shareListings).set({ foodItemId: toId }).where(eq(shareListings.foodItemId, fromId));
+    await db.update(recallMatches).set({ foodItemId: toId }).where(eq(recallMatches.foodItemId, fromId));
+    await db
+      .update(shoppingListItems)
+      .set({ replacesFoodItemId: toId })
+      .where(eq(shoppingListItems.replacesFoodItemId, fromId));
+    
+    // Meals and leftovers that already use both items keep a single reference
+    await db
+      .update(mealPlans)
+      .set({ ingredients: sql`array_remove(${mealPlans.ingredients}, ${fromId})` })
+      .where(sql`${fromId} = ANY(${mealPlans.ingredients}) AND ${toId} = ANY(${mealPlans.ingredients})`);
+    await db
+      .update(mealPlans)
+      .set({ ingredients: sql`array_replace(${mealPlans.ingredients}, ${fromId}, ${toId})` })
+      .where(sql`${fromId} = ANY(${mealPlans.ingredients})`);
+    await db
+      .update(foodItems)
+      .set({ ingredientIds: sql`array_remove(${foodItems.ingredientIds}, ${fromId})` })
+      .where(sql`${fromId} = ANY(${foodItems.ingredientIds}) AND ${toId} = ANY(${foodItems.ingredientIds})`);
+    await db
+      .update(foodItems)
+      .set({ ingredientIds: sql`array_replace(${foodItems.ingredientIds}, ${fromId}, ${toId})` })
+      .where(sql`${fromId} = ANY(${foodItems.ingredientIds})`);
+  }
+
+  // Trash, most recently deleted first
+  async getTrashedFoodItems(householdId: number): Promise<FoodItem[]> {
+    return await db
+      .select()
+      .from(foodItems)
+      .where(and(eq(foodItems.householdId, householdId), isNotNull(foodItems.deletedAt)))
+      .orderBy(desc(foodItems.deletedAt));
+  }
+
+  // Items that have been in the trash longer than their household keeps deleted items
+  async getFoodItemsDueForPurge(): Promise<FoodItem[]> {
+    const rows = await db
+      .select({ item: foodItems })
+      .from(foodItems)
+      .leftJoin(households, eq(foodItems.householdId, households.id))
+      .where(and(
+        isNotNull(foodItems.deletedAt),
+        sql`${foodItems.deletedAt} < now() - make_interval(days => coalesce(${households.trashRetentionDays}, 30))`
+      ));
+    return rows.map(row => row.item);
+  }
+
+  async trashFoodItem(id: number): Promise<FoodItem | undefined> {
+    const [trashedItem] = await db
+      .update(foodItems)
+      .set({ deletedAt: new Date() })
+      .where(eq(foodItems.id, id))
+      .returning();
+    return trashedItem;
+  }
+
+  async restoreFoodItem(id: number): Promise<FoodItem | undefined> {
+    const [restoredItem] = await db
+      .update(foodItems)
+      .set({ deletedAt: null })
+      .where(eq(foodItems.id, id))
+      .returning();
+    return restoredItem;
+  }
+
+  // Food Item Lots, oldest purchase first
+  async getFoodItemLots(foodItemId: number): Promise<FoodItemLot[]> {
+    return await db
+      .select()
+      .from(foodItemLots)
+      .where(eq(foodItemLots.foodItemId, foodItemId))
+      .orderBy(foodItemLots.purchaseDate, foodItemLots.id);
+  }
+
+  async getFoodItemLotsByFoodItemIds(foodItemIds: number[]): Promise<FoodItemLot[]> {
+    if (foodItemIds.length === 0) {
+      return [];
+    }
+    
+    return await db
+      .select()
+      .from(foodItemLots)
+      .where(inArray(foodItemLots.foodItemId, foodItemIds))
+      .orderBy(foodItemLots.purchaseDate, foodItemLots.id);
+  }
+
+  async getFoodItemLot(id: number): Promise<FoodItemLot | undefined> {
+    const result = await db.select().from(foodItemLots).where(eq(foodItemLots.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createFoodItemLot(lot: InsertFoodItemLot): Promise<FoodItemLot> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newLot] = await db.insert(foodItemLots).values(lot).returning();
+    return newLot;
+  }
+
+  async updateFoodItemLot(id: number, updates: Partial<InsertFoodItemLot>): Promise<FoodItemLot | undefined> {
+    const [updatedLot] = await db
+      .update(foodItemLots)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set(updates)
+      .where(eq(foodItemLots.id, id))
+      .returning();
+    return updatedLot;
+  }
+
+  async deleteFoodItemLot(id: number): Promise<boolean> {
+    const result = await db.delete(foodItemLots).where(eq(foodItemLots.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Item Photos
+  async createItemPhoto(photo: InsertItemPhoto): Promise<ItemPhoto> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newPhoto] = await db.insert(itemPhotos).values(photo).returning();
+    return newPhoto;
+  }
+
+  // The given photos that were uploaded for this household's items
+  async getItemPhotosByPaths(householdId: number, paths: string[]): Promise<ItemPhoto[]> {
+    if (paths.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(itemPhotos)
+      .where(and(eq(itemPhotos.householdId, householdId), inArray(itemPhotos.path, paths)));
+  }
+
+  async deleteItemPhotos(ids: number[]): Promise<void> {
+    if (ids.length > 0) {
+      await db.delete(itemPhotos).where(inArray(itemPhotos.id, ids));
+    }
+  }
+
+  // The given photos that are still on one of the household's items, trashed ones included
+  async getItemPhotoPathsInUse(householdId: number, paths: string[]): Promise<string[]> {
+    if (paths.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .select({ photos: foodItems.photos })
+      .from(foodItems)
+      .where(and(eq(foodItems.householdId, householdId), arrayOverlaps(foodItems.photos, paths)));
+    return paths.filter(path => rows.some(row => row.photos.includes(path)));
+  }
+
+  // Storage Moves, most recent first
+  async getStorageMoves(foodItemId: number): Promise<StorageMove[]> {
+    return await db
+      .select()
+      .from(storageMoves)
+      .where(eq(storageMoves.foodItemId, foodItemId))
+      .orderBy(desc(storageMoves.createdAt), desc(storageMoves.id));
+  }
+
+  async createStorageMove(move: InsertStorageMove): Promise<StorageMove> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newMove] = await db.insert(storageMoves).values(move).returning();
+    return newMove;
+  }
+
+  // Food Item Events, most recent first
+  async getFoodItemEvents(foodItemId: number): Promise<FoodItemEventWithUser[]> {
+    const rows = await db
+      .select({
+        event: foodItemEvents,
+        user: {
+          id: users.id,
+          username: users.username,
+          name: users.name
+        }
+      })
+      .from(foodItemEvents)
+      .leftJoin(users, eq(foodItemEvents.userId, users.id))
+      .where(eq(foodItemEvents.foodItemId, foodItemId))
+      .orderBy(desc(foodItemEvents.createdAt), desc(foodItemEvents.id));
+    
+    return rows.map(row => ({ ...row.event, user: row.user }));
+  }
+
+  async createFoodItemEvent(event: InsertFoodItemEvent): Promise<FoodItemEvent> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newEvent] = await db.insert(foodItemEvents).values(event).returning();
+    return newEvent;
+  }
+
   // Recipes
   async getAllRecipes(): Promise<Recipe[]> {
     return await db.select().from(recipes);
@@ -204,7 +777,26 @@ export class DatabaseStorage implements IStorage {
     return newEntry;
   }
 
-  async getWasteEntriesByDateRange(startDate: Date, endDate: Date): Promise<WasteEntry[]> {
+  async getWasteEntry(id: number): Promise<WasteEntry | undefined> {
+    const [entry] = await db.select().from(wasteEntries).where(eq(wasteEntries.id, id));
+    return entry;
+  }
+
+  // One member's waste in a household, most recent first, with the name of what was thrown away
+  async getWasteEntriesByUserId(householdId: number, userId: number): Promise<WasteEntryWithItem[]> {
+    const rows = await db
+      .select({ entry: wasteEntries, itemName: foodItems.name })
+      .from(wasteEntries)
+      .leftJoin(foodItems, eq(foodItems.id, wasteEntries.foodItemId))
+      .where(and(eq(wasteEntries.householdId, householdId), eq(wasteEntries.userId, userId)))
+      .orderBy(desc(wasteEntries.wasteDate), desc(wasteEntries.id));
+
+    // Entries for purged items use the name kept on the entry
+    return rows.map(row => ({ ...row.entry, itemName: row.itemName ?? row.entry.itemName ?? "Removed item" }));
+  }
+
+  // The household's waste in a date range, or only one member's when a user is given
+  async getWasteEntriesByDateRange(householdId: number, startDate: Date, endDate: Date, userId?: number): Promise<WasteEntry[]> {
     // Convert Date objects to strings in the format PostgreSQL expects
     const startDateStr = startDate.toISOString().split('T')[0];
     const endDateStr = endDate.toISOString().split('T')[0];
@@ -215,10 +807,27 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           // @ts-ignore - Type issues with drizzle-orm
-          between(wasteEntries.wasteDate, startDateStr, endDateStr)
+          between(wasteEntries.wasteDate, startDateStr, endDateStr),
+          eq(wasteEntries.householdId, householdId),
+          userId !== undefined ? eq(wasteEntries.userId, userId) : undefined
         )
       );
   }
+
+  async updateWasteEntry(id: number, updates: Partial<InsertWasteEntry>): Promise<WasteEntry | undefined> {
+    const [updatedEntry] = await db
+      .update(wasteEntries)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set(updates)
+      .where(eq(wasteEntries.id, id))
+      .returning();
+    return updatedEntry;
+  }
+
+  async deleteWasteEntry(id: number): Promise<boolean> {
+    const result = await db.delete(wasteEntries).where(eq(wasteEntries.id, id)).returning();
+    return result.length > 0;
+  }
   
   // Consumption Entries
   async createConsumptionEntry(entry: InsertConsumptionEntry): Promise<ConsumptionEntry> {
@@ -227,15 +836,15 @@ export class DatabaseStorage implements IStorage {
     return newEntry;
   }
 
-  async getConsumptionEntriesByUserId(userId: number): Promise<ConsumptionEntry[]> {
+  async getConsumptionEntriesByHouseholdId(householdId: number): Promise<ConsumptionEntry[]> {
     return await db
       .select()
       .from(consumptionEntries)
-      .where(eq(consumptionEntries.userId, userId))
+      .where(eq(consumptionEntries.householdId, householdId))
       .orderBy(desc(consumptionEntries.consumptionDate));
   }
 
-  async getConsumptionEntriesByDateRange(userId: number, startDate: Date, endDate: Date): Promise<ConsumptionEntry[]> {
+  async getConsumptionEntriesByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<ConsumptionEntry[]> {
     // Convert Date objects to strings in the format PostgreSQL expects
     const startDateStr = startDate.toISOString().split('T')[0];
     const endDateStr = endDate.toISOString().split('T')[0];
@@ -247,22 +856,22 @@ export class DatabaseStorage implements IStorage {
         and(
           // @ts-ignore - Type issues with drizzle-orm
           between(consumptionEntries.consumptionDate, startDateStr, endDateStr),
-          eq(consumptionEntries.userId, userId)
+          eq(consumptionEntries.householdId, householdId)
         )
       )
       .orderBy(desc(consumptionEntries.consumptionDate));
   }
   
   // Meal Plans
-  async getMealPlansByUserId(userId: number): Promise<MealPlan[]> {
+  async getMealPlansByHouseholdId(householdId: number): Promise<MealPlan[]> {
     return await db
       .select()
       .from(mealPlans)
-      .where(eq(mealPlans.userId, userId))
+      .where(eq(mealPlans.householdId, householdId))
       .orderBy(mealPlans.date);
   }
   
-  async getMealPlansByDateRange(userId: number, startDate: Date, endDate: Date): Promise<MealPlan[]> {
+  async getMealPlansByDateRange(householdId: number, startDate: Date, endDate: Date): Promise<MealPlan[]> {
     // Convert Date objects to strings in the format PostgreSQL expects
     const startDateStr = startDate.toISOString().split('T')[0];
     const endDateStr = endDate.toISOString().split('T')[0];
@@ -274,7 +883,7 @@ export class DatabaseStorage implements IStorage {
         and(
           // @ts-ignore - Type issues with drizzle-orm
           between(mealPlans.date, startDateStr, endDateStr),
-          eq(mealPlans.userId, userId)
+          eq(mealPlans.householdId, householdId)
         )
       )
       .orderBy(mealPlans.date);
@@ -314,6 +923,8 @@ export class DatabaseStorage implements IStorage {
   }
   
   async deleteMealPlan(id: number): Promise<boolean> {
+    // Leftovers outlive the meal they came from
+    await db.update(foodItems).set({ sourceMealPlanId: null }).where(eq(foodItems.sourceMealPlanId, id));
     const result = await db.delete(mealPlans).where(eq(mealPlans.id, id)).returning();
     return result.length > 0;
   }
@@ -355,12 +966,83 @@ export class DatabaseStorage implements IStorage {
     try {
       // First, delete all related data
       
-      // Delete food items
-      await db.delete(foodItems).where(eq(foodItems.userId, id));
+      // Leave households; households the user was the last member of go with them
+      const memberships = await db.select().from(householdMembers).where(eq(householdMembers.userId, id));
+      
+      // Withdraw the user's share listings and give back what they had claimed
+      await db.delete(shareListings).where(eq(shareListings.userId, id));
+      await db
+        .update(shareListings)
+        .set({ status: "available", claimedById: null, claimedAt: null })
+        .where(and(eq(shareListings.claimedById, id), eq(shareListings.status, "claimed")));
+      await db.update(shareListings).set({ claimedById: null }).where(eq(shareListings.claimedById, id));
+      await db.delete(householdMembers).where(eq(householdMembers.userId, id));
+      await db.delete(householdInvites).where(eq(householdInvites.invitedBy, id));
+      
+      for (const membership of memberships) {
+        const remaining = await db
+          .select()
+          .from(householdMembers)
+          .where(eq(householdMembers.householdId, membership.householdId));
+        
+        if (remaining.length === 0) {
+          await db.delete(householdInvites).where(eq(householdInvites.householdId, membership.householdId));
+          await db.delete(wasteEntries).where(eq(wasteEntries.householdId, membership.householdId));
+          await db.delete(consumptionEntries).where(eq(consumptionEntries.householdId, membership.householdId));
+          await db.delete(mealPlans).where(eq(mealPlans.householdId, membership.householdId));
+          const householdLists = db
+            .select({ id: shoppingLists.id })
+            .from(shoppingLists)
+            .where(eq(shoppingLists.householdId, membership.householdId));
+          await db.delete(shoppingListItems).where(inArray(shoppingListItems.listId, householdLists));
+          await db.delete(shoppingLists).where(eq(shoppingLists.householdId, membership.householdId));
+          await db.delete(parLevels).where(eq(parLevels.householdId, membership.householdId));
+          const householdItems = await db
+            .select({ id: foodItems.id })
+            .from(foodItems)
+            .where(eq(foodItems.householdId, membership.householdId));
+          if (householdItems.length > 0) {
+            await db.delete(foodItemLots).where(inArray(foodItemLots.foodItemId, householdItems.map(item => item.id)));
+            await db.delete(storageMoves).where(inArray(storageMoves.foodItemId, householdItems.map(item => item.id)));
+            await db.delete(foodItemTags).where(inArray(foodItemTags.foodItemId, householdItems.map(item => item.id)));
+          }
+          await db.delete(tags).where(eq(tags.householdId, membership.householdId));
+          await db.delete(shareListings).where(eq(shareListings.householdId, membership.householdId));
+          await db.delete(recallMatches).where(eq(recallMatches.householdId, membership.householdId));
+          await db.delete(foodItemEvents).where(eq(foodItemEvents.householdId, membership.householdId));
+          await db.delete(foodItems).where(eq(foodItems.householdId, membership.householdId));
+          await db.delete(itemPhotos).where(eq(itemPhotos.householdId, membership.householdId));
+          await db.delete(customCategories).where(eq(customCategories.householdId, membership.householdId));
+          await db.delete(customStorageLocations).where(eq(customStorageLocations.householdId, membership.householdId));
+          await db.delete(households).where(eq(households.id, membership.householdId));
+        } else {
+          // Hand ownership to the longest-standing remaining member if needed
+          if (!remaining.some(member => member.role === "owner")) {
+            await db
+              .update(householdMembers)
+              .set({ role: "owner" })
+              .where(eq(householdMembers.id, remaining[0].id));
+          }
+          await db
+            .update(households)
+            .set({ createdBy: remaining[0].userId })
+            .where(and(eq(households.id, membership.householdId), eq(households.createdBy, id)));
+        }
+      }
+      
+      // Items the user added to households that still exist stay with the household
+      await db.update(foodItems).set({ userId: null }).where(eq(foodItems.userId, id));
+      await db.update(storageMoves).set({ userId: null }).where(eq(storageMoves.userId, id));
+      await db.update(foodItemEvents).set({ userId: null }).where(eq(foodItemEvents.userId, id));
+      await db.update(itemPhotos).set({ userId: null }).where(eq(itemPhotos.userId, id));
+      await db.update(recalls).set({ importedBy: null }).where(eq(recalls.importedBy, id));
       
       // Delete notification settings
       await db.delete(notificationSettings).where(eq(notificationSettings.userId, id));
       
+      // Delete dietary profile
+      await db.delete(dietaryProfiles).where(eq(dietaryProfiles.userId, id));
+      
       // Delete waste entries
       await db.delete(wasteEntries).where(eq(wasteEntries.userId, id));
       
@@ -420,7 +1102,7 @@ export class DatabaseStorage implements IStorage {
     return updatedSettings;
   }
 
-  async getExpiringFoodItemsForNotification(daysThreshold: number, userId?: number): Promise<FoodItem[]> {
+  async getExpiringFoodItemsForNotification(daysThreshold: number, householdIds?: number[]): Promise<FoodItem[]> {
     const today = new Date();
     const threshold = new Date();
     threshold.setDate(today.getDate() + daysThreshold);
@@ -429,17 +1111,27 @@ export class DatabaseStorage implements IStorage {
     const thresholdStr = threshold.toISOString().split('T')[0];
     
     // Get food items that will expire within the threshold days
-    // Filter by userId if provided
+    // Filter by household if provided
     let result: FoodItem[];
-    if (userId !== undefined) {
+    if (householdIds !== undefined) {
+      if (householdIds.length === 0) {
+        return [];
+      }
+      
       result = await db
         .select()
         .from(foodItems)
         .where(
           and(
-            // @ts-ignore - Type issues with drizzle-orm
-            between(foodItems.expirationDate, todayStr, thresholdStr),
-            eq(foodItems.userId, userId)
+            // Opened items can expire before their printed date
+            or(
+              // @ts-ignore - Type issues with drizzle-orm
+              between(foodItems.expirationDate, todayStr, thresholdStr),
+              // @ts-ignore - Type issues with drizzle-orm
+              between(foodItems.openedExpirationDate, todayStr, thresholdStr)
+            ),
+            inArray(foodItems.householdId, householdIds),
+            isNull(foodItems.deletedAt)
           )
         );
     } else {
@@ -448,8 +1140,13 @@ export class DatabaseStorage implements IStorage {
         .from(foodItems)
         .where(
           and(
-            // @ts-ignore - Type issues with drizzle-orm
-            between(foodItems.expirationDate, todayStr, thresholdStr)
+            or(
+              // @ts-ignore - Type issues with drizzle-orm
+              between(foodItems.expirationDate, todayStr, thresholdStr),
+              // @ts-ignore - Type issues with drizzle-orm
+              between(foodItems.openedExpirationDate, todayStr, thresholdStr)
+            ),
+            isNull(foodItems.deletedAt)
           )
         );
     }
@@ -467,7 +1164,44 @@ export class DatabaseStorage implements IStorage {
       })
       .where(eq(notificationSettings.id, id));
   }
-  
+
+  // Dietary Profiles
+  async getDietaryProfile(userId: number): Promise<DietaryProfile | undefined> {
+    const result = await db.select().from(dietaryProfiles).where(eq(dietaryProfiles.userId, userId));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  // Create the user's profile or replace the one they have
+  async saveDietaryProfile(userId: number, profile: InsertDietaryProfile): Promise<DietaryProfile> {
+    const existing = await this.getDietaryProfile(userId);
+    if (existing) {
+      const [updated] = await db
+        .update(dietaryProfiles)
+        // @ts-ignore - Type issues with drizzle-orm
+        .set({ ...profile, updatedAt: new Date() })
+        .where(eq(dietaryProfiles.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    // @ts-ignore - Type issues with drizzle-orm
+    const [created] = await db.insert(dietaryProfiles).values({ ...profile, userId }).returning();
+    return created;
+  }
+
+  // Profiles of a household's members; members who never filled one in are left out
+  async getHouseholdDietaryProfiles(householdId: number): Promise<(DietaryProfile & { username: string })[]> {
+    const rows = await db
+      .select({ profile: dietaryProfiles, username: users.username })
+      .from(dietaryProfiles)
+      .innerJoin(householdMembers, eq(householdMembers.userId, dietaryProfiles.userId))
+      .innerJoin(users, eq(users.id, dietaryProfiles.userId))
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(householdMembers.createdAt);
+
+    return rows.map(row => ({ ...row.profile, username: row.username }));
+  }
+
   // OTP Verification
   async getOtpByEmail(email: string): Promise<OtpVerification | undefined> {
     const result = await db
@@ -690,6 +1424,701 @@ export class DatabaseStorage implements IStorage {
     return newComment;
   }
 
+  // Households
+  async getHousehold(id: number): Promise<Household | undefined> {
+    const result = await db.select().from(households).where(eq(households.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async getHouseholdsByUserId(userId: number): Promise<(Household & { role: HouseholdRole })[]> {
+    const rows = await db
+      .select({
+        household: households,
+        role: householdMembers.role
+      })
+      .from(householdMembers)
+      .innerJoin(households, eq(householdMembers.householdId, households.id))
+      .where(eq(householdMembers.userId, userId))
+      .orderBy(householdMembers.createdAt);
+    
+    return rows.map(row => ({ ...row.household, role: row.role }));
+  }
+  
+  async createHousehold(household: InsertHousehold): Promise<Household> {
+    const [newHousehold] = await db.insert(households).values(household).returning();
+    return newHousehold;
+  }
+  
+  async updateHousehold(id: number, updates: Partial<InsertHousehold>): Promise<Household | undefined> {
+    const [updatedHousehold] = await db
+      .update(households)
+      .set(updates)
+      .where(eq(households.id, id))
+      .returning();
+    
+    return updatedHousehold;
+  }
+  
+  async getHouseholdMember(householdId: number, userId: number): Promise<HouseholdMember | undefined> {
+    const result = await db
+      .select()
+      .from(householdMembers)
+      .where(
+        and(
+          eq(householdMembers.householdId, householdId),
+          eq(householdMembers.userId, userId)
+        )
+      );
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async getHouseholdMemberById(id: number): Promise<HouseholdMember | undefined> {
+    const result = await db.select().from(householdMembers).where(eq(householdMembers.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async getHouseholdMembers(householdId: number): Promise<HouseholdMemberWithUser[]> {
+    const rows = await db
+      .select({
+        member: householdMembers,
+        user: {
+          id: users.id,
+          username: users.username,
+          name: users.name,
+          email: users.email
+        }
+      })
+      .from(householdMembers)
+      .innerJoin(users, eq(householdMembers.userId, users.id))
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(householdMembers.createdAt);
+    
+    return rows.map(row => ({ ...row.member, user: row.user }));
+  }
+  
+  async addHouseholdMember(member: InsertHouseholdMember): Promise<HouseholdMember> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newMember] = await db.insert(householdMembers).values(member).returning();
+    return newMember;
+  }
+  
+  async updateHouseholdMemberRole(id: number, role: HouseholdRole): Promise<HouseholdMember | undefined> {
+    if (!HOUSEHOLD_ROLES.includes(role)) {
+      throw new Error(`Invalid household role: ${role}`);
+    }
+    
+    const [updatedMember] = await db
+      .update(householdMembers)
+      .set({ role })
+      .where(eq(householdMembers.id, id))
+      .returning();
+    
+    return updatedMember;
+  }
+  
+  async removeHouseholdMember(id: number): Promise<boolean> {
+    const result = await db.delete(householdMembers).where(eq(householdMembers.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Create the household a user starts with, unless they already have one.
+  // Requests arriving together on a new user's first visit are serialized per user by an advisory lock,
+  // so they all end up in the same household.
+  async createPersonalHousehold(userId: number, name: string): Promise<HouseholdMember> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${PERSONAL_HOUSEHOLD_LOCK}, ${userId})`);
+      
+      const [existing] = await tx
+        .select()
+        .from(householdMembers)
+        .where(eq(householdMembers.userId, userId))
+        .orderBy(asc(householdMembers.id))
+        .limit(1);
+      if (existing) {
+        return existing;
+      }
+      
+      const [household] = await tx.insert(households).values({ name, createdBy: userId }).returning();
+      // @ts-ignore - Type issues with drizzle-orm
+      const [member] = await tx.insert(householdMembers).values({ householdId: household.id, userId, role: "owner" }).returning();
+      const householdId = household.id;
+      
+      // Records created before households existed only carry a user ID
+      await tx.update(foodItems)
+        .set({ householdId })
+        .where(and(eq(foodItems.userId, userId), isNull(foodItems.householdId)));
+      await tx.update(mealPlans)
+        .set({ householdId })
+        .where(and(eq(mealPlans.userId, userId), isNull(mealPlans.householdId)));
+      await tx.update(wasteEntries)
+        .set({ householdId })
+        .where(and(eq(wasteEntries.userId, userId), isNull(wasteEntries.householdId)));
+      await tx.update(consumptionEntries)
+        .set({ householdId })
+        .where(and(eq(consumptionEntries.userId, userId), isNull(consumptionEntries.householdId)));
+      
+      return member;
+    });
+  }
+  
+  // Household Invites
+  async getHouseholdInvite(id: number): Promise<HouseholdInvite | undefined> {
+    const result = await db.select().from(householdInvites).where(eq(householdInvites.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async getPendingHouseholdInvites(householdId: number): Promise<HouseholdInvite[]> {
+    return await db
+      .select()
+      .from(householdInvites)
+      .where(
+        and(
+          eq(householdInvites.householdId, householdId),
+          isNull(householdInvites.acceptedAt),
+          gt(householdInvites.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(householdInvites.createdAt));
+  }
+  
+  async getPendingHouseholdInvitesByEmail(email: string): Promise<HouseholdInvite[]> {
+    return await db
+      .select()
+      .from(householdInvites)
+      .where(
+        and(
+          eq(householdInvites.email, email.toLowerCase()),
+          isNull(householdInvites.acceptedAt),
+          gt(householdInvites.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(householdInvites.createdAt));
+  }
+  
+  async createHouseholdInvite(invite: InsertHouseholdInvite): Promise<HouseholdInvite> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newInvite] = await db.insert(householdInvites).values({
+      ...invite,
+      email: invite.email.toLowerCase()
+    }).returning();
+    return newInvite;
+  }
+  
+  async markHouseholdInviteAccepted(id: number): Promise<void> {
+    await db
+      .update(householdInvites)
+      .set({ acceptedAt: new Date() })
+      .where(eq(householdInvites.id, id));
+  }
+  
+  async recordFailedHouseholdInviteAttempt(ids: number[]): Promise<void> {
+    if (ids.length > 0) {
+      await db
+        .update(householdInvites)
+        .set({ failedAttempts: sql`${householdInvites.failedAttempts} + 1` })
+        .where(inArray(householdInvites.id, ids));
+    }
+  }
+  
+  async deleteHouseholdInvite(id: number): Promise<boolean> {
+    const result = await db.delete(householdInvites).where(eq(householdInvites.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Custom Categories and Storage Locations
+  async getCustomCategories(householdId: number): Promise<CustomCategory[]> {
+    return await db
+      .select()
+      .from(customCategories)
+      .where(eq(customCategories.householdId, householdId))
+      .orderBy(customCategories.name);
+  }
+  
+  async getCustomCategory(id: number): Promise<CustomCategory | undefined> {
+    const result = await db.select().from(customCategories).where(eq(customCategories.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async createCustomCategory(category: InsertCustomCategory): Promise<CustomCategory> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newCategory] = await db.insert(customCategories).values(category).returning();
+    return newCategory;
+  }
+  
+  async updateCustomCategory(id: number, updates: Partial<InsertCustomCategory>): Promise<CustomCategory | undefined> {
+    const [updatedCategory] = await db
+      .update(customCategories)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set(updates)
+      .where(eq(customCategories.id, id))
+      .returning();
+    return updatedCategory;
+  }
+  
+  // Items in a deleted category fall back to the built-in category it was based on
+  async deleteCustomCategory(id: number): Promise<boolean> {
+    const category = await this.getCustomCategory(id);
+    if (!category) {
+      return false;
+    }
+    
+    await db
+      .update(foodItems)
+      .set({ category: category.baseCategory })
+      .where(and(eq(foodItems.householdId, category.householdId), eq(foodItems.category, category.key)));
+    const result = await db.delete(customCategories).where(eq(customCategories.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async getCustomStorageLocations(householdId: number): Promise<CustomStorageLocation[]> {
+    return await db
+      .select()
+      .from(customStorageLocations)
+      .where(eq(customStorageLocations.householdId, householdId))
+      .orderBy(customStorageLocations.name);
+  }
+  
+  async getCustomStorageLocation(id: number): Promise<CustomStorageLocation | undefined> {
+    const result = await db.select().from(customStorageLocations).where(eq(customStorageLocations.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async createCustomStorageLocation(location: InsertCustomStorageLocation): Promise<CustomStorageLocation> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newLocation] = await db.insert(customStorageLocations).values(location).returning();
+    return newLocation;
+  }
+  
+  async updateCustomStorageLocation(id: number, updates: Partial<InsertCustomStorageLocation>): Promise<CustomStorageLocation | undefined> {
+    const [updatedLocation] = await db
+      .update(customStorageLocations)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set(updates)
+      .where(eq(customStorageLocations.id, id))
+      .returning();
+    return updatedLocation;
+  }
+  
+  // Items and lots kept in a deleted location move to the built-in location it was based on
+  async deleteCustomStorageLocation(id: number): Promise<boolean> {
+    const location = await this.getCustomStorageLocation(id);
+    if (!location) {
+      return false;
+    }
+    
+    const householdItems = db
+      .select({ id: foodItems.id })
+      .from(foodItems)
+      .where(eq(foodItems.householdId, location.householdId));
+    await db
+      .update(foodItemLots)
+      .set({ storageLocation: location.baseLocation })
+      .where(and(inArray(foodItemLots.foodItemId, householdItems), eq(foodItemLots.storageLocation, location.key)));
+    await db
+      .update(foodItems)
+      .set({ storageLocation: location.baseLocation })
+      .where(and(eq(foodItems.householdId, location.householdId), eq(foodItems.storageLocation, location.key)));
+    const result = await db.delete(customStorageLocations).where(eq(customStorageLocations.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Shopping Lists
+  async getShoppingLists(householdId: number): Promise<ShoppingListWithItems[]> {
+    const lists = await db
+      .select()
+      .from(shoppingLists)
+      .where(eq(shoppingLists.householdId, householdId))
+      .orderBy(desc(shoppingLists.createdAt));
+    if (lists.length === 0) {
+      return [];
+    }
+    
+    const items = await db
+      .select()
+      .from(shoppingListItems)
+      .where(inArray(shoppingListItems.listId, lists.map(list => list.id)))
+      .orderBy(asc(shoppingListItems.createdAt), asc(shoppingListItems.id));
+    return lists.map(list => ({ ...list, items: items.filter(item => item.listId === list.id) }));
+  }
+  
+  async getShoppingList(id: number): Promise<ShoppingList | undefined> {
+    const result = await db.select().from(shoppingLists).where(eq(shoppingLists.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async createShoppingList(list: InsertShoppingList): Promise<ShoppingList> {
+    const [newList] = await db.insert(shoppingLists).values(list).returning();
+    return newList;
+  }
+  
+  async updateShoppingList(id: number, updates: Partial<InsertShoppingList>): Promise<ShoppingList | undefined> {
+    const [updatedList] = await db
+      .update(shoppingLists)
+      .set(updates)
+      .where(eq(shoppingLists.id, id))
+      .returning();
+    return updatedList;
+  }
+  
+  async deleteShoppingList(id: number): Promise<boolean> {
+    await db.delete(shoppingListItems).where(eq(shoppingListItems.listId, id));
+    const result = await db.delete(shoppingLists).where(eq(shoppingLists.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  async getShoppingListItems(listId: number): Promise<ShoppingListItem[]> {
+    return await db
+      .select()
+      .from(shoppingListItems)
+      .where(eq(shoppingListItems.listId, listId))
+      .orderBy(asc(shoppingListItems.createdAt), asc(shoppingListItems.id));
+  }
+  
+  async getShoppingListItem(id: number): Promise<ShoppingListItem | undefined> {
+    const result = await db.select().from(shoppingListItems).where(eq(shoppingListItems.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async createShoppingListItem(item: InsertShoppingListItem): Promise<ShoppingListItem> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newItem] = await db.insert(shoppingListItems).values(item).returning();
+    return newItem;
+  }
+  
+  async updateShoppingListItem(id: number, updates: Partial<InsertShoppingListItem>): Promise<ShoppingListItem | undefined> {
+    const [updatedItem] = await db
+      .update(shoppingListItems)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set(updates)
+      .where(eq(shoppingListItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+  
+  async deleteShoppingListItem(id: number): Promise<boolean> {
+    const result = await db.delete(shoppingListItems).where(eq(shoppingListItems.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Point a household's meals from a date on at a newly bought item instead of the one it replaces
+  async replaceMealPlanIngredient(householdId: number, fromDate: string, oldFoodItemId: number, newFoodItemId: number): Promise<void> {
+    await db
+      .update(mealPlans)
+      .set({ ingredients: sql`array_replace(${mealPlans.ingredients}, ${oldFoodItemId}, ${newFoodItemId})` })
+      .where(and(
+        eq(mealPlans.householdId, householdId),
+        gte(mealPlans.date, fromDate),
+        sql`${oldFoodItemId} = ANY(${mealPlans.ingredients})`
+      ));
+  }
+  
+  // Tags, with the number of in-stock items carrying each
+  async getTags(householdId: number): Promise<TagWithCount[]> {
+    const rows = await db
+      .select({
+        tag: tags,
+        itemCount: sql<number>`count(${foodItems.id})::int`,
+      })
+      .from(tags)
+      .leftJoin(foodItemTags, eq(foodItemTags.tagId, tags.id))
+      .leftJoin(foodItems, and(
+        eq(foodItems.id, foodItemTags.foodItemId),
+        isNull(foodItems.deletedAt),
+        gt(foodItems.quantity, 0)
+      ))
+      .where(eq(tags.householdId, householdId))
+      .groupBy(tags.id)
+      .orderBy(asc(tags.name));
+    return rows.map(row => ({ ...row.tag, itemCount: row.itemCount }));
+  }
+  
+  async getTagByName(householdId: number, name: string): Promise<Tag | undefined> {
+    const result = await db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.householdId, householdId), eq(tags.name, name)));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async createTag(tag: InsertTag): Promise<Tag> {
+    const [newTag] = await db.insert(tags).values(tag).returning();
+    return newTag;
+  }
+  
+  async getFoodItemTags(foodItemIds: number[]): Promise<{ foodItemId: number; name: string }[]> {
+    if (foodItemIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({ foodItemId: foodItemTags.foodItemId, name: tags.name })
+      .from(foodItemTags)
+      .innerJoin(tags, eq(tags.id, foodItemTags.tagId))
+      .where(inArray(foodItemTags.foodItemId, foodItemIds))
+      .orderBy(asc(tags.name));
+  }
+  
+  // Replace all of an item's tags
+  async setFoodItemTags(foodItemId: number, tagIds: number[]): Promise<void> {
+    await db.delete(foodItemTags).where(eq(foodItemTags.foodItemId, foodItemId));
+    if (tagIds.length > 0) {
+      await db.insert(foodItemTags).values(tagIds.map(tagId => ({ foodItemId, tagId })));
+    }
+  }
+  
+  // Par Levels
+  async getParLevels(householdId: number): Promise<ParLevel[]> {
+    return await db
+      .select()
+      .from(parLevels)
+      .where(eq(parLevels.householdId, householdId))
+      .orderBy(asc(parLevels.name));
+  }
+  
+  async getParLevel(id: number): Promise<ParLevel | undefined> {
+    const result = await db.select().from(parLevels).where(eq(parLevels.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async createParLevel(parLevel: InsertParLevel): Promise<ParLevel> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newParLevel] = await db.insert(parLevels).values(parLevel).returning();
+    return newParLevel;
+  }
+  
+  async updateParLevel(id: number, updates: Partial<InsertParLevel>): Promise<ParLevel | undefined> {
+    const [updatedParLevel] = await db
+      .update(parLevels)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set(updates)
+      .where(eq(parLevels.id, id))
+      .returning();
+    return updatedParLevel;
+  }
+  
+  async deleteParLevel(id: number): Promise<boolean> {
+    const result = await db.delete(parLevels).where(eq(parLevels.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Share Listings, newest first
+  async getOpenShareListings(): Promise<ShareListingWithUsers[]> {
+    return await this.selectShareListings(inArray(shareListings.status, ["available", "claimed"]));
+  }
+  
+  async getShareListing(id: number): Promise<ShareListingWithUsers | undefined> {
+    const result = await this.selectShareListings(eq(shareListings.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async getOpenShareListingsForItem(foodItemId: number): Promise<ShareListing[]> {
+    return await db
+      .select()
+      .from(shareListings)
+      .where(and(
+        eq(shareListings.foodItemId, foodItemId),
+        inArray(shareListings.status, ["available", "claimed"])
+      ));
+  }
+  
+  async createShareListing(listing: InsertShareListing): Promise<ShareListing> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newListing] = await db.insert(shareListings).values(listing).returning();
+    return newListing;
+  }
+  
+  // With a status given, the listing is only updated while it still has that status,
+  // so of two requests racing to change it only one succeeds
+  async updateShareListing(
+    id: number,
+    updates: Partial<Omit<ShareListing, "id" | "createdAt">>,
+    fromStatus?: ShareListing["status"]
+  ): Promise<ShareListing | undefined> {
+    const [updatedListing] = await db
+      .update(shareListings)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set(updates)
+      .where(and(
+        eq(shareListings.id, id),
+        fromStatus !== undefined ? eq(shareListings.status, fromStatus) : undefined
+      ))
+      .returning();
+    return updatedListing;
+  }
+  
+  async deleteShareListing(id: number): Promise<boolean> {
+    const result = await db.delete(shareListings).where(eq(shareListings.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Listings with the sharer and claimer joined in
+  private async selectShareListings(condition: SQL): Promise<ShareListingWithUsers[]> {
+    const claimers = alias(users, "claimers");
+    const rows = await db
+      .select({
+        listing: shareListings,
+        user: { id: users.id, username: users.username },
+        claimedBy: { id: claimers.id, username: claimers.username },
+      })
+      .from(shareListings)
+      .innerJoin(users, eq(shareListings.userId, users.id))
+      .leftJoin(claimers, eq(shareListings.claimedById, claimers.id))
+      .where(condition)
+      .orderBy(desc(shareListings.createdAt), desc(shareListings.id));
+    return rows.map(row => ({ ...row.listing, user: row.user, claimedBy: row.claimedBy }));
+  }
+  
+  // Recalls, most recently loaded first
+  async getRecalls(): Promise<Recall[]> {
+    return await db.select().from(recalls).orderBy(desc(recalls.createdAt), desc(recalls.id));
+  }
+  
+  async getRecall(id: number): Promise<Recall | undefined> {
+    const result = await db.select().from(recalls).where(eq(recalls.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  // Recalls already loaded under the same source key are skipped; only the new ones are returned
+  async createRecalls(newRecalls: InsertRecall[]): Promise<Recall[]> {
+    if (newRecalls.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(recalls)
+      // @ts-ignore - Type issues with drizzle-orm
+      .values(newRecalls)
+      .onConflictDoNothing({ target: recalls.sourceKey })
+      .returning();
+  }
+  
+  async deleteRecall(id: number): Promise<boolean> {
+    await db.delete(recallMatches).where(eq(recallMatches.recallId, id));
+    const result = await db.delete(recalls).where(eq(recalls.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Every household's items that are in stock and not in the trash
+  async getInStockFoodItems(): Promise<FoodItem[]> {
+    return await db
+      .select()
+      .from(foodItems)
+      .where(and(isNull(foodItems.deletedAt), gt(foodItems.quantity, 0)));
+  }
+  
+  // Undismissed matches on items the household still has, newest first
+  async getRecallAlerts(householdId: number): Promise<RecallAlert[]> {
+    const rows = await db
+      .select({
+        match: recallMatches,
+        recall: recalls,
+        foodItem: {
+          id: foodItems.id,
+          name: foodItems.name,
+          quantity: foodItems.quantity,
+          unit: foodItems.unit,
+          purchaseDate: foodItems.purchaseDate,
+          barcode: foodItems.barcode,
+        },
+      })
+      .from(recallMatches)
+      .innerJoin(recalls, eq(recallMatches.recallId, recalls.id))
+      .innerJoin(foodItems, eq(recallMatches.foodItemId, foodItems.id))
+      .where(and(
+        eq(recallMatches.householdId, householdId),
+        isNull(recallMatches.dismissedAt),
+        isNull(foodItems.deletedAt),
+        gt(foodItems.quantity, 0)
+      ))
+      .orderBy(desc(recallMatches.createdAt), desc(recallMatches.id));
+    return rows.map(row => ({ ...row.match, recall: row.recall, foodItem: row.foodItem }));
+  }
+  
+  async getRecallMatch(id: number): Promise<RecallMatch | undefined> {
+    const result = await db.select().from(recallMatches).where(eq(recallMatches.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async createRecallMatches(matches: InsertRecallMatch[]): Promise<RecallMatch[]> {
+    if (matches.length === 0) {
+      return [];
+    }
+    // @ts-ignore - Type issues with drizzle-orm
+    return await db.insert(recallMatches).values(matches).returning();
+  }
+  
+  async dismissRecallMatch(id: number): Promise<RecallMatch | undefined> {
+    const [dismissedMatch] = await db
+      .update(recallMatches)
+      .set({ dismissedAt: new Date() })
+      .where(eq(recallMatches.id, id))
+      .returning();
+    return dismissedMatch;
+  }
+  
+  // Product Catalog
+  async getProductByBarcode(barcode: string): Promise<ProductCatalogEntry | undefined> {
+    const result = await db.select().from(productCatalog).where(eq(productCatalog.barcode, barcode));
+    return result.length > 0 ? result[0] : undefined;
+  }
+  
+  async createProductCatalogEntry(entry: InsertProductCatalogEntry): Promise<ProductCatalogEntry> {
+    // @ts-ignore - Type issues with drizzle-orm
+    const [newEntry] = await db.insert(productCatalog).values(entry).returning();
+    return newEntry;
+  }
+  
+  async updateProductCatalogEntry(id: number, updates: Partial<InsertProductCatalogEntry>): Promise<ProductCatalogEntry | undefined> {
+    const [updatedEntry] = await db
+      .update(productCatalog)
+      // @ts-ignore - Type issues with drizzle-orm
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(productCatalog.id, id))
+      .returning();
+    return updatedEntry;
+  }
+  
+  async countProductCatalogEntries(): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(productCatalog);
+    return result.count;
+  }
+
+  // Shelf Life
+  async getShelfLifeRules(): Promise<ShelfLifeRule[]> {
+    return await db.select().from(shelfLifeRules);
+  }
+  
+  async createShelfLifeRules(rules: InsertShelfLifeRule[]): Promise<void> {
+    if (rules.length === 0) return;
+    // @ts-ignore - Type issues with drizzle-orm
+    await db.insert(shelfLifeRules).values(rules);
+  }
+  
+  async getShelfLifeHistory(householdId: number, name: string, storageLocation: string): Promise<Pick<FoodItem, "purchaseDate" | "expirationDate">[]> {
+    // Includes used-up items, which still tell us how long this food kept
+    return await db
+      .select({ purchaseDate: foodItems.purchaseDate, expirationDate: foodItems.expirationDate })
+      .from(foodItems)
+      .where(
+        and(
+          eq(foodItems.householdId, householdId),
+          eq(foodItems.storageLocation, storageLocation),
+          sql`lower(trim(${foodItems.name})) = ${name.trim().toLowerCase()}`
+        )
+      )
+      .orderBy(desc(foodItems.createdAt))
+      .limit(10);
+  }
+  
+  // Nutrition Facts
+  async getNutritionFacts(): Promise<NutritionFact[]> {
+    return await db.select().from(nutritionFacts);
+  }
+  
+  async createNutritionFacts(facts: InsertNutritionFact[]): Promise<void> {
+    if (facts.length === 0) return;
+    // @ts-ignore - Type issues with drizzle-orm
+    await db.insert(nutritionFacts).values(facts);
+  }
+
   // Initialize sample data for a fresh database
   async initSampleData() {
     // Check if we already have recipes
@@ -0,0 +1,58 @@
+import { type FoodItem } from "@shared/schema";
+import { normalizeTagName } from "@shared/tags";
+import { storage } from "./storage";
+
+/**
+ * Tag Service
+ * Links food items to their household's tags, creating tags the first time they're used
+ */
+export class TagService {
+  private static instance: TagService;
+
+  private constructor() {}
+
+  public static getInstance(): TagService {
+    if (!TagService.instance) {
+      TagService.instance = new TagService();
+    }
+    return TagService.instance;
+  }
+
+  /**
+   * Replace an item's tags
+   * @param names Tag names; new ones are added to the item's household
+   * @returns The item's tag names, alphabetical
+   */
+  public async setItemTags(item: FoodItem, names: string[]): Promise<string[]> {
+    const { householdId } = item;
+    // Tags belong to a household, so items from before households existed can't carry any
+    if (householdId === null) {
+      return [];
+    }
+
+    const normalized = Array.from(new Set(names.map(normalizeTagName).filter(Boolean))).sort();
+
+    const tagIds: number[] = [];
+    for (const name of normalized) {
+      const tag = await storage.getTagByName(householdId, name)
+        ?? await storage.createTag({ householdId, name });
+      tagIds.push(tag.id);
+    }
+
+    await storage.setFoodItemTags(item.id, tagIds);
+    return normalized;
+  }
+
+  /**
+   * Add each item's tag names to it
+   */
+  public async withTags<T extends FoodItem>(items: T[]): Promise<(T & { tags: string[] })[]> {
+    const links = await storage.getFoodItemTags(items.map(item => item.id));
+    return items.map(item => ({
+      ...item,
+      tags: links.filter(link => link.foodItemId === item.id).map(link => link.name),
+    }));
+  }
+}
+
+export const tagService = TagService.getInstance();
@@ -0,0 +1,110 @@
+import cron from 'node-cron';
+import { addDays, format } from 'date-fns';
+import { type FoodItem, type TrashedFoodItem } from '@shared/schema';
+import { storage } from './storage';
+import { uploadService } from './upload-service';
+
+// Logging helper
+const log = (message: string) => {
+  console.log(`[trash] ${message}`);
+};
+
+// Used for items that don't belong to a household
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Trash Service
+ * Deleted food items go to the trash first so they can be restored.
+ * Items are purged for good once their household's retention period has passed.
+ */
+export class TrashService {
+  private static instance: TrashService;
+  private purgeJob: cron.ScheduledTask | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): TrashService {
+    if (!TrashService.instance) {
+      TrashService.instance = new TrashService();
+    }
+    return TrashService.instance;
+  }
+
+  /**
+   * Schedule the nightly purge of expired trash
+   */
+  public initialize(): void {
+    // Run at 3:00 AM every day
+    this.purgeJob = cron.schedule('0 3 * * *', () => {
+      this.purgeExpired();
+    });
+
+    // Catch up on purges missed while the server was down
+    this.purgeExpired();
+
+    log('Trash purge scheduled');
+  }
+
+  /**
+   * Stop the scheduled purge
+   */
+  public stop(): void {
+    if (this.purgeJob) {
+      this.purgeJob.stop();
+    }
+  }
+
+  /**
+   * Get a household's trash along with when each item will be purged
+   */
+  public async getTrash(householdId: number): Promise<{ retentionDays: number; items: TrashedFoodItem[] }> {
+    const household = await storage.getHousehold(householdId);
+    const retentionDays = household?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+    const items = await storage.getTrashedFoodItems(householdId);
+
+    return {
+      retentionDays,
+      items: items.map(item => ({
+        ...item,
+        purgeDate: format(addDays(item.deletedAt!, retentionDays), 'yyyy-MM-dd'),
+      })),
+    };
+  }
+
+  /**
+   * Permanently delete an item in the trash along with its photos
+   */
+  public async purge(item: FoodItem): Promise<boolean> {
+    const deleted = await storage.deleteFoodItem(item.id);
+    if (deleted && item.householdId !== null) {
+      await uploadService.deleteItemPhotos(item.householdId, item.photos);
+    }
+    return deleted;
+  }
+
+  /**
+   * Permanently delete every item that has been in the trash longer than its household keeps them
+   * @returns The number of items purged
+   */
+  public async purgeExpired(): Promise<number> {
+    try {
+      const items = await storage.getFoodItemsDueForPurge();
+      let purged = 0;
+      for (const item of items) {
+        if (await this.purge(item)) {
+          purged++;
+        }
+      }
+
+      if (purged > 0) {
+        log(`Purged ${purged} items from the trash`);
+      }
+      return purged;
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      return 0;
+    }
+  }
+}
+
+export const trashService = TrashService.getInstance();
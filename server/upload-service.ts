@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+
+// Where uploaded images are stored and served from as /uploads/<file>
+export const UPLOADS_DIR = path.join(process.cwd(), "uploads");
+
+/**
+ * Upload Service
+ * Manages image files uploaded for chat messages and food item photos
+ */
+export class UploadService {
+  private static instance: UploadService;
+
+  private constructor() {}
+
+  public static getInstance(): UploadService {
+    if (!UploadService.instance) {
+      UploadService.instance = new UploadService();
+    }
+    return UploadService.instance;
+  }
+
+  /**
+   * Record an image uploaded as a photo of one of a household's items
+   * @param imagePath Path as returned by the upload endpoint, e.g. /uploads/123-abc.jpg
+   */
+  public async recordItemPhoto(householdId: number, userId: number, imagePath: string): Promise<void> {
+    await storage.createItemPhoto({ householdId, userId, path: imagePath });
+  }
+
+  /**
+   * Photos that weren't uploaded for this household's items, e.g. another user's chat image.
+   * These can't be put on an item, since item photos are deleted along with the item.
+   */
+  public async findForeignItemPhotos(householdId: number, photos: string[]): Promise<string[]> {
+    const owned = await storage.getItemPhotosByPaths(householdId, photos);
+    return photos.filter(photo => !owned.some(record => record.path === photo));
+  }
+
+  /**
+   * Delete item photos that are no longer used.
+   * Only files uploaded for the household's items are deleted, and only once no item of the household shows them.
+   */
+  public async deleteItemPhotos(householdId: number, photos: string[]): Promise<void> {
+    const inUse = await storage.getItemPhotoPathsInUse(householdId, photos);
+    const unused = (await storage.getItemPhotosByPaths(householdId, photos))
+      .filter(record => !inUse.includes(record.path));
+
+    await storage.deleteItemPhotos(unused.map(record => record.id));
+    await this.deleteImages(unused.map(record => record.path));
+  }
+
+  /**
+   * Delete uploaded images.
+   * Only files directly inside the uploads directory are touched, and missing files are ignored.
+   * @param imagePaths Paths as returned by the upload endpoint, e.g. /uploads/123-abc.jpg
+   */
+  public async deleteImages(imagePaths: string[]): Promise<void> {
+    for (const imagePath of imagePaths) {
+      const filePath = path.join(UPLOADS_DIR, path.basename(imagePath));
+      try {
+        await fs.promises.unlink(filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Error deleting uploaded image ${imagePath}:`, error);
+        }
+      }
+    }
+  }
+}
+
+export const uploadService = UploadService.getInstance();
@@ -0,0 +1,97 @@
+import {
+  FOOD_CATEGORIES,
+  STORAGE_LOCATIONS,
+  type CUSTOM_ICONS,
+  type CategoryOption,
+  type CustomCategory,
+  type CustomStorageLocation,
+} from "./schema";
+
+type CustomIcon = typeof CUSTOM_ICONS[number];
+type Style = { icon: CustomIcon; color: string };
+
+// How the built-in categories are drawn
+export const BUILT_IN_CATEGORY_STYLES: Record<typeof FOOD_CATEGORIES[number], Style> = {
+  produce: { icon: "apple", color: "#22c55e" },
+  dairy: { icon: "egg", color: "#3b82f6" },
+  meat: { icon: "beef", color: "#ef4444" },
+  bakery: { icon: "cookie", color: "#f59e0b" },
+  pantry: { icon: "shopping-bag", color: "#8b5cf6" },
+  frozen: { icon: "snowflake", color: "#06b6d4" },
+  other: { icon: "package", color: "#94a3b8" },
+};
+
+// How the built-in storage locations are drawn
+export const BUILT_IN_LOCATION_STYLES: Record<typeof STORAGE_LOCATIONS[number], Style> = {
+  refrigerator: { icon: "refrigerator", color: "#3b82f6" },
+  freezer: { icon: "snowflake", color: "#06b6d4" },
+  pantry: { icon: "warehouse", color: "#8b5cf6" },
+  counter: { icon: "box", color: "#f59e0b" },
+  other: { icon: "package", color: "#94a3b8" },
+};
+
+// Common spellings of storage locations that differ from ours
+export const LOCATION_ALIASES: Record<string, string> = {
+  fridge: "refrigerator",
+  refrigerated: "refrigerator",
+  frozen: "freezer",
+  cupboard: "pantry",
+  shelf: "pantry",
+};
+
+/**
+ * Capitalize a built-in key for display ("refrigerator" becomes "Refrigerator")
+ */
+export function formatBuiltInName(key: string): string {
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+/**
+ * Every category a household can choose from: the built-in ones followed by its own
+ */
+export function buildCategoryOptions(custom: CustomCategory[]): CategoryOption[] {
+  return [
+    ...FOOD_CATEGORIES.map(key => ({
+      key,
+      name: formatBuiltInName(key),
+      ...BUILT_IN_CATEGORY_STYLES[key],
+      base: key,
+      custom: false,
+      id: null,
+    })),
+    ...custom.map(category => ({
+      key: category.key,
+      name: category.name,
+      icon: category.icon,
+      color: category.color,
+      base: category.baseCategory,
+      custom: true,
+      id: category.id,
+    })),
+  ];
+}
+
+/**
+ * Every storage location a household can choose from: the built-in ones followed by its own
+ */
+export function buildLocationOptions(custom: CustomStorageLocation[]): CategoryOption[] {
+  return [
+    ...STORAGE_LOCATIONS.map(key => ({
+      key,
+      name: formatBuiltInName(key),
+      ...BUILT_IN_LOCATION_STYLES[key],
+      base: key,
+      custom: false,
+      id: null,
+    })),
+    ...custom.map(location => ({
+      key: location.key,
+      name: location.name,
+      icon: location.icon,
+      color: location.color,
+      base: location.baseLocation,
+      custom: true,
+      id: location.id,
+    })),
+  ];
+}
@@ -0,0 +1,160 @@
+import type { Allergen, Diet, DietaryConflict, DietaryRestrictions } from "./schema";
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  "peanuts": "Peanuts",
+  "tree-nuts": "Tree nuts",
+  "milk": "Milk",
+  "eggs": "Eggs",
+  "fish": "Fish",
+  "shellfish": "Shellfish",
+  "soy": "Soy",
+  "gluten": "Gluten",
+  "sesame": "Sesame",
+  "mustard": "Mustard",
+  "celery": "Celery",
+};
+
+export const DIET_LABELS: Record<Diet, string> = {
+  "vegetarian": "Vegetarian",
+  "vegan": "Vegan",
+  "pescatarian": "Pescatarian",
+  "halal": "Halal",
+  "kosher": "Kosher",
+  "low-carb": "Low carb",
+};
+
+// Ingredient words that give away an allergen; matched on whole words, so "nut" doesn't catch "nutmeg"
+const ALLERGEN_KEYWORDS: Record<Allergen, string[]> = {
+  "peanuts": ["peanut", "groundnut", "satay"],
+  "tree-nuts": ["almond", "walnut", "cashew", "pecan", "hazelnut", "pistachio", "macadamia", "brazil nut", "pine nut", "praline", "marzipan", "nutella"],
+  "milk": ["milk", "buttermilk", "cheese", "butter", "cream", "yogurt", "yoghurt", "mozzarella", "parmesan", "cheddar", "feta", "ricotta", "ghee", "whey", "custard", "ice cream"],
+  "eggs": ["egg", "mayonnaise", "mayo", "meringue", "aioli"],
+  "fish": ["fish", "salmon", "tuna", "cod", "anchovy", "sardine", "trout", "haddock", "mackerel", "tilapia", "halibut"],
+  "shellfish": ["shrimp", "prawn", "crab", "lobster", "scallop", "mussel", "clam", "oyster", "crayfish"],
+  "soy": ["soy", "soya", "tofu", "edamame", "miso", "tempeh"],
+  "gluten": ["wheat", "flour", "bread", "pasta", "spaghetti", "noodle", "barley", "rye", "couscous", "breadcrumb", "tortilla", "bagel", "cracker", "seitan", "semolina"],
+  "sesame": ["sesame", "tahini", "hummus"],
+  "mustard": ["mustard"],
+  "celery": ["celery", "celeriac"],
+};
+
+// Phrases that look like an allergen but aren't one, removed before looking for its keywords
+const ALLERGEN_LOOKALIKES: Partial<Record<Allergen, string[]>> = {
+  "milk": ["peanut butter", "nut butter", "almond butter", "cashew butter", "cocoa butter", "apple butter", "butternut", "butter bean", "coconut milk", "coconut cream", "almond milk", "oat milk", "soy milk", "rice milk", "cream of tartar"],
+  "gluten": ["gluten-free", "gluten free", "rice noodle", "rice flour", "corn tortilla", "buckwheat"],
+  "tree-nuts": ["nutmeg"],
+};
+
+const MEAT_KEYWORDS = ["meat", "beef", "steak", "pork", "bacon", "ham", "sausage", "chicken", "turkey", "lamb", "veal", "duck", "chorizo", "salami", "pepperoni", "prosciutto", "mince", "gelatin"];
+const PORK_KEYWORDS = ["pork", "bacon", "ham", "chorizo", "salami", "pepperoni", "prosciutto", "lard"];
+const ANIMAL_PRODUCT_KEYWORDS = ["honey"];
+const HIGH_CARB_KEYWORDS = ["sugar", "rice", "potato", "bread", "pasta", "spaghetti", "noodle", "flour", "tortilla", "couscous"];
+
+/**
+ * Whether a word or phrase appears in a text as whole words, allowing simple plurals
+ */
+function mentions(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}(e?s)?\\b`, 'i').test(text);
+}
+
+function findMention(ingredients: string[], keywords: string[]): string | undefined {
+  return ingredients.find(ingredient => keywords.some(keyword => mentions(ingredient, keyword)));
+}
+
+function findAllergen(ingredients: string[], allergen: Allergen): string | undefined {
+  const lookalikes = ALLERGEN_LOOKALIKES[allergen] ?? [];
+  return ingredients.find(ingredient => {
+    const text = lookalikes.reduce((remaining, phrase) => remaining.replace(new RegExp(phrase, 'gi'), ' '), ingredient);
+    return ALLERGEN_KEYWORDS[allergen].some(keyword => mentions(text, keyword));
+  });
+}
+
+/**
+ * Allergens an ingredient list probably contains, going by ingredient names
+ */
+export function detectAllergens(ingredients: string[]): Allergen[] {
+  return (Object.keys(ALLERGEN_KEYWORDS) as Allergen[])
+    .filter(allergen => findAllergen(ingredients, allergen) !== undefined);
+}
+
+/**
+ * Ingredients that break a diet.
+ * Only diets that can be judged from ingredient names are checked; kosher and halal
+ * only catch pork, the rest of those rules depends on how the food was prepared.
+ */
+function dietViolation(diet: Diet, ingredients: string[]): string | undefined {
+  const fishAndShellfish = [...ALLERGEN_KEYWORDS.fish, ...ALLERGEN_KEYWORDS.shellfish];
+  switch (diet) {
+    case "vegetarian":
+      return findMention(ingredients, [...MEAT_KEYWORDS, ...fishAndShellfish]);
+    case "vegan":
+      return findMention(ingredients, [...MEAT_KEYWORDS, ...fishAndShellfish, ...ANIMAL_PRODUCT_KEYWORDS])
+        ?? findAllergen(ingredients, "milk")
+        ?? findAllergen(ingredients, "eggs");
+    case "pescatarian":
+      return findMention(ingredients, MEAT_KEYWORDS);
+    case "halal":
+    case "kosher":
+      return findMention(ingredients, diet === "kosher" ? [...PORK_KEYWORDS, ...ALLERGEN_KEYWORDS.shellfish] : PORK_KEYWORDS);
+    case "low-carb":
+      return findMention(ingredients, HIGH_CARB_KEYWORDS);
+  }
+}
+
+/**
+ * Reasons a recipe doesn't suit a household's dietary restrictions.
+ * @param allergens Allergens the recipe is tagged with, on top of the ones its ingredients give away
+ * @returns An empty list if the recipe is fine to cook
+ */
+export function findDietaryConflicts(
+  ingredients: string[],
+  allergens: Allergen[],
+  restrictions: Pick<DietaryRestrictions, "allergens" | "diets" | "dislikedIngredients">
+): DietaryConflict[] {
+  const conflicts: DietaryConflict[] = [];
+
+  for (const allergen of restrictions.allergens) {
+    const ingredient = findAllergen(ingredients, allergen);
+    if (ingredient !== undefined || allergens.includes(allergen)) {
+      conflicts.push({ type: "allergen", label: allergen, ingredient: ingredient ?? null });
+    }
+  }
+  for (const diet of restrictions.diets) {
+    const ingredient = dietViolation(diet, ingredients);
+    if (ingredient !== undefined) {
+      conflicts.push({ type: "diet", label: diet, ingredient });
+    }
+  }
+  for (const disliked of restrictions.dislikedIngredients) {
+    const ingredient = findMention(ingredients, [disliked]);
+    if (ingredient !== undefined) {
+      conflicts.push({ type: "disliked", label: disliked, ingredient });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Describe a conflict for a warning, e.g. "Contains peanuts (peanut butter)"
+ */
+export function describeDietaryConflict(conflict: DietaryConflict): string {
+  const source = conflict.ingredient ? ` (${conflict.ingredient})` : '';
+  switch (conflict.type) {
+    case "allergen":
+      return `Contains ${ALLERGEN_LABELS[conflict.label as Allergen].toLowerCase()}${source}`;
+    case "diet":
+      return `Not ${DIET_LABELS[conflict.label as Diet].toLowerCase()}${source}`;
+    case "disliked":
+      return `Includes ${conflict.label}${source}`;
+  }
+}
+
+export function noDietaryRestrictions(): DietaryRestrictions {
+  return { allergens: [], diets: [], dislikedIngredients: [], members: [] };
+}
+
+export function hasDietaryRestrictions(restrictions: Pick<DietaryRestrictions, "allergens" | "diets" | "dislikedIngredients">): boolean {
+  return restrictions.allergens.length > 0 || restrictions.diets.length > 0 || restrictions.dislikedIngredients.length > 0;
+}
@@ -0,0 +1,46 @@
+import type { FoodItem } from "./schema";
+
+// Words that describe a product without changing what it is, so "Fresh organic milk" is still milk
+const DESCRIPTIVE_WORDS = new Set(["fresh", "organic", "large", "small", "medium", "pack", "of", "the", "a", "and"]);
+
+/**
+ * Reduce an item name to the words that identify the food, e.g. "Whole Milk 2%" to ["whole", "milk", "2%"]
+ */
+export function itemNameWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9%\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !DESCRIPTIVE_WORDS.has(word))
+    // Treat simple plurals like their singular ("apples" and "apple")
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+/**
+ * Whether two names probably mean the same food: one name's words are all in the other,
+ * so "Milk", "milk 2%" and "Whole milk" match each other but "Milk" and "Oat bar" don't.
+ * Names made only of numbers or sizes never match.
+ */
+export function isSimilarItemName(a: string, b: string): boolean {
+  const wordsA = itemNameWords(a);
+  const wordsB = itemNameWords(b);
+  if (!wordsA.some(word => /[a-z]/.test(word)) || !wordsB.some(word => /[a-z]/.test(word))) {
+    return false;
+  }
+
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  return shorter.filter(word => /[a-z]/.test(word)).every(word => longer.includes(word));
+}
+
+/**
+ * Whether an existing item is likely the same thing as one being added:
+ * a similar name, kept in the same category and storage location
+ */
+export function isLikelyDuplicate(
+  existing: Pick<FoodItem, "name" | "category" | "storageLocation">,
+  candidate: Pick<FoodItem, "name" | "category" | "storageLocation">
+): boolean {
+  return existing.category === candidate.category
+    && existing.storageLocation === candidate.storageLocation
+    && isSimilarItemName(existing.name, candidate.name);
+}
@@ -0,0 +1,44 @@
+import { differenceInDays, isAfter } from "date-fns";
+import type { FoodItem, FoodItemWithStatus } from "./schema";
+
+// Items expiring within this many days are "expiring soon"
+export const EXPIRING_SOON_DAYS = 3;
+
+/**
+ * The date an item actually goes off: its printed expiration date,
+ * or the opened-shelf-life date if it has been opened and that comes first
+ */
+export function getEffectiveExpirationDate(item: Pick<FoodItem, "expirationDate" | "openedExpirationDate">): string {
+  if (item.openedExpirationDate && item.openedExpirationDate < item.expirationDate) {
+    return item.openedExpirationDate;
+  }
+  return item.expirationDate;
+}
+
+/**
+ * Add expiration status to a food item, based on its effective expiration date
+ */
+export function withExpirationStatus<T extends FoodItem>(
+  item: T,
+  today: Date = new Date()
+): T & Pick<FoodItemWithStatus, "status" | "daysUntilExpiration" | "effectiveExpirationDate"> {
+  const effectiveExpirationDate = getEffectiveExpirationDate(item);
+  const expirationDate = new Date(effectiveExpirationDate);
+  const daysUntilExpiration = differenceInDays(expirationDate, today);
+
+  let status: FoodItemWithStatus["status"];
+  if (!isAfter(expirationDate, today)) {
+    status = 'expired';
+  } else if (daysUntilExpiration <= EXPIRING_SOON_DAYS) {
+    status = 'expiring-soon';
+  } else {
+    status = 'fresh';
+  }
+
+  return {
+    ...item,
+    status,
+    daysUntilExpiration,
+    effectiveExpirationDate
+  };
+}
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { isValid, parseISO } from "date-fns";
+import { type FoodItemWithStatus } from "./schema";
+import { MAX_TAGS_PER_ITEM, normalizeTagName } from "./tags";
+
+// Keys the inventory can be sorted by
+export const FOOD_ITEM_SORT_KEYS = [
+  "expiration",
+  "name",
+  "created",
+  "quantity"
+] as const;
+
+export const FOOD_ITEM_STATUSES = [
+  "expired",
+  "expiring-soon",
+  "fresh"
+] as const;
+
+// Largest page of food items the API returns
+export const MAX_FOOD_ITEM_PAGE_SIZE = 100;
+
+// Where a page ends: the sort value and id of its last item
+export type FoodItemCursor = {
+  value: string | number;
+  id: number;
+};
+
+/**
+ * Turn a cursor into the opaque string clients pass back for the next page
+ */
+export function encodeFoodItemCursor(cursor: FoodItemCursor): string {
+  return encodeURIComponent(JSON.stringify([cursor.value, cursor.id]));
+}
+
+/**
+ * Read a cursor produced by encodeFoodItemCursor
+ * @returns The cursor, or null if the string isn't a valid cursor
+ */
+export function decodeFoodItemCursor(encoded: string): FoodItemCursor | null {
+  try {
+    const decoded = JSON.parse(decodeURIComponent(encoded));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      (typeof decoded[0] === "string" || typeof decoded[0] === "number") &&
+      Number.isInteger(decoded[1])
+    ) {
+      return { value: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through to the invalid cursor result
+  }
+  return null;
+}
+
+// The format alone lets through days that don't exist, like 2026-02-31
+export const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format")
+  .refine(value => isValid(parseISO(value)), "Not a valid date");
+
+// Query string accepted by GET /food-items
+export const foodItemQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  category: z.string().trim().min(1).max(60).optional(), // built-in or custom category key
+  storageLocation: z.string().trim().min(1).max(60).optional(), // built-in or custom location key
+  status: z.enum(FOOD_ITEM_STATUSES).optional(),
+  tags: z.string().transform((value, ctx) => {
+    const names = value.split(",").map(normalizeTagName).filter(Boolean);
+    if (names.length > MAX_TAGS_PER_ITEM) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Filter by at most ${MAX_TAGS_PER_ITEM} tags` });
+      return z.NEVER;
+    }
+    return names;
+  }).optional(), // comma-separated; items must carry all of them
+  leftovers: z.enum(["true", "false"]).transform(value => value === "true").optional(), // only leftovers, or none
+  expiresAfter: isoDate.optional(), // effective expiration on or after this date
+  expiresBefore: isoDate.optional(), // effective expiration on or before this date
+  sort: z.enum(FOOD_ITEM_SORT_KEYS).default("expiration"),
+  direction: z.enum(["asc", "desc"]).default("asc"),
+  limit: z.coerce.number().int().min(1).max(MAX_FOOD_ITEM_PAGE_SIZE).optional(),
+  cursor: z.string().transform((value, ctx) => {
+    const cursor = decodeFoodItemCursor(value);
+    if (!cursor) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return cursor;
+  }).optional(),
+});
+
+export type FoodItemQuery = z.infer<typeof foodItemQuerySchema>;
+
+// One page of GET /food-items, returned when a limit is given
+export type FoodItemPage = {
+  items: FoodItemWithStatus[];
+  nextCursor: string | null; // null on the last page
+};
@@ -0,0 +1,46 @@
+import { NUTRIENTS, type NutritionValues } from "./schema";
+
+export type Nutrient = typeof NUTRIENTS[number];
+
+export const NUTRIENT_LABELS: Record<Nutrient, { label: string; unit: string }> = {
+  calories: { label: "Calories", unit: "kcal" },
+  protein: { label: "Protein", unit: "g" },
+  carbs: { label: "Carbs", unit: "g" },
+  fat: { label: "Fat", unit: "g" },
+  fiber: { label: "Fiber", unit: "g" },
+  sodium: { label: "Sodium", unit: "mg" },
+};
+
+// Portion assumed for a meal ingredient when the dataset has no typical serving for it
+export const DEFAULT_SERVING_GRAMS = 100;
+
+export function emptyNutrition(): NutritionValues {
+  return Object.fromEntries(NUTRIENTS.map(nutrient => [nutrient, 0])) as NutritionValues;
+}
+
+/**
+ * Nutrition of an amount of food from its values per 100 g
+ */
+export function scaleNutrition(per100g: NutritionValues, grams: number): NutritionValues {
+  return Object.fromEntries(
+    NUTRIENTS.map(nutrient => [nutrient, per100g[nutrient] * grams / 100])
+  ) as NutritionValues;
+}
+
+export function sumNutrition(values: NutritionValues[]): NutritionValues {
+  const total = emptyNutrition();
+  for (const value of values) {
+    for (const nutrient of NUTRIENTS) {
+      total[nutrient] += value[nutrient];
+    }
+  }
+  return total;
+}
+
+/**
+ * Format an amount of a nutrient, e.g. "540 kcal" or "12.5 g"
+ */
+export function formatNutrient(nutrient: Nutrient, value: number): string {
+  const rounded = value >= 100 ? Math.round(value) : Math.round(value * 10) / 10;
+  return `${rounded} ${NUTRIENT_LABELS[nutrient].unit}`;
+}
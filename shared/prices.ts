@@ -0,0 +1,73 @@
+import { CURRENCIES, type FoodItem } from "./schema";
+import { convertQuantity } from "./units";
+
+export type Currency = typeof CURRENCIES[number];
+
+/**
+ * Work out what one unit of an item cost
+ * @returns The price per unit, or null if there is no price or nothing to divide it over
+ */
+export function getUnitPrice(price: number | null | undefined, quantity: number): number | null {
+  if (price === null || price === undefined || quantity <= 0) {
+    return null;
+  }
+  return price / quantity;
+}
+
+/**
+ * Estimate what a portion of an item cost, e.g. when part of it is eaten or thrown away
+ * @param unit The unit the portion is measured in, converted to the item's unit first
+ * @returns The value rounded to cents, or null if the item has no price or the units can't be compared
+ */
+export function estimateValue(
+  item: Pick<FoodItem, "unitPrice" | "unit" | "unitWeight">,
+  quantity: number,
+  unit: string
+): number | null {
+  if (item.unitPrice === null) {
+    return null;
+  }
+
+  const itemQuantity = convertQuantity(quantity, unit, item.unit, item.unitWeight);
+  if (itemQuantity === null) {
+    return null;
+  }
+  return Math.round(itemQuantity * item.unitPrice * 100) / 100;
+}
+
+/**
+ * Add up the values of consumption or waste entries separately for each currency
+ */
+export function totalByCurrency(
+  entries: { estimatedValue: number | null; currency: string | null }[]
+): Partial<Record<string, number>> {
+  const totals: Partial<Record<string, number>> = {};
+  for (const entry of entries) {
+    if (entry.estimatedValue !== null && entry.currency) {
+      totals[entry.currency] = (totals[entry.currency] ?? 0) + entry.estimatedValue;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Pick the currency most of the money was recorded in, so mixed currencies aren't added together
+ */
+export function getMainCurrency(totals: Partial<Record<string, number>>, fallback: Currency = "USD"): Currency {
+  let main: Currency = fallback;
+  let largest = 0;
+  for (const [currency, total] of Object.entries(totals)) {
+    if ((total ?? 0) > largest) {
+      main = currency as Currency;
+      largest = total ?? 0;
+    }
+  }
+  return main;
+}
+
+/**
+ * Format an amount of money for display, e.g. "$4.99" or "€4,99" depending on the locale
+ */
+export function formatPrice(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+}
@@ -48,6 +48,184 @@ export const MEAL_TYPES = [
   "snack"
 ] as const;
 
+// Common reasons food is thrown away, offered when discarding an item
+export const WASTE_REASONS = [
+  "expired",
+  "spoiled",
+  "moldy",
+  "stale",
+  "leftovers",
+  "made too much",
+  "didn't like it"
+] as const;
+
+// How an item got onto a shopping list
+export const SHOPPING_LIST_ITEM_SOURCES = [
+  "manual",
+  "meal-plan"
+] as const;
+
+// Whether a household has as much of a staple as it wants to keep on hand
+export const STOCK_STATUSES = [
+  "low-stock",
+  "in-stock"
+] as const;
+
+// Where a product catalog entry came from
+export const PRODUCT_CATALOG_SOURCES = [
+  "seed",
+  "learned"
+] as const;
+
+// Where a shelf-life estimate came from, most specific first
+export const SHELF_LIFE_SOURCES = [
+  "household",
+  "item",
+  "category",
+  "default",
+  "cooked",
+  "ingredient"
+] as const;
+
+// Nutrients tracked per 100 g of food; energy in kcal, sodium in mg, the rest in grams
+export const NUTRIENTS = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "sodium"
+] as const;
+
+// Where an item's nutrition values came from
+export const NUTRITION_SOURCES = [
+  "item",
+  "dataset"
+] as const;
+
+// Allergens food items and recipes can be tagged with
+export const ALLERGENS = [
+  "peanuts",
+  "tree-nuts",
+  "milk",
+  "eggs",
+  "fish",
+  "shellfish",
+  "soy",
+  "gluten",
+  "sesame",
+  "mustard",
+  "celery"
+] as const;
+
+// Diets a user can follow
+export const DIETS = [
+  "vegetarian",
+  "vegan",
+  "pescatarian",
+  "halal",
+  "kosher",
+  "low-carb"
+] as const;
+
+// Why a recipe doesn't suit someone's dietary profile
+export const DIETARY_CONFLICT_TYPES = [
+  "allergen",
+  "diet",
+  "disliked"
+] as const;
+
+// Kinds of entries in a food item's history
+export const FOOD_ITEM_EVENT_TYPES = [
+  "created",
+  "edited",
+  "restocked",
+  "opened",
+  "moved",
+  "consumed",
+  "wasted",
+  "deleted",
+  "restored",
+  "shared",
+  "merged"
+] as const;
+
+// Food item fields that can be imported from or exported to a spreadsheet
+export const INVENTORY_TRANSFER_FIELDS = [
+  "name",
+  "category",
+  "quantity",
+  "unit",
+  "unitWeight",
+  "purchaseDate",
+  "expirationDate",
+  "storageLocation",
+  "notes",
+  "barcode",
+  "price",
+  "currency",
+  "store"
+] as const;
+
+// Currencies prices can be recorded in (ISO 4217 codes)
+export const CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CHF",
+  "SEK",
+  "JPY",
+  "INR",
+  "MXN",
+  "BRL"
+] as const;
+
+// Photos a food item can have, e.g. of the label with the printed date
+export const MAX_ITEM_PHOTOS = 6;
+
+// Paths returned by the image upload endpoints
+export const UPLOADED_IMAGE_PATH = /^\/uploads\/[\w.-]+$/;
+
+// File formats for inventory import and export
+export const INVENTORY_FILE_FORMATS = [
+  "csv",
+  "json"
+] as const;
+
+// Icons a household can pick for its own categories and storage locations
+export const CUSTOM_ICONS = [
+  "apple",
+  "carrot",
+  "egg",
+  "milk",
+  "beef",
+  "fish",
+  "wheat",
+  "cookie",
+  "candy",
+  "coffee",
+  "wine",
+  "baby",
+  "leaf",
+  "shopping-bag",
+  "snowflake",
+  "refrigerator",
+  "warehouse",
+  "archive",
+  "box",
+  "package"
+] as const;
+
+// Household membership roles
+export const HOUSEHOLD_ROLES = [
+  "owner",
+  "member",
+  "viewer"
+] as const;
+
 // User profiles
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -56,6 +234,7 @@ export const users = pgTable("users", {
   email: text("email").unique(),
   name: text("name").default(""),
   isVerified: boolean("is_verified").notNull().default(false),
+  isAdmin: boolean("is_admin").notNull().default(false), // may load product recalls
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -70,19 +249,176 @@ export const otpVerifications = pgTable("otp_verifications", {
   userData: text("user_data").notNull(), // JSON stringified user registration data
 });
 
+// Households share one inventory between several users
+export const households = pgTable("households", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  trashRetentionDays: integer("trash_retention_days").notNull().default(30), // deleted items are purged after this many days
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Household membership
+export const householdMembers = pgTable("household_members", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  role: text("role").$type<typeof HOUSEHOLD_ROLES[number]>().notNull().default("member"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Pending household invitations, accepted with an emailed code
+export const householdInvites = pgTable("household_invites", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  email: text("email").notNull(),
+  code: text("code").notNull(),
+  role: text("role").$type<typeof HOUSEHOLD_ROLES[number]>().notNull().default("member"),
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  failedAttempts: integer("failed_attempts").notNull().default(0), // wrong codes entered by the invitee
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Food categories a household adds to the built-in ones
+export const customCategories = pgTable("custom_categories", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  key: text("key").notNull(), // stored as the category of food items; unique within the household
+  name: text("name").notNull(),
+  icon: text("icon").$type<typeof CUSTOM_ICONS[number]>().notNull().default("package"),
+  color: text("color").notNull().default("#94a3b8"),
+  baseCategory: text("base_category").$type<typeof FOOD_CATEGORIES[number]>().notNull().default("other"), // shelf life follows this built-in category
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Storage locations a household adds to the built-in ones
+export const customStorageLocations = pgTable("custom_storage_locations", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  key: text("key").notNull(), // stored as the storage location of food items; unique within the household
+  name: text("name").notNull(),
+  icon: text("icon").$type<typeof CUSTOM_ICONS[number]>().notNull().default("box"),
+  color: text("color").notNull().default("#94a3b8"),
+  baseLocation: text("base_location").$type<typeof STORAGE_LOCATIONS[number]>().notNull().default("pantry"), // shelf life and freezing follow this built-in location
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Food items table
 export const foodItems = pgTable("food_items", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  category: text("category").$type<typeof FOOD_CATEGORIES[number]>().notNull(),
-  quantity: integer("quantity").notNull().default(1),
+  category: text("category").notNull(), // a built-in category or the key of one of the household's custom categories
+  quantity: doublePrecision("quantity").notNull().default(1),
   unit: text("unit").$type<typeof QUANTITY_UNITS[number]>().notNull().default("items"),
+  unitWeight: doublePrecision("unit_weight"), // grams per item or package, used for unit conversion
   purchaseDate: date("purchase_date").notNull(),
   expirationDate: date("expiration_date").notNull(),
-  storageLocation: text("storage_location").$type<typeof STORAGE_LOCATIONS[number]>().notNull(),
+  storageLocation: text("storage_location").notNull(), // a built-in location or the key of a custom one
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   userId: integer("user_id").references(() => users.id),
+  householdId: integer("household_id").references(() => households.id),
+  barcode: text("barcode"), // EAN/UPC code the item was scanned from, if any
+  openedDate: date("opened_date"),
+  openedExpirationDate: date("opened_expiration_date"), // when the item goes off now that it's open
+  deletedAt: timestamp("deleted_at"), // set while the item is in the trash
+  price: doublePrecision("price"), // what was paid for the item's quantity when the price was entered
+  unitPrice: doublePrecision("unit_price"), // price per unit of the item's unit, derived from price and quantity
+  currency: text("currency").$type<typeof CURRENCIES[number]>().notNull().default("USD"),
+  store: text("store"), // where the item was bought
+  photos: text("photos").array().notNull().default([]), // paths of uploaded images, first one is the thumbnail
+  leftovers: boolean("leftovers").notNull().default(false),
+  sourceMealPlanId: integer("source_meal_plan_id"), // the meal plan entry leftovers were cooked for
+  ingredientIds: integer("ingredient_ids").array().notNull().default([]), // food items the leftovers were made from
+  nutrition: json("nutrition").$type<NutritionValues>(), // per 100 g, overrides the bundled dataset
+  allergens: text("allergens").array().$type<typeof ALLERGENS[number][]>().notNull().default([]),
+});
+
+// Purchase lots of a food item; the item's quantity, dates and location summarize its lots
+export const foodItemLots = pgTable("food_item_lots", {
+  id: serial("id").primaryKey(),
+  foodItemId: integer("food_item_id").notNull().references(() => foodItems.id),
+  quantity: doublePrecision("quantity").notNull(),
+  purchaseDate: date("purchase_date").notNull(),
+  expirationDate: date("expiration_date").notNull(),
+  storageLocation: text("storage_location").notNull(),
+  frozenRemainingDays: integer("frozen_remaining_days"), // days the lot had left when it went into the freezer
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Photos uploaded for a household's items; only files recorded here are deleted along with an item
+export const itemPhotos = pgTable("item_photos", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  userId: integer("user_id").references(() => users.id), // who uploaded it
+  path: text("path").notNull().unique(), // as returned by the upload endpoint, e.g. /uploads/123-abc.jpg
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// History of a food item being moved between storage locations
+export const storageMoves = pgTable("storage_moves", {
+  id: serial("id").primaryKey(),
+  foodItemId: integer("food_item_id").notNull().references(() => foodItems.id),
+  userId: integer("user_id").references(() => users.id),
+  fromLocation: text("from_location").notNull(),
+  toLocation: text("to_location").notNull(),
+  movedDate: date("moved_date").notNull(),
+  previousExpirationDate: date("previous_expiration_date").notNull(),
+  newExpirationDate: date("new_expiration_date").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Append-only history of what happened to each food item
+export const foodItemEvents = pgTable("food_item_events", {
+  id: serial("id").primaryKey(),
+  foodItemId: integer("food_item_id").notNull(), // not a foreign key, so the history outlives the item
+  householdId: integer("household_id").references(() => households.id),
+  userId: integer("user_id").references(() => users.id),
+  itemName: text("item_name").notNull(), // the item's name at the time, shown once the item is gone
+  eventType: text("event_type").$type<typeof FOOD_ITEM_EVENT_TYPES[number]>().notNull(),
+  details: json("details").$type<FoodItemEventDetails>().notNull().default({}),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Product catalog used to pre-fill items from scanned barcodes
+export const productCatalog = pgTable("product_catalog", {
+  id: serial("id").primaryKey(),
+  barcode: text("barcode").notNull().unique(),
+  name: text("name").notNull(),
+  category: text("category").$type<typeof FOOD_CATEGORIES[number]>().notNull(),
+  unit: text("unit").$type<typeof QUANTITY_UNITS[number]>().notNull().default("items"),
+  storageLocation: text("storage_location").$type<typeof STORAGE_LOCATIONS[number]>().notNull(),
+  shelfLifeDays: integer("shelf_life_days"), // typical days from purchase to expiration
+  source: text("source").$type<typeof PRODUCT_CATALOG_SOURCES[number]>().notNull().default("seed"),
+  timesAdded: integer("times_added").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Shelf-life knowledge base used to predict expiration dates
+export const shelfLifeRules = pgTable("shelf_life_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name"), // null for the default of a whole category
+  aliases: text("aliases").array().notNull(),
+  category: text("category").$type<typeof FOOD_CATEGORIES[number]>().notNull(),
+  storageLocation: text("storage_location").$type<typeof STORAGE_LOCATIONS[number]>().notNull(),
+  days: integer("days").notNull(),
+  openedDays: integer("opened_days"), // shelf life once opened; null if opening makes no difference
+});
+
+// Nutrition per 100 g of common foods, seeded from server/data/nutrition.json
+export const nutritionFacts = pgTable("nutrition_facts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  aliases: text("aliases").array().notNull(),
+  servingGrams: doublePrecision("serving_grams").notNull(), // a typical portion, used when a meal doesn't say how much
+  calories: doublePrecision("calories").notNull(),
+  protein: doublePrecision("protein").notNull(),
+  carbs: doublePrecision("carbs").notNull(),
+  fat: doublePrecision("fat").notNull(),
+  fiber: doublePrecision("fiber").notNull(),
+  sodium: doublePrecision("sodium").notNull(),
 });
 
 // Recipe suggestions
@@ -93,18 +429,23 @@ export const recipes = pgTable("recipes", {
   preparationTime: integer("preparation_time").notNull(), // in minutes
   instructions: text("instructions").notNull(),
   imageUrl: text("image_url"),
+  allergens: text("allergens").array().$type<typeof ALLERGENS[number][]>().notNull().default([]),
 });
 
 // Waste tracking
 export const wasteEntries = pgTable("waste_entries", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
-  foodItemId: integer("food_item_id").notNull().references(() => foodItems.id),
-  quantity: integer("quantity").notNull(),
+  householdId: integer("household_id").references(() => households.id),
+  foodItemId: integer("food_item_id").references(() => foodItems.id), // null once the item is gone
+  itemName: text("item_name"), // the item's name, kept once the item is gone
+  quantity: doublePrecision("quantity").notNull(),
   unit: text("unit").$type<typeof QUANTITY_UNITS[number]>().notNull(),
   wasteWeight: doublePrecision("waste_weight"), // in kg
   wasteDate: date("waste_date").notNull(),
   reason: text("reason"),
+  estimatedValue: doublePrecision("estimated_value"), // what the wasted portion cost, from the item's price
+  currency: text("currency").$type<typeof CURRENCIES[number]>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -112,12 +453,15 @@ export const wasteEntries = pgTable("waste_entries", {
 export const consumptionEntries = pgTable("consumption_entries", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
-  foodItemId: integer("food_item_id").notNull().references(() => foodItems.id),
-  quantity: integer("quantity").notNull(),
+  householdId: integer("household_id").references(() => households.id),
+  foodItemId: integer("food_item_id").references(() => foodItems.id), // null once the item is gone
+  itemName: text("item_name"), // the item's name, kept once the item is gone
+  quantity: doublePrecision("quantity").notNull(),
   unit: text("unit").$type<typeof QUANTITY_UNITS[number]>().notNull(),
   consumptionDate: date("consumption_date").notNull(),
   notes: text("notes"),
-  estimatedValue: doublePrecision("estimated_value"), // estimated monetary value in user's currency
+  estimatedValue: doublePrecision("estimated_value"), // estimated monetary value, from the item's price
+  currency: text("currency").$type<typeof CURRENCIES[number]>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -125,6 +469,7 @@ export const consumptionEntries = pgTable("consumption_entries", {
 export const mealPlans = pgTable("meal_plans", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
+  householdId: integer("household_id").references(() => households.id),
   date: date("date").notNull(),
   mealType: text("meal_type").$type<typeof MEAL_TYPES[number]>().notNull(),
   name: text("name").notNull(),
@@ -133,6 +478,56 @@ export const mealPlans = pgTable("meal_plans", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Shopping lists shared by a household
+export const shoppingLists = pgTable("shopping_lists", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  userId: integer("user_id").references(() => users.id), // who started the list
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Things to buy on a shopping list; checking out turns the checked ones into food items
+export const shoppingListItems = pgTable("shopping_list_items", {
+  id: serial("id").primaryKey(),
+  listId: integer("list_id").notNull().references(() => shoppingLists.id),
+  name: text("name").notNull(),
+  quantity: doublePrecision("quantity").notNull().default(1),
+  unit: text("unit").$type<typeof QUANTITY_UNITS[number]>().notNull().default("items"),
+  category: text("category").notNull().default("other"), // used for the food item created at checkout
+  storageLocation: text("storage_location").notNull().default("pantry"),
+  notes: text("notes"),
+  checked: boolean("checked").notNull().default(false),
+  source: text("source").$type<typeof SHOPPING_LIST_ITEM_SOURCES[number]>().notNull().default("manual"),
+  replacesFoodItemId: integer("replaces_food_item_id"), // the used-up or expiring item upcoming meals were counting on
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Free-form labels a household puts on its food items, e.g. "for lunches" or "gluten-free"
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  name: text("name").notNull(), // normalized, unique within the household
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Which food items carry which tags
+export const foodItemTags = pgTable("food_item_tags", {
+  id: serial("id").primaryKey(),
+  foodItemId: integer("food_item_id").notNull().references(() => foodItems.id),
+  tagId: integer("tag_id").notNull().references(() => tags.id),
+});
+
+// Staples a household always wants on hand, matched to food items by name
+export const parLevels = pgTable("par_levels", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").notNull().references(() => households.id),
+  name: text("name").notNull(), // unique within the household, ignoring case
+  minQuantity: doublePrecision("min_quantity").notNull(),
+  unit: text("unit").$type<typeof QUANTITY_UNITS[number]>().notNull().default("items"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Notification settings
 export const notificationSettings = pgTable("notification_settings", {
   id: serial("id").primaryKey(),
@@ -147,6 +542,16 @@ export const notificationSettings = pgTable("notification_settings", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// What a user can't or won't eat; recipes for a household respect every member's profile
+export const dietaryProfiles = pgTable("dietary_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id).unique(),
+  allergens: text("allergens").array().$type<typeof ALLERGENS[number][]>().notNull().default([]),
+  diets: text("diets").array().$type<typeof DIETS[number][]>().notNull().default([]),
+  dislikedIngredients: text("disliked_ingredients").array().notNull().default([]),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Chat message types
 export const MESSAGE_TYPES = [
   "text",
@@ -154,6 +559,22 @@ export const MESSAGE_TYPES = [
   "image"
 ] as const;
 
+// What a recall matched an inventory item on; barcode and lot code matches are certain, a name with
+// the recall's brand is likely, and a name alone is only possible, so it's shown but never emailed
+export const RECALL_MATCH_TYPES = [
+  "barcode",
+  "lot",
+  "brand",
+  "name"
+] as const;
+
+// Where a community share listing is in its handover
+export const SHARE_LISTING_STATUSES = [
+  "available",
+  "claimed",
+  "completed"
+] as const;
+
 // Community chat messages
 export const chatMessages = pgTable("chat_messages", {
   id: serial("id").primaryKey(),
@@ -173,6 +594,7 @@ export const sharedRecipes = pgTable("shared_recipes", {
   preparationTime: integer("preparation_time").notNull(), // in minutes
   instructions: text("instructions").notNull(),
   imageUrl: text("image_url"),
+  allergens: text("allergens").array().$type<typeof ALLERGENS[number][]>().notNull().default([]), // tagged by the author
   likes: integer("likes").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -188,21 +610,88 @@ export const recipeComments = pgTable("recipe_comments", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Surplus food offered to the community, taken from one of the sharer's items
+export const shareListings = pgTable("share_listings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // who is giving the food away
+  householdId: integer("household_id").references(() => households.id),
+  foodItemId: integer("food_item_id").references(() => foodItems.id), // null once the item is gone
+  name: text("name").notNull(),
+  quantity: doublePrecision("quantity").notNull(),
+  unit: text("unit").$type<typeof QUANTITY_UNITS[number]>().notNull().default("items"),
+  expirationDate: date("expiration_date").notNull(),
+  pickupNotes: text("pickup_notes"),
+  imageUrl: text("image_url"),
+  status: text("status").$type<typeof SHARE_LISTING_STATUSES[number]>().notNull().default("available"),
+  claimedById: integer("claimed_by_id").references(() => users.id),
+  claimedAt: timestamp("claimed_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Product recalls loaded by admins; every household's inventory is checked against them
+export const recalls = pgTable("recalls", {
+  id: serial("id").primaryKey(),
+  productName: text("product_name").notNull(),
+  brand: text("brand"),
+  barcode: text("barcode"),
+  lotCode: text("lot_code"), // printed on the package; shown so people can check theirs
+  startDate: date("start_date"), // first purchase date the recall covers
+  endDate: date("end_date"), // last purchase date the recall covers
+  description: text("description").notNull(),
+  sourceKey: text("source_key").unique(), // the feed's recall ID, or product, brand and dates, so loading a feed again adds nothing twice
+  importedBy: integer("imported_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Inventory items a recall may apply to, until the household dismisses the alert
+export const recallMatches = pgTable("recall_matches", {
+  id: serial("id").primaryKey(),
+  recallId: integer("recall_id").notNull().references(() => recalls.id),
+  foodItemId: integer("food_item_id").notNull().references(() => foodItems.id),
+  householdId: integer("household_id").references(() => households.id),
+  matchType: text("match_type").$type<typeof RECALL_MATCH_TYPES[number]>().notNull(),
+  dismissedAt: timestamp("dismissed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Zod schemas
-export const insertFoodItemSchema = createInsertSchema(foodItems)
-  .omit({ id: true, createdAt: true });
+export const nutritionValuesSchema = z.object(
+  Object.fromEntries(NUTRIENTS.map(nutrient => [nutrient, z.number().nonnegative()])) as Record<typeof NUTRIENTS[number], z.ZodNumber>
+);
+
+export const insertFoodItemSchema = createInsertSchema(foodItems, {
+  price: (schema) => schema.nonnegative().optional(),
+  store: (schema) => schema.max(100).optional(),
+  photos: z.array(z.string().regex(UPLOADED_IMAGE_PATH, "Photos must be uploaded images"))
+    .max(MAX_ITEM_PHOTOS, `Items can have at most ${MAX_ITEM_PHOTOS} photos`)
+    .optional(),
+  nutrition: nutritionValuesSchema.nullable().optional(),
+  allergens: z.array(z.enum(ALLERGENS)).optional(),
+})
+  .omit({ id: true, createdAt: true, deletedAt: true, unitPrice: true });
 
-export const insertRecipeSchema = createInsertSchema(recipes)
+export const insertRecipeSchema = createInsertSchema(recipes, {
+  allergens: z.array(z.enum(ALLERGENS)).optional(),
+})
   .omit({ id: true });
 
-export const insertWasteEntrySchema = createInsertSchema(wasteEntries)
-  .omit({ id: true, createdAt: true });
+export const insertWasteEntrySchema = createInsertSchema(wasteEntries, {
+  foodItemId: z.number().int(),
+  quantity: (schema) => schema.positive("Quantity must be greater than 0"),
+  wasteWeight: (schema) => schema.nonnegative().nullish(),
+  reason: (schema) => schema.max(200).nullish(),
+})
+  .omit({ id: true, itemName: true, createdAt: true });
 
-export const insertConsumptionEntrySchema = createInsertSchema(consumptionEntries)
-  .omit({ id: true, createdAt: true });
+export const insertConsumptionEntrySchema = createInsertSchema(consumptionEntries, {
+  foodItemId: z.number().int(),
+  quantity: (schema) => schema.positive("Quantity must be greater than 0"),
+})
+  .omit({ id: true, itemName: true, createdAt: true });
 
 export const insertUserSchema = createInsertSchema(users)
-  .omit({ id: true, createdAt: true, isVerified: true });
+  .omit({ id: true, createdAt: true, isVerified: true, isAdmin: true });
 
 export const insertMealPlanSchema = createInsertSchema(mealPlans)
   .omit({ id: true, createdAt: true });
@@ -216,12 +705,86 @@ export const insertOtpVerificationSchema = createInsertSchema(otpVerifications)
 export const insertChatMessageSchema = createInsertSchema(chatMessages)
   .omit({ id: true, createdAt: true });
 
-export const insertSharedRecipeSchema = createInsertSchema(sharedRecipes)
+export const insertSharedRecipeSchema = createInsertSchema(sharedRecipes, {
+  allergens: z.array(z.enum(ALLERGENS)).optional(),
+})
   .omit({ id: true, createdAt: true, updatedAt: true, likes: true });
 
+export const insertDietaryProfileSchema = createInsertSchema(dietaryProfiles, {
+  allergens: z.array(z.enum(ALLERGENS)),
+  diets: z.array(z.enum(DIETS)),
+  dislikedIngredients: z.array(z.string().trim().min(1).max(50)).max(50),
+})
+  .omit({ id: true, userId: true, updatedAt: true });
+
 export const insertRecipeCommentSchema = createInsertSchema(recipeComments)
   .omit({ id: true, createdAt: true });
 
+export const insertFoodItemLotSchema = createInsertSchema(foodItemLots)
+  .omit({ id: true, createdAt: true });
+
+export const insertItemPhotoSchema = createInsertSchema(itemPhotos)
+  .omit({ id: true, createdAt: true });
+
+export const insertStorageMoveSchema = createInsertSchema(storageMoves)
+  .omit({ id: true, createdAt: true });
+
+export const insertFoodItemEventSchema = createInsertSchema(foodItemEvents)
+  .omit({ id: true, createdAt: true });
+
+export const insertShelfLifeRuleSchema = createInsertSchema(shelfLifeRules)
+  .omit({ id: true });
+
+export const insertNutritionFactSchema = createInsertSchema(nutritionFacts)
+  .omit({ id: true });
+
+export const insertProductCatalogEntrySchema = createInsertSchema(productCatalog)
+  .omit({ id: true, updatedAt: true });
+
+export const insertHouseholdSchema = createInsertSchema(households)
+  .omit({ id: true, createdAt: true });
+
+export const insertHouseholdMemberSchema = createInsertSchema(householdMembers)
+  .omit({ id: true, createdAt: true });
+
+export const insertHouseholdInviteSchema = createInsertSchema(householdInvites)
+  .omit({ id: true, createdAt: true, acceptedAt: true });
+
+export const insertCustomCategorySchema = createInsertSchema(customCategories)
+  .omit({ id: true, createdAt: true });
+
+export const insertCustomStorageLocationSchema = createInsertSchema(customStorageLocations)
+  .omit({ id: true, createdAt: true });
+
+export const insertShoppingListSchema = createInsertSchema(shoppingLists)
+  .omit({ id: true, createdAt: true });
+
+export const insertShoppingListItemSchema = createInsertSchema(shoppingListItems)
+  .omit({ id: true, createdAt: true });
+
+export const insertTagSchema = createInsertSchema(tags)
+  .omit({ id: true, createdAt: true });
+
+export const insertShareListingSchema = createInsertSchema(shareListings, {
+  pickupNotes: (schema) => schema.max(500).optional(),
+}).omit({ id: true, createdAt: true, status: true, claimedById: true, claimedAt: true, completedAt: true });
+
+export const insertRecallSchema = createInsertSchema(recalls, {
+  productName: (schema) => schema.trim().min(1, "Product name is required").max(200),
+  brand: (schema) => schema.trim().max(100).optional(),
+  barcode: (schema) => schema.trim().regex(/^\d{6,14}$/, "Barcode must be 6 to 14 digits").optional(),
+  lotCode: (schema) => schema.trim().max(100).optional(),
+  description: (schema) => schema.trim().min(1, "Description is required").max(2000),
+}).omit({ id: true, createdAt: true });
+
+export const insertRecallMatchSchema = createInsertSchema(recallMatches)
+  .omit({ id: true, createdAt: true, dismissedAt: true });
+
+export const insertParLevelSchema = createInsertSchema(parLevels, {
+  name: (schema) => schema.trim().min(1).max(100),
+  minQuantity: (schema) => schema.positive(),
+}).omit({ id: true, createdAt: true });
+
 // Types
 export type FoodItem = typeof foodItems.$inferSelect;
 export type InsertFoodItem = z.infer<typeof insertFoodItemSchema>;
@@ -231,6 +794,7 @@ export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
 
 export type WasteEntry = typeof wasteEntries.$inferSelect;
 export type InsertWasteEntry = z.infer<typeof insertWasteEntrySchema>;
+export type WasteEntryWithItem = Omit<WasteEntry, "itemName"> & { itemName: string };
 
 export type ConsumptionEntry = typeof consumptionEntries.$inferSelect;
 export type InsertConsumptionEntry = z.infer<typeof insertConsumptionEntrySchema>;
@@ -241,6 +805,9 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type NotificationSetting = typeof notificationSettings.$inferSelect;
 export type InsertNotificationSetting = z.infer<typeof insertNotificationSettingsSchema>;
 
+export type DietaryProfile = typeof dietaryProfiles.$inferSelect;
+export type InsertDietaryProfile = z.infer<typeof insertDietaryProfileSchema>;
+
 export type MealPlan = typeof mealPlans.$inferSelect;
 export type InsertMealPlan = z.infer<typeof insertMealPlanSchema>;
 
@@ -256,10 +823,275 @@ export type InsertSharedRecipe = z.infer<typeof insertSharedRecipeSchema>;
 export type RecipeComment = typeof recipeComments.$inferSelect;
 export type InsertRecipeComment = z.infer<typeof insertRecipeCommentSchema>;
 
+export type FoodItemLot = typeof foodItemLots.$inferSelect;
+export type InsertFoodItemLot = z.infer<typeof insertFoodItemLotSchema>;
+
+export type ItemPhoto = typeof itemPhotos.$inferSelect;
+export type InsertItemPhoto = z.infer<typeof insertItemPhotoSchema>;
+
+export type StorageMove = typeof storageMoves.$inferSelect;
+export type InsertStorageMove = z.infer<typeof insertStorageMoveSchema>;
+
+export type FoodItemEvent = typeof foodItemEvents.$inferSelect;
+export type InsertFoodItemEvent = typeof foodItemEvents.$inferInsert;
+
+export type ShelfLifeRule = typeof shelfLifeRules.$inferSelect;
+export type InsertShelfLifeRule = z.infer<typeof insertShelfLifeRuleSchema>;
+
+export type NutritionFact = typeof nutritionFacts.$inferSelect;
+export type InsertNutritionFact = z.infer<typeof insertNutritionFactSchema>;
+
+export type ProductCatalogEntry = typeof productCatalog.$inferSelect;
+export type InsertProductCatalogEntry = z.infer<typeof insertProductCatalogEntrySchema>;
+
+export type Household = typeof households.$inferSelect;
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
+
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type InsertHouseholdMember = z.infer<typeof insertHouseholdMemberSchema>;
+
+export type HouseholdInvite = typeof householdInvites.$inferSelect;
+export type InsertHouseholdInvite = z.infer<typeof insertHouseholdInviteSchema>;
+
+export type HouseholdRole = typeof HOUSEHOLD_ROLES[number];
+
+export type CustomCategory = typeof customCategories.$inferSelect;
+export type InsertCustomCategory = z.infer<typeof insertCustomCategorySchema>;
+
+export type CustomStorageLocation = typeof customStorageLocations.$inferSelect;
+export type InsertCustomStorageLocation = z.infer<typeof insertCustomStorageLocationSchema>;
+
+export type ShoppingList = typeof shoppingLists.$inferSelect;
+export type InsertShoppingList = z.infer<typeof insertShoppingListSchema>;
+
+export type ShoppingListItem = typeof shoppingListItems.$inferSelect;
+export type InsertShoppingListItem = z.infer<typeof insertShoppingListItemSchema>;
+
+// Shopping list with everything on it, oldest items first
+export type ShoppingListWithItems = ShoppingList & {
+  items: ShoppingListItem[];
+};
+
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+
+// Tag with how many items in the inventory carry it
+export type TagWithCount = Tag & {
+  itemCount: number;
+};
+
+export type ParLevel = typeof parLevels.$inferSelect;
+export type InsertParLevel = z.infer<typeof insertParLevelSchema>;
+
+// Par level with how much of it the household has that hasn't expired
+export type ParLevelWithStock = ParLevel & {
+  onHand: number; // in the par level's unit
+  status: typeof STOCK_STATUSES[number];
+};
+
+export type Recall = typeof recalls.$inferSelect;
+export type InsertRecall = z.infer<typeof insertRecallSchema>;
+
+export type RecallMatch = typeof recallMatches.$inferSelect;
+export type InsertRecallMatch = z.infer<typeof insertRecallMatchSchema>;
+
+// Recall alert shown to a household: the recall and the item it may apply to
+export type RecallAlert = RecallMatch & {
+  recall: Recall;
+  foodItem: Pick<FoodItem, "id" | "name" | "quantity" | "unit" | "purchaseDate" | "barcode">;
+};
+
+// Outcome of loading a recall file
+export type RecallImportResult = {
+  imported: number;
+  errors: { row: number; message: string }[]; // rows are numbered from 1, not counting a CSV header
+  matches: number; // inventory items newly matched by the imported recalls
+  duplicates: number; // recalls skipped because they were already loaded
+};
+
+export type ShareListing = typeof shareListings.$inferSelect;
+export type InsertShareListing = z.infer<typeof insertShareListingSchema>;
+
+// Share listing with who is giving the food away and who claimed it
+export type ShareListingWithUsers = ShareListing & {
+  user: {
+    id: number;
+    username: string;
+  };
+  claimedBy: {
+    id: number;
+    username: string;
+  } | null;
+};
+
+// A category or storage location a household can choose from, built-in or its own
+export type CategoryOption = {
+  key: string;
+  name: string;
+  icon: string;
+  color: string;
+  base: string; // the built-in category or location it behaves like
+  custom: boolean;
+  id: number | null; // set for custom entries
+};
+
 // Food item with expiration status
 export type FoodItemWithStatus = FoodItem & {
   status: 'expired' | 'expiring-soon' | 'fresh';
   daysUntilExpiration: number;
+  effectiveExpirationDate: string; // the earlier of the sealed and opened expiration dates
+  lots?: FoodItemLot[];
+  tags?: string[]; // tag names, alphabetical
+};
+
+// What a food item event recorded; which fields are set depends on the event type
+export type FoodItemEventDetails = {
+  changes?: Record<string, { before: unknown; after: unknown }>; // edited fields
+  quantity?: number; // amount consumed, wasted, restocked or left when deleted
+  unit?: string;
+  fromLocation?: string;
+  toLocation?: string;
+  reason?: string; // why food was wasted
+  source?: string; // how a created item was added, e.g. "barcode", "import" or "quick-add"
+  mergedFrom?: string; // name of the duplicate item merged into this one
+};
+
+// Food item in the trash and when it will be purged for good
+export type TrashedFoodItem = FoodItem & {
+  purgeDate: string;
+};
+
+// Food item event with the name of the user behind it
+export type FoodItemEventWithUser = FoodItemEvent & {
+  user: {
+    id: number;
+    username: string;
+    name: string | null;
+  } | null;
+};
+
+// Amounts of each nutrient, per 100 g or in total depending on where they're used
+export type NutritionValues = Record<typeof NUTRIENTS[number], number>;
+
+// An item's nutrition per 100 g and where it came from
+export type ItemNutrition = {
+  per100g: NutritionValues;
+  source: typeof NUTRITION_SOURCES[number];
+  matchedName: string | null; // the dataset food the item was matched to
+  servingGrams: number;
+};
+
+// Estimated nutrition of one planned meal; each ingredient counts as one typical serving
+export type MealPlanNutrition = {
+  mealPlanId: number;
+  date: string;
+  totals: NutritionValues;
+  ingredients: { foodItemId: number; name: string; grams: number; source: typeof NUTRITION_SOURCES[number] }[];
+  unknown: string[]; // ingredients with no nutrition data, left out of the totals
+};
+
+// Nutrition of the meals planned over a range of days
+export type NutritionSummary = {
+  meals: MealPlanNutrition[];
+  days: { date: string; totals: NutritionValues }[]; // only days with meals planned
+  totals: NutritionValues;
+  dailyAverage: NutritionValues; // over the days with meals planned
+};
+
+export type Allergen = typeof ALLERGENS[number];
+export type Diet = typeof DIETS[number];
+
+// Everything a household's meals have to avoid, combined from its members' dietary profiles
+export type DietaryRestrictions = {
+  allergens: Allergen[];
+  diets: Diet[];
+  dislikedIngredients: string[];
+  members: { userId: number; username: string; allergens: Allergen[]; diets: Diet[]; dislikedIngredients: string[] }[];
+};
+
+// Why a recipe doesn't suit a household; the ingredient is the one that caused it
+export type DietaryConflict = {
+  type: typeof DIETARY_CONFLICT_TYPES[number];
+  label: string; // the allergen, diet or disliked ingredient
+  ingredient: string | null;
+};
+
+// Suggested expiration for a new item and where the estimate came from
+export type ShelfLifeSuggestion = {
+  days: number;
+  expirationDate: string;
+  source: typeof SHELF_LIFE_SOURCES[number];
+  description: string;
+};
+
+// Product details looked up from a scanned barcode
+export type ProductLookupResult = {
+  barcode: string;
+  name: string;
+  category: typeof FOOD_CATEGORIES[number];
+  unit: typeof QUANTITY_UNITS[number];
+  storageLocation: typeof STORAGE_LOCATIONS[number];
+  suggestedExpirationDate: string | null;
+  source: typeof PRODUCT_CATALOG_SOURCES[number];
+};
+
+// Which column of an imported file fills each food item field
+export type InventoryImportMapping = Partial<Record<typeof INVENTORY_TRANSFER_FIELDS[number], string>>;
+
+// One row of an imported file after mapping and validation
+export type InventoryImportRow = {
+  row: number; // 1-based row number in the file, not counting the header
+  item: Partial<InsertFoodItem>;
+  errors: { field: string; message: string }[];
+  warnings: string[];
+};
+
+// Outcome of an inventory import, or what it would do for a dry run
+export type InventoryImportResult = {
+  dryRun: boolean;
+  format: typeof INVENTORY_FILE_FORMATS[number];
+  columns: string[];
+  mapping: InventoryImportMapping;
+  rows: InventoryImportRow[];
+  validCount: number;
+  errorCount: number;
+  importedCount: number;
+};
+
+// A food item read from one entry of a quick-add text, to be confirmed before it's created
+export type QuickAddDraft = {
+  text: string; // the entry the draft was read from
+  name: string;
+  quantity: number;
+  unit: typeof QUANTITY_UNITS[number];
+  category: string;
+  storageLocation: string;
+  purchaseDate: string;
+  expirationDate: string;
+  expirationEstimated: boolean; // predicted from the shelf-life guide rather than given in the text
+  warnings: string[]; // guesses worth checking, e.g. an unknown food or a likely duplicate
+};
+
+// What was read from a quick-add text
+export type QuickAddResult = {
+  drafts: QuickAddDraft[];
+  skipped: string[]; // entries no item name could be read from
+};
+
+// Household membership as seen by one of its members
+export type HouseholdWithRole = Household & {
+  role: HouseholdRole;
+  isActive: boolean;
+};
+
+// Household member with user details
+export type HouseholdMemberWithUser = HouseholdMember & {
+  user: {
+    id: number;
+    username: string;
+    name: string | null;
+    email: string | null;
+  };
 };
 
 // Chat message with user details
@@ -275,10 +1107,57 @@ export type ChatMessageWithUser = ChatMessage & {
 export const foodItemsRelations = relations(foodItems, ({ many, one }) => ({
   wasteEntries: many(wasteEntries),
   consumptionEntries: many(consumptionEntries),
+  lots: many(foodItemLots),
+  storageMoves: many(storageMoves),
+  tags: many(foodItemTags),
   user: one(users, {
     fields: [foodItems.userId],
     references: [users.id],
   }),
+  household: one(households, {
+    fields: [foodItems.householdId],
+    references: [households.id],
+  }),
+}));
+
+export const foodItemLotsRelations = relations(foodItemLots, ({ one }) => ({
+  foodItem: one(foodItems, {
+    fields: [foodItemLots.foodItemId],
+    references: [foodItems.id],
+  }),
+}));
+
+export const itemPhotosRelations = relations(itemPhotos, ({ one }) => ({
+  household: one(households, {
+    fields: [itemPhotos.householdId],
+    references: [households.id],
+  }),
+  user: one(users, {
+    fields: [itemPhotos.userId],
+    references: [users.id],
+  }),
+}));
+
+export const storageMovesRelations = relations(storageMoves, ({ one }) => ({
+  foodItem: one(foodItems, {
+    fields: [storageMoves.foodItemId],
+    references: [foodItems.id],
+  }),
+  user: one(users, {
+    fields: [storageMoves.userId],
+    references: [users.id],
+  }),
+}));
+
+export const foodItemEventsRelations = relations(foodItemEvents, ({ one }) => ({
+  household: one(households, {
+    fields: [foodItemEvents.householdId],
+    references: [households.id],
+  }),
+  user: one(users, {
+    fields: [foodItemEvents.userId],
+    references: [users.id],
+  }),
 }));
 
 export const wasteEntriesRelations = relations(wasteEntries, ({ one }) => ({
@@ -308,14 +1187,117 @@ export const mealPlansRelations = relations(mealPlans, ({ one }) => ({
     fields: [mealPlans.userId],
     references: [users.id],
   }),
+  household: one(households, {
+    fields: [mealPlans.householdId],
+    references: [households.id],
+  }),
+}));
+
+export const householdsRelations = relations(households, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [households.createdBy],
+    references: [users.id],
+  }),
+  members: many(householdMembers),
+  invites: many(householdInvites),
+  customCategories: many(customCategories),
+  customStorageLocations: many(customStorageLocations),
+  foodItems: many(foodItems),
+  mealPlans: many(mealPlans),
+  shoppingLists: many(shoppingLists),
+  parLevels: many(parLevels),
+  tags: many(tags),
+}));
+
+export const householdMembersRelations = relations(householdMembers, ({ one }) => ({
+  household: one(households, {
+    fields: [householdMembers.householdId],
+    references: [households.id],
+  }),
+  user: one(users, {
+    fields: [householdMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const householdInvitesRelations = relations(householdInvites, ({ one }) => ({
+  household: one(households, {
+    fields: [householdInvites.householdId],
+    references: [households.id],
+  }),
+  inviter: one(users, {
+    fields: [householdInvites.invitedBy],
+    references: [users.id],
+  }),
+}));
+
+export const customCategoriesRelations = relations(customCategories, ({ one }) => ({
+  household: one(households, {
+    fields: [customCategories.householdId],
+    references: [households.id],
+  }),
+}));
+
+export const customStorageLocationsRelations = relations(customStorageLocations, ({ one }) => ({
+  household: one(households, {
+    fields: [customStorageLocations.householdId],
+    references: [households.id],
+  }),
+}));
+
+export const shoppingListsRelations = relations(shoppingLists, ({ one, many }) => ({
+  household: one(households, {
+    fields: [shoppingLists.householdId],
+    references: [households.id],
+  }),
+  user: one(users, {
+    fields: [shoppingLists.userId],
+    references: [users.id],
+  }),
+  items: many(shoppingListItems),
+}));
+
+export const shoppingListItemsRelations = relations(shoppingListItems, ({ one }) => ({
+  list: one(shoppingLists, {
+    fields: [shoppingListItems.listId],
+    references: [shoppingLists.id],
+  }),
+}));
+
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  household: one(households, {
+    fields: [tags.householdId],
+    references: [households.id],
+  }),
+  foodItems: many(foodItemTags),
+}));
+
+export const foodItemTagsRelations = relations(foodItemTags, ({ one }) => ({
+  foodItem: one(foodItems, {
+    fields: [foodItemTags.foodItemId],
+    references: [foodItems.id],
+  }),
+  tag: one(tags, {
+    fields: [foodItemTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const parLevelsRelations = relations(parLevels, ({ one }) => ({
+  household: one(households, {
+    fields: [parLevels.householdId],
+    references: [households.id],
+  }),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
   notificationSetting: one(notificationSettings),
+  dietaryProfile: one(dietaryProfiles),
   foodItems: many(foodItems),
   wasteEntries: many(wasteEntries),
   consumptionEntries: many(consumptionEntries),
   mealPlans: many(mealPlans),
+  householdMemberships: many(householdMembers),
   chatMessages: many(chatMessages),
   sharedRecipes: many(sharedRecipes),
   recipeComments: many(recipeComments),
@@ -328,6 +1310,13 @@ export const notificationSettingsRelations = relations(notificationSettings, ({
   }),
 }));
 
+export const dietaryProfilesRelations = relations(dietaryProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [dietaryProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
 export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
   user: one(users, {
     fields: [chatMessages.userId],
@@ -357,3 +1346,31 @@ export const recipeCommentsRelations = relations(recipeComments, ({ one }) => ({
     references: [sharedRecipes.id],
   }),
 }));
+
+export const shareListingsRelations = relations(shareListings, ({ one }) => ({
+  user: one(users, {
+    fields: [shareListings.userId],
+    references: [users.id],
+    relationName: "sharer",
+  }),
+  claimedBy: one(users, {
+    fields: [shareListings.claimedById],
+    references: [users.id],
+    relationName: "claimer",
+  }),
+  foodItem: one(foodItems, {
+    fields: [shareListings.foodItemId],
+    references: [foodItems.id],
+  }),
+}));
+
+export const recallMatchesRelations = relations(recallMatches, ({ one }) => ({
+  recall: one(recalls, {
+    fields: [recallMatches.recallId],
+    references: [recalls.id],
+  }),
+  foodItem: one(foodItems, {
+    fields: [recallMatches.foodItemId],
+    references: [foodItems.id],
+  }),
+}));
@@ -0,0 +1,54 @@
+import { format } from "date-fns";
+import type { FoodItem, ParLevel, ParLevelWithStock } from "./schema";
+import { getEffectiveExpirationDate } from "./expiration";
+import { convertQuantity, roundQuantity } from "./units";
+
+/**
+ * Normalize an item or par level name so "Milk " and "milk" count as the same staple
+ */
+export function normalizeStapleName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Work out how much of a staple the household has and whether it's running low.
+ * Expired items and items whose unit can't be converted to the par level's unit aren't counted.
+ * @param items The household's food items
+ */
+export function withStockStatus(
+  parLevel: ParLevel,
+  items: Pick<FoodItem, "name" | "quantity" | "unit" | "unitWeight" | "expirationDate" | "openedExpirationDate">[],
+  today: Date = new Date()
+): ParLevelWithStock {
+  const todayString = format(today, "yyyy-MM-dd");
+  const name = normalizeStapleName(parLevel.name);
+
+  let onHand = 0;
+  for (const item of items) {
+    if (normalizeStapleName(item.name) !== name || getEffectiveExpirationDate(item) <= todayString) {
+      continue;
+    }
+    onHand += convertQuantity(item.quantity, item.unit, parLevel.unit, item.unitWeight) ?? 0;
+  }
+
+  onHand = roundQuantity(onHand);
+  return {
+    ...parLevel,
+    onHand,
+    status: onHand < parLevel.minQuantity ? "low-stock" : "in-stock",
+  };
+}
+
+/**
+ * The par levels a household has fallen below, most urgent (smallest share of the minimum) first
+ */
+export function getLowStock(
+  parLevels: ParLevel[],
+  items: Parameters<typeof withStockStatus>[1],
+  today: Date = new Date()
+): ParLevelWithStock[] {
+  return parLevels
+    .map(parLevel => withStockStatus(parLevel, items, today))
+    .filter(parLevel => parLevel.status === "low-stock")
+    .sort((a, b) => a.onHand / a.minQuantity - b.onHand / b.minQuantity);
+}
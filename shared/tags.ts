@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_ITEM = 20;
+
+/**
+ * Tags are stored lowercased with single spaces, so "For  Lunches" and "for lunches" are the same tag
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Tags sent with a food item, normalized and without duplicates
+export const tagNamesSchema = z
+  .array(z.string()
+    .trim()
+    .min(1, "Tags can't be empty")
+    .max(MAX_TAG_LENGTH, `Tags can be at most ${MAX_TAG_LENGTH} characters`)
+    .regex(/^[^,]*$/, "Tags can't contain commas")) // commas separate tags in filters
+  .max(MAX_TAGS_PER_ITEM, `Items can have at most ${MAX_TAGS_PER_ITEM} tags`)
+  .transform(names => Array.from(new Set(names.map(normalizeTagName))));
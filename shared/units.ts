@@ -0,0 +1,117 @@
+import { QUANTITY_UNITS } from "./schema";
+
+export type QuantityUnit = typeof QUANTITY_UNITS[number];
+
+// Grams in one of each weight unit; units are plain strings in insert schemas
+const GRAMS_PER_UNIT: Partial<Record<string, number>> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.349523125,
+  lbs: 453.59237,
+};
+
+// Common spellings of units that differ from ours
+export const UNIT_ALIASES: Record<string, string> = {
+  item: "items",
+  each: "items",
+  pc: "items",
+  pcs: "items",
+  lb: "lbs",
+  pound: "lbs",
+  pounds: "lbs",
+  kgs: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  gram: "g",
+  grams: "g",
+  ounce: "oz",
+  ounces: "oz",
+  pack: "package",
+  packs: "package",
+  packages: "package",
+  pkg: "package",
+  bag: "package",
+  bags: "package",
+  box: "package",
+  boxes: "package",
+  can: "package",
+  cans: "package",
+  jar: "package",
+  jars: "package",
+  bottle: "package",
+  bottles: "package",
+  carton: "package",
+  cartons: "package",
+};
+
+// Rough weight of one item or package when the food item does not record one
+export const DEFAULT_UNIT_WEIGHT_GRAMS = 250;
+
+/**
+ * Whether a unit measures weight (as opposed to counting items or packages)
+ */
+export function isWeightUnit(unit: QuantityUnit | string): boolean {
+  return GRAMS_PER_UNIT[unit] !== undefined;
+}
+
+/**
+ * Round a quantity to a sensible precision for storage and display
+ */
+export function roundQuantity(quantity: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(quantity * factor) / factor;
+}
+
+/**
+ * Convert a quantity to grams
+ * @param unitWeight Grams per item or package, required for count units
+ * @returns The weight in grams, or null if a count unit has no known weight
+ */
+export function toGrams(quantity: number, unit: QuantityUnit | string, unitWeight?: number | null): number | null {
+  const gramsPerUnit = GRAMS_PER_UNIT[unit];
+  if (gramsPerUnit !== undefined) {
+    return quantity * gramsPerUnit;
+  }
+  return unitWeight ? quantity * unitWeight : null;
+}
+
+/**
+ * Convert a quantity from one unit to another.
+ * Weight units convert freely; items and packages go through the per-unit weight.
+ * @param unitWeight Grams per item or package of the food being converted
+ * @returns The converted quantity, or null if the units cannot be compared
+ */
+export function convertQuantity(
+  quantity: number,
+  from: QuantityUnit | string,
+  to: QuantityUnit | string,
+  unitWeight?: number | null
+): number | null {
+  if (from === to) {
+    return quantity;
+  }
+
+  const grams = toGrams(quantity, from, unitWeight);
+  if (grams === null) {
+    return null;
+  }
+
+  const gramsPerTarget = GRAMS_PER_UNIT[to] ?? unitWeight;
+  return gramsPerTarget ? grams / gramsPerTarget : null;
+}
+
+/**
+ * Estimate the weight of a quantity in kg, falling back to a typical item weight
+ * when a count unit has no recorded weight
+ */
+export function estimateWeightKg(quantity: number, unit: QuantityUnit | string, unitWeight?: number | null): number {
+  const grams = toGrams(quantity, unit, unitWeight) ?? quantity * DEFAULT_UNIT_WEIGHT_GRAMS;
+  return grams / 1000;
+}
+
+/**
+ * Format a quantity with its unit, dropping needless decimals ("0.5 kg", "2 items")
+ */
+export function formatQuantity(quantity: number, unit: QuantityUnit | string): string {
+  return `${roundQuantity(quantity)} ${unit}`;
+}